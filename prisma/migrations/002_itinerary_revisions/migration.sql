@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ItineraryRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "itineraryId" TEXT NOT NULL,
+    "title" TEXT,
+    "editorData" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "reason" TEXT NOT NULL DEFAULT 'save',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ItineraryRevision_itineraryId_fkey" FOREIGN KEY ("itineraryId") REFERENCES "Itinerary" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ItineraryRevision_itineraryId_createdAt_idx" ON "ItineraryRevision"("itineraryId", "createdAt");
+
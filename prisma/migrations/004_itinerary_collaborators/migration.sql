@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ItineraryCollaborator" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "itineraryId" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'viewer',
+    "invitedById" TEXT,
+    "acceptedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ItineraryCollaborator_itineraryId_fkey" FOREIGN KEY ("itineraryId") REFERENCES "Itinerary" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ItineraryCollaborator_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ItineraryCollaborator_userId_idx" ON "ItineraryCollaborator"("userId");
+
+-- CreateIndex
+CREATE INDEX "ItineraryCollaborator_email_idx" ON "ItineraryCollaborator"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItineraryCollaborator_itineraryId_email_key" ON "ItineraryCollaborator"("itineraryId", "email");
+
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "ItineraryFolder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ItineraryFolder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Itinerary" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "title" TEXT,
+    "editorData" TEXT NOT NULL,
+    "version" TEXT NOT NULL DEFAULT '1.0',
+    "hash" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "interests" JSONB NOT NULL,
+    "travelStyle" TEXT NOT NULL,
+    "additionalNotes" TEXT,
+    "calendarToken" TEXT,
+    "tags" JSONB NOT NULL DEFAULT '[]',
+    "folderId" TEXT,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Itinerary_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Itinerary_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "ItineraryFolder" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Itinerary" ("additionalNotes", "calendarToken", "createdAt", "destination", "editorData", "endDate", "hash", "id", "interests", "startDate", "title", "travelStyle", "updatedAt", "userId", "version") SELECT "additionalNotes", "calendarToken", "createdAt", "destination", "editorData", "endDate", "hash", "id", "interests", "startDate", "title", "travelStyle", "updatedAt", "userId", "version" FROM "Itinerary";
+DROP TABLE "Itinerary";
+ALTER TABLE "new_Itinerary" RENAME TO "Itinerary";
+CREATE UNIQUE INDEX "Itinerary_calendarToken_key" ON "Itinerary"("calendarToken");
+CREATE INDEX "Itinerary_userId_updatedAt_idx" ON "Itinerary"("userId", "updatedAt");
+CREATE INDEX "Itinerary_folderId_idx" ON "Itinerary"("folderId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItineraryFolder_userId_name_key" ON "ItineraryFolder"("userId", "name");
+
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Itinerary" ADD COLUMN "deletedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Itinerary_deletedAt_idx" ON "Itinerary"("deletedAt");
+
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ItineraryTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "sourceItineraryId" TEXT,
+    "editorData" TEXT NOT NULL,
+    "version" TEXT NOT NULL DEFAULT '1.0',
+    "directions" TEXT NOT NULL DEFAULT '[]',
+    "destination" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "interests" JSONB NOT NULL,
+    "travelStyle" TEXT NOT NULL,
+    "additionalNotes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ItineraryTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ItineraryTemplate_userId_idx" ON "ItineraryTemplate"("userId");
+
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ApiUsage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "itineraryId" TEXT,
+    "service" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "model" TEXT,
+    "cacheHit" BOOLEAN NOT NULL DEFAULT false,
+    "promptTokens" INTEGER,
+    "completionTokens" INTEGER,
+    "totalTokens" INTEGER,
+    "estimatedCost" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ApiUsage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ApiUsage_userId_createdAt_idx" ON "ApiUsage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ApiUsage_service_createdAt_idx" ON "ApiUsage"("service", "createdAt");
+
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ItineraryDirections" ADD COLUMN "inputHash" TEXT;
+
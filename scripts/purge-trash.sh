@@ -0,0 +1,24 @@
+#!/bin/sh
+# Permanently deletes itineraries that have been in the trash longer than the retention period.
+# Run it from cron against a running app, e.g. daily:
+#   0 3 * * * APP_URL=https://itera.example.com TRASH_PURGE_SECRET=... /app/scripts/purge-trash.sh
+# Pass a number of days to override TRASH_RETENTION_DAYS for this run.
+set -e
+
+APP_URL="${APP_URL:-http://localhost:3000}"
+
+if [ -z "$TRASH_PURGE_SECRET" ]; then
+  echo "[purge-trash] TRASH_PURGE_SECRET is not set" >&2
+  exit 1
+fi
+
+URL="${APP_URL}/api/trash/purge"
+if [ -n "$1" ]; then
+  URL="${URL}?retentionDays=$1"
+fi
+
+echo "[purge-trash] POST ${URL}"
+curl --fail --silent --show-error -X POST \
+  -H "Authorization: Bearer ${TRASH_PURGE_SECRET}" \
+  "$URL"
+echo
@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+// Minimal webhook receiver for trying out webhooks locally.
+// Prints every delivery and checks its signature:
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs
+// then add http://localhost:4000/ as a webhook in Settings and press "Send test event".
+// Set FAIL_STATUS=500 to reject deliveries and watch them being retried.
+import { createServer } from "node:http";
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+const PORT = Number(process.env.PORT || 4000);
+const SECRET = process.env.WEBHOOK_SECRET;
+const FAIL_STATUS = process.env.FAIL_STATUS ? Number(process.env.FAIL_STATUS) : null;
+const TOLERANCE_SECONDS = 5 * 60;
+
+function verifySignature(header, body) {
+  const parts = Object.fromEntries(
+    (header || "").split(",").map((part) => part.split("=", 2))
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return "missing signature";
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return "stale timestamp";
+
+  const expected = createHmac("sha256", SECRET).update(`${timestamp}.${body}`).digest("hex");
+  const matches =
+    expected.length === parts.v1.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+  return matches ? null : "signature mismatch";
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const event = req.headers["x-itera-event"];
+    const delivery = req.headers["x-itera-delivery"];
+    const problem = SECRET ? verifySignature(req.headers["x-itera-signature"], body) : null;
+
+    console.log(`\n[webhook-receiver] ${event} (delivery ${delivery})`);
+    console.log(
+      SECRET
+        ? `[webhook-receiver] signature: ${problem || "valid"}`
+        : "[webhook-receiver] signature: not checked (WEBHOOK_SECRET unset)"
+    );
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    const status = problem ? 401 : FAIL_STATUS || 200;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ received: status < 300 }));
+  });
+}).listen(PORT, () => {
+  console.log(`[webhook-receiver] listening on http://localhost:${PORT}/`);
+});
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { newItinerarySchema } from "@/app/create-itinerary/types";
+import { dispatchWebhookEvent } from "@/features/data/webhook-service";
+import { checkUsageQuota } from "@/features/data/usage-service";
+import { generateDirectionsWithTimes } from "@/features/directions/generator";
+import type { ItineraryGenerationEvent } from "@/features/generateLLM/types";
+import { runWithUsageContext } from "@/services/logging/usageContext";
+import { streamItinerary } from "@/services/openai/itinerary";
+
+/**
+ * Generates an itinerary and streams progress as newline-delimited JSON
+ * (ItineraryGenerationEvent), ending with either a "complete" or an "error" event
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
+
+    const validationResult = newItinerarySchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map((err) => err.message).join(", ");
+      return NextResponse.json({ error: `Validation failed: ${errors}` }, { status: 400 });
+    }
+
+    const quota = await checkUsageQuota(userId, "openai");
+    if (!quota.success) {
+      return NextResponse.json({ error: quota.error }, { status: 429 });
+    }
+
+    const generationRequest = validationResult.data;
+    const encoder = new TextEncoder();
+    let closed = false; // Cancelled by the client, or closed once generation ends
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (event: ItineraryGenerationEvent) => {
+          // Generation keeps going if the user leaves; there's just nobody to tell
+          if (closed) return;
+          controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+        };
+
+        return runWithUsageContext({ userId }, async () => {
+          try {
+            const generatedItinerary = await streamItinerary(generationRequest, send);
+
+            // Driving routes need every day's final coordinates, so they come last
+            let updatedItinerary = generatedItinerary;
+            try {
+              console.log("🚗 Generating directions for streamed itinerary...");
+              const result = await generateDirectionsWithTimes(generatedItinerary);
+              updatedItinerary = result.updatedItinerary;
+              send({ type: "directions", directions: result.directions });
+            } catch (error) {
+              console.error(
+                "⚠️ Failed to generate directions for itinerary (continuing anyway):",
+                error
+              );
+            }
+
+            // Generation isn't tied to an itinerary yet, so the event carries the trip details
+            await dispatchWebhookEvent(userId, "generation.completed", {
+              generation: {
+                title: updatedItinerary.title,
+                destination: generationRequest.destination,
+                startDate: generationRequest.startDate,
+                endDate: generationRequest.endDate,
+                totalDays: updatedItinerary.totalDays,
+                placeCount: updatedItinerary.days.reduce(
+                  (count, day) => count + day.places.length,
+                  0
+                ),
+              },
+            });
+
+            send({ type: "complete", itinerary: updatedItinerary });
+          } catch (error) {
+            console.error("Error in streamed itinerary generation:", error);
+            const errorMessage =
+              error instanceof Error ? error.message : "Unknown error occurred";
+            send({ type: "error", error: `Failed to generate itinerary: ${errorMessage}` });
+          } finally {
+            if (!closed) {
+              closed = true;
+              controller.close();
+            }
+          }
+        });
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+      },
+    });
+  } catch (error) {
+    console.error("Generate API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to generate itinerary" },
+      { status: 500 }
+    );
+  }
+}
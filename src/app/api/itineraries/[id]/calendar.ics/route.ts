@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCalendarFeed } from "@/features/data/calendar-service";
+import { ICS_MIME_TYPE, toExportFilename } from "@/features/export";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get("token") || "";
+
+    const result = await getCalendarFeed(id, token);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error || "Calendar feed not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(result.data.ics, {
+      status: 200,
+      headers: {
+        "Content-Type": `${ICS_MIME_TYPE}; charset=utf-8`,
+        "Content-Disposition": `inline; filename="${toExportFilename(result.data.title, "ics")}"`,
+        // Calendar apps poll the feed - always serve the latest edits
+        "Cache-Control": "private, no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to generate calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  parseTrashRetentionDays,
+  purgeDeletedItineraries,
+} from "@/features/data/trash-service";
+
+/**
+ * Purges itineraries that outlived the trash retention period
+ * Called by scheduled jobs (scripts/purge-trash.sh), authenticated with TRASH_PURGE_SECRET
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.TRASH_PURGE_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: "Trash purging is not configured" },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const retentionParam = searchParams.get("retentionDays");
+    const retentionDays =
+      retentionParam === null ? undefined : parseTrashRetentionDays(retentionParam);
+
+    if (retentionParam !== null && retentionDays === undefined) {
+      return NextResponse.json(
+        { error: "retentionDays must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    const result = await purgeDeletedItineraries(retentionDays);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error || "Failed to purge trash" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error("Trash purge API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to purge trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiToken } from "@/features/data/api-token-service";
+
+/**
+ * Resolves the user behind the request's `Authorization: Bearer <token>` header
+ * @returns The user id, or a 401 response to return as-is
+ */
+export async function requireApiUser(
+  request: NextRequest
+): Promise<{ userId: string } | { response: NextResponse }> {
+  const header = request.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+
+  const userId = match ? await authenticateApiToken(match[1]) : null;
+  if (!userId) {
+    return {
+      response: NextResponse.json(
+        { error: "A valid personal access token is required" },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+      ),
+    };
+  }
+
+  return { userId };
+}
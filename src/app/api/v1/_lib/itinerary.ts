@@ -0,0 +1,47 @@
+import { ItinerarySummary, LoadItineraryResponse } from "@/features/data/types";
+
+type LoadedItinerary = NonNullable<LoadItineraryResponse["data"]>;
+
+/**
+ * Shapes a list entry for the API; editor data is left out to keep pages small
+ */
+export function toApiItinerarySummary(itinerary: ItinerarySummary) {
+  return {
+    id: itinerary.id,
+    title: itinerary.title,
+    role: itinerary.role,
+    isShared: itinerary.isShared,
+    ownerName: itinerary.ownerName,
+    tags: itinerary.tags,
+    archived: itinerary.archived,
+    tripStatus: itinerary.tripStatus,
+    destination: itinerary.destination,
+    startDate: itinerary.startDate,
+    endDate: itinerary.endDate,
+    interests: itinerary.interests,
+    travelStyle: itinerary.travelStyle,
+    additionalNotes: itinerary.additionalNotes,
+    createdAt: itinerary.createdAt,
+    updatedAt: itinerary.updatedAt,
+  };
+}
+
+/**
+ * Shapes a loaded itinerary for the API; directions are served from their own route
+ */
+export function toApiItinerary(itinerary: LoadedItinerary) {
+  return {
+    id: itinerary.id,
+    title: itinerary.title,
+    role: itinerary.role,
+    hash: itinerary.hash,
+    editorData: itinerary.editorData,
+    destination: itinerary.destination,
+    startDate: itinerary.startDate,
+    endDate: itinerary.endDate,
+    interests: itinerary.interests,
+    travelStyle: itinerary.travelStyle,
+    additionalNotes: itinerary.additionalNotes,
+    updatedAt: itinerary.lastUpdated,
+  };
+}
@@ -0,0 +1,48 @@
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Reads `page` (1-based) and `pageSize` query parameters
+ * @returns The requested page, or an error message for invalid values
+ */
+export function parsePagination(
+  searchParams: URLSearchParams
+): { page: number; pageSize: number } | { error: string } {
+  const page = Number(searchParams.get("page") ?? 1);
+  const pageSize = Number(searchParams.get("pageSize") ?? DEFAULT_PAGE_SIZE);
+
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: "page must be a positive whole number" };
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return { error: `pageSize must be a whole number between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  return { page, pageSize };
+}
+
+/**
+ * Slices one page out of a full list
+ */
+export function paginate<T>(
+  items: T[],
+  page: number,
+  pageSize: number
+): { data: T[]; pagination: Pagination } {
+  return {
+    data: items.slice((page - 1) * pageSize, page * pageSize),
+    pagination: {
+      page,
+      pageSize,
+      total: items.length,
+      totalPages: Math.ceil(items.length / pageSize),
+    },
+  };
+}
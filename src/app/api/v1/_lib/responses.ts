@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+/**
+ * Maps a service error message onto an HTTP error response
+ * Services report failures as messages, so missing and forbidden itineraries are told apart by wording
+ */
+export function serviceErrorResponse(error: string | undefined, fallback: string) {
+  const message = error || fallback;
+
+  if (/not found/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+  if (/permission|only owners/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+/**
+ * Parses and validates a JSON request body against a schema
+ * @returns The parsed body, or a 400 response with a map of dotted field paths to error messages
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(
+  request: NextRequest,
+  schema: T
+): Promise<{ data: z.output<T> } | { response: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      response: NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const result = schema.safeParse(body);
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of result.error.errors) {
+    const path = issue.path.join(".") || "body";
+    // Keep the first error per field
+    if (!fieldErrors[path]) {
+      fieldErrors[path] = issue.message;
+    }
+  }
+
+  return {
+    response: NextResponse.json(
+      { error: "The request body is invalid", fieldErrors },
+      { status: 400 }
+    ),
+  };
+}
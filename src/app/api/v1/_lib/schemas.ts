@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { directionsSchema, editorDataSchema } from "@/features/data/utils/bundle";
+
+const MAX_DIRECTIONS = 100;
+
+const apiDateSchema = z.coerce.date({
+  errorMap: () => ({ message: "Must be a valid date" }),
+});
+
+const itineraryFieldsSchema = z.object({
+  title: z.string().max(200, "Title is too long"),
+  destination: z
+    .string({ required_error: "Destination is required" })
+    .min(1, "Destination is required")
+    .max(100, "Destination is too long"),
+  startDate: apiDateSchema,
+  endDate: apiDateSchema,
+  interests: z.array(z.string()).max(50, "Too many interests"),
+  travelStyle: z.string().max(50, "Travel style is too long"),
+  additionalNotes: z.string().max(1000, "Additional notes are too long").nullable(),
+});
+
+const directionsListSchema = z
+  .array(directionsSchema)
+  .max(MAX_DIRECTIONS, `An itinerary can have at most ${MAX_DIRECTIONS} routes`);
+
+export const createItinerarySchema = itineraryFieldsSchema
+  .partial({ title: true, interests: true, travelStyle: true, additionalNotes: true })
+  .extend({
+    editorData: editorDataSchema.optional(), // Defaults to an empty document
+    directions: directionsListSchema.optional(),
+  })
+  .strict()
+  .refine((body) => body.endDate >= body.startDate, {
+    message: "End date must not be before start date",
+    path: ["endDate"],
+  });
+
+export const updateItinerarySchema = itineraryFieldsSchema
+  .partial()
+  .extend({
+    editorData: editorDataSchema.optional(),
+    // Content hash the new editor data is based on; concurrent edits are merged instead of overwritten
+    baseHash: z.string().optional(),
+  })
+  .strict();
+
+export const replaceDirectionsSchema = z
+  .object({
+    directions: directionsListSchema,
+  })
+  .strict();
+
+export const listItinerariesQuerySchema = z.object({
+  archived: z.enum(["active", "archived", "all"]).optional(),
+  status: z.enum(["upcoming", "ongoing", "past"]).optional(),
+  sortBy: z.enum(["updated", "created", "title", "startDate"]).optional(),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+});
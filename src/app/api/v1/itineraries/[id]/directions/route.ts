@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DirectionsData } from "@/features/directions/types";
+import {
+  loadItinerary,
+  replaceItineraryDirections,
+} from "@/features/data/itinerary-service";
+import { requireApiUser } from "../../../_lib/auth";
+import { parseJsonBody, serviceErrorResponse } from "../../../_lib/responses";
+import { replaceDirectionsSchema } from "../../../_lib/schemas";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Returns the stored routes of an itinerary, one per day
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authResult = await requireApiUser(request);
+    if ("response" in authResult) return authResult.response;
+
+    const { id } = await params;
+    const result = await loadItinerary(authResult.userId, id);
+
+    if (!result.success || !result.data) {
+      return serviceErrorResponse(result.error, "Itinerary not found");
+    }
+
+    return NextResponse.json({ data: result.data.directions });
+  } catch (error) {
+    console.error("Itinerary directions API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to load directions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replaces every stored route of an itinerary; an empty list clears them
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authResult = await requireApiUser(request);
+    if ("response" in authResult) return authResult.response;
+
+    const body = await parseJsonBody(request, replaceDirectionsSchema);
+    if ("response" in body) return body.response;
+
+    const { id } = await params;
+    const directions = body.data.directions as unknown as DirectionsData[];
+    const result = await replaceItineraryDirections(authResult.userId, id, directions);
+
+    if (!result.success) {
+      return serviceErrorResponse(result.error, "Failed to save directions");
+    }
+
+    return NextResponse.json({ data: directions });
+  } catch (error) {
+    console.error("Itinerary directions API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to save directions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteItinerary,
+  loadItinerary,
+  saveItinerary,
+  updateItineraryDetails,
+} from "@/features/data/itinerary-service";
+import { hasRole } from "@/features/data/collaborator-service";
+import { requireApiUser } from "../../_lib/auth";
+import { parseJsonBody, serviceErrorResponse } from "../../_lib/responses";
+import { updateItinerarySchema } from "../../_lib/schemas";
+import { toApiItinerary } from "../../_lib/itinerary";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Returns an itinerary the token owner can view
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authResult = await requireApiUser(request);
+    if ("response" in authResult) return authResult.response;
+
+    const { id } = await params;
+    const result = await loadItinerary(authResult.userId, id);
+
+    if (!result.success || !result.data) {
+      return serviceErrorResponse(result.error, "Itinerary not found");
+    }
+
+    return NextResponse.json({ data: toApiItinerary(result.data) });
+  } catch (error) {
+    console.error("Itinerary API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to load itinerary" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Partially updates an itinerary; only the fields present in the body change
+ * New editor data is saved like an editor autosave, so passing `baseHash` merges
+ * concurrent edits and the response reports any conflicts
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authResult = await requireApiUser(request);
+    if ("response" in authResult) return authResult.response;
+    const { userId } = authResult;
+
+    const body = await parseJsonBody(request, updateItinerarySchema);
+    if ("response" in body) return body.response;
+
+    const { id } = await params;
+    const existing = await loadItinerary(userId, id);
+    if (!existing.success || !existing.data) {
+      return serviceErrorResponse(existing.error, "Itinerary not found");
+    }
+    if (!hasRole(existing.data.role, "editor")) {
+      return serviceErrorResponse(
+        "You do not have permission to edit this itinerary",
+        "Forbidden"
+      );
+    }
+
+    const { editorData, baseHash, additionalNotes, ...details } = body.data;
+
+    const startDate = details.startDate || existing.data.startDate;
+    const endDate = details.endDate || existing.data.endDate;
+    if (startDate && endDate && endDate < startDate) {
+      return NextResponse.json(
+        {
+          error: "The request body is invalid",
+          fieldErrors: { endDate: "End date must not be before start date" },
+        },
+        { status: 400 }
+      );
+    }
+
+    let conflictReport;
+    if (editorData) {
+      const saveResult = await saveItinerary(userId, {
+        id,
+        title: details.title ?? existing.data.title,
+        editorData,
+        baseHash,
+      });
+      if (!saveResult.success) {
+        return serviceErrorResponse(saveResult.error, "Failed to save itinerary");
+      }
+      conflictReport = saveResult.conflictReport;
+    }
+
+    // null clears the notes
+    const updates = {
+      ...details,
+      additionalNotes: additionalNotes === null ? "" : additionalNotes,
+    };
+    if (Object.values(updates).some((value) => value !== undefined)) {
+      const updateResult = await updateItineraryDetails(userId, id, updates);
+      if (!updateResult.success) {
+        return serviceErrorResponse(updateResult.error, "Failed to update itinerary");
+      }
+    }
+
+    const result = await loadItinerary(userId, id);
+    if (!result.success || !result.data) {
+      return serviceErrorResponse(result.error, "Itinerary not found");
+    }
+
+    return NextResponse.json({
+      data: toApiItinerary(result.data),
+      ...(conflictReport && {
+        conflicts: conflictReport.conflicts,
+        autoMergedCount: conflictReport.autoMergedCount,
+      }),
+    });
+  } catch (error) {
+    console.error("Itinerary API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to update itinerary" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Moves an itinerary to the trash; only owners can delete
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authResult = await requireApiUser(request);
+    if ("response" in authResult) return authResult.response;
+
+    const { id } = await params;
+    const result = await deleteItinerary(authResult.userId, id);
+
+    if (!result.success) {
+      return serviceErrorResponse(result.error, "Failed to delete itinerary");
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Itinerary API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to delete itinerary" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DirectionsData } from "@/features/directions/types";
+import {
+  listItineraries,
+  loadItinerary,
+  saveItinerary,
+} from "@/features/data/itinerary-service";
+import { requireApiUser } from "../_lib/auth";
+import { paginate, parsePagination } from "../_lib/pagination";
+import { parseJsonBody, serviceErrorResponse } from "../_lib/responses";
+import { createItinerarySchema, listItinerariesQuerySchema } from "../_lib/schemas";
+import { toApiItinerary, toApiItinerarySummary } from "../_lib/itinerary";
+
+/**
+ * Lists the token owner's itineraries, including those shared with them, one page at a time
+ * Query: page, pageSize, archived, status, sortBy, sortOrder and repeated `tag` filters
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireApiUser(request);
+    if ("response" in authResult) return authResult.response;
+
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePagination(searchParams);
+    if ("error" in pagination) {
+      return NextResponse.json({ error: pagination.error }, { status: 400 });
+    }
+
+    const query = listItinerariesQuerySchema.safeParse(
+      Object.fromEntries(
+        ["archived", "status", "sortBy", "sortOrder"]
+          .filter((key) => searchParams.has(key))
+          .map((key) => [key, searchParams.get(key)])
+      )
+    );
+    if (!query.success) {
+      const issue = query.error.errors[0];
+      return NextResponse.json(
+        { error: `Invalid ${issue.path.join(".")}: ${issue.message}` },
+        { status: 400 }
+      );
+    }
+
+    const tags = searchParams.getAll("tag");
+    const result = await listItineraries(authResult.userId, {
+      ...query.data,
+      tags: tags.length > 0 ? tags : undefined,
+    });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error || "Failed to list itineraries" },
+        { status: 500 }
+      );
+    }
+
+    const page = paginate(result.data, pagination.page, pagination.pageSize);
+    return NextResponse.json({
+      data: page.data.map(toApiItinerarySummary),
+      pagination: page.pagination,
+    });
+  } catch (error) {
+    console.error("Itineraries API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to list itineraries" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Creates an itinerary owned by the token owner
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireApiUser(request);
+    if ("response" in authResult) return authResult.response;
+
+    const body = await parseJsonBody(request, createItinerarySchema);
+    if ("response" in body) return body.response;
+
+    const { editorData, directions, additionalNotes, ...metadata } = body.data;
+
+    const saveResult = await saveItinerary(authResult.userId, {
+      ...metadata,
+      editorData: editorData || { time: Date.now(), blocks: [] },
+      directions: directions as unknown as DirectionsData[] | undefined,
+      additionalNotes: additionalNotes || undefined,
+    });
+
+    if (!saveResult.success) {
+      return serviceErrorResponse(saveResult.error, "Failed to create itinerary");
+    }
+
+    const loadResult = await loadItinerary(authResult.userId, saveResult.id);
+    if (!loadResult.success || !loadResult.data) {
+      return serviceErrorResponse(loadResult.error, "Failed to load the created itinerary");
+    }
+
+    return NextResponse.json(
+      { data: toApiItinerary(loadResult.data) },
+      {
+        status: 201,
+        headers: { Location: `/api/v1/itineraries/${saveResult.id}` },
+      }
+    );
+  } catch (error) {
+    console.error("Itineraries API error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to create itinerary" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { auth } from "@/lib/auth";
+import { dispatchWebhookEvent } from "@/features/data/webhook-service";
+import { checkUsageQuota } from "@/features/data/usage-service";
+import { runWithUsageContext } from "@/services/logging/usageContext";
 import { newItinerarySchema, type NewItineraryForm } from "../types";
 import {
   generateItinerary,
@@ -8,6 +12,7 @@ import {
   type GeneratedItinerary,
 } from "@/services/openai/itinerary";
 import type { DirectionsData } from "@/features/directions/types";
+import { getRequiredLLMEnvVars } from "@/services/llm";
 
 export interface ItineraryGenerationResult {
   success: boolean;
@@ -20,6 +25,17 @@ export async function generateItineraryAction(
   formData: NewItineraryForm
 ): Promise<ItineraryGenerationResult> {
   try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, error: "Authentication required" };
+    }
+    const userId = session.user.id;
+
+    const quota = await checkUsageQuota(userId, "openai");
+    if (!quota.success) {
+      return { success: false, error: quota.error };
+    }
+
     // Validate the form data using Zod schema
     const validationResult = newItinerarySchema.safeParse(formData);
 
@@ -53,7 +69,9 @@ export async function generateItineraryAction(
     };
 
     // Generate the itinerary using OpenAI
-    const generatedItinerary = await generateItinerary(request);
+    const generatedItinerary = await runWithUsageContext({ userId }, () =>
+      generateItinerary(request)
+    );
 
     // Generate directions for the itinerary and update driving times
     let directions: DirectionsData[] = [];
@@ -78,6 +96,18 @@ export async function generateItineraryAction(
       // Don't fail the entire operation if directions fail
     }
 
+    // Generation isn't tied to an itinerary yet, so the event carries the trip details
+    await dispatchWebhookEvent(userId, "generation.completed", {
+      generation: {
+        title: updatedItinerary.title,
+        destination,
+        startDate,
+        endDate,
+        totalDays: updatedItinerary.totalDays,
+        placeCount: updatedItinerary.days.reduce((count, day) => count + day.places.length, 0),
+      },
+    });
+
     // Revalidate the itineraries page to ensure fresh data
     revalidatePath("/itineraries");
 
@@ -105,7 +135,7 @@ export async function validateEnvironment(): Promise<{
   valid: boolean;
   missingVars: string[];
 }> {
-  const requiredVars = ["OPENAI_API_KEY"];
+  const requiredVars = getRequiredLLMEnvVars();
   const missingVars: string[] = [];
 
   for (const varName of requiredVars) {
@@ -0,0 +1,85 @@
+"use client";
+
+import { useMemo } from "react";
+import dynamic from "next/dynamic";
+import { SparklesIcon } from "@heroicons/react/24/outline";
+import { ItineraryProvider } from "@/contexts/ItineraryContext";
+import type { GeneratedItinerary } from "@/features/generateLLM/types";
+import { convertItineraryToEditorData } from "../utils/editorConverter";
+
+const ItineraryEditor = dynamic(
+  () => import("@/features/editor/components/ItineraryEditor"),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    ),
+  }
+);
+
+interface GenerationPreviewProps {
+  itinerary: GeneratedItinerary;
+  message: string;
+}
+
+/**
+ * Read-only view of an itinerary while it's being generated
+ * Days appear as the model writes them; places show as loading until they're looked up
+ */
+export default function GenerationPreview({
+  itinerary,
+  message,
+}: GenerationPreviewProps) {
+  const placeCount = itinerary.days.reduce((count, day) => count + day.places.length, 0);
+  const pendingCount = itinerary.days.reduce(
+    (count, day) => count + day.places.filter((place) => place.status === "loading").length,
+    0
+  );
+  const settledDays = itinerary.days.filter((day) =>
+    day.places.every((place) => place.status !== "loading")
+  ).length;
+
+  const editorData = useMemo(
+    () =>
+      convertItineraryToEditorData(
+        { ...itinerary, totalDays: itinerary.days.length },
+        true
+      ),
+    [itinerary]
+  );
+
+  // The editor only reads its data on mount, so remount it when a day arrives or
+  // finishes loading rather than on every single place
+  const editorKey = `${itinerary.days.length}-${settledDays}`;
+
+  // A separate read-only provider keeps the partial itinerary out of the auto-save
+  return (
+    <ItineraryProvider readOnly>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex items-center mb-6">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mr-4 flex-shrink-0">
+              <SparklesIcon className="h-6 w-6 text-blue-600 animate-pulse" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-slate-900 truncate">
+                {itinerary.title}
+              </h2>
+              <p className="text-sm text-slate-600">{message}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                {itinerary.days.length} {itinerary.days.length === 1 ? "day" : "days"} planned ·{" "}
+                {placeCount - pendingCount} of {placeCount} places found
+              </p>
+            </div>
+          </div>
+
+          <div className="card p-4">
+            <ItineraryEditor key={editorKey} data={editorData} readOnly />
+          </div>
+        </div>
+      </div>
+    </ItineraryProvider>
+  );
+}
@@ -9,6 +9,10 @@ import {
   useCreateItineraryForm,
 } from "@/contexts/CreateItineraryContext";
 import { convertItineraryToEditorData } from "./utils/editorConverter";
+import { streamItineraryGeneration } from "./utils/generationStream";
+import GenerationPreview from "./components/GenerationPreview";
+import type { GeneratedItinerary } from "@/features/generateLLM/types";
+import type { DirectionsData } from "@/features/directions/types";
 import {
   PlusIcon,
   CalendarIcon,
@@ -35,6 +39,7 @@ function NewItineraryForm() {
   const { formData, updateFormData, isFormDirty } = useCreateItineraryForm();
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("");
+  const [preview, setPreview] = useState<GeneratedItinerary | null>(null);
   const [errors, setErrors] = useState<FormErrors>({});
   const [newInterest, setNewInterest] = useState("");
 
@@ -107,22 +112,76 @@ function NewItineraryForm() {
       setIsLoading(true);
       setLoadingMessage("Creating your personalized itinerary...");
 
-      // Import server action dynamically
-      const { generateItineraryAction } = await import("./_actions/generate");
-
-      // Call the server action
-      const actionResult = await generateItineraryAction(result.data);
+      setPreview(null);
+
+      // Days are previewed as they stream in; the final itinerary arrives with "complete"
+      const outcome: {
+        itinerary?: GeneratedItinerary;
+        directions?: DirectionsData[];
+        error?: string;
+      } = {};
+
+      await streamItineraryGeneration(result.data, (event) => {
+        switch (event.type) {
+          case "title":
+            setPreview({
+              title: event.title,
+              destination: result.data.destination,
+              totalDays: 0,
+              days: [],
+            });
+            break;
+          case "day": {
+            // Places stay "loading" until their Google Places lookup comes back
+            const day = {
+              ...event.day,
+              places: event.day.places.map((place) => ({
+                ...place,
+                status: place.status || ("loading" as const),
+              })),
+            };
+            setLoadingMessage(`Planned day ${day.dayNumber}: ${day.title}`);
+            setPreview((prev) => {
+              if (!prev) return prev;
+              const days = [...prev.days];
+              days[event.dayIndex] = day;
+              return { ...prev, days };
+            });
+            break;
+          }
+          case "place":
+            setPreview((prev) => {
+              const day = prev?.days[event.dayIndex];
+              if (!prev || !day) return prev;
+              const places = [...day.places];
+              places[event.placeIndex] = event.place;
+              const days = [...prev.days];
+              days[event.dayIndex] = { ...day, places };
+              return { ...prev, days };
+            });
+            break;
+          case "directions":
+            outcome.directions = event.directions;
+            setLoadingMessage("Calculated driving routes");
+            break;
+          case "complete":
+            outcome.itinerary = event.itinerary;
+            break;
+          case "error":
+            outcome.error = event.error;
+            break;
+        }
+      });
 
-      if (actionResult.success && actionResult.data) {
-        console.log("Generated itinerary:", actionResult.data);
+      const generatedItinerary = outcome.itinerary;
+      const directions = outcome.directions;
 
-        if (actionResult.directions && actionResult.directions.length > 0) {
-          setLoadingMessage("Calculating driving routes...");
-        }
+      if (generatedItinerary) {
+        console.log("Generated itinerary:", generatedItinerary);
 
         // Convert to editor data format
-        console.log("🔍 BEFORE CONVERSION - Sample place data:", actionResult.data.days[0]?.places[0]);
-        const editorData = convertItineraryToEditorData(actionResult.data, true);
+        console.log("🔍 BEFORE CONVERSION - Sample place data:", generatedItinerary.days[0]?.places[0]);
+        const editorData = convertItineraryToEditorData(generatedItinerary, true);
 
         // Store form metadata in context
         setFormMetadata({
@@ -136,10 +195,10 @@ function NewItineraryForm() {
 
         setEditorData(editorData);
 
-        if (actionResult.directions) {
-          setDirectionsData(actionResult.directions);
+        if (directions) {
+          setDirectionsData(directions);
           console.log(
-            `✅ Stored ${actionResult.directions.length} direction routes in context`
+            `✅ Stored ${directions.length} direction routes in context`
           );
         }
 
@@ -159,7 +218,7 @@ function NewItineraryForm() {
           const { generateItinerarySlug } = await import("@/utils/itinerary");
           
           // Generate slug from the itinerary data
-          const title = actionResult.data.title || "New Itinerary";
+          const title = generatedItinerary.title || "New Itinerary";
           const slug = generateItinerarySlug(title, state.currentItineraryId, editorData);
           
           console.log("✅ Generated slug for new itinerary:", slug);
@@ -190,22 +249,33 @@ function NewItineraryForm() {
         }
       } else {
         setErrors({
-          submit: actionResult.error || "Failed to generate itinerary",
+          submit: outcome.error || "Failed to generate itinerary",
         });
         setIsLoading(false);
         setLoadingMessage("");
+        setPreview(null);
       }
     } catch (error) {
       console.error("Error generating itinerary:", error);
-      setErrors({ submit: "Failed to generate itinerary. Please try again." });
+      setErrors({
+        submit:
+          error instanceof Error
+            ? error.message
+            : "Failed to generate itinerary. Please try again.",
+      });
       setIsLoading(false);
       setLoadingMessage("");
+      setPreview(null);
     }
   };
 
   // Get today's date for date input min values
   const today = useMemo(() => new Date().toISOString().split("T")[0], []);
 
+  if (isLoading && preview && preview.days.length > 0) {
+    return <GenerationPreview itinerary={preview} message={loadingMessage} />;
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center">
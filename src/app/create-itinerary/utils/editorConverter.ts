@@ -98,7 +98,7 @@ export function convertItineraryToEditorData(
       const placeBlockId = crypto.randomUUID();
       const placeBlock: EditorBlockData = {
         id: placeBlockId,
-        type: "place",
+        type: place.type === "hotel" ? "hotel" : "place",
         data: {
           id: placeBlockId,
           uid: `place_${day.dayNumber}_${i}`,
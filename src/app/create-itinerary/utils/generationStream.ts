@@ -0,0 +1,42 @@
+import type { ItineraryGenerationEvent } from "@/features/generateLLM/types";
+import type { NewItineraryForm } from "../types";
+
+/**
+ * Starts a streamed generation and calls onEvent for every progress event
+ * Resolves when the stream ends; request failures (auth, validation, quota) throw
+ */
+export async function streamItineraryGeneration(
+  formData: NewItineraryForm,
+  onEvent: (event: ItineraryGenerationEvent) => void
+): Promise<void> {
+  const response = await fetch("/api/generate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(formData),
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || "Failed to generate itinerary");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are newline-delimited; keep a trailing partial line for the next read
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line) as ItineraryGenerationEvent);
+      }
+    }
+
+    if (done) break;
+  }
+}
@@ -0,0 +1,107 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { checkUsageQuota } from "@/features/data/usage-service";
+import { runWithUsageContext } from "@/services/logging/usageContext";
+import { textImportSchema, type TextImportForm } from "../types";
+import { parseItineraryText } from "@/features/generateLLM/textParser";
+import { enrichPlacesWithGoogleData } from "@/features/generateLLM/enrichment";
+import type { GeneratedItinerary } from "@/features/generateLLM/types";
+import type { DirectionsData } from "@/features/directions/types";
+
+export interface TextImportPreviewResult {
+  success: boolean;
+  data?: GeneratedItinerary;
+  directions?: DirectionsData[];
+  error?: string;
+}
+
+/**
+ * Parses pasted notes or Markdown into an itinerary and resolves its places
+ * Nothing is saved - the client shows a preview and creates the itinerary on confirmation
+ */
+export async function previewTextImportAction(
+  formData: TextImportForm
+): Promise<TextImportPreviewResult> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, error: "Authentication required" };
+    }
+    const userId = session.user.id;
+
+    // Places and directions are looked up on Google
+    const quota = await checkUsageQuota(userId, "google");
+    if (!quota.success) {
+      return { success: false, error: quota.error };
+    }
+
+    const validationResult = textImportSchema.safeParse(formData);
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors
+        .map((err) => err.message)
+        .join(", ");
+      return {
+        success: false,
+        error: `Validation failed: ${errors}`,
+      };
+    }
+
+    const { text, destination, startDate } = validationResult.data;
+
+    console.log("📥 Parsing imported itinerary text:", text.length, "characters");
+    const parsedItinerary = parseItineraryText(text, {
+      destination: destination || undefined,
+      startDate: startDate || undefined,
+    });
+
+    const placeCount = parsedItinerary.days.reduce(
+      (count, day) => count + day.places.length,
+      0
+    );
+    if (placeCount === 0) {
+      return {
+        success: false,
+        error:
+          "No places found. Use headings or \"Day 1\" lines for days and bullet points or bold text for places.",
+      };
+    }
+
+    const { updatedItinerary, directions } = await runWithUsageContext({ userId }, async () => {
+      // Resolve places with Google Places, filling in coordinates the text didn't have
+      const enrichedItinerary = await enrichPlacesWithGoogleData(parsedItinerary);
+
+      try {
+        console.log("🚗 Generating directions for imported itinerary...");
+        const { generateDirectionsWithTimes } = await import("@/features/directions/generator");
+        return await generateDirectionsWithTimes(enrichedItinerary);
+      } catch (error) {
+        console.error(
+          "⚠️ Failed to generate directions for imported itinerary (continuing anyway):",
+          error
+        );
+        return { updatedItinerary: enrichedItinerary, directions: [] as DirectionsData[] };
+      }
+    });
+
+    console.log(
+      `✅ Import preview ready: ${updatedItinerary.days.length} days, ${placeCount} places`
+    );
+
+    return {
+      success: true,
+      data: updatedItinerary,
+      directions,
+    };
+  } catch (error) {
+    console.error("Error in previewTextImportAction:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    return {
+      success: false,
+      error: `Failed to import itinerary: ${errorMessage}`,
+    };
+  }
+}
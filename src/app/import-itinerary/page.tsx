@@ -0,0 +1,478 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useItinerary } from "@/contexts/ItineraryContext";
+import { AuthProtected } from "@/features/auth/components/AuthProtected";
+import { saveItinerary, importItineraryBundle } from "@/features/data";
+import { generateItinerarySlug } from "@/utils/itinerary";
+import { convertItineraryToEditorData } from "@/app/create-itinerary/utils/editorConverter";
+import type { GeneratedItinerary, PlaceLocation } from "@/features/generateLLM/types";
+import type { DirectionsData } from "@/features/directions/types";
+import {
+  DocumentArrowUpIcon,
+  MapPinIcon,
+  CalendarIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  ArrowLeftIcon,
+  ArchiveBoxArrowDownIcon,
+} from "@heroicons/react/24/outline";
+import { textImportSchema, MAX_IMPORT_TEXT_LENGTH, type TextImportForm } from "./types";
+
+const PLACEHOLDER = `# Weekend in Lisbon
+
+## Day 1 - Alfama
+- **Castelo de São Jorge** - views over the old town
+- Miradouro de Santa Luzia
+- Hotel: Memmo Alfama
+
+## Day 2 - Belém
+- Jerónimos Monastery (38.6979, -9.2068)
+- Pastéis de Belém`;
+
+function isUnresolvedPlace(place: PlaceLocation): boolean {
+  return place.hasCoordinates === false;
+}
+
+function ImportItineraryForm() {
+  const router = useRouter();
+  const { loadItinerary } = useItinerary();
+  const [formData, setFormData] = useState<TextImportForm>({
+    text: "",
+    destination: "",
+    startDate: "",
+  });
+  const [preview, setPreview] = useState<GeneratedItinerary | null>(null);
+  const [directions, setDirections] = useState<DirectionsData[]>([]);
+  const [keepUnresolved, setKeepUnresolved] = useState(true);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+  const [bundleFieldErrors, setBundleFieldErrors] = useState<
+    Record<string, string>
+  >({});
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > MAX_IMPORT_TEXT_LENGTH * 4) {
+      setError("The file is too large to import");
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      setFormData((prev) => ({ ...prev, text }));
+      setError(null);
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      setError("Failed to read the file");
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const handleBundleFileChange = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setBundleError(null);
+    setBundleFieldErrors({});
+
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(await file.text());
+    } catch (err) {
+      console.error("Error reading backup file:", err);
+      setBundleError("This file is not valid JSON");
+      return;
+    }
+
+    try {
+      setIsRestoring(true);
+      const response = await importItineraryBundle(bundle);
+
+      if (!response.success || !response.data) {
+        setBundleError(response.error || "Failed to import backup");
+        setBundleFieldErrors(response.fieldErrors || {});
+        setIsRestoring(false);
+        return;
+      }
+
+      console.log("✅ Itinerary restored from backup:", response.data.id);
+      await loadItinerary(response.data.id);
+      router.push(
+        `/editor/${generateItinerarySlug(response.data.title || "untitled", response.data.id)}`
+      );
+      // Don't reset restoring state - let the redirect happen
+    } catch (err) {
+      console.error("Error importing backup:", err);
+      setBundleError("Failed to import backup. Please try again.");
+      setIsRestoring(false);
+    }
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const result = textImportSchema.safeParse(formData);
+    if (!result.success) {
+      setError(result.error.errors[0]?.message || "Invalid input");
+      return;
+    }
+
+    try {
+      setIsPreviewing(true);
+
+      // Import server action dynamically
+      const { previewTextImportAction } = await import("./_actions/import");
+      const actionResult = await previewTextImportAction(result.data);
+
+      if (actionResult.success && actionResult.data) {
+        setPreview(actionResult.data);
+        setDirections(actionResult.directions || []);
+      } else {
+        setError(actionResult.error || "Failed to import itinerary");
+      }
+    } catch (err) {
+      console.error("Error previewing import:", err);
+      setError("Failed to import itinerary. Please try again.");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!preview) return;
+
+    try {
+      setIsCreating(true);
+      setError(null);
+
+      const itinerary: GeneratedItinerary = keepUnresolved
+        ? preview
+        : {
+            ...preview,
+            days: preview.days.map((day) => ({
+              ...day,
+              places: day.places.filter((place) => !isUnresolvedPlace(place)),
+            })),
+          };
+
+      const editorData = convertItineraryToEditorData(itinerary, true);
+      const dates = itinerary.days
+        .map((day) => day.date)
+        .filter(Boolean)
+        .sort();
+
+      const response = await saveItinerary({
+        title: itinerary.title,
+        editorData,
+        directions,
+        destination: itinerary.destination,
+        startDate: dates[0] ? new Date(dates[0]) : undefined,
+        endDate: dates.length ? new Date(dates[dates.length - 1]) : undefined,
+      });
+
+      if (!response.success || !response.id) {
+        setError(response.error || "Failed to create itinerary");
+        setIsCreating(false);
+        return;
+      }
+
+      console.log("✅ Imported itinerary created:", response.id);
+      await loadItinerary(response.id);
+      router.push(
+        `/editor/${generateItinerarySlug(itinerary.title, response.id, editorData)}`
+      );
+      // Don't reset creating state - let the redirect happen
+    } catch (err) {
+      console.error("Error creating imported itinerary:", err);
+      setError("Failed to create itinerary. Please try again.");
+      setIsCreating(false);
+    }
+  };
+
+  const allPlaces = preview?.days.flatMap((day) => day.places) || [];
+  const unresolvedPlaces = allPlaces.filter(isUnresolvedPlace);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
+            <DocumentArrowUpIcon className="h-8 w-8 text-blue-600" />
+          </div>
+          <h1 className="text-3xl font-bold text-slate-900 mb-4">
+            Import Itinerary
+          </h1>
+          <p className="text-lg text-slate-600">
+            Paste your trip notes or load a Markdown file and we&apos;ll turn
+            them into an itinerary
+          </p>
+        </div>
+
+        {!preview ? (
+          <div className="card p-8 max-w-2xl mx-auto">
+            <form onSubmit={handlePreview} className="space-y-6">
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label
+                    htmlFor="import-text"
+                    className="text-lg font-medium text-slate-900"
+                  >
+                    Notes *
+                  </label>
+                  <label className="text-sm text-blue-600 hover:text-blue-700 cursor-pointer">
+                    Choose file…
+                    <input
+                      type="file"
+                      accept=".md,.markdown,.txt,text/plain,text/markdown"
+                      onChange={handleFileChange}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+                <textarea
+                  id="import-text"
+                  value={formData.text}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, text: e.target.value }))
+                  }
+                  rows={14}
+                  placeholder={PLACEHOLDER}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                />
+                <p className="mt-2 text-sm text-slate-500">
+                  Headings or &quot;Day 1&quot; lines start a day; bullet points
+                  or bold text become places. Coordinates are optional.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label
+                    htmlFor="import-destination"
+                    className="flex items-center text-sm font-medium text-slate-900 mb-2"
+                  >
+                    <MapPinIcon className="h-4 w-4 mr-2 text-slate-600" />
+                    Destination
+                  </label>
+                  <input
+                    id="import-destination"
+                    type="text"
+                    value={formData.destination}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        destination: e.target.value,
+                      }))
+                    }
+                    placeholder="Helps locate places, e.g. Lisbon"
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="import-start-date"
+                    className="flex items-center text-sm font-medium text-slate-900 mb-2"
+                  >
+                    <CalendarIcon className="h-4 w-4 mr-2 text-slate-600" />
+                    Start Date
+                  </label>
+                  <input
+                    id="import-start-date"
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        startDate: e.target.value,
+                      }))
+                    }
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <button
+                type="submit"
+                disabled={isPreviewing}
+                className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {isPreviewing ? "Locating places..." : "Preview import"}
+              </button>
+            </form>
+
+            {/* Backup restore */}
+            <div className="mt-8 pt-6 border-t border-slate-200">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <ArchiveBoxArrowDownIcon className="h-5 w-5 text-slate-600 mr-2" />
+                  <div>
+                    <p className="text-sm font-medium text-slate-900">
+                      Restore from backup
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      Import a .json backup exported from an itinerary
+                    </p>
+                  </div>
+                </div>
+                <label
+                  className={`px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 transition-colors cursor-pointer ${
+                    isRestoring ? "opacity-50 pointer-events-none" : ""
+                  }`}
+                >
+                  {isRestoring ? "Importing..." : "Choose backup…"}
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleBundleFileChange}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+              {bundleError && (
+                <div className="mt-3 text-sm text-red-600">
+                  <p>{bundleError}</p>
+                  {Object.keys(bundleFieldErrors).length > 0 && (
+                    <ul className="mt-1 list-disc list-inside text-xs">
+                      {Object.entries(bundleFieldErrors).map(
+                        ([field, message]) => (
+                          <li key={field}>
+                            <span className="font-mono">{field}</span>:{" "}
+                            {message}
+                          </li>
+                        )
+                      )}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="card p-8 max-w-2xl mx-auto space-y-6">
+            <div>
+              <h2 className="text-xl font-semibold text-slate-900">
+                {preview.title}
+              </h2>
+              <p className="text-sm text-slate-600">
+                {preview.days.length} days • {allPlaces.length} places
+                {unresolvedPlaces.length > 0 &&
+                  ` • ${unresolvedPlaces.length} unresolved`}
+              </p>
+            </div>
+
+            {unresolvedPlaces.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                <div className="flex items-center mb-2">
+                  <ExclamationTriangleIcon className="h-5 w-5 text-amber-600 mr-2" />
+                  <h3 className="text-sm font-medium text-amber-900">
+                    We couldn&apos;t locate these places
+                  </h3>
+                </div>
+                <ul className="text-sm text-amber-800 list-disc list-inside mb-3">
+                  {unresolvedPlaces.map((place, index) => (
+                    <li key={`${place.name}-${index}`}>{place.name}</li>
+                  ))}
+                </ul>
+                <label className="flex items-center text-sm text-amber-900">
+                  <input
+                    type="checkbox"
+                    checked={keepUnresolved}
+                    onChange={(e) => setKeepUnresolved(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Keep them as free-text places you can search for later
+                </label>
+              </div>
+            )}
+
+            <div className="space-y-4 max-h-96 overflow-y-auto">
+              {preview.days.map((day) => (
+                <div key={day.dayNumber}>
+                  <h3 className="text-sm font-semibold text-slate-900">
+                    Day {day.dayNumber}: {day.title}
+                    {day.date && (
+                      <span className="ml-2 font-normal text-slate-500">
+                        {new Date(day.date).toLocaleDateString()}
+                      </span>
+                    )}
+                  </h3>
+                  <ul className="mt-1 space-y-1">
+                    {day.places.map((place, index) => (
+                      <li
+                        key={`${place.name}-${index}`}
+                        className="flex items-center text-sm text-slate-700"
+                      >
+                        {isUnresolvedPlace(place) ? (
+                          <ExclamationTriangleIcon className="h-4 w-4 text-amber-500 mr-2 flex-shrink-0" />
+                        ) : (
+                          <CheckCircleIcon className="h-4 w-4 text-green-600 mr-2 flex-shrink-0" />
+                        )}
+                        <span className="truncate">{place.name}</span>
+                        {place.type === "hotel" && (
+                          <span className="ml-2 text-xs text-slate-500">
+                            Hotel
+                          </span>
+                        )}
+                        {place.address && (
+                          <span className="ml-2 text-xs text-slate-400 truncate">
+                            {place.address}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                    {day.places.length === 0 && (
+                      <li className="text-sm text-slate-400">No places</li>
+                    )}
+                  </ul>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setPreview(null)}
+                disabled={isCreating}
+                className="flex items-center px-4 py-3 border border-slate-300 rounded-lg text-slate-700 font-medium hover:bg-slate-50 transition-colors disabled:opacity-50"
+              >
+                <ArrowLeftIcon className="h-4 w-4 mr-2" />
+                Back
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isCreating}
+                className="flex-1 bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {isCreating ? "Creating itinerary..." : "Create itinerary"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ImportItinerary() {
+  return (
+    <AuthProtected>
+      <ImportItineraryForm />
+    </AuthProtected>
+  );
+}
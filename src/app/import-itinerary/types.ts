@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export const MAX_IMPORT_TEXT_LENGTH = 50000;
+
+// Zod schema for the text import form
+export const textImportSchema = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, "Paste your notes or choose a file to import")
+    .max(MAX_IMPORT_TEXT_LENGTH, "The text is too long to import"),
+  destination: z.string().max(100, "Destination is too long").optional(),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date")
+    .optional()
+    .or(z.literal("")),
+});
+
+export type TextImportForm = z.infer<typeof textImportSchema>;
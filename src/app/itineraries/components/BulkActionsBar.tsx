@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import {
+  TagIcon,
+  FolderIcon,
+  ArchiveBoxIcon,
+  ArchiveBoxXMarkIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import type {
+  ItineraryFolderSummary,
+  OrganizeItinerariesRequest,
+} from "@/features/data";
+
+type BulkChange = Omit<OrganizeItinerariesRequest, "itineraryIds">;
+
+interface BulkActionsBarProps {
+  selectedCount: number;
+  folders: ItineraryFolderSummary[];
+  availableTags: string[];
+  isApplying: boolean;
+  onApply: (change: BulkChange) => void;
+  onCreateFolder: (name: string) => Promise<ItineraryFolderSummary | null>;
+  onClear: () => void;
+}
+
+const NEW_FOLDER_OPTION = "__new__";
+const NO_FOLDER_OPTION = "__none__";
+
+export default function BulkActionsBar({
+  selectedCount,
+  folders,
+  availableTags,
+  isApplying,
+  onApply,
+  onCreateFolder,
+  onClear,
+}: BulkActionsBarProps) {
+  const [tagInput, setTagInput] = useState("");
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim();
+    if (!tag) return;
+    onApply({ addTags: [tag] });
+    setTagInput("");
+  };
+
+  const handleMove = async (value: string) => {
+    if (!value) return;
+
+    if (value === NO_FOLDER_OPTION) {
+      onApply({ folderId: null });
+      return;
+    }
+
+    if (value === NEW_FOLDER_OPTION) {
+      const name = window.prompt("New folder name");
+      if (!name?.trim()) return;
+      const folder = await onCreateFolder(name);
+      if (folder) {
+        onApply({ folderId: folder.id });
+      }
+      return;
+    }
+
+    onApply({ folderId: value });
+  };
+
+  return (
+    <div className="card p-4 mb-6 border border-blue-200 bg-blue-50">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-blue-900">
+          {selectedCount} selected
+        </span>
+
+        {/* Add tag */}
+        <div className="flex items-center space-x-1">
+          <TagIcon className="h-4 w-4 text-slate-500" />
+          <input
+            type="text"
+            list="bulk-tag-suggestions"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAddTag();
+              }
+            }}
+            placeholder="Add tag..."
+            className="px-2 py-1 border border-slate-300 rounded-md text-sm w-32 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <datalist id="bulk-tag-suggestions">
+            {availableTags.map((tag) => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+          <button
+            onClick={handleAddTag}
+            disabled={isApplying || !tagInput.trim()}
+            className="px-2 py-1 bg-blue-600 text-white rounded-md text-xs font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+
+        {/* Remove tag */}
+        {availableTags.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onApply({ removeTags: [e.target.value] })}
+            disabled={isApplying}
+            title="Remove tag"
+            className="px-2 py-1 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Remove tag...</option>
+            {availableTags.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {/* Move to folder */}
+        <div className="flex items-center space-x-1">
+          <FolderIcon className="h-4 w-4 text-slate-500" />
+          <select
+            value=""
+            onChange={(e) => handleMove(e.target.value)}
+            disabled={isApplying}
+            title="Move to folder"
+            className="px-2 py-1 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Move to...</option>
+            {folders.map((folder) => (
+              <option key={folder.id} value={folder.id}>
+                {folder.name}
+              </option>
+            ))}
+            <option value={NO_FOLDER_OPTION}>No folder</option>
+            <option value={NEW_FOLDER_OPTION}>+ New folder...</option>
+          </select>
+        </div>
+
+        {/* Archive */}
+        <button
+          onClick={() => onApply({ archived: true })}
+          disabled={isApplying}
+          className="flex items-center px-2 py-1 border border-slate-300 bg-white text-slate-700 rounded-md text-xs font-medium hover:bg-slate-50 disabled:opacity-50"
+        >
+          <ArchiveBoxIcon className="h-4 w-4 mr-1" />
+          Archive
+        </button>
+        <button
+          onClick={() => onApply({ archived: false })}
+          disabled={isApplying}
+          className="flex items-center px-2 py-1 border border-slate-300 bg-white text-slate-700 rounded-md text-xs font-medium hover:bg-slate-50 disabled:opacity-50"
+        >
+          <ArchiveBoxXMarkIcon className="h-4 w-4 mr-1" />
+          Unarchive
+        </button>
+
+        <div className="flex-1"></div>
+
+        {isApplying && (
+          <div className="animate-spin h-4 w-4 border-b-2 border-blue-600 rounded-full"></div>
+        )}
+        <button
+          onClick={onClear}
+          className="p-1 text-slate-500 hover:text-slate-700"
+          title="Clear selection"
+        >
+          <XMarkIcon className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
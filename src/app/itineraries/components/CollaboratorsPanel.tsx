@@ -0,0 +1,209 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { UserGroupIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import {
+  inviteCollaborator,
+  listCollaborators,
+  updateCollaboratorRole,
+  removeCollaborator,
+  type CollaboratorRole,
+  type CollaboratorSummary,
+} from "@/features/data";
+
+interface CollaboratorsPanelProps {
+  itineraryId: string;
+}
+
+const ROLE_OPTIONS: { value: CollaboratorRole; label: string }[] = [
+  { value: "viewer", label: "Viewer" },
+  { value: "editor", label: "Editor" },
+  { value: "owner", label: "Owner" },
+];
+
+export default function CollaboratorsPanel({
+  itineraryId,
+}: CollaboratorsPanelProps) {
+  const [collaborators, setCollaborators] = useState<CollaboratorSummary[]>([]);
+  const [ownerLabel, setOwnerLabel] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<CollaboratorRole>("viewer");
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCollaborators = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await listCollaborators(itineraryId);
+      if (response.success && response.data) {
+        setCollaborators(response.data.collaborators);
+        setOwnerLabel(response.data.owner.name || response.data.owner.email);
+      }
+    } catch (err) {
+      console.error("Error loading collaborators:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itineraryId]);
+
+  useEffect(() => {
+    loadCollaborators();
+  }, [loadCollaborators]);
+
+  const handleInvite = async () => {
+    if (!email.trim()) return;
+
+    try {
+      setIsInviting(true);
+      setError(null);
+      const response = await inviteCollaborator(itineraryId, email, role);
+
+      if (response.success && response.data) {
+        const invited = response.data;
+        setCollaborators((prev) => [
+          ...prev.filter((c) => c.id !== invited.id),
+          invited,
+        ]);
+        setEmail("");
+      } else {
+        setError(response.error || "Failed to invite collaborator");
+      }
+    } catch (err) {
+      console.error("Error inviting collaborator:", err);
+      setError("Failed to invite collaborator");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (id: string, newRole: CollaboratorRole) => {
+    try {
+      const response = await updateCollaboratorRole(id, newRole);
+      if (response.success && response.data) {
+        const updated = response.data;
+        setCollaborators((prev) =>
+          prev.map((c) => (c.id === id ? updated : c))
+        );
+      } else {
+        alert(response.error || "Failed to update role");
+      }
+    } catch (err) {
+      console.error("Error updating collaborator role:", err);
+      alert("Failed to update role");
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      const response = await removeCollaborator(id);
+      if (response.success) {
+        setCollaborators((prev) => prev.filter((c) => c.id !== id));
+      } else {
+        alert(response.error || "Failed to remove collaborator");
+      }
+    } catch (err) {
+      console.error("Error removing collaborator:", err);
+      alert("Failed to remove collaborator");
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 mb-4">
+      <div className="flex items-center mb-3">
+        <UserGroupIcon className="h-5 w-5 text-slate-600 mr-2" />
+        <h3 className="text-sm font-medium text-slate-900">Collaborators</h3>
+      </div>
+
+      <div className="flex space-x-2 mb-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleInvite();
+            }
+          }}
+          placeholder="Email address"
+          className="flex-1 min-w-0 px-2 py-1.5 border border-slate-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <select
+          title="Role"
+          value={role}
+          onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+          className="px-2 py-1.5 border border-slate-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {ROLE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleInvite}
+          disabled={isInviting || !email.trim()}
+          className="bg-blue-600 text-white px-3 py-1.5 rounded-md text-xs font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isInviting ? "Inviting..." : "Invite"}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-xs text-slate-500">Loading collaborators...</p>
+      ) : (
+        <ul className="space-y-1">
+          {ownerLabel && (
+            <li className="flex items-center justify-between text-xs px-1 py-1">
+              <span className="text-slate-700 truncate">{ownerLabel}</span>
+              <span className="text-slate-500">Creator</span>
+            </li>
+          )}
+          {collaborators.map((collaborator) => (
+            <li
+              key={collaborator.id}
+              className="flex items-center justify-between text-xs bg-white rounded-md border border-slate-200 px-2 py-1"
+            >
+              <div className="min-w-0 mr-2">
+                <p className="text-slate-700 truncate">
+                  {collaborator.name || collaborator.email}
+                </p>
+                {collaborator.isPending && (
+                  <p className="text-slate-400">Invitation pending</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <select
+                  title="Collaborator role"
+                  value={collaborator.role}
+                  onChange={(e) =>
+                    handleRoleChange(
+                      collaborator.id,
+                      e.target.value as CollaboratorRole
+                    )
+                  }
+                  className="px-1 py-0.5 border border-slate-300 rounded text-xs"
+                >
+                  {ROLE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleRemove(collaborator.id)}
+                  className="p-1 text-slate-400 hover:text-red-600"
+                  title="Remove collaborator"
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import {
   CalendarIcon,
@@ -11,23 +11,66 @@ import {
   XMarkIcon,
   ListBulletIcon,
   PlusIcon,
+  DocumentArrowUpIcon,
+  ShareIcon,
+  UserGroupIcon,
+  FolderIcon,
+  ArchiveBoxIcon,
+  DocumentDuplicateIcon,
+  RectangleStackIcon,
+  CalendarDaysIcon,
 } from "@heroicons/react/24/outline";
-import { ItinerarySummary, deleteItinerary } from "@/features/data";
+import {
+  ItinerarySummary,
+  ItineraryFolderSummary,
+  ItineraryGroup,
+  ListItinerariesOptions,
+  OrganizeItinerariesRequest,
+  TripStatus,
+  deleteItinerary,
+  listItineraries,
+  listFolders,
+  createFolder,
+  renameFolder,
+  deleteFolder,
+  organizeItineraries,
+} from "@/features/data";
 import { useItinerary } from "@/contexts/ItineraryContext";
 import { generateItinerarySlug, ItineraryStats } from "@/utils/itinerary";
 import { formatTimeAgo } from "@/utils/timeUtils";
 import Image from "next/image";
+import ShareLinksPanel from "./ShareLinksPanel";
+import CollaboratorsPanel from "./CollaboratorsPanel";
+import SaveTemplatePanel from "./SaveTemplatePanel";
+import ShiftTripPanel from "./ShiftTripPanel";
+import ItinerarySearch from "./ItinerarySearch";
+import BulkActionsBar from "./BulkActionsBar";
+import { buildItineraryCardData } from "../utils/itineraryCardData";
 
 interface ItinerariesClientProps {
   itineraries: ItinerarySummary[];
   itineraryStats: Record<string, ItineraryStats>;
   itineraryImages: Record<string, string[]>;
+  folders: ItineraryFolderSummary[];
+  availableTags: string[];
 }
 
+// Folder filter values besides folder ids
+const ALL_FOLDERS = "";
+const NO_FOLDER = "__none__";
+
+const TRIP_STATUS_STYLES: Record<TripStatus, string> = {
+  upcoming: "bg-blue-100 text-blue-700",
+  ongoing: "bg-green-100 text-green-700",
+  past: "bg-slate-100 text-slate-600",
+};
+
 export default function ItinerariesClient({
   itineraries: initialItineraries,
   itineraryStats: initialItineraryStats,
-  itineraryImages,
+  itineraryImages: initialItineraryImages,
+  folders: initialFolders,
+  availableTags: initialAvailableTags,
 }: ItinerariesClientProps) {
   const router = useRouter();
   const { loadItinerary } = useItinerary();
@@ -40,12 +83,173 @@ export default function ItinerariesClient({
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
   const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [templatingId, setTemplatingId] = useState<string | null>(null);
+  const [shiftingId, setShiftingId] = useState<string | null>(null);
+  const [itineraryImages, setItineraryImages] = useState(initialItineraryImages);
+
+  // Organization: filters, grouping and bulk selection
+  const [folders, setFolders] = useState(initialFolders);
+  const [availableTags, setAvailableTags] = useState(initialAvailableTags);
+  const [statusFilter, setStatusFilter] = useState<TripStatus | "">("");
+  const [folderFilter, setFolderFilter] = useState(ALL_FOLDERS);
+  const [tagFilter, setTagFilter] = useState("");
+  const [archivedFilter, setArchivedFilter] =
+    useState<NonNullable<ListItinerariesOptions["archived"]>>("active");
+  const [sortBy, setSortBy] =
+    useState<NonNullable<ListItinerariesOptions["sortBy"]>>("updated");
+  const [groupBy, setGroupBy] =
+    useState<NonNullable<ListItinerariesOptions["groupBy"]>>("none");
+  const [groups, setGroups] = useState<ItineraryGroup[] | undefined>(undefined);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const getListOptions = (
+    overrides: Partial<{
+      status: TripStatus | "";
+      folder: string;
+      tag: string;
+      archived: NonNullable<ListItinerariesOptions["archived"]>;
+      sortBy: NonNullable<ListItinerariesOptions["sortBy"]>;
+      groupBy: NonNullable<ListItinerariesOptions["groupBy"]>;
+    }> = {}
+  ): ListItinerariesOptions => {
+    const status = overrides.status ?? statusFilter;
+    const folder = overrides.folder ?? folderFilter;
+    const tag = overrides.tag ?? tagFilter;
+
+    return {
+      status: status || undefined,
+      folderId: folder === ALL_FOLDERS ? undefined : folder === NO_FOLDER ? null : folder,
+      tags: tag ? [tag] : undefined,
+      archived: overrides.archived ?? archivedFilter,
+      sortBy: overrides.sortBy ?? sortBy,
+      groupBy: overrides.groupBy ?? groupBy,
+    };
+  };
+
+  // Re-fetch the list with the given options, extracting card data for newly listed itineraries
+  const refreshList = useCallback(async (options: ListItinerariesOptions) => {
+    try {
+      setIsRefreshing(true);
+      const [response, foldersResponse] = await Promise.all([
+        listItineraries(options),
+        listFolders(),
+      ]);
+
+      if (!response.success || !response.data) {
+        alert(response.error || "Failed to load itineraries");
+        return;
+      }
+
+      const { stats, images } = buildItineraryCardData(response.data);
+      setItineraryStats((prev) => ({ ...stats, ...prev }));
+      setItineraryImages((prev) => ({ ...images, ...prev }));
+      setItineraries(response.data);
+      setGroups(response.groups);
+      setAvailableTags(response.availableTags || []);
+      if (foldersResponse.success && foldersResponse.data) {
+        setFolders(foldersResponse.data);
+      }
+
+      // Drop selections that are no longer listed
+      const listedIds = new Set(response.data.map((itinerary) => itinerary.id));
+      setSelectedIds((prev) => new Set([...prev].filter((id) => listedIds.has(id))));
+    } catch (err) {
+      console.error("Error loading itineraries:", err);
+      alert("Failed to load itineraries");
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  const handleToggleSelect = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleBulkApply = async (
+    change: Omit<OrganizeItinerariesRequest, "itineraryIds">
+  ) => {
+    try {
+      setIsApplying(true);
+      const response = await organizeItineraries({
+        ...change,
+        itineraryIds: [...selectedIds],
+      });
+
+      if (!response.success) {
+        alert(response.error || "Failed to update itineraries");
+        return;
+      }
+
+      await refreshList(getListOptions());
+    } catch (err) {
+      console.error("Error organizing itineraries:", err);
+      alert("Failed to update itineraries");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleCreateFolder = async (name: string) => {
+    const response = await createFolder(name);
+    if (!response.success || !response.data) {
+      alert(response.error || "Failed to create folder");
+      return null;
+    }
+    setFolders((prev) =>
+      [...prev, response.data!].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    return response.data;
+  };
+
+  const handleRenameFolder = async (folderId: string) => {
+    const folder = folders.find((f) => f.id === folderId);
+    const name = window.prompt("Rename folder", folder?.name || "");
+    if (!name?.trim() || name.trim() === folder?.name) return;
+
+    const response = await renameFolder(folderId, name);
+    if (!response.success) {
+      alert(response.error || "Failed to rename folder");
+      return;
+    }
+    await refreshList(getListOptions());
+  };
+
+  const handleDeleteFolder = async (folderId: string) => {
+    const folder = folders.find((f) => f.id === folderId);
+    if (
+      !window.confirm(
+        `Delete the folder "${folder?.name}"? Its itineraries will be kept.`
+      )
+    ) {
+      return;
+    }
+
+    const response = await deleteFolder(folderId);
+    if (!response.success) {
+      alert(response.error || "Failed to delete folder");
+      return;
+    }
+    setFolderFilter(ALL_FOLDERS);
+    await refreshList(getListOptions({ folder: ALL_FOLDERS }));
+  };
 
   const handleCreateNew = () => {
     router.push("/create-itinerary");
   };
 
-  const handleOpen = async (id: string) => {
+  // blockId deep-links to a block, which the editor scrolls to once loaded
+  const handleOpen = async (id: string, blockId?: string) => {
     try {
       await loadItinerary(id);
 
@@ -69,7 +273,11 @@ export default function ItinerariesClient({
       console.log("Generated slug:", slug);
       console.log("Final URL:", `/editor/${slug}`);
 
-      router.push(`/editor/${slug}`);
+      router.push(
+        blockId
+          ? `/editor/${slug}?block=${encodeURIComponent(blockId)}`
+          : `/editor/${slug}`
+      );
     } catch (err) {
       console.error("Error loading itinerary:", err);
       alert("Failed to load itinerary");
@@ -100,11 +308,27 @@ export default function ItinerariesClient({
     }
   };
 
+  const handleTripShifted = (id: string, startDate: Date, endDate: Date) => {
+    setItineraries((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, startDate, endDate } : item))
+    );
+    // Drop the cached card stats so the refresh recounts the trip's days
+    setItineraryStats((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    refreshList(getListOptions());
+  };
+
   const handleDeleteCancel = () => {
     setShowDeleteConfirm(null);
   };
 
   const handleEditClick = (id: string) => {
+    // Viewers of shared itineraries can't rename them
+    if (itineraries.find((i) => i.id === id)?.role === "viewer") return;
+
     // Use the same priority as getDisplayTitle: database title first
     const currentName = getDisplayTitle(id);
 
@@ -182,6 +406,357 @@ export default function ItinerariesClient({
     setEditingName("");
   };
 
+  const ownItineraries = itineraries.filter((itinerary) => !itinerary.isShared);
+  const sharedItineraries = itineraries.filter((itinerary) => itinerary.isShared);
+  const hasActiveFilters =
+    !!statusFilter ||
+    folderFilter !== ALL_FOLDERS ||
+    !!tagFilter ||
+    archivedFilter !== "active";
+
+  const renderItineraryCard = (itinerary: ItinerarySummary) => (
+    <div
+      key={itinerary.id}
+      className="card p-6 hover:shadow-lg transition-shadow"
+    >
+      {/* Actions */}
+      <div className="flex justify-between items-start mb-4">
+        <div className="flex items-center text-xs text-slate-500">
+          {itinerary.role === "owner" && !itinerary.isShared && (
+            <input
+              type="checkbox"
+              checked={selectedIds.has(itinerary.id)}
+              onChange={() => handleToggleSelect(itinerary.id)}
+              className="h-4 w-4 mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              title="Select"
+            />
+          )}
+          Updated {formatTimeAgo(new Date(itinerary.updatedAt))}
+        </div>
+        <div className="flex space-x-1">
+          {itinerary.role === "owner" && (
+            <button
+              onClick={() =>
+                setSharingId(sharingId === itinerary.id ? null : itinerary.id)
+              }
+              className={`p-1 hover:text-slate-600 ${
+                sharingId === itinerary.id ? "text-blue-600" : "text-slate-400"
+              }`}
+              title="Share"
+            >
+              <ShareIcon className="h-4 w-4" />
+            </button>
+          )}
+          {itinerary.role !== "viewer" && (
+            <button
+              onClick={() =>
+                setShiftingId(shiftingId === itinerary.id ? null : itinerary.id)
+              }
+              className={`p-1 hover:text-slate-600 ${
+                shiftingId === itinerary.id ? "text-blue-600" : "text-slate-400"
+              }`}
+              title="Change dates"
+            >
+              <CalendarDaysIcon className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={() =>
+              setTemplatingId(templatingId === itinerary.id ? null : itinerary.id)
+            }
+            className={`p-1 hover:text-slate-600 ${
+              templatingId === itinerary.id ? "text-blue-600" : "text-slate-400"
+            }`}
+            title="Save as template"
+          >
+            <DocumentDuplicateIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleOpen(itinerary.id)}
+            className="p-1 text-slate-400 hover:text-slate-600"
+            title="Edit"
+          >
+            <PencilIcon className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Thumbnail Images */}
+      <div className="bg-slate-200 rounded-lg h-32 mb-4 overflow-hidden relative">
+        {itineraryImages[itinerary.id]?.length > 0 ? (
+          <div className="flex h-full">
+            {itineraryImages[itinerary.id]
+              .slice(0, 2)
+              .map((imageUrl, index) => {
+                // Simple check for non-empty URLs and skip invalid ones
+                if (!imageUrl || !imageUrl.trim()) {
+                  return null;
+                }
+
+                // Skip URLs that might cause validation errors
+                if (
+                  imageUrl.includes(" ") ||
+                  imageUrl.includes("\n") ||
+                  imageUrl.includes("\t")
+                ) {
+                  return null;
+                }
+
+                const imageCount = itineraryImages[itinerary.id].length;
+                return (
+                  <div
+                    key={index}
+                    className={`relative ${
+                      imageCount === 1 ? "w-full" : "w-1/2"
+                    } ${index > 0 ? "border-l border-slate-300" : ""}`}
+                  >
+                    <Image
+                      src={"/api/places/photos/" + imageUrl}
+                      alt={`Place ${index + 1}`}
+                      fill
+                      className="object-cover"
+                      sizes={imageCount === 1 ? "100%" : "50%"}
+                      unoptimized={true}
+                      onError={(e) => {
+                        e.currentTarget.style.display = "none";
+                      }}
+                    />
+                  </div>
+                );
+              })
+              .filter(Boolean)}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            <MapPinIcon className="h-12 w-12 text-slate-400" />
+          </div>
+        )}
+      </div>
+
+      {/* Content */}
+      <div>
+        {/* Editable Title */}
+        {editingId === itinerary.id ? (
+          <div className="mb-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                title="Itinerary name"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                className="flex-1 text-lg font-semibold text-slate-900 border border-blue-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                autoFocus
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    if (editingName.trim()) {
+                      handleSaveName(itinerary.id);
+                    }
+                  } else if (e.key === "Escape") {
+                    handleCancelEdit();
+                  }
+                }}
+              />
+              <button
+                onClick={() => handleSaveName(itinerary.id)}
+                disabled={updatingId === itinerary.id || !editingName.trim()}
+                className="p-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 flex-shrink-0"
+                title={!editingName.trim() ? "Name cannot be empty" : "Save"}
+              >
+                {updatingId === itinerary.id ? (
+                  <div className="animate-spin h-4 w-4 border-b-2 border-white rounded-full"></div>
+                ) : (
+                  <CheckIcon className="h-4 w-4" />
+                )}
+              </button>
+              <button
+                onClick={handleCancelEdit}
+                className="p-1 bg-slate-500 text-white rounded hover:bg-slate-600 flex-shrink-0"
+                title="Cancel"
+              >
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center">
+              <h3
+                className="text-lg font-semibold text-slate-900 cursor-pointer hover:text-blue-600 transition-colors"
+                onClick={() => handleEditClick(itinerary.id)}
+              >
+                {getDisplayTitle(itinerary.id)}
+              </h3>
+            </div>
+            <button
+              onClick={() => handleEditClick(itinerary.id)}
+              className="p-1 text-slate-400 hover:text-slate-600 ml-2"
+              title="Edit name"
+            >
+              <PencilIcon className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
+        {/* Stats with Icons */}
+        <div className="flex items-center gap-4 mb-3">
+          {itineraryStats[itinerary.id]?.numberOfDays > 0 && (
+            <div className="flex items-center text-slate-600 text-sm">
+              <CalendarIcon className="h-4 w-4 mr-1 text-blue-500" />
+              <span className="font-medium">
+                {itineraryStats[itinerary.id].numberOfDays}
+              </span>
+              <span className="ml-1">days</span>
+            </div>
+          )}
+          {itineraryStats[itinerary.id]?.numberOfPlaces > 0 && (
+            <div className="flex items-center text-slate-600 text-sm">
+              <MapPinIcon className="h-4 w-4 mr-1 text-green-500" />
+              <span className="font-medium">
+                {itineraryStats[itinerary.id].numberOfPlaces}
+              </span>
+              <span className="ml-1">places</span>
+            </div>
+          )}
+        </div>
+
+        {/* Trip status, folder, archive state and tags */}
+        <div className="flex flex-wrap items-center gap-1.5 mb-3">
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${
+              TRIP_STATUS_STYLES[itinerary.tripStatus]
+            }`}
+          >
+            {itinerary.tripStatus}
+          </span>
+          {itinerary.archived && (
+            <span className="flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">
+              <ArchiveBoxIcon className="h-3 w-3 mr-1" />
+              Archived
+            </span>
+          )}
+          {itinerary.folderName && (
+            <span className="flex items-center px-2 py-0.5 rounded-full text-xs text-slate-600 border border-slate-200">
+              <FolderIcon className="h-3 w-3 mr-1" />
+              {itinerary.folderName}
+            </span>
+          )}
+          {itinerary.tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => {
+                setTagFilter(tag);
+                refreshList(getListOptions({ tag }));
+              }}
+              className="px-2 py-0.5 rounded-full text-xs bg-slate-100 text-slate-700 hover:bg-slate-200"
+              title={`Show itineraries tagged "${tag}"`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+
+        {itinerary.isShared && (
+  <p className="text-slate-600 text-xs mb-1">
+    Shared by {itinerary.ownerName} •{" "}
+    <span className="capitalize">{itinerary.role}</span>
+  </p>
+)}
+
+<p className="text-slate-500 text-xs mb-4">
+          Updated {formatTimeAgo(new Date(itinerary.updatedAt))}
+        </p>
+      </div>
+
+      {/* Share Links and Collaborators */}
+      {sharingId === itinerary.id && itinerary.role === "owner" && (
+        <>
+          <CollaboratorsPanel itineraryId={itinerary.id} />
+          <ShareLinksPanel itineraryId={itinerary.id} />
+        </>
+      )}
+
+      {/* Change Trip Dates */}
+      {shiftingId === itinerary.id && (
+        <ShiftTripPanel
+          itineraryId={itinerary.id}
+          startDate={itinerary.startDate}
+          endDate={itinerary.endDate}
+          onShifted={(startDate, endDate) => handleTripShifted(itinerary.id, startDate, endDate)}
+          onClose={() => setShiftingId(null)}
+        />
+      )}
+
+      {/* Save as Template */}
+      {templatingId === itinerary.id && (
+        <SaveTemplatePanel
+          itineraryId={itinerary.id}
+          defaultName={getDisplayTitle(itinerary.id)}
+          onClose={() => setTemplatingId(null)}
+        />
+      )}
+
+      {/* Inline Delete Confirmation */}
+      {showDeleteConfirm === itinerary.id && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <div className="flex items-start">
+            <div className="flex-shrink-0">
+              <TrashIcon className="h-5 w-5 text-red-600" />
+            </div>
+            <div className="ml-3 flex-1">
+              <h3 className="text-sm font-medium text-red-800">
+                Delete Itinerary
+              </h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>
+                  Are you sure you want to delete &quot;
+                  {getDisplayTitle(itinerary.id)}
+                  &quot;? It will be moved to the trash, where you can
+                  restore it for a limited time.
+                </p>
+              </div>
+              <div className="mt-4 flex space-x-2">
+                <button
+                  onClick={() => handleDeleteConfirm(itinerary.id)}
+                  className="bg-red-600 text-white px-3 py-2 rounded-md text-xs font-medium hover:bg-red-700 transition-colors"
+                >
+                  Delete
+                </button>
+                <button
+                  onClick={handleDeleteCancel}
+                  className="bg-white text-red-600 px-3 py-2 border border-red-300 rounded-md text-xs font-medium hover:bg-red-50 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="mt-4 pt-4 border-t border-slate-200">
+        <div className="flex space-x-2">
+          <button
+            onClick={() => handleOpen(itinerary.id)}
+            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors"
+          >
+            Open
+          </button>
+          {itinerary.role === "owner" && (
+            <button
+              onClick={() => handleDeleteClick(itinerary.id)}
+              disabled={deletingId === itinerary.id}
+              className="px-4 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              {deletingId === itinerary.id ? "Deleting..." : "Delete"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -198,13 +773,38 @@ export default function ItinerariesClient({
               </p>
             </div>
           </div>
-          <button
-            onClick={handleCreateNew}
-            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center"
-          >
-            <PlusIcon className="h-5 w-5 mr-2" />
-            Create New Itinerary
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => router.push("/itineraries/templates")}
+              className="border border-slate-300 text-slate-700 px-4 py-3 rounded-lg font-medium hover:bg-slate-50 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center"
+              title="New trip from a template"
+            >
+              <RectangleStackIcon className="h-5 w-5 mr-2" />
+              Templates
+            </button>
+            <button
+              onClick={() => router.push("/itineraries/trash")}
+              className="border border-slate-300 text-slate-700 px-4 py-3 rounded-lg font-medium hover:bg-slate-50 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center"
+              title="Deleted itineraries"
+            >
+              <TrashIcon className="h-5 w-5 mr-2" />
+              Trash
+            </button>
+            <button
+              onClick={() => router.push("/import-itinerary")}
+              className="border border-slate-300 text-slate-700 px-6 py-3 rounded-lg font-medium hover:bg-slate-50 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center"
+            >
+              <DocumentArrowUpIcon className="h-5 w-5 mr-2" />
+              Import Text
+            </button>
+            <button
+              onClick={handleCreateNew}
+              className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center"
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              Create New Itinerary
+            </button>
+          </div>
         </div>
 
         {/* Filters */}
@@ -219,12 +819,109 @@ export default function ItinerariesClient({
               </label>
               <select
                 id="status-filter"
+                value={statusFilter}
+                onChange={(e) => {
+                  const status = e.target.value as TripStatus | "";
+                  setStatusFilter(status);
+                  refreshList(getListOptions({ status }));
+                }}
                 className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
                 <option value="">All</option>
-                <option value="planning">Planning</option>
-                <option value="draft">Draft</option>
-                <option value="completed">Completed</option>
+                <option value="upcoming">Upcoming</option>
+                <option value="ongoing">Ongoing</option>
+                <option value="past">Past</option>
+              </select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <label
+                htmlFor="folder-filter"
+                className="text-sm font-medium text-slate-700"
+              >
+                Folder:
+              </label>
+              <select
+                id="folder-filter"
+                value={folderFilter}
+                onChange={(e) => {
+                  setFolderFilter(e.target.value);
+                  refreshList(getListOptions({ folder: e.target.value }));
+                }}
+                className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={ALL_FOLDERS}>All</option>
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>
+                    {folder.name} ({folder.itineraryCount})
+                  </option>
+                ))}
+                <option value={NO_FOLDER}>No folder</option>
+              </select>
+              {folderFilter !== ALL_FOLDERS && folderFilter !== NO_FOLDER && (
+                <>
+                  <button
+                    onClick={() => handleRenameFolder(folderFilter)}
+                    className="p-1 text-slate-400 hover:text-slate-600"
+                    title="Rename folder"
+                  >
+                    <PencilIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteFolder(folderFilter)}
+                    className="p-1 text-slate-400 hover:text-red-600"
+                    title="Delete folder"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+            </div>
+            {availableTags.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <label
+                  htmlFor="tag-filter"
+                  className="text-sm font-medium text-slate-700"
+                >
+                  Tag:
+                </label>
+                <select
+                  id="tag-filter"
+                  value={tagFilter}
+                  onChange={(e) => {
+                    setTagFilter(e.target.value);
+                    refreshList(getListOptions({ tag: e.target.value }));
+                  }}
+                  className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">All</option>
+                  {availableTags.map((tag) => (
+                    <option key={tag} value={tag}>
+                      {tag}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <label
+                htmlFor="archived-filter"
+                className="text-sm font-medium text-slate-700"
+              >
+                Show:
+              </label>
+              <select
+                id="archived-filter"
+                value={archivedFilter}
+                onChange={(e) => {
+                  const archived = e.target.value as typeof archivedFilter;
+                  setArchivedFilter(archived);
+                  refreshList(getListOptions({ archived }));
+                }}
+                className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="active">Active</option>
+                <option value="archived">Archived</option>
+                <option value="all">All</option>
               </select>
             </div>
             <div className="flex items-center space-x-2">
@@ -236,252 +933,122 @@ export default function ItinerariesClient({
               </label>
               <select
                 id="sort-by"
+                value={sortBy}
+                onChange={(e) => {
+                  const value = e.target.value as typeof sortBy;
+                  setSortBy(value);
+                  refreshList(getListOptions({ sortBy: value }));
+                }}
                 className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
-                <option value="recent">Most Recent</option>
-                <option value="alphabetical">Alphabetical</option>
-                <option value="date">Travel Date</option>
+                <option value="updated">Most Recent</option>
+                <option value="title">Alphabetical</option>
+                <option value="startDate">Travel Date</option>
+                <option value="created">Date Created</option>
               </select>
             </div>
-            <div className="flex-1"></div>
             <div className="flex items-center space-x-2">
-              <input
-                type="search"
-                placeholder="Search itineraries..."
-                className="px-4 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              />
+              <label
+                htmlFor="group-by"
+                className="text-sm font-medium text-slate-700"
+              >
+                Group by:
+              </label>
+              <select
+                id="group-by"
+                value={groupBy}
+                onChange={(e) => {
+                  const value = e.target.value as typeof groupBy;
+                  setGroupBy(value);
+                  refreshList(getListOptions({ groupBy: value }));
+                }}
+                className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="none">None</option>
+                <option value="folder">Folder</option>
+                <option value="status">Status</option>
+                <option value="tag">Tag</option>
+              </select>
             </div>
+            {isRefreshing && (
+              <div className="animate-spin h-4 w-4 border-b-2 border-blue-600 rounded-full"></div>
+            )}
+            <div className="flex-1"></div>
+            <ItinerarySearch
+              onSelect={(hit) => handleOpen(hit.itineraryId, hit.blockId)}
+            />
           </div>
         </div>
 
-        {/* Itineraries Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {itineraries.map((itinerary) => (
-            <div
-              key={itinerary.id}
-              className="card p-6 hover:shadow-lg transition-shadow"
-            >
-              {/* Actions */}
-              <div className="flex justify-between items-start mb-4">
-                <div className="text-xs text-slate-500">
-                  Updated {formatTimeAgo(new Date(itinerary.updatedAt))}
-                </div>
-                <div className="flex space-x-1">
-                  <button
-                    onClick={() => handleOpen(itinerary.id)}
-                    className="p-1 text-slate-400 hover:text-slate-600"
-                    title="Edit"
-                  >
-                    <PencilIcon className="h-4 w-4" />
-                  </button>
-                </div>
-              </div>
+        {/* Bulk Actions */}
+        {selectedIds.size > 0 && (
+          <BulkActionsBar
+            selectedCount={selectedIds.size}
+            folders={folders}
+            availableTags={availableTags}
+            isApplying={isApplying}
+            onApply={handleBulkApply}
+            onCreateFolder={handleCreateFolder}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
 
-              {/* Thumbnail Images */}
-              <div className="bg-slate-200 rounded-lg h-32 mb-4 overflow-hidden relative">
-                {itineraryImages[itinerary.id]?.length > 0 ? (
-                  <div className="flex h-full">
-                    {itineraryImages[itinerary.id]
-                      .slice(0, 2)
-                      .map((imageUrl, index) => {
-                        // Simple check for non-empty URLs and skip invalid ones
-                        if (!imageUrl || !imageUrl.trim()) {
-                          return null;
-                        }
-
-                        // Skip URLs that might cause validation errors
-                        if (
-                          imageUrl.includes(" ") ||
-                          imageUrl.includes("\n") ||
-                          imageUrl.includes("\t")
-                        ) {
-                          return null;
-                        }
-
-                        const imageCount = itineraryImages[itinerary.id].length;
-                        return (
-                          <div
-                            key={index}
-                            className={`relative ${
-                              imageCount === 1 ? "w-full" : "w-1/2"
-                            } ${index > 0 ? "border-l border-slate-300" : ""}`}
-                          >
-                            <Image
-                              src={"/api/places/photos/" + imageUrl}
-                              alt={`Place ${index + 1}`}
-                              fill
-                              className="object-cover"
-                              sizes={imageCount === 1 ? "100%" : "50%"}
-                              unoptimized={true}
-                              onError={(e) => {
-                                e.currentTarget.style.display = "none";
-                              }}
-                            />
-                          </div>
-                        );
-                      })
-                      .filter(Boolean)}
-                  </div>
-                ) : (
-                  <div className="flex items-center justify-center h-full">
-                    <MapPinIcon className="h-12 w-12 text-slate-400" />
-                  </div>
-                )}
+        {groups ? (
+          /* Grouped Itineraries */
+          groups.map((group) => (
+            <div key={group.key} className="mb-12">
+              <div className="flex items-center mb-6">
+                <h2 className="text-2xl font-bold text-slate-900">
+                  {group.label}
+                </h2>
+                <span className="ml-2 text-slate-500">
+                  ({group.itineraryIds.length})
+                </span>
               </div>
-
-              {/* Content */}
-              <div>
-                {/* Editable Title */}
-                {editingId === itinerary.id ? (
-                  <div className="mb-2">
-                    <div className="flex items-center space-x-2">
-                      <input
-                        type="text"
-                        title="Itinerary name"
-                        value={editingName}
-                        onChange={(e) => setEditingName(e.target.value)}
-                        className="flex-1 text-lg font-semibold text-slate-900 border border-blue-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        autoFocus
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter") {
-                            e.preventDefault();
-                            if (editingName.trim()) {
-                              handleSaveName(itinerary.id);
-                            }
-                          } else if (e.key === "Escape") {
-                            handleCancelEdit();
-                          }
-                        }}
-                      />
-                      <button
-                        onClick={() => handleSaveName(itinerary.id)}
-                        disabled={updatingId === itinerary.id || !editingName.trim()}
-                        className="p-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 flex-shrink-0"
-                        title={!editingName.trim() ? "Name cannot be empty" : "Save"}
-                      >
-                        {updatingId === itinerary.id ? (
-                          <div className="animate-spin h-4 w-4 border-b-2 border-white rounded-full"></div>
-                        ) : (
-                          <CheckIcon className="h-4 w-4" />
-                        )}
-                      </button>
-                      <button
-                        onClick={handleCancelEdit}
-                        className="p-1 bg-slate-500 text-white rounded hover:bg-slate-600 flex-shrink-0"
-                        title="Cancel"
-                      >
-                        <XMarkIcon className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center">
-                      <h3
-                        className="text-lg font-semibold text-slate-900 cursor-pointer hover:text-blue-600 transition-colors"
-                        onClick={() => handleEditClick(itinerary.id)}
-                      >
-                        {getDisplayTitle(itinerary.id)}
-                      </h3>
-                    </div>
-                    <button
-                      onClick={() => handleEditClick(itinerary.id)}
-                      className="p-1 text-slate-400 hover:text-slate-600 ml-2"
-                      title="Edit name"
-                    >
-                      <PencilIcon className="h-3 w-3" />
-                    </button>
-                  </div>
-                )}
-
-                {/* Stats with Icons */}
-                <div className="flex items-center gap-4 mb-3">
-                  {itineraryStats[itinerary.id]?.numberOfDays > 0 && (
-                    <div className="flex items-center text-slate-600 text-sm">
-                      <CalendarIcon className="h-4 w-4 mr-1 text-blue-500" />
-                      <span className="font-medium">
-                        {itineraryStats[itinerary.id].numberOfDays}
-                      </span>
-                      <span className="ml-1">days</span>
-                    </div>
-                  )}
-                  {itineraryStats[itinerary.id]?.numberOfPlaces > 0 && (
-                    <div className="flex items-center text-slate-600 text-sm">
-                      <MapPinIcon className="h-4 w-4 mr-1 text-green-500" />
-                      <span className="font-medium">
-                        {itineraryStats[itinerary.id].numberOfPlaces}
-                      </span>
-                      <span className="ml-1">places</span>
-                    </div>
-                  )}
-                </div>
-
-                <p className="text-slate-500 text-xs mb-4">
-                  Updated {formatTimeAgo(new Date(itinerary.updatedAt))}
-                </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {group.itineraryIds
+                  .map((id) => itineraries.find((itinerary) => itinerary.id === id))
+                  .filter((itinerary): itinerary is ItinerarySummary => !!itinerary)
+                  .map(renderItineraryCard)}
               </div>
+            </div>
+          ))
+        ) : (
+          <>
+            {/* Itineraries Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {ownItineraries.map(renderItineraryCard)}
+            </div>
 
-              {/* Inline Delete Confirmation */}
-              {showDeleteConfirm === itinerary.id && (
-                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
-                  <div className="flex items-start">
-                    <div className="flex-shrink-0">
-                      <TrashIcon className="h-5 w-5 text-red-600" />
-                    </div>
-                    <div className="ml-3 flex-1">
-                      <h3 className="text-sm font-medium text-red-800">
-                        Delete Itinerary
-                      </h3>
-                      <div className="mt-2 text-sm text-red-700">
-                        <p>
-                          Are you sure you want to delete &quot;
-                          {getDisplayTitle(itinerary.id)}
-                          &quot;? This action cannot be undone.
-                        </p>
-                      </div>
-                      <div className="mt-4 flex space-x-2">
-                        <button
-                          onClick={() => handleDeleteConfirm(itinerary.id)}
-                          className="bg-red-600 text-white px-3 py-2 rounded-md text-xs font-medium hover:bg-red-700 transition-colors"
-                        >
-                          Delete
-                        </button>
-                        <button
-                          onClick={handleDeleteCancel}
-                          className="bg-white text-red-600 px-3 py-2 border border-red-300 rounded-md text-xs font-medium hover:bg-red-50 transition-colors"
-                        >
-                          Cancel
-                        </button>
-                      </div>
-                    </div>
-                  </div>
+            {/* Shared With Me */}
+            {sharedItineraries.length > 0 && (
+              <div className="mt-12">
+                <div className="flex items-center mb-6">
+                  <UserGroupIcon className="h-6 w-6 text-blue-600 mr-2" />
+                  <h2 className="text-2xl font-bold text-slate-900">
+                    Shared with me
+                  </h2>
                 </div>
-              )}
-
-              {/* Actions */}
-              <div className="mt-4 pt-4 border-t border-slate-200">
-                <div className="flex space-x-2">
-                  <button
-                    onClick={() => handleOpen(itinerary.id)}
-                    className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors"
-                  >
-                    Open
-                  </button>
-                  <button
-                    onClick={() => handleDeleteClick(itinerary.id)}
-                    disabled={deletingId === itinerary.id}
-                    className="px-4 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
-                  >
-                    {deletingId === itinerary.id ? "Deleting..." : "Delete"}
-                  </button>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {sharedItineraries.map(renderItineraryCard)}
                 </div>
               </div>
-            </div>
-          ))}
-        </div>
+            )}
+          </>
+        )}
+
+        {/* No Matches */}
+        {hasActiveFilters && itineraries.length === 0 && (
+          <div className="text-center py-12">
+            <ListBulletIcon className="h-16 w-16 text-slate-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-slate-900 mb-2">
+              No itineraries match these filters
+            </h3>
+          </div>
+        )}
 
         {/* Empty State (if no itineraries) */}
-        {itineraries.length === 0 && (
+        {!hasActiveFilters && ownItineraries.length === 0 && (
           <div className="text-center py-12">
             <ListBulletIcon className="h-16 w-16 text-slate-300 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-slate-900 mb-2">
@@ -0,0 +1,192 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+import {
+  searchItineraries,
+  SEARCH_MATCH_START,
+  SEARCH_MATCH_END,
+  type ItinerarySearchHit,
+  type SearchHitKind,
+} from "@/features/data";
+
+interface ItinerarySearchProps {
+  onSelect: (hit: ItinerarySearchHit) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+const KIND_LABELS: Record<SearchHitKind, string> = {
+  title: "Title",
+  day: "Day",
+  region: "Region",
+  place: "Place",
+  address: "Address",
+  text: "Notes",
+};
+
+/**
+ * Renders a snippet with its matched terms highlighted
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(SEARCH_MATCH_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <span key={index}>{part}</span>;
+        const [match, rest = ""] = part.split(SEARCH_MATCH_END);
+        return (
+          <span key={index}>
+            <mark className="bg-yellow-200 text-slate-900 rounded px-0.5">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+export default function ItinerarySearch({ onSelect }: ItinerarySearchProps) {
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<ItinerarySearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Debounced search as the user types
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setHits([]);
+      setError(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const timeout = setTimeout(async () => {
+      try {
+        setIsSearching(true);
+        const response = await searchItineraries(trimmed);
+        if (!isCurrent) return;
+
+        if (response.success && response.data) {
+          setHits(response.data);
+          setError(null);
+        } else {
+          setHits([]);
+          setError(response.error || "Search failed");
+        }
+      } catch (err) {
+        console.error("Error searching itineraries:", err);
+        if (isCurrent) setError("Search failed");
+      } finally {
+        if (isCurrent) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  // Group hits by itinerary, keeping the best-ranked itinerary first
+  const groups: { itineraryId: string; title: string; hits: ItinerarySearchHit[] }[] = [];
+  for (const hit of hits) {
+    let group = groups.find((g) => g.itineraryId === hit.itineraryId);
+    if (!group) {
+      group = {
+        itineraryId: hit.itineraryId,
+        title: hit.itineraryTitle || "Untitled Itinerary",
+        hits: [],
+      };
+      groups.push(group);
+    }
+    group.hits.push(hit);
+  }
+
+  const showResults = isOpen && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={containerRef} className="relative w-full sm:w-96">
+      <div className="relative">
+        <MagnifyingGlassIcon className="h-4 w-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              setIsOpen(false);
+            } else if (e.key === "Enter" && hits.length > 0) {
+              onSelect(hits[0]);
+            }
+          }}
+          placeholder="Search places, days and notes..."
+          className="w-full pl-9 pr-4 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      {showResults && (
+        <div className="absolute right-0 z-20 mt-2 w-full max-h-96 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg">
+          {isSearching && hits.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-500">Searching...</p>
+          ) : error ? (
+            <p className="px-4 py-3 text-sm text-red-600">{error}</p>
+          ) : groups.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-500">No matches found</p>
+          ) : (
+            groups.map((group) => (
+              <div key={group.itineraryId} className="border-b border-slate-100 last:border-b-0">
+                <div className="px-4 pt-3 pb-1 text-xs font-semibold text-slate-500 uppercase tracking-wide">
+                  {group.title}
+                </div>
+                {group.hits.map((hit, index) => (
+                  <button
+                    key={`${hit.blockId || "title"}-${hit.kind}-${index}`}
+                    onClick={() => {
+                      setIsOpen(false);
+                      onSelect(hit);
+                    }}
+                    className="w-full text-left px-4 py-2 hover:bg-blue-50 transition-colors"
+                  >
+                    <div className="flex items-center gap-2 text-xs text-slate-500 mb-0.5">
+                      <span className="font-medium text-blue-600">{KIND_LABELS[hit.kind]}</span>
+                      {hit.dayIndex !== undefined && (
+                        <span>
+                          Day {hit.dayIndex + 1}
+                          {hit.dayTitle ? ` · ${hit.dayTitle}` : ""}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-slate-700 line-clamp-2">
+                      <HighlightedSnippet snippet={hit.snippet} />
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
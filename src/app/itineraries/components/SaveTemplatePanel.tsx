@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { DocumentDuplicateIcon, CheckIcon } from "@heroicons/react/24/outline";
+import { createTemplate } from "@/features/data";
+
+interface SaveTemplatePanelProps {
+  itineraryId: string;
+  defaultName: string;
+  onClose: () => void;
+}
+
+export default function SaveTemplatePanel({
+  itineraryId,
+  defaultName,
+  onClose,
+}: SaveTemplatePanelProps) {
+  const [name, setName] = useState(defaultName);
+  const [stripNotes, setStripNotes] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const response = await createTemplate({ itineraryId, name, stripNotes });
+
+      if (response.success) {
+        setIsSaved(true);
+        setTimeout(onClose, 1500);
+      } else {
+        alert(response.error || "Failed to save template");
+      }
+    } catch (err) {
+      console.error("Error saving template:", err);
+      alert("Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+      <div className="flex items-center mb-3">
+        <DocumentDuplicateIcon className="h-5 w-5 text-blue-600 mr-2" />
+        <h3 className="text-sm font-medium text-blue-900">Save as template</h3>
+      </div>
+
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Template name"
+        maxLength={100}
+        className="w-full px-2 py-1.5 mb-2 border border-slate-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+      <label className="flex items-center text-xs text-slate-700 mb-3">
+        <input
+          type="checkbox"
+          checked={stripNotes}
+          onChange={(e) => setStripNotes(e.target.checked)}
+          className="h-3.5 w-3.5 mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+        />
+        Remove personal notes, free text and hotel details
+      </label>
+
+      <div className="flex space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || isSaved || !name.trim()}
+          className="flex items-center bg-blue-600 text-white px-3 py-1.5 rounded-md text-xs font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaved ? (
+            <>
+              <CheckIcon className="h-4 w-4 mr-1" />
+              Saved
+            </>
+          ) : isSaving ? (
+            "Saving..."
+          ) : (
+            "Save template"
+          )}
+        </button>
+        <button
+          onClick={onClose}
+          className="bg-white text-slate-600 px-3 py-1.5 border border-slate-300 rounded-md text-xs font-medium hover:bg-slate-50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
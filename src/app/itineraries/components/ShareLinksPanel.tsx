@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  LinkIcon,
+  ClipboardDocumentIcon,
+  CheckIcon,
+} from "@heroicons/react/24/outline";
+import {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  type ShareLinkSummary,
+} from "@/features/data";
+
+interface ShareLinksPanelProps {
+  itineraryId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: "Never expires", days: 0 },
+  { label: "Expires in 1 day", days: 1 },
+  { label: "Expires in 7 days", days: 7 },
+  { label: "Expires in 30 days", days: 30 },
+];
+
+function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+export default function ShareLinksPanel({ itineraryId }: ShareLinksPanelProps) {
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [expiryDays, setExpiryDays] = useState(0);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await listShareLinks(itineraryId);
+      if (response.success && response.data) {
+        setLinks(response.data);
+      }
+    } catch (err) {
+      console.error("Error loading share links:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itineraryId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const handleCopy = async (link: ShareLinkSummary) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error("Error copying share link:", err);
+      alert("Failed to copy link");
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      const response = await createShareLink(
+        itineraryId,
+        expiryDays > 0 ? expiryDays : undefined
+      );
+
+      if (response.success && response.data) {
+        setLinks((prev) => [response.data!, ...prev]);
+        await handleCopy(response.data);
+      } else {
+        alert(response.error || "Failed to create share link");
+      }
+    } catch (err) {
+      console.error("Error creating share link:", err);
+      alert("Failed to create share link");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      setRevokingId(id);
+      const response = await revokeShareLink(id);
+
+      if (response.success) {
+        setLinks((prev) =>
+          prev.map((link) =>
+            link.id === id
+              ? { ...link, revokedAt: new Date(), isActive: false }
+              : link
+          )
+        );
+      } else {
+        alert(response.error || "Failed to revoke share link");
+      }
+    } catch (err) {
+      console.error("Error revoking share link:", err);
+      alert("Failed to revoke share link");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const activeLinks = links.filter((link) => link.isActive);
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+      <div className="flex items-center mb-3">
+        <LinkIcon className="h-5 w-5 text-blue-600 mr-2" />
+        <h3 className="text-sm font-medium text-blue-900">Share read-only link</h3>
+      </div>
+
+      <div className="flex space-x-2 mb-3">
+        <select
+          title="Link expiry"
+          value={expiryDays}
+          onChange={(e) => setExpiryDays(parseInt(e.target.value))}
+          className="flex-1 px-2 py-1.5 border border-slate-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.days} value={option.days}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="bg-blue-600 text-white px-3 py-1.5 rounded-md text-xs font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isCreating ? "Creating..." : "Create link"}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-slate-500">Loading links...</p>
+      ) : activeLinks.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          No active links. Anyone with a link can view this itinerary without
+          signing in.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {activeLinks.map((link) => (
+            <li
+              key={link.id}
+              className="flex items-center justify-between bg-white rounded-md border border-slate-200 px-2 py-1.5"
+            >
+              <div className="min-w-0 mr-2">
+                <p className="text-xs font-mono text-slate-700 truncate">
+                  /share/{link.token.slice(0, 10)}…
+                </p>
+                <p className="text-xs text-slate-500">
+                  {link.expiresAt
+                    ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}`
+                    : "No expiry"}
+                </p>
+              </div>
+              <div className="flex space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => handleCopy(link)}
+                  className="p-1 text-slate-400 hover:text-slate-600"
+                  title="Copy link"
+                >
+                  {copiedId === link.id ? (
+                    <CheckIcon className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <ClipboardDocumentIcon className="h-4 w-4" />
+                  )}
+                </button>
+                <button
+                  onClick={() => handleRevoke(link.id)}
+                  disabled={revokingId === link.id}
+                  className="px-2 py-1 border border-red-300 text-red-700 rounded text-xs hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  {revokingId === link.id ? "Revoking..." : "Revoke"}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CalendarDaysIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { shiftTrip, type ShiftTripResponse } from "@/features/data";
+import { getTripDayCount } from "@/features/data/utils/tripDates";
+
+interface ShiftTripPanelProps {
+  itineraryId: string;
+  startDate?: Date;
+  endDate?: Date;
+  onShifted: (startDate: Date, endDate: Date) => void;
+  onClose: () => void;
+}
+
+type ShiftResult = NonNullable<ShiftTripResponse["data"]>;
+
+// Trip dates are stored as UTC midnight, so their ISO date part is the calendar date
+function toInputValue(date?: Date): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : "";
+}
+
+function fromInputValue(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+export default function ShiftTripPanel({
+  itineraryId,
+  startDate,
+  endDate,
+  onShifted,
+  onClose,
+}: ShiftTripPanelProps) {
+  const [newStart, setNewStart] = useState(toInputValue(startDate));
+  const [newEnd, setNewEnd] = useState(toInputValue(endDate || startDate));
+  const [removeSurplusDays, setRemoveSurplusDays] = useState(false);
+  const [isShifting, setIsShifting] = useState(false);
+  const [result, setResult] = useState<ShiftResult | null>(null);
+
+  const currentLength =
+    startDate && endDate ? getTripDayCount(new Date(startDate), new Date(endDate)) : null;
+  const newLength =
+    newStart && newEnd && newEnd >= newStart
+      ? getTripDayCount(fromInputValue(newStart), fromInputValue(newEnd))
+      : null;
+
+  // Moving the start keeps the trip's length
+  const handleStartChange = (value: string) => {
+    if (value && newStart && newEnd) {
+      const lengthMs = fromInputValue(newEnd).getTime() - fromInputValue(newStart).getTime();
+      setNewEnd(new Date(fromInputValue(value).getTime() + lengthMs).toISOString().slice(0, 10));
+    }
+    setNewStart(value);
+  };
+
+  const handleShift = async () => {
+    if (!newStart || !newLength) return;
+
+    try {
+      setIsShifting(true);
+      const response = await shiftTrip({
+        itineraryId,
+        startDate: fromInputValue(newStart),
+        endDate: fromInputValue(newEnd),
+        removeSurplusDays,
+      });
+
+      if (response.success && response.data) {
+        setResult(response.data);
+        onShifted(response.data.startDate, response.data.endDate);
+      } else {
+        alert(response.error || "Failed to change trip dates");
+      }
+    } catch (err) {
+      console.error("Error changing trip dates:", err);
+      alert("Failed to change trip dates");
+    } finally {
+      setIsShifting(false);
+    }
+  };
+
+  if (result) {
+    const hasNotes =
+      result.addedDays > 0 ||
+      result.surplusDays.length > 0 ||
+      result.openingHoursWarnings.length > 0 ||
+      !result.openingHoursChecked;
+
+    return (
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+        <div className="flex items-center mb-2">
+          <CalendarDaysIcon className="h-5 w-5 text-blue-600 mr-2" />
+          <h3 className="text-sm font-medium text-blue-900">Trip dates updated</h3>
+        </div>
+        <ul className="text-xs text-slate-700 space-y-1 mb-3">
+          {result.addedDays > 0 && (
+            <li>
+              Added {result.addedDays} empty {result.addedDays === 1 ? "day" : "days"} at the end.
+            </li>
+          )}
+          {result.surplusDays.length > 0 && (
+            <li>
+              {removeSurplusDays ? "Removed" : "These days are past the new end date:"}{" "}
+              {result.surplusDays
+                .map(
+                  (day) =>
+                    `Day ${day.dayNumber}${day.title ? ` (${day.title})` : ""}` +
+                    (day.placeCount > 0 ? `, ${day.placeCount} places` : "")
+                )
+                .join("; ")}
+            </li>
+          )}
+          {result.openingHoursWarnings.map((warning) => (
+            <li key={`${warning.blockId}-${warning.date}`} className="flex items-start text-amber-700">
+              <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+              Day {warning.dayNumber}: {warning.message}
+            </li>
+          ))}
+          {!result.openingHoursChecked && (
+            <li>Opening hours weren&apos;t checked: you&apos;ve reached your usage limit.</li>
+          )}
+          {!hasNotes && <li>All days were moved to the new dates.</li>}
+        </ul>
+        <button
+          onClick={onClose}
+          className="bg-blue-600 text-white px-3 py-1.5 rounded-md text-xs font-medium hover:bg-blue-700 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+      <div className="flex items-center mb-3">
+        <CalendarDaysIcon className="h-5 w-5 text-blue-600 mr-2" />
+        <h3 className="text-sm font-medium text-blue-900">Change trip dates</h3>
+      </div>
+
+      <div className="flex space-x-2 mb-2">
+        <label className="flex-1 text-xs text-slate-600">
+          Start
+          <input
+            type="date"
+            value={newStart}
+            onChange={(e) => handleStartChange(e.target.value)}
+            className="w-full mt-1 px-2 py-1.5 border border-slate-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </label>
+        <label className="flex-1 text-xs text-slate-600">
+          End
+          <input
+            type="date"
+            value={newEnd}
+            min={newStart}
+            onChange={(e) => setNewEnd(e.target.value)}
+            className="w-full mt-1 px-2 py-1.5 border border-slate-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </label>
+      </div>
+
+      {newLength !== null && currentLength !== null && newLength < currentLength && (
+        <label className="flex items-center text-xs text-slate-700 mb-2">
+          <input
+            type="checkbox"
+            checked={removeSurplusDays}
+            onChange={(e) => setRemoveSurplusDays(e.target.checked)}
+            className="h-3.5 w-3.5 mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          Remove the last {currentLength - newLength}{" "}
+          {currentLength - newLength === 1 ? "day" : "days"} and their places
+        </label>
+      )}
+      {newLength !== null && currentLength !== null && newLength > currentLength && (
+        <p className="text-xs text-slate-600 mb-2">
+          {newLength - currentLength} empty {newLength - currentLength === 1 ? "day" : "days"} will
+          be added.
+        </p>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          onClick={handleShift}
+          disabled={isShifting || !newLength}
+          className="bg-blue-600 text-white px-3 py-1.5 rounded-md text-xs font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isShifting ? "Updating..." : "Update dates"}
+        </button>
+        <button
+          onClick={onClose}
+          className="bg-white text-slate-600 px-3 py-1.5 border border-slate-300 rounded-md text-xs font-medium hover:bg-slate-50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  RectangleStackIcon,
+  ArrowLeftIcon,
+  CalendarIcon,
+  MapPinIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import {
+  ItineraryTemplateSummary,
+  instantiateTemplate,
+  deleteTemplate,
+} from "@/features/data";
+import { useItinerary } from "@/contexts/ItineraryContext";
+import { generateItinerarySlug } from "@/utils/itinerary";
+import { formatTimeAgo } from "@/utils/timeUtils";
+
+interface TemplatesClientProps {
+  templates: ItineraryTemplateSummary[];
+}
+
+function getTodayInputValue(): string {
+  const now = new Date();
+  const offsetMs = now.getTimezoneOffset() * 60 * 1000;
+  return new Date(now.getTime() - offsetMs).toISOString().slice(0, 10);
+}
+
+export default function TemplatesClient({ templates: initialTemplates }: TemplatesClientProps) {
+  const router = useRouter();
+  const { loadItinerary } = useItinerary();
+  const [templates, setTemplates] = useState(initialTemplates);
+  const [startDates, setStartDates] = useState<Record<string, string>>({});
+  const [creatingId, setCreatingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleCreateTrip = async (template: ItineraryTemplateSummary) => {
+    const startDate = startDates[template.id] || getTodayInputValue();
+
+    try {
+      setCreatingId(template.id);
+      // Date inputs are calendar dates; trip dates are stored as UTC midnight
+      const response = await instantiateTemplate({
+        templateId: template.id,
+        startDate: new Date(`${startDate}T00:00:00.000Z`),
+      });
+
+      if (!response.success || !response.data) {
+        alert(response.error || "Failed to create trip from template");
+        setCreatingId(null);
+        return;
+      }
+
+      console.log("✅ Trip created from template:", response.data.id);
+      await loadItinerary(response.data.id);
+      router.push(`/editor/${generateItinerarySlug(response.data.title, response.data.id)}`);
+      // Don't reset creating state - let the redirect happen
+    } catch (err) {
+      console.error("Error creating trip from template:", err);
+      alert("Failed to create trip from template");
+      setCreatingId(null);
+    }
+  };
+
+  const handleDelete = async (template: ItineraryTemplateSummary) => {
+    if (!confirm(`Delete the template "${template.name}"? Trips created from it are kept.`)) {
+      return;
+    }
+
+    try {
+      setDeletingId(template.id);
+      const response = await deleteTemplate(template.id);
+
+      if (response.success) {
+        setTemplates((prev) => prev.filter((item) => item.id !== template.id));
+      } else {
+        alert(response.error || "Failed to delete template");
+      }
+    } catch (err) {
+      console.error("Error deleting template:", err);
+      alert("Failed to delete template");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center">
+            <RectangleStackIcon className="h-8 w-8 text-blue-600 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold text-slate-900">Templates</h1>
+              <p className="text-slate-600 mt-1">
+                Start a new trip from one of your saved itineraries
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => router.push("/itineraries")}
+            className="border border-slate-300 text-slate-700 px-4 py-3 rounded-lg font-medium hover:bg-slate-50 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center"
+          >
+            <ArrowLeftIcon className="h-5 w-5 mr-2" />
+            My Itineraries
+          </button>
+        </div>
+
+        {templates.length === 0 ? (
+          <div className="card p-12 text-center">
+            <RectangleStackIcon className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-slate-900 mb-2">
+              No templates yet
+            </h3>
+            <p className="text-slate-600">
+              Use &quot;Save as template&quot; on any itinerary to reuse it for
+              future trips
+            </p>
+          </div>
+        ) : (
+          <div className="card divide-y divide-slate-200">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className="p-4 flex flex-wrap items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <h3 className="text-lg font-semibold text-slate-900 truncate">
+                    {template.name}
+                  </h3>
+                  <div className="flex items-center text-sm text-slate-500 space-x-3">
+                    <span className="flex items-center">
+                      <MapPinIcon className="h-4 w-4 mr-1" />
+                      {template.destination}
+                    </span>
+                    <span className="flex items-center">
+                      <CalendarIcon className="h-4 w-4 mr-1" />
+                      {template.dayCount} {template.dayCount === 1 ? "day" : "days"}
+                    </span>
+                    <span>Saved {formatTimeAgo(new Date(template.createdAt))}</span>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <label className="sr-only" htmlFor={`start-${template.id}`}>
+                    Start date
+                  </label>
+                  <input
+                    id={`start-${template.id}`}
+                    type="date"
+                    value={startDates[template.id] || getTodayInputValue()}
+                    onChange={(e) =>
+                      setStartDates((prev) => ({ ...prev, [template.id]: e.target.value }))
+                    }
+                    className="px-2 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    onClick={() => handleCreateTrip(template)}
+                    disabled={creatingId !== null}
+                    className="bg-blue-600 text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {creatingId === template.id ? "Creating..." : "New trip"}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    disabled={deletingId === template.id}
+                    className="p-2 text-slate-400 hover:text-red-600 disabled:opacity-50"
+                    title="Delete template"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
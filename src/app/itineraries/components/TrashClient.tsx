@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  TrashIcon,
+  ArrowUturnLeftIcon,
+  ArrowLeftIcon,
+} from "@heroicons/react/24/outline";
+import {
+  TrashedItinerarySummary,
+  restoreItinerary,
+  permanentlyDeleteItinerary,
+} from "@/features/data";
+import { formatTimeAgo } from "@/utils/timeUtils";
+
+interface TrashClientProps {
+  items: TrashedItinerarySummary[];
+  retentionDays: number;
+}
+
+function formatPurgeCountdown(daysUntilPurge: number): string {
+  if (daysUntilPurge <= 0) return "Deleted permanently at the next cleanup";
+  if (daysUntilPurge === 1) return "Deleted permanently in 1 day";
+  return `Deleted permanently in ${daysUntilPurge} days`;
+}
+
+export default function TrashClient({ items: initialItems, retentionDays }: TrashClientProps) {
+  const router = useRouter();
+  const [items, setItems] = useState(initialItems);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const removeItem = (id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const handleRestore = async (id: string) => {
+    try {
+      setBusyId(id);
+      const response = await restoreItinerary(id);
+
+      if (response.success) {
+        removeItem(id);
+      } else {
+        alert(response.error || "Failed to restore itinerary");
+      }
+    } catch (err) {
+      console.error("Error restoring itinerary:", err);
+      alert("Failed to restore itinerary");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePermanentDelete = async (id: string) => {
+    try {
+      setBusyId(id);
+      setConfirmDeleteId(null);
+      const response = await permanentlyDeleteItinerary(id);
+
+      if (response.success) {
+        removeItem(id);
+      } else {
+        alert(response.error || "Failed to delete itinerary");
+      }
+    } catch (err) {
+      console.error("Error deleting itinerary:", err);
+      alert("Failed to delete itinerary");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center">
+            <TrashIcon className="h-8 w-8 text-blue-600 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold text-slate-900">Trash</h1>
+              <p className="text-slate-600 mt-1">
+                Deleted itineraries are kept for {retentionDays} days before
+                they&apos;re removed for good
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => router.push("/itineraries")}
+            className="border border-slate-300 text-slate-700 px-4 py-3 rounded-lg font-medium hover:bg-slate-50 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center"
+          >
+            <ArrowLeftIcon className="h-5 w-5 mr-2" />
+            My Itineraries
+          </button>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="card p-12 text-center">
+            <TrashIcon className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-slate-900 mb-2">
+              Trash is empty
+            </h3>
+            <p className="text-slate-600">
+              Itineraries you delete will appear here
+            </p>
+          </div>
+        ) : (
+          <div className="card divide-y divide-slate-200">
+            {items.map((item) => (
+              <div key={item.id} className="p-4">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-slate-900 truncate">
+                      {item.title || "Untitled Itinerary"}
+                    </h3>
+                    <p className="text-sm text-slate-500">
+                      Deleted {formatTimeAgo(new Date(item.deletedAt))}
+                      <span className="mx-2">·</span>
+                      <span
+                        className={
+                          item.daysUntilPurge <= 3 ? "text-red-600" : undefined
+                        }
+                      >
+                        {formatPurgeCountdown(item.daysUntilPurge)}
+                      </span>
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+                    <button
+                      onClick={() => handleRestore(item.id)}
+                      disabled={busyId === item.id}
+                      className="flex items-center bg-blue-600 text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => setConfirmDeleteId(item.id)}
+                      disabled={busyId === item.id}
+                      className="px-3 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                </div>
+
+                {/* Inline Permanent Delete Confirmation */}
+                {confirmDeleteId === item.id && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+                    <p className="text-sm text-red-700">
+                      Permanently delete &quot;{item.title || "Untitled Itinerary"}
+                      &quot; with its directions and history? This action cannot be
+                      undone.
+                    </p>
+                    <div className="mt-3 flex space-x-2">
+                      <button
+                        onClick={() => handlePermanentDelete(item.id)}
+                        className="bg-red-600 text-white px-3 py-2 rounded-md text-xs font-medium hover:bg-red-700 transition-colors"
+                      >
+                        Delete forever
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="bg-white text-red-600 px-3 py-2 border border-red-300 rounded-md text-xs font-medium hover:bg-red-50 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
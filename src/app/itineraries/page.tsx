@@ -1,8 +1,7 @@
 import { Suspense } from "react";
-import { listItineraries } from "@/features/data";
+import { listItineraries, listFolders } from "@/features/data";
 import { AuthProtected } from "@/features/auth/components/AuthProtected";
-import { extractItineraryStats, ItineraryStats } from "@/utils/itinerary";
-import { extractFirstTwoPlaceImages } from "./utils/extractPlaceImages";
+import { buildItineraryCardData } from "./utils/itineraryCardData";
 import ItinerariesClient from "./components/ItinerariesClient";
 
 function ItinerariesLoadingUI() {
@@ -17,69 +16,27 @@ function ItinerariesLoadingUI() {
 }
 
 async function ItinerariesData() {
-  const response = await listItineraries();
+  const [response, foldersResponse] = await Promise.all([
+    listItineraries(),
+    listFolders(),
+  ]);
 
   if (!response.success || !response.data) {
     throw new Error(response.error || "Failed to load itineraries");
   }
 
   const itineraries = response.data;
-  const statsMap: Record<string, ItineraryStats> = {};
-  const imagesMap: Record<string, string[]> = {};
 
   // Process each itinerary on the server
-  itineraries.forEach((itinerary) => {
-    if (itinerary.editorData) {
-      try {
-        // Extract stats
-        const extractedStats = extractItineraryStats(itinerary.editorData);
-        statsMap[itinerary.id] = extractedStats;
-
-        console.log(`📊 Stats for ${itinerary.id}:`, {
-          extractedTitle: extractedStats.title,
-          dbTitle: itinerary.title,
-          finalTitle: extractedStats.title || itinerary.title,
-        });
-
-        // Extract place images
-        imagesMap[itinerary.id] = extractFirstTwoPlaceImages(
-          itinerary.editorData
-        );
-
-        console.log(
-          `📊 Processed itinerary ${itinerary.id}: ${
-            statsMap[itinerary.id].numberOfPlaces
-          } places, ${imagesMap[itinerary.id].length} images`
-        );
-      } catch (error) {
-        console.error(
-          `Error processing itinerary ${itinerary.id}:`,
-          error
-        );
-        // Provide default stats if extraction fails
-        statsMap[itinerary.id] = {
-          title: itinerary.title || "Untitled Itinerary",
-          numberOfDays: 0,
-          numberOfPlaces: 0,
-        };
-        imagesMap[itinerary.id] = [];
-      }
-    } else {
-      // No editor data available
-      statsMap[itinerary.id] = {
-        title: itinerary.title || "Untitled Itinerary",
-        numberOfDays: 0,
-        numberOfPlaces: 0,
-      };
-      imagesMap[itinerary.id] = [];
-    }
-  });
+  const { stats, images } = buildItineraryCardData(itineraries);
 
   return (
     <ItinerariesClient
       itineraries={itineraries}
-      itineraryStats={statsMap}
-      itineraryImages={imagesMap}
+      itineraryStats={stats}
+      itineraryImages={images}
+      folders={foldersResponse.data || []}
+      availableTags={response.availableTags || []}
     />
   );
 }
@@ -0,0 +1,35 @@
+import { Suspense } from "react";
+import { listTemplates } from "@/features/data";
+import { AuthProtected } from "@/features/auth/components/AuthProtected";
+import TemplatesClient from "../components/TemplatesClient";
+
+function TemplatesLoadingUI() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-slate-600">Loading templates...</p>
+      </div>
+    </div>
+  );
+}
+
+async function TemplatesData() {
+  const response = await listTemplates();
+
+  if (!response.success || !response.data) {
+    throw new Error(response.error || "Failed to load templates");
+  }
+
+  return <TemplatesClient templates={response.data} />;
+}
+
+export default function Templates() {
+  return (
+    <AuthProtected>
+      <Suspense fallback={<TemplatesLoadingUI />}>
+        <TemplatesData />
+      </Suspense>
+    </AuthProtected>
+  );
+}
@@ -0,0 +1,40 @@
+import { Suspense } from "react";
+import { listTrash } from "@/features/data";
+import { AuthProtected } from "@/features/auth/components/AuthProtected";
+import TrashClient from "../components/TrashClient";
+
+function TrashLoadingUI() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-slate-600">Loading trash...</p>
+      </div>
+    </div>
+  );
+}
+
+async function TrashData() {
+  const response = await listTrash();
+
+  if (!response.success || !response.data) {
+    throw new Error(response.error || "Failed to load trash");
+  }
+
+  return (
+    <TrashClient
+      items={response.data.items}
+      retentionDays={response.data.retentionDays}
+    />
+  );
+}
+
+export default function Trash() {
+  return (
+    <AuthProtected>
+      <Suspense fallback={<TrashLoadingUI />}>
+        <TrashData />
+      </Suspense>
+    </AuthProtected>
+  );
+}
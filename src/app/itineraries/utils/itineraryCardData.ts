@@ -0,0 +1,48 @@
+import { ItinerarySummary } from "@/features/data";
+import { extractItineraryStats, ItineraryStats } from "@/utils/itinerary";
+import { extractFirstTwoPlaceImages } from "./extractPlaceImages";
+
+/**
+ * Extract the stats and thumbnail images shown on each itinerary card
+ * Runs on the server for the first render and in the browser when the list is re-filtered
+ */
+export function buildItineraryCardData(itineraries: ItinerarySummary[]): {
+  stats: Record<string, ItineraryStats>;
+  images: Record<string, string[]>;
+} {
+  const stats: Record<string, ItineraryStats> = {};
+  const images: Record<string, string[]> = {};
+
+  itineraries.forEach((itinerary) => {
+    const defaultStats: ItineraryStats = {
+      title: itinerary.title || "Untitled Itinerary",
+      numberOfDays: 0,
+      numberOfPlaces: 0,
+    };
+
+    if (!itinerary.editorData) {
+      // No editor data available
+      stats[itinerary.id] = defaultStats;
+      images[itinerary.id] = [];
+      return;
+    }
+
+    try {
+      stats[itinerary.id] = extractItineraryStats(itinerary.editorData);
+      images[itinerary.id] = extractFirstTwoPlaceImages(itinerary.editorData);
+
+      console.log(
+        `📊 Processed itinerary ${itinerary.id}: ${
+          stats[itinerary.id].numberOfPlaces
+        } places, ${images[itinerary.id].length} images`
+      );
+    } catch (error) {
+      console.error(`Error processing itinerary ${itinerary.id}:`, error);
+      // Provide default stats if extraction fails
+      stats[itinerary.id] = defaultStats;
+      images[itinerary.id] = [];
+    }
+  });
+
+  return { stats, images };
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  CodeBracketIcon,
+  ClipboardDocumentIcon,
+  CheckIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  ApiTokenSummary,
+} from "@/features/data";
+
+const EXPIRY_OPTIONS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "No expiry", days: undefined },
+];
+
+function formatDate(date?: Date) {
+  return date ? new Date(date).toLocaleDateString() : "Never";
+}
+
+export default function ApiTokensPanel() {
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await listApiTokens();
+      if (response.success && response.data) {
+        setTokens(response.data);
+      }
+    } catch (err) {
+      console.error("Error loading API tokens:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      const response = await createApiToken(name, EXPIRY_OPTIONS[expiryIndex].days);
+
+      if (response.success && response.data) {
+        setTokens((prev) => [response.data!.token, ...prev]);
+        setNewSecret(response.data.secret);
+        setIsCopied(false);
+        setName("");
+      } else {
+        alert(response.error || "Failed to create token");
+      }
+    } catch (err) {
+      console.error("Error creating API token:", err);
+      alert("Failed to create token");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    setIsCopied(true);
+  };
+
+  const handleRevoke = async (token: ApiTokenSummary) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+
+    try {
+      setRevokingId(token.id);
+      const response = await revokeApiToken(token.id);
+
+      if (response.success) {
+        setTokens((prev) => prev.filter((item) => item.id !== token.id));
+      } else {
+        alert(response.error || "Failed to revoke token");
+      }
+    } catch (err) {
+      console.error("Error revoking API token:", err);
+      alert("Failed to revoke token");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center mb-2">
+        <CodeBracketIcon className="h-6 w-6 text-slate-600 mr-2" />
+        <h2 className="text-xl font-semibold text-slate-900">API Tokens</h2>
+      </div>
+      <p className="text-sm text-slate-600 mb-6">
+        Personal access tokens let scripts use the REST API at{" "}
+        <code className="text-xs bg-slate-100 px-1 py-0.5 rounded">/api/v1/itineraries</code>{" "}
+        with your account. Send them as{" "}
+        <code className="text-xs bg-slate-100 px-1 py-0.5 rounded">Authorization: Bearer &lt;token&gt;</code>.
+      </p>
+
+      {/* New token */}
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Token name, e.g. Sync script"
+          maxLength={50}
+          className="flex-1 px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <select
+          value={expiryIndex}
+          onChange={(e) => setExpiryIndex(Number(e.target.value))}
+          aria-label="Token expiry"
+          className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating || !name.trim()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isCreating ? "Creating..." : "Create token"}
+        </button>
+      </div>
+
+      {newSecret && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+          <p className="text-sm text-blue-900 mb-2">
+            Copy your new token now. It won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-white border border-slate-200 rounded px-2 py-1.5 break-all">
+              {newSecret}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="flex items-center px-3 py-1.5 border border-slate-300 rounded-md text-xs text-slate-700 bg-white hover:bg-slate-50 transition-colors"
+            >
+              {isCopied ? (
+                <>
+                  <CheckIcon className="h-4 w-4 mr-1" />
+                  Copied
+                </>
+              ) : (
+                <>
+                  <ClipboardDocumentIcon className="h-4 w-4 mr-1" />
+                  Copy
+                </>
+              )}
+            </button>
+          </div>
+          <button
+            onClick={() => setNewSecret(null)}
+            className="mt-2 text-xs text-blue-700 hover:underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {/* Token list */}
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading tokens...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-slate-500">You have no API tokens yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-center justify-between px-4 py-3">
+              <div>
+                <p className="text-sm font-medium text-slate-900">{token.name}</p>
+                <p className="text-xs text-slate-500">
+                  <code>{token.prefix}…</code> · Last used {formatDate(token.lastUsedAt)} ·{" "}
+                  {token.expiresAt ? `Expires ${formatDate(token.expiresAt)}` : "No expiry"}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(token)}
+                disabled={revokingId === token.id}
+                className="flex items-center text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                <TrashIcon className="h-4 w-4 mr-1" />
+                {revokingId === token.id ? "Revoking..." : "Revoke"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
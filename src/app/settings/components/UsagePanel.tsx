@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChartBarIcon } from "@heroicons/react/24/outline";
+import {
+  getApiUsageSummary,
+  ApiUsagePeriodSummary,
+  ApiUsageSummaryResponse,
+} from "@/features/data";
+
+const SERVICE_LABELS: Record<string, string> = {
+  openai: "OpenAI",
+  "google-places": "Google Places",
+  "google-directions": "Google Directions",
+};
+
+const QUOTA_LABELS = {
+  openai: "AI generation",
+  google: "Google Maps",
+};
+
+function formatCost(cost: number) {
+  return `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
+}
+
+function UsageTable({ title, summary }: { title: string; summary: ApiUsagePeriodSummary }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-900 mb-2">{title}</h3>
+      {summary.services.length === 0 ? (
+        <p className="text-xs text-slate-500">No API calls yet.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="font-medium pb-1">Service</th>
+              <th className="font-medium pb-1 text-right">Calls</th>
+              <th className="font-medium pb-1 text-right">Cached</th>
+              <th className="font-medium pb-1 text-right">Tokens</th>
+              <th className="font-medium pb-1 text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.services.map((service) => (
+              <tr key={service.service} className="border-t border-slate-100">
+                <td className="py-1 text-slate-700">
+                  {SERVICE_LABELS[service.service] || service.service}
+                </td>
+                <td className="py-1 text-right text-slate-700">{service.requests}</td>
+                <td className="py-1 text-right text-slate-700">{service.cacheHits}</td>
+                <td className="py-1 text-right text-slate-700">
+                  {service.totalTokens ? service.totalTokens.toLocaleString() : "–"}
+                </td>
+                <td className="py-1 text-right text-slate-700">{formatCost(service.estimatedCost)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-slate-200 font-medium">
+              <td className="py-1 text-slate-900" colSpan={4}>
+                Total
+              </td>
+              <td className="py-1 text-right text-slate-900">{formatCost(summary.estimatedCost)}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePanel() {
+  const [usage, setUsage] = useState<ApiUsageSummaryResponse["data"]>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      try {
+        const response = await getApiUsageSummary();
+        if (response.success && response.data) {
+          setUsage(response.data);
+        } else {
+          setError(response.error || "Failed to load usage");
+        }
+      } catch (err) {
+        console.error("Error loading API usage:", err);
+        setError("Failed to load usage");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadUsage();
+  }, []);
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center mb-2">
+        <ChartBarIcon className="h-6 w-6 text-slate-600 mr-2" />
+        <h2 className="text-xl font-semibold text-slate-900">Usage</h2>
+      </div>
+      <p className="text-sm text-slate-600 mb-6">
+        AI and map calls made for you. Cached results don&apos;t count toward limits. Costs are
+        estimates at list prices.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading usage...</p>
+      ) : error || !usage ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <div className="space-y-6">
+          {usage.quotas.length > 0 && (
+            <div className="space-y-3">
+              {usage.quotas.map((quota) => {
+                const percent = Math.min(100, Math.round((quota.used / quota.limit) * 100));
+                return (
+                  <div key={`${quota.kind}-${quota.period}`}>
+                    <div className="flex justify-between text-xs text-slate-700 mb-1">
+                      <span>
+                        {QUOTA_LABELS[quota.kind]} · {quota.period === "day" ? "today" : "this month"}
+                      </span>
+                      <span>
+                        {quota.used.toLocaleString()} / {quota.limit.toLocaleString()} {quota.unit}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${percent >= 100 ? "bg-red-500" : percent >= 80 ? "bg-amber-500" : "bg-blue-600"}`}
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <UsageTable title="Today" summary={usage.today} />
+          <UsageTable title="This month" summary={usage.month} />
+        </div>
+      )}
+    </div>
+  );
+}
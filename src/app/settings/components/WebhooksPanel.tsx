@@ -0,0 +1,354 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  BoltIcon,
+  PaperAirplaneIcon,
+  ListBulletIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import {
+  createWebhook,
+  listWebhooks,
+  updateWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  sendTestWebhook,
+  WebhookEvent,
+  WebhookSummary,
+  WebhookDeliverySummary,
+} from "@/features/data";
+
+const EVENT_OPTIONS: { event: WebhookEvent; label: string }[] = [
+  { event: "itinerary.created", label: "Itinerary created" },
+  { event: "itinerary.updated", label: "Itinerary updated" },
+  { event: "itinerary.deleted", label: "Itinerary deleted" },
+  { event: "generation.completed", label: "Generation completed" },
+];
+
+const STATUS_STYLES: Record<WebhookDeliverySummary["status"], string> = {
+  succeeded: "bg-green-100 text-green-700",
+  pending: "bg-amber-100 text-amber-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+function formatDateTime(date: Date) {
+  return new Date(date).toLocaleString();
+}
+
+interface EventCheckboxesProps {
+  selected: WebhookEvent[];
+  onChange: (events: WebhookEvent[]) => void;
+}
+
+function EventCheckboxes({ selected, onChange }: EventCheckboxesProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {EVENT_OPTIONS.map(({ event, label }) => (
+        <label key={event} className="flex items-center text-xs text-slate-700">
+          <input
+            type="checkbox"
+            checked={selected.includes(event)}
+            onChange={(e) =>
+              onChange(
+                e.target.checked
+                  ? [...selected, event]
+                  : selected.filter((item) => item !== event)
+              )
+            }
+            className="h-3.5 w-3.5 mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default function WebhooksPanel() {
+  const [webhooks, setWebhooks] = useState<WebhookSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(EVENT_OPTIONS.map(({ event }) => event));
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [logId, setLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliverySummary[]>([]);
+  const [testResult, setTestResult] = useState<{ webhookId: string; delivery: WebhookDeliverySummary } | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const response = await listWebhooks();
+      if (response.success && response.data) {
+        setWebhooks(response.data);
+      }
+    } catch (err) {
+      console.error("Error loading webhooks:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const replaceWebhook = (webhook: WebhookSummary) => {
+    setWebhooks((prev) => prev.map((item) => (item.id === webhook.id ? webhook : item)));
+  };
+
+  const loadDeliveries = async (webhookId: string) => {
+    const response = await listWebhookDeliveries(webhookId);
+    if (response.success && response.data) {
+      setDeliveries(response.data);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      const response = await createWebhook({ url, events });
+
+      if (response.success && response.data) {
+        setWebhooks((prev) => [...prev, response.data!]);
+        setUrl("");
+      } else {
+        alert(response.error || "Failed to add webhook");
+      }
+    } catch (err) {
+      console.error("Error creating webhook:", err);
+      alert("Failed to add webhook");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUpdate = async (
+    webhookId: string,
+    updates: { events?: WebhookEvent[]; active?: boolean }
+  ) => {
+    try {
+      setBusyId(webhookId);
+      const response = await updateWebhook(webhookId, updates);
+
+      if (response.success && response.data) {
+        replaceWebhook(response.data);
+      } else {
+        alert(response.error || "Failed to update webhook");
+      }
+    } catch (err) {
+      console.error("Error updating webhook:", err);
+      alert("Failed to update webhook");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (webhook: WebhookSummary) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) return;
+
+    try {
+      setBusyId(webhook.id);
+      const response = await deleteWebhook(webhook.id);
+
+      if (response.success) {
+        setWebhooks((prev) => prev.filter((item) => item.id !== webhook.id));
+      } else {
+        alert(response.error || "Failed to delete webhook");
+      }
+    } catch (err) {
+      console.error("Error deleting webhook:", err);
+      alert("Failed to delete webhook");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTest = async (webhookId: string) => {
+    try {
+      setBusyId(webhookId);
+      setTestResult(null);
+      const response = await sendTestWebhook(webhookId);
+
+      if (response.success && response.data) {
+        setTestResult({ webhookId, delivery: response.data });
+        if (logId === webhookId) {
+          await loadDeliveries(webhookId);
+        }
+        await loadWebhooks();
+      } else {
+        alert(response.error || "Failed to send test event");
+      }
+    } catch (err) {
+      console.error("Error sending test webhook:", err);
+      alert("Failed to send test event");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleLog = async (webhookId: string) => {
+    if (logId === webhookId) {
+      setLogId(null);
+      return;
+    }
+    setLogId(webhookId);
+    setDeliveries([]);
+    try {
+      await loadDeliveries(webhookId);
+    } catch (err) {
+      console.error("Error loading webhook deliveries:", err);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center mb-2">
+        <BoltIcon className="h-6 w-6 text-slate-600 mr-2" />
+        <h2 className="text-xl font-semibold text-slate-900">Webhooks</h2>
+      </div>
+      <p className="text-sm text-slate-600 mb-6">
+        Get a signed JSON POST when your trips change. Verify the{" "}
+        <code className="text-xs bg-slate-100 px-1 py-0.5 rounded">X-Itera-Signature</code>{" "}
+        header with the webhook&apos;s secret. Failed deliveries are retried with backoff.
+      </p>
+
+      {/* New webhook */}
+      <div className="border border-slate-200 rounded-lg p-4 mb-4">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/webhooks/itera"
+          className="w-full px-3 py-2 mb-3 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <EventCheckboxes selected={events} onChange={setEvents} />
+        <button
+          onClick={handleCreate}
+          disabled={isCreating || !url.trim() || events.length === 0}
+          className="mt-3 bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isCreating ? "Adding..." : "Add webhook"}
+        </button>
+      </div>
+
+      {/* Webhook list */}
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading webhooks...</p>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-slate-500">You have no webhooks yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} className="border border-slate-200 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900 break-all">{webhook.url}</p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    Secret <code className="break-all">{webhook.secret}</code>
+                  </p>
+                  {webhook.lastDelivery && (
+                    <p className="text-xs text-slate-500 mt-1">
+                      Last delivery {webhook.lastDelivery.status} ·{" "}
+                      {formatDateTime(webhook.lastDelivery.createdAt)}
+                    </p>
+                  )}
+                </div>
+                <label className="flex items-center text-xs text-slate-700 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={webhook.active}
+                    disabled={busyId === webhook.id}
+                    onChange={(e) => handleUpdate(webhook.id, { active: e.target.checked })}
+                    className="h-3.5 w-3.5 mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Active
+                </label>
+              </div>
+
+              <EventCheckboxes
+                selected={webhook.events}
+                onChange={(selected) => handleUpdate(webhook.id, { events: selected })}
+              />
+
+              <div className="flex flex-wrap gap-2 mt-3">
+                <button
+                  onClick={() => handleTest(webhook.id)}
+                  disabled={busyId === webhook.id || !webhook.active}
+                  className="flex items-center px-3 py-1.5 border border-slate-300 rounded-md text-xs text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-50"
+                >
+                  <PaperAirplaneIcon className="h-4 w-4 mr-1" />
+                  Send test event
+                </button>
+                <button
+                  onClick={() => handleToggleLog(webhook.id)}
+                  className="flex items-center px-3 py-1.5 border border-slate-300 rounded-md text-xs text-slate-700 hover:bg-slate-50 transition-colors"
+                >
+                  <ListBulletIcon className="h-4 w-4 mr-1" />
+                  {logId === webhook.id ? "Hide deliveries" : "Deliveries"}
+                </button>
+                <button
+                  onClick={() => handleDelete(webhook)}
+                  disabled={busyId === webhook.id}
+                  className="flex items-center px-3 py-1.5 text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  <TrashIcon className="h-4 w-4 mr-1" />
+                  Delete
+                </button>
+              </div>
+
+              {testResult?.webhookId === webhook.id && (
+                <p
+                  className={`text-xs mt-2 ${
+                    testResult.delivery.status === "succeeded" ? "text-green-700" : "text-red-600"
+                  }`}
+                >
+                  {testResult.delivery.status === "succeeded"
+                    ? `Test event delivered (HTTP ${testResult.delivery.responseStatus})`
+                    : `Test event failed: ${testResult.delivery.error}`}
+                </p>
+              )}
+
+              {logId === webhook.id && (
+                <div className="mt-3 border-t border-slate-200 pt-3">
+                  {deliveries.length === 0 ? (
+                    <p className="text-xs text-slate-500">No deliveries yet.</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-slate-500">
+                          <th className="font-medium pb-1">Event</th>
+                          <th className="font-medium pb-1">Status</th>
+                          <th className="font-medium pb-1">Attempts</th>
+                          <th className="font-medium pb-1">Sent</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {deliveries.map((delivery) => (
+                          <tr key={delivery.id} className="border-t border-slate-100 align-top">
+                            <td className="py-1 pr-2 text-slate-700">{delivery.event}</td>
+                            <td className="py-1 pr-2">
+                              <span
+                                className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[delivery.status]}`}
+                                title={delivery.error}
+                              >
+                                {delivery.status}
+                                {delivery.responseStatus ? ` · ${delivery.responseStatus}` : ""}
+                              </span>
+                            </td>
+                            <td className="py-1 pr-2 text-slate-700">{delivery.attempts}</td>
+                            <td className="py-1 text-slate-500">{formatDateTime(delivery.createdAt)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,9 @@ import {
   PaintBrushIcon,
   KeyIcon,
 } from "@heroicons/react/24/outline";
+import ApiTokensPanel from "./components/ApiTokensPanel";
+import WebhooksPanel from "./components/WebhooksPanel";
+import UsagePanel from "./components/UsagePanel";
 
 export default function Settings() {
   return (
@@ -276,6 +279,21 @@ export default function Settings() {
                 </div>
               </form>
             </div>
+
+            {/* Usage */}
+            <div className="mt-8">
+              <UsagePanel />
+            </div>
+
+            {/* API Access */}
+            <div className="mt-8">
+              <ApiTokensPanel />
+            </div>
+
+            {/* Webhooks */}
+            <div className="mt-8">
+              <WebhooksPanel />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,103 @@
+"use client";
+
+import { useMemo } from "react";
+import dynamic from "next/dynamic";
+import { MapIcon, EyeIcon } from "@heroicons/react/24/outline";
+import { ItineraryProvider } from "@/contexts/ItineraryContext";
+import type { SharedItineraryResponse } from "@/features/data";
+
+const ItineraryEditor = dynamic(
+  () => import("@/features/editor/components/ItineraryEditor"),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    ),
+  }
+);
+
+const ItineraryMap = dynamic(
+  () =>
+    import("@/features/map/components/ItineraryMap").then((mod) => ({
+      default: mod.ItineraryMap,
+    })),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    ),
+  }
+);
+
+interface SharedItineraryViewProps {
+  itinerary: NonNullable<SharedItineraryResponse["data"]>;
+}
+
+export default function SharedItineraryView({
+  itinerary,
+}: SharedItineraryViewProps) {
+  // Memoize the blocks data to prevent unnecessary map re-renders
+  const blocks = useMemo(
+    () => itinerary.editorData.blocks,
+    [itinerary.editorData]
+  );
+
+  const dateRange =
+    itinerary.startDate && itinerary.endDate
+      ? `${new Date(itinerary.startDate).toLocaleDateString()} – ${new Date(
+          itinerary.endDate
+        ).toLocaleDateString()}`
+      : null;
+
+  // A separate read-only provider keeps the viewer's own itinerary state untouched
+  // and guarantees nothing is ever saved from this page
+  return (
+    <ItineraryProvider readOnly>
+      <div className="h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-2 overflow-hidden">
+        <div className="h-[calc(100vh-64px-2rem)]">
+          <div className="h-full bg-white shadow-xl border border-slate-200 rounded-lg overflow-hidden">
+            <div className="grid grid-cols-1 lg:grid-cols-2 h-full">
+              {/* Notebook Section */}
+              <div className="bg-slate-50 border-r border-slate-200 flex flex-col h-full overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-3 bg-slate-800 text-white flex-shrink-0">
+                  <div className="flex items-center min-w-0">
+                    <EyeIcon className="h-5 w-5 text-blue-400 mr-2 flex-shrink-0" />
+                    <h2 className="text-base font-semibold truncate">
+                      {itinerary.title || itinerary.destination || "Shared Itinerary"}
+                    </h2>
+                  </div>
+                  <span className="text-xs text-slate-300 ml-2 flex-shrink-0">
+                    {dateRange ? `${dateRange} • ` : ""}Read-only
+                  </span>
+                </div>
+                <div className="flex-1 min-h-0 px-3 py-2">
+                  <ItineraryEditor data={itinerary.editorData} readOnly />
+                </div>
+              </div>
+
+              {/* Map Section */}
+              <div className="flex flex-col h-full bg-white">
+                <div className="flex items-center px-4 py-3 bg-slate-800 text-white flex-shrink-0">
+                  <MapIcon className="h-5 w-5 text-green-400 mr-2" />
+                  <h2 className="text-base font-semibold">Map</h2>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <ItineraryMap
+                    editorData={blocks}
+                    directionsData={itinerary.directions}
+                    readOnly
+                    className="h-full"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </ItineraryProvider>
+  );
+}
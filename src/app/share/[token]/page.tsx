@@ -0,0 +1,26 @@
+import { getSharedItinerary } from "@/features/data";
+import SharedItineraryView from "./components/SharedItineraryView";
+
+interface SharePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+  const response = await getSharedItinerary(token);
+
+  if (!response.success || !response.data) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 mb-2">❌ Link unavailable</div>
+          <p className="text-slate-600">
+            {response.error || "This share link is invalid or has expired"}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <SharedItineraryView itinerary={response.data} />;
+}
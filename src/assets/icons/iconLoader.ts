@@ -34,7 +34,8 @@ export class IconLoader {
       '/icons/trash-bin.svg',
       '/icons/flag.svg', 
       '/icons/ban.svg',
-      '/icons/lightbulb.svg'
+      '/icons/lightbulb.svg',
+      '/icons/lock.svg'
     ];
     
     // Load all icons in parallel
@@ -54,5 +55,6 @@ export const IconPaths = {
   TRASH_BIN: '/icons/trash-bin.svg',
   FLAG: '/icons/flag.svg',
   BAN: '/icons/ban.svg',
-  LIGHTBULB: '/icons/lightbulb.svg'
+  LIGHTBULB: '/icons/lightbulb.svg',
+  LOCK: '/icons/lock.svg'
 } as const;
\ No newline at end of file
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import {
+  ChatBubbleLeftRightIcon,
+  XMarkIcon,
+  PaperAirplaneIcon,
+  CheckIcon,
+  ArrowUturnLeftIcon,
+} from "@heroicons/react/24/outline";
+import { planItineraryEditsAction } from "@/features/editor/actions/assistant";
+import { applyItineraryOperations } from "@/features/assistant/operations";
+import { MAX_ASSISTANT_HISTORY } from "@/features/assistant/schema";
+import type { AssistantMessage } from "@/features/assistant/types";
+import type { EditorData } from "@/features/editor/types";
+
+interface AssistantPanelProps {
+  editorData: EditorData | undefined;
+  onPreview: (editorData: EditorData) => void; // Shows the edited itinerary until kept or undone
+  onKeep: () => void;
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+interface ChatMessage extends AssistantMessage {
+  changes?: string[];
+  status?: "preview" | "kept" | "undone";
+  isError?: boolean;
+}
+
+const EXAMPLES = [
+  "Swap day 2 and 3",
+  "Add a lunch spot near the Colosseum",
+  "Make day 4 more relaxed",
+];
+
+export default function AssistantPanel({
+  editorData,
+  onPreview,
+  onKeep,
+  onUndo,
+  onClose,
+}: AssistantPanelProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const isPreviewing = messages.some((message) => message.status === "preview");
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages, isSending]);
+
+  const setPreviewStatus = (status: "kept" | "undone") => {
+    setMessages((current) =>
+      current.map((message) =>
+        message.status === "preview" ? { ...message, status } : message
+      )
+    );
+  };
+
+  const handleKeep = () => {
+    onKeep();
+    setPreviewStatus("kept");
+  };
+
+  const handleUndo = () => {
+    onUndo();
+    setPreviewStatus("undone");
+  };
+
+  // Closing keeps a previewed edit, since it's already shown in the editor
+  const handleClose = () => {
+    if (isPreviewing) onKeep();
+    onClose();
+  };
+
+  const handleSend = async (instruction: string) => {
+    if (!instruction.trim() || !editorData || isSending || isPreviewing) return;
+
+    const history: AssistantMessage[] = messages
+      .filter((message) => !message.isError)
+      .map(({ role, content }) => ({ role, content }))
+      .slice(-MAX_ASSISTANT_HISTORY);
+    setMessages((current) => [...current, { role: "user", content: instruction }]);
+    setInput("");
+    setIsSending(true);
+
+    try {
+      const response = await planItineraryEditsAction({
+        editorData,
+        instruction,
+        history,
+      });
+
+      if (!response.success || !response.data) {
+        setMessages((current) => [
+          ...current,
+          {
+            role: "assistant",
+            content: response.error || "Failed to edit the itinerary",
+            isError: true,
+          },
+        ]);
+        return;
+      }
+
+      const plan = response.data;
+      if (plan.operations.length === 0) {
+        setMessages((current) => [...current, { role: "assistant", content: plan.reply }]);
+        return;
+      }
+
+      // Checked again here, against the itinerary as it is now
+      const result = applyItineraryOperations(editorData, plan.operations);
+      if (!result.success) {
+        console.error("❌ Assistant edits no longer apply:", result.error);
+        setMessages((current) => [
+          ...current,
+          {
+            role: "assistant",
+            content: "The itinerary changed while I was working on it. Please try again.",
+            isError: true,
+          },
+        ]);
+        return;
+      }
+
+      onPreview(result.editorData);
+      setMessages((current) => [
+        ...current,
+        {
+          role: "assistant",
+          content: plan.reply,
+          changes: result.changes,
+          status: "preview",
+        },
+      ]);
+    } catch (err) {
+      console.error("Error sending assistant instruction:", err);
+      setMessages((current) => [
+        ...current,
+        { role: "assistant", content: "Failed to edit the itinerary", isError: true },
+      ]);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-96 flex flex-col bg-white border-l border-slate-200 shadow-lg">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-800 text-white flex-shrink-0">
+        <div className="flex items-center">
+          <ChatBubbleLeftRightIcon className="h-5 w-5 text-blue-400 mr-2" />
+          <h2 className="text-base font-semibold">Assistant</h2>
+        </div>
+        <button
+          onClick={handleClose}
+          className="p-1 text-slate-300 hover:text-white"
+          title="Close assistant"
+        >
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 min-h-0 overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 && (
+          <div className="text-sm text-slate-500">
+            <p className="mb-2">Ask for changes to your itinerary, for example:</p>
+            <ul className="space-y-1">
+              {EXAMPLES.map((example) => (
+                <li key={example}>
+                  <button
+                    onClick={() => handleSend(example)}
+                    disabled={!editorData || isSending}
+                    className="text-left text-blue-600 hover:text-blue-800 disabled:text-slate-400"
+                  >
+                    &ldquo;{example}&rdquo;
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {messages.map((message, index) => (
+          <div
+            key={index}
+            className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+          >
+            <div
+              className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                message.role === "user"
+                  ? "bg-blue-600 text-white"
+                  : message.isError
+                  ? "bg-red-50 text-red-700 border border-red-200"
+                  : "bg-slate-100 text-slate-800"
+              }`}
+            >
+              <p className="whitespace-pre-wrap">{message.content}</p>
+
+              {message.changes && message.changes.length > 0 && (
+                <ul className="mt-2 space-y-0.5 text-xs text-slate-600 list-disc pl-4">
+                  {message.changes.map((change, changeIndex) => (
+                    <li key={changeIndex}>{change}</li>
+                  ))}
+                </ul>
+              )}
+
+              {message.status === "preview" && (
+                <div className="flex items-center gap-2 mt-2">
+                  <button
+                    onClick={handleKeep}
+                    className="inline-flex items-center gap-1 px-2 py-1 bg-green-50 text-green-700 border border-green-200 rounded-md hover:bg-green-100 transition-colors text-xs font-medium"
+                  >
+                    <CheckIcon className="h-3 w-3" />
+                    Keep
+                  </button>
+                  <button
+                    onClick={handleUndo}
+                    className="inline-flex items-center gap-1 px-2 py-1 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-50 transition-colors text-xs font-medium"
+                  >
+                    <ArrowUturnLeftIcon className="h-3 w-3" />
+                    Undo
+                  </button>
+                </div>
+              )}
+              {message.status === "kept" && (
+                <p className="mt-2 text-xs text-green-700">Changes kept</p>
+              )}
+              {message.status === "undone" && (
+                <p className="mt-2 text-xs text-slate-500">Changes undone</p>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {isSending && (
+          <div className="flex items-center gap-2 text-sm text-slate-500">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            Working on it...
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleSend(input);
+        }}
+        className="flex items-center gap-2 p-3 border-t border-slate-200 flex-shrink-0"
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          maxLength={500}
+          disabled={isSending || isPreviewing}
+          placeholder={
+            isPreviewing ? "Keep or undo the changes first" : "Ask for a change..."
+          }
+          className="flex-1 min-w-0 px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || !editorData || isSending || isPreviewing}
+          className="p-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-slate-300 transition-colors"
+          title="Send"
+        >
+          <PaperAirplaneIcon className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
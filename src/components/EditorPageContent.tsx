@@ -1,13 +1,22 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import { MapIcon, PencilSquareIcon } from "@heroicons/react/24/outline";
+import {
+  MapIcon,
+  PencilSquareIcon,
+  ClockIcon,
+  ChatBubbleLeftRightIcon,
+} from "@heroicons/react/24/outline";
 import dynamic from "next/dynamic";
 import { useItinerary } from "@/contexts/ItineraryContext";
 import { convertItineraryToEditorData } from "@/app/create-itinerary/utils/editorConverter";
 import SaveStatusIndicator, {
   SaveStatus,
 } from "@/components/SaveStatusIndicator";
+import RevisionHistoryPanel from "@/components/RevisionHistoryPanel";
+import MergeConflictPanel from "@/components/MergeConflictPanel";
+import ExportMenu from "@/components/ExportMenu";
+import AssistantPanel from "@/components/AssistantPanel";
 
 // Import from feature structure
 const ItineraryEditor = dynamic(
@@ -27,6 +36,10 @@ const ItineraryEditor = dynamic(
 
 // Import types from feature
 import type { EditorData } from "@/features/editor/types";
+import type {
+  DirectionsData,
+  DirectionsRefreshSummary,
+} from "@/features/directions/types";
 
 // Import map component
 const ItineraryMap = dynamic(
@@ -76,11 +89,30 @@ function deepCompareEditorData(
 }
 
 export default function EditorPageContent() {
-  const { state, updateEditorData, setDirectionsData } = useItinerary();
+  const {
+    state,
+    updateEditorData,
+    setDirectionsData,
+    loadItinerary,
+    resolveConflict,
+    dismissConflicts,
+  } = useItinerary();
   const [localEditorData, setLocalEditorData] = useState<
     EditorData | undefined
   >();
-  const editorRefreshFnRef = useRef<(() => Promise<any>) | null>(null);
+  // Bumped to remount the editor when its content is replaced from outside (e.g. restore)
+  const [editorKey, setEditorKey] = useState(0);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+  // The itinerary before the assistant's previewed edit, restored on undo; set while
+  // previewing, when edits stay local until they're kept
+  const assistantUndoRef = useRef<EditorData | null>(null);
+  const editorRefreshFnRef = useRef<
+    ((previousDirections?: DirectionsData[]) => Promise<any>) | null
+  >(null);
+  // Last known routes: the context clears directions whenever places change, but days
+  // whose stops are unchanged can still reuse their route on the next refresh
+  const knownDirectionsRef = useRef<DirectionsData[]>([]);
   const isUpdatingFromEditor = useRef(false);
 
   // Save status tracking
@@ -90,6 +122,8 @@ export default function EditorPageContent() {
   useEffect(() => {
     if (state.isSaving) {
       setSaveStatus("saving");
+    } else if (state.pendingChanges > 0) {
+      setSaveStatus("pending");
     } else if (state.error) {
       setSaveStatus("error");
     } else if (state.lastSaved && !state.isDirty) {
@@ -97,11 +131,11 @@ export default function EditorPageContent() {
     } else if (!state.isSaving && !state.error) {
       setSaveStatus("idle");
     }
-  }, [state.isSaving, state.error, state.lastSaved, state.isDirty]);
+  }, [state.isSaving, state.pendingChanges, state.error, state.lastSaved, state.isDirty]);
 
   // Load editor data from context whenever it changes (with change detection)
   useEffect(() => {
-    if (state.editorData && !isUpdatingFromEditor.current) {
+    if (state.editorData && !isUpdatingFromEditor.current && !assistantUndoRef.current) {
       // Only update if the data is actually different
       if (!deepCompareEditorData(localEditorData, state.editorData)) {
         console.log("📝 Loading itinerary from context:", state.editorData);
@@ -117,6 +151,16 @@ export default function EditorPageContent() {
     }
   }, [state.editorData, localEditorData]);
 
+  // Remount the editor when a save merged in changes made elsewhere
+  useEffect(() => {
+    if (state.remoteUpdateCount > 0 && state.editorData) {
+      console.log("🔀 Editor page: Content merged, reloading editor");
+      setLocalEditorData(state.editorData);
+      setEditorKey((key) => key + 1);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.remoteUpdateCount]);
+
   // Convert currentItinerary to editorData if we have itinerary but no editorData
   useEffect(() => {
     if (state.currentItinerary && !state.editorData) {
@@ -162,41 +206,111 @@ export default function EditorPageContent() {
     // Update local state for immediate UI response
     setLocalEditorData(data);
 
+    // A previewed assistant edit is only saved once it's kept
+    if (assistantUndoRef.current) return;
+
     // Update context which will trigger database auto-save
     updateEditorData(data);
   };
 
   // Stable callback for when refresh function is ready
-  const handleRefreshReady = useCallback((refreshFn: () => Promise<any>) => {
+  const handleRefreshReady = useCallback((
+    refreshFn: (previousDirections?: DirectionsData[]) => Promise<any>
+  ) => {
     console.log("🚗 Editor page: Refresh function received from editor");
     editorRefreshFnRef.current = refreshFn;
   }, []); //TODO: check if this is needed
 
   // Create refresh directions callback
-  const handleRefreshDirections = useCallback(async () => {
+  const handleRefreshDirections = useCallback(async (): Promise<
+    DirectionsRefreshSummary | undefined
+  > => {
     if (!editorRefreshFnRef.current) return;
 
     try {
-      const result = await editorRefreshFnRef.current();
-      const { directions, updatedPlaces } = result;
+      const result = await editorRefreshFnRef.current(knownDirectionsRef.current);
+      const { directions, updatedPlaces, refreshedDays, unchangedDays } = result;
 
       console.log(
-        `🚗 Editor page: Received ${directions.length} direction routes`
+        `🚗 Editor page: Received ${directions.length} direction routes (${refreshedDays.length} recalculated)`
       );
       console.log(
         `🚗 Editor page: Updated ${updatedPlaces.length} places with driving times`
       );
 
       setDirectionsData(directions);
+      knownDirectionsRef.current = directions;
 
       // Optionally trigger editor re-render to show updated driving times
       // The place blocks should update themselves via the event system
+
+      return { refreshedDays, unchangedDays };
     } catch (error) {
       console.error("🚗 Editor page: Error refreshing directions:", error);
       // TODO: Show user error notification
     }
   }, []);
 
+  // Remember routes as they're loaded so a later refresh can reuse them
+  // (the reset runs first, so a newly opened itinerary's routes are kept)
+  useEffect(() => {
+    knownDirectionsRef.current = [];
+  }, [state.currentItineraryId]);
+
+  useEffect(() => {
+    if (state.directionsData.length > 0) {
+      knownDirectionsRef.current = state.directionsData;
+    }
+  }, [state.directionsData]);
+
+  // Reload the restored content into the context and remount the editor with it
+  const handleRevisionRestored = useCallback(
+    async (editorData: EditorData) => {
+      if (!state.currentItineraryId) return;
+
+      console.log("⏪ Editor page: Revision restored, reloading itinerary");
+      await loadItinerary(state.currentItineraryId);
+      assistantUndoRef.current = null;
+      setLocalEditorData(editorData);
+      setEditorKey((key) => key + 1);
+      setIsHistoryOpen(false);
+    },
+    [state.currentItineraryId, loadItinerary]
+  );
+
+  // Remount the editor with content from outside it, without saving it
+  const reloadEditor = useCallback((editorData: EditorData) => {
+    setLocalEditorData(editorData);
+    setEditorKey((key) => key + 1);
+  }, []);
+
+  const handleAssistantPreview = useCallback(
+    (editorData: EditorData) => {
+      console.log("💬 Editor page: Previewing assistant edits");
+      assistantUndoRef.current = localEditorData || null;
+      reloadEditor(editorData);
+    },
+    [localEditorData, reloadEditor]
+  );
+
+  const handleAssistantUndo = useCallback(() => {
+    const previousEditorData = assistantUndoRef.current;
+    if (!previousEditorData) return;
+
+    console.log("↩️ Editor page: Undoing assistant edits");
+    assistantUndoRef.current = null;
+    reloadEditor(previousEditorData);
+  }, [reloadEditor]);
+
+  // Saves the previewed edit, along with anything changed in the editor since
+  const handleAssistantKeep = useCallback(() => {
+    if (!assistantUndoRef.current) return;
+
+    console.log("💾 Editor page: Keeping assistant edits");
+    assistantUndoRef.current = null;
+    if (localEditorData) updateEditorData(localEditorData);
+  }, [localEditorData, updateEditorData]);
+
   // Memoize the blocks data to prevent unnecessary map re-renders
   const memoizedBlocks = useMemo(
     () => localEditorData?.blocks,
@@ -223,7 +337,7 @@ export default function EditorPageContent() {
         <div className="h-full bg-white shadow-xl border border-slate-200 rounded-lg overflow-hidden">
           <div className="grid grid-cols-1 lg:grid-cols-2 h-full">
             {/* Notebook Section */}
-            <div className="bg-slate-50 border-r border-slate-200 flex flex-col h-full overflow-hidden">
+            <div className="relative bg-slate-50 border-r border-slate-200 flex flex-col h-full overflow-hidden">
               <div className="flex items-center justify-between px-4 py-3 bg-slate-800 text-white flex-shrink-0">
                 <div className="flex items-center">
                   <PencilSquareIcon className="h-5 w-5 text-blue-400 mr-2" />
@@ -232,17 +346,72 @@ export default function EditorPageContent() {
                   </h2>
                 </div>
 
-                {/* Save Status Indicator */}
-                <SaveStatusIndicator
-                  status={saveStatus}
-                  lastSaved={state.lastSaved}
-                  error={state.error || undefined}
-                  className="text-white"
-                />
+                <div className="flex items-center gap-3">
+                  {/* Save Status Indicator */}
+                  <SaveStatusIndicator
+                    status={saveStatus}
+                    lastSaved={state.lastSaved}
+                    error={state.error || undefined}
+                    pendingChanges={state.pendingChanges}
+                    isOffline={state.isOffline}
+                    className="text-white"
+                  />
+
+                  <ExportMenu
+                    itineraryId={state.currentItineraryId}
+                    editorData={localEditorData}
+                    directions={state.directionsData}
+                  />
+
+                  {state.accessRole !== "viewer" && (
+                    <button
+                      onClick={() => setIsAssistantOpen(true)}
+                      className="flex items-center text-sm text-slate-300 hover:text-white"
+                      title="Edit with the assistant"
+                    >
+                      <ChatBubbleLeftRightIcon className="h-4 w-4 mr-1" />
+                      Assistant
+                    </button>
+                  )}
+
+                  {state.currentItineraryId && (
+                    <button
+                      onClick={() => setIsHistoryOpen(true)}
+                      className="flex items-center text-sm text-slate-300 hover:text-white"
+                      title="Version history"
+                    >
+                      <ClockIcon className="h-4 w-4 mr-1" />
+                      History
+                    </button>
+                  )}
+                </div>
               </div>
+              {isHistoryOpen && state.currentItineraryId && (
+                <RevisionHistoryPanel
+                  itineraryId={state.currentItineraryId}
+                  onClose={() => setIsHistoryOpen(false)}
+                  onRestored={handleRevisionRestored}
+                />
+              )}
+              {isAssistantOpen && (
+                <AssistantPanel
+                  editorData={localEditorData}
+                  onPreview={handleAssistantPreview}
+                  onKeep={handleAssistantKeep}
+                  onUndo={handleAssistantUndo}
+                  onClose={() => setIsAssistantOpen(false)}
+                />
+              )}
+              <MergeConflictPanel
+                conflicts={state.mergeConflicts}
+                onResolve={resolveConflict}
+                onDismiss={dismissConflicts}
+              />
               <div className="flex-1 min-h-0 px-3 py-2">
                 <ItineraryEditor
+                  key={editorKey}
                   data={localEditorData}
+                  readOnly={state.accessRole === "viewer"}
                   onChange={handleEditorChange}
                   onRefreshReady={handleRefreshReady}
                   placeholder={
@@ -265,6 +434,7 @@ export default function EditorPageContent() {
                   editorData={memoizedBlocks}
                   directionsData={state.directionsData}
                   onRefreshDirections={handleRefreshDirections}
+                  readOnly={state.accessRole === "viewer"}
                   className="h-full"
                 />
               </div>
@@ -0,0 +1,236 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import {
+  exportItineraryGeoFile,
+  generateIcs,
+  toExportFilename,
+  getHeaderTitle,
+  ICS_MIME_TYPE,
+  type GeoExportFormat,
+} from "@/features/export";
+import { getCalendarFeedToken, exportItineraryBundle } from "@/features/data";
+import { downloadTextFile } from "@/utils/download";
+import type { EditorData } from "@/features/editor/types";
+import type { DirectionsData } from "@/features/directions/types";
+
+interface ExportMenuProps {
+  itineraryId?: string | null;
+  title?: string;
+  editorData?: EditorData | null;
+  directions: DirectionsData[];
+  className?: string;
+}
+
+const GEO_EXPORT_OPTIONS: {
+  format: GeoExportFormat;
+  label: string;
+  description: string;
+}[] = [
+  {
+    format: "gpx",
+    label: "GPX",
+    description: "GPS units and offline navigation apps",
+  },
+  {
+    format: "kml",
+    label: "KML",
+    description: "Google Earth and My Maps",
+  },
+];
+
+export default function ExportMenu({
+  itineraryId,
+  title,
+  editorData,
+  directions,
+  className = "",
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [feedStatus, setFeedStatus] = useState<"idle" | "loading" | "copied">(
+    "idle"
+  );
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleGeoExport = (format: GeoExportFormat) => {
+    if (!editorData) return;
+
+    try {
+      const file = exportItineraryGeoFile(format, editorData, directions, title);
+      downloadTextFile(file.content, file.mimeType, file.filename);
+      console.log(`📤 Exported itinerary as ${format.toUpperCase()}:`, file.filename);
+    } catch (err) {
+      console.error(`Error exporting ${format.toUpperCase()}:`, err);
+      alert("Failed to export itinerary");
+    } finally {
+      setIsOpen(false);
+    }
+  };
+
+  const handleCalendarExport = () => {
+    if (!editorData) return;
+
+    try {
+      const ics = generateIcs(editorData, {
+        title,
+        uidPrefix: itineraryId || undefined,
+        includePlaceEvents: true,
+      });
+      const filename = toExportFilename(
+        title || getHeaderTitle(editorData) || "itinerary",
+        "ics"
+      );
+      downloadTextFile(ics, ICS_MIME_TYPE, filename);
+      console.log("📤 Exported itinerary as ICS:", filename);
+    } catch (err) {
+      console.error("Error exporting ICS:", err);
+      alert("Failed to export calendar");
+    } finally {
+      setIsOpen(false);
+    }
+  };
+
+  const handleBundleExport = async () => {
+    if (!itineraryId) return;
+
+    try {
+      const response = await exportItineraryBundle(itineraryId);
+      if (!response.success || !response.data) {
+        alert(response.error || "Failed to export backup");
+        return;
+      }
+
+      const filename = toExportFilename(
+        title || getHeaderTitle(response.data.itinerary.editorData) || "itinerary",
+        "itera.json"
+      );
+      downloadTextFile(
+        JSON.stringify(response.data, null, 2),
+        "application/json",
+        filename
+      );
+      console.log("📤 Exported itinerary bundle:", filename);
+    } catch (err) {
+      console.error("Error exporting itinerary bundle:", err);
+      alert("Failed to export backup");
+    } finally {
+      setIsOpen(false);
+    }
+  };
+
+  const handleCopyFeedUrl = async () => {
+    if (!itineraryId) return;
+
+    try {
+      setFeedStatus("loading");
+      const response = await getCalendarFeedToken(itineraryId);
+
+      if (!response.success || !response.data) {
+        alert(response.error || "Failed to get calendar feed");
+        setFeedStatus("idle");
+        return;
+      }
+
+      const url = `${window.location.origin}/api/itineraries/${itineraryId}/calendar.ics?token=${encodeURIComponent(response.data.token)}`;
+      await navigator.clipboard.writeText(url);
+      setFeedStatus("copied");
+      setTimeout(() => setFeedStatus("idle"), 2000);
+    } catch (err) {
+      console.error("Error copying calendar feed URL:", err);
+      alert("Failed to copy calendar feed URL");
+      setFeedStatus("idle");
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={!editorData?.blocks?.length}
+        className="flex items-center text-sm text-slate-300 hover:text-white disabled:opacity-50"
+        title="Export itinerary"
+      >
+        <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-md shadow-lg border border-slate-200 py-1 z-30">
+          {GEO_EXPORT_OPTIONS.map((option) => (
+            <button
+              key={option.format}
+              onClick={() => handleGeoExport(option.format)}
+              className="w-full text-left px-3 py-2 hover:bg-slate-50"
+            >
+              <p className="text-sm font-medium text-slate-900">
+                {option.label}
+              </p>
+              <p className="text-xs text-slate-500">{option.description}</p>
+            </button>
+          ))}
+          <div className="border-t border-slate-100 my-1" />
+          <button
+            onClick={handleCalendarExport}
+            className="w-full text-left px-3 py-2 hover:bg-slate-50"
+          >
+            <p className="text-sm font-medium text-slate-900">
+              Calendar (.ics)
+            </p>
+            <p className="text-xs text-slate-500">
+              Days, hotel stays and places as events
+            </p>
+          </button>
+          {itineraryId && (
+            <button
+              onClick={handleCopyFeedUrl}
+              disabled={feedStatus === "loading"}
+              className="w-full text-left px-3 py-2 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <p className="text-sm font-medium text-slate-900">
+                {feedStatus === "copied"
+                  ? "Feed URL copied!"
+                  : feedStatus === "loading"
+                  ? "Getting feed URL..."
+                  : "Copy calendar feed URL"}
+              </p>
+              <p className="text-xs text-slate-500">
+                Subscribe to keep your calendar in sync with edits
+              </p>
+            </button>
+          )}
+          {itineraryId && (
+            <>
+              <div className="border-t border-slate-100 my-1" />
+              <button
+                onClick={handleBundleExport}
+                className="w-full text-left px-3 py-2 hover:bg-slate-50"
+              >
+                <p className="text-sm font-medium text-slate-900">
+                  Backup (.json)
+                </p>
+                <p className="text-xs text-slate-500">
+                  Full itinerary with routes, for backup or moving trips
+                </p>
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
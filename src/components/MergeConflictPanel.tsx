@@ -0,0 +1,90 @@
+"use client";
+
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import type { MergeConflict } from "@/features/data";
+import { getBlockLabel } from "@/features/data/utils/blockDiff";
+
+interface MergeConflictPanelProps {
+  conflicts: MergeConflict[];
+  onResolve: (key: string, choice: "mine" | "theirs") => void;
+  onDismiss: () => void;
+}
+
+function describeConflict(conflict: MergeConflict): string {
+  switch (conflict.type) {
+    case "both-modified":
+      return `Also changed elsewhere: "${
+        conflict.theirs ? getBlockLabel(conflict.theirs) : conflict.label
+      }"`;
+    case "modified-deleted":
+      return "You edited this, but it was deleted elsewhere";
+    case "deleted-modified":
+      return "You deleted this, but it was edited elsewhere";
+    case "only-mine":
+      return "Only in your copy - it may have been deleted elsewhere";
+    case "only-theirs":
+      return "Only in the saved copy - it may have been added elsewhere";
+  }
+}
+
+export default function MergeConflictPanel({
+  conflicts,
+  onResolve,
+  onDismiss,
+}: MergeConflictPanelProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="mx-3 mt-2 rounded-md border border-amber-300 bg-amber-50 p-3 flex-shrink-0">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center">
+          <ExclamationTriangleIcon className="h-5 w-5 text-amber-600 mr-2" />
+          <p className="text-sm font-medium text-amber-900">
+            This itinerary was changed in another window.{" "}
+            {conflicts.length === 1
+              ? "1 change conflicts with yours."
+              : `${conflicts.length} changes conflict with yours.`}
+          </p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-xs text-amber-700 hover:text-amber-900 ml-2"
+        >
+          Keep all mine
+        </button>
+      </div>
+
+      <ul className="mt-2 space-y-2 max-h-40 overflow-y-auto">
+        {conflicts.map((conflict) => (
+          <li
+            key={conflict.key}
+            className="flex items-center justify-between gap-2 text-sm"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-slate-900 truncate">
+                {conflict.label}
+              </p>
+              <p className="text-xs text-slate-600 truncate">
+                {describeConflict(conflict)}
+              </p>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <button
+                onClick={() => onResolve(conflict.key, "mine")}
+                className="px-2 py-1 text-xs rounded border border-slate-300 bg-white hover:bg-slate-50"
+              >
+                Keep mine
+              </button>
+              <button
+                onClick={() => onResolve(conflict.key, "theirs")}
+                className="px-2 py-1 text-xs rounded bg-amber-600 text-white hover:bg-amber-700"
+              >
+                Use theirs
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  ClockIcon,
+  XMarkIcon,
+  ArrowUturnLeftIcon,
+} from "@heroicons/react/24/outline";
+import {
+  listItineraryRevisions,
+  getItineraryRevision,
+  diffItineraryRevision,
+  restoreItineraryRevision,
+  type ItineraryRevisionSummary,
+  type BlockDiffEntry,
+  type BlockDiffSummary,
+} from "@/features/data";
+import type { EditorData } from "@/features/editor/types";
+import { getBlockLabel } from "@/features/data/utils/blockDiff";
+import { formatTimeAgo } from "@/utils/timeUtils";
+
+interface RevisionHistoryPanelProps {
+  itineraryId: string;
+  onClose: () => void;
+  onRestored: (editorData: EditorData) => void | Promise<void>;
+}
+
+const CHANGE_STYLES: Record<BlockDiffEntry["change"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  modified: "bg-amber-100 text-amber-800",
+  moved: "bg-blue-100 text-blue-800",
+};
+
+export default function RevisionHistoryPanel({
+  itineraryId,
+  onClose,
+  onRestored,
+}: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<ItineraryRevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<EditorData | null>(null);
+  const [diff, setDiff] = useState<{
+    entries: BlockDiffEntry[];
+    summary: BlockDiffSummary;
+  } | null>(null);
+  const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await listItineraryRevisions(itineraryId);
+      if (response.success && response.data) {
+        setRevisions(response.data);
+      } else {
+        setError(response.error || "Failed to load history");
+      }
+    } catch (err) {
+      console.error("Error loading revision history:", err);
+      setError("Failed to load history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itineraryId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const handleSelect = async (revisionId: string) => {
+    setSelectedId(revisionId);
+    setPreview(null);
+    setDiff(null);
+    setIsLoadingDetails(true);
+
+    try {
+      const [previewResponse, diffResponse] = await Promise.all([
+        getItineraryRevision(revisionId),
+        diffItineraryRevision(revisionId),
+      ]);
+
+      if (previewResponse.success && previewResponse.data) {
+        setPreview(previewResponse.data.editorData);
+      }
+      if (diffResponse.success && diffResponse.data) {
+        setDiff({
+          entries: diffResponse.data.entries,
+          summary: diffResponse.data.summary,
+        });
+      }
+      if (!previewResponse.success || !diffResponse.success) {
+        setError(previewResponse.error || diffResponse.error || "Failed to load revision");
+      }
+    } catch (err) {
+      console.error("Error loading revision details:", err);
+      setError("Failed to load revision");
+    } finally {
+      setIsLoadingDetails(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selectedId || !preview) return;
+
+    try {
+      setIsRestoring(true);
+      const response = await restoreItineraryRevision(selectedId);
+
+      if (response.success) {
+        await onRestored(preview);
+        setSelectedId(null);
+        setPreview(null);
+        setDiff(null);
+        await loadRevisions();
+      } else {
+        alert(response.error || "Failed to restore version");
+      }
+    } catch (err) {
+      console.error("Error restoring revision:", err);
+      alert("Failed to restore version");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const selectedRevision = revisions.find((r) => r.id === selectedId);
+
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-white">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-800 text-white flex-shrink-0">
+        <div className="flex items-center">
+          <ClockIcon className="h-5 w-5 text-blue-400 mr-2" />
+          <h2 className="text-base font-semibold">Version History</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-300 hover:text-white"
+          title="Close history"
+        >
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-2">
+        {/* Revision list */}
+        <div className="border-r border-slate-200 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="p-4 text-sm text-slate-500">
+              No saved versions yet. Versions are recorded as you edit.
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => handleSelect(revision.id)}
+                    className={`w-full text-left px-4 py-3 hover:bg-slate-50 transition-colors ${
+                      selectedId === revision.id ? "bg-blue-50" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-slate-900">
+                        {formatTimeAgo(new Date(revision.createdAt))}
+                      </span>
+                      {revision.isCurrent ? (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                          Current
+                        </span>
+                      ) : revision.reason === "restore" ? (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">
+                          Restored
+                        </span>
+                      ) : null}
+                    </div>
+                    <div className="text-xs text-slate-500 mt-1">
+                      {new Date(revision.createdAt).toLocaleString()} •{" "}
+                      {revision.blocksCount} blocks
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Selected revision details */}
+        <div className="overflow-y-auto p-4">
+          {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+          {!selectedId && (
+            <p className="text-sm text-slate-500">
+              Select a version to compare it with the current itinerary.
+            </p>
+          )}
+
+          {selectedId && isLoadingDetails && (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {selectedId && !isLoadingDetails && diff && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 mb-2">
+                  Changes since this version
+                </h3>
+                <p className="text-xs text-slate-500 mb-2">
+                  {diff.summary.added} added • {diff.summary.removed} removed •{" "}
+                  {diff.summary.modified} modified • {diff.summary.moved} moved
+                </p>
+                {diff.entries.length === 0 ? (
+                  <p className="text-sm text-slate-500">
+                    Identical to the current itinerary.
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {diff.entries.map((entry) => (
+                      <li
+                        key={`${entry.change}-${entry.blockId}`}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <span
+                          className={`text-xs px-2 py-0.5 rounded-full ${CHANGE_STYLES[entry.change]}`}
+                        >
+                          {entry.change}
+                        </span>
+                        <span className="text-slate-500 text-xs">
+                          {entry.blockType}
+                        </span>
+                        <span className="text-slate-800 truncate">
+                          {entry.label}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {preview && (
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-900 mb-2">
+                    Version outline
+                  </h3>
+                  <ul className="space-y-1 text-sm text-slate-700">
+                    {preview.blocks.map((block, index) => (
+                      <li
+                        key={block.id || index}
+                        className={
+                          block.type === "day"
+                            ? "font-medium text-slate-900 pt-2"
+                            : block.type === "place" || block.type === "hotel"
+                            ? "pl-4"
+                            : "pl-4 text-slate-500 truncate"
+                        }
+                      >
+                        {getBlockLabel(block)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {selectedRevision && !selectedRevision.isCurrent && (
+                <button
+                  onClick={handleRestore}
+                  disabled={isRestoring}
+                  className="w-full bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  <ArrowUturnLeftIcon className="h-4 w-4" />
+                  {isRestoring ? "Restoring..." : "Restore this version"}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,15 +4,18 @@ import { useState, useEffect } from "react";
 import { 
   CheckCircleIcon, 
   ExclamationCircleIcon,
-  ArrowPathIcon 
+  ArrowPathIcon,
+  CloudArrowUpIcon
 } from "@heroicons/react/24/outline";
 
-export type SaveStatus = "idle" | "saving" | "saved" | "error";
+export type SaveStatus = "idle" | "saving" | "saved" | "pending" | "error";
 
 interface SaveStatusIndicatorProps {
   status: SaveStatus;
   lastSaved?: Date | null;
   error?: string;
+  pendingChanges?: number; // Edits stored on this device, waiting for a connection
+  isOffline?: boolean;
   className?: string;
 }
 
@@ -40,6 +43,8 @@ export default function SaveStatusIndicator({
   status,
   lastSaved,
   error,
+  pendingChanges = 0,
+  isOffline = false,
   className = ""
 }: SaveStatusIndicatorProps) {
   const [timeAgo, setTimeAgo] = useState<string>("");
@@ -81,6 +86,23 @@ export default function SaveStatusIndicator({
           </div>
         );
       
+      case "pending":
+        return (
+          <div
+            className={`flex items-center gap-2 ${isLightTheme ? 'text-amber-300' : 'text-amber-600'}`}
+            title={
+              isOffline
+                ? "You're offline. Changes are stored on this device and will sync when you reconnect."
+                : "Syncing changes stored on this device..."
+            }
+          >
+            <CloudArrowUpIcon className="h-4 w-4" />
+            <span className="text-sm font-medium">
+              {pendingChanges} {pendingChanges === 1 ? "change" : "changes"} pending
+            </span>
+          </div>
+        );
+      
       case "error":
         return (
           <div className={`flex items-center gap-2 ${isLightTheme ? 'text-red-300' : 'text-red-600'}`} title={error}>
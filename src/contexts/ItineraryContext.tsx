@@ -6,6 +6,7 @@ import React, {
   useReducer,
   useCallback,
   useEffect,
+  useRef,
   ReactNode,
 } from "react";
 import {
@@ -17,12 +18,32 @@ import { EditorData } from "@/features/editor/types";
 import { DirectionsData } from "@/features/directions/types";
 import { saveItinerary, loadItinerary } from "@/features/data";
 import { generateContentHash } from "@/features/data";
+import type {
+  MergeConflict,
+  CollaboratorRole,
+  SaveItineraryRequest,
+} from "@/features/data";
+import { applyConflictResolution } from "@/features/data/utils/merge";
 import { convertEditorDataToItinerary } from "@/app/create-itinerary/utils/editorConverter";
+import {
+  DRAFT_OUTBOX_KEY,
+  cacheItinerary,
+  getCachedItinerary,
+  enqueueSave,
+  getPendingSave,
+  listPendingSaves,
+  markPendingSaveFailed,
+  removePendingSave,
+  countPendingChanges,
+} from "./offlineStore";
 
 // Database persistence with auto-save
 let autoSaveTimeoutId: NodeJS.Timeout | null = null;
 const AUTO_SAVE_DELAY = 500; // 500ms debounce
 
+// Only one outbox replay runs at a time, even across providers
+let isReplayingOutbox = false;
+
 // Helper function removed - now using saveItinerary directly in auto-save
 
 // Extract title from editor data
@@ -52,6 +73,9 @@ export interface ItineraryState {
   // Current itinerary ID for database persistence
   currentItineraryId: string | null;
 
+  // Access level of the current user on the loaded itinerary
+  accessRole: CollaboratorRole | null;
+
   // Current itinerary data (derived from editorData)
   currentItinerary: GeneratedItinerary | null;
 
@@ -81,6 +105,15 @@ export interface ItineraryState {
   lastSaved: Date | null;
   isDirty: boolean; // Has unsaved changes
   contentHash: string | null; // For change detection
+  baseHash: string | null; // Hash of the stored content the local edits are based on
+
+  // Concurrent edit handling
+  mergeConflicts: MergeConflict[]; // Conflicts from the last merged save awaiting the user's choice
+  remoteUpdateCount: number; // Incremented when editor content is replaced by a merge
+
+  // Offline editing
+  isOffline: boolean;
+  pendingChanges: number; // Edits queued in the IndexedDB outbox, across all itineraries
 
   // Place selection for map interaction
   selectedPlace: { uid: string; dayIndex: number } | null;
@@ -98,6 +131,8 @@ export type ItineraryAction =
         editorData: EditorData;
         directions: DirectionsData[];
         lastUpdated: Date;
+        hash?: string;
+        role?: CollaboratorRole;
         formMetadata?: {
           destination?: string;
           startDate?: Date;
@@ -142,8 +177,24 @@ export type ItineraryAction =
       payload: { dayNumber: number; fromIndex: number; toIndex: number };
     }
   | { type: "CLEAR_ITINERARY" }
-  | { type: "MARK_SAVED" }
+  | { type: "MARK_SAVED"; payload?: { hash?: string } }
+  | {
+      type: "APPLY_MERGE";
+      payload: {
+        editorData: EditorData;
+        hash?: string;
+        conflicts: MergeConflict[];
+      };
+    }
+  | {
+      type: "RESOLVE_CONFLICT";
+      payload: { key: string; choice: "mine" | "theirs" };
+    }
+  | { type: "DISMISS_CONFLICTS" }
   | { type: "MARK_DIRTY" }
+  | { type: "MARK_QUEUED" }
+  | { type: "SET_OFFLINE"; payload: boolean }
+  | { type: "SET_PENDING_CHANGES"; payload: number }
   | {
       type: "SET_SELECTED_PLACE";
       payload: { uid: string; dayIndex: number } | null;
@@ -152,6 +203,7 @@ export type ItineraryAction =
 // Initial state
 const initialState: ItineraryState = {
   currentItineraryId: null,
+  accessRole: null,
   currentItinerary: null,
   editorData: null,
   directionsData: [],
@@ -163,6 +215,11 @@ const initialState: ItineraryState = {
   lastSaved: null,
   isDirty: false,
   contentHash: null,
+  baseHash: null,
+  mergeConflicts: [],
+  remoteUpdateCount: 0,
+  isOffline: false,
+  pendingChanges: 0,
   selectedPlace: null,
 };
 
@@ -199,6 +256,7 @@ function itineraryReducer(
       return {
         ...state,
         currentItineraryId: action.payload.id,
+        accessRole: action.payload.role ?? "owner",
         editorData: action.payload.editorData,
         directionsData: action.payload.directions,
         formMetadata: action.payload.formMetadata || null,
@@ -208,6 +266,8 @@ function itineraryReducer(
         lastUpdated: action.payload.lastUpdated,
         lastSaved: action.payload.lastUpdated,
         contentHash: newContentHash,
+        baseHash: action.payload.hash ?? newContentHash,
+        mergeConflicts: [],
         isDirty: false,
         isLoading: false,
         error: null,
@@ -391,6 +451,9 @@ function itineraryReducer(
     case "CLEAR_ITINERARY":
       return {
         ...initialState,
+        // Connectivity and the outbox aren't tied to the cleared itinerary
+        isOffline: state.isOffline,
+        pendingChanges: state.pendingChanges,
       };
 
     case "MARK_SAVED":
@@ -398,6 +461,60 @@ function itineraryReducer(
         ...state,
         isDirty: false,
         lastSaved: new Date(),
+        baseHash: action.payload?.hash ?? state.baseHash,
+      };
+
+    case "APPLY_MERGE":
+      return {
+        ...state,
+        editorData: action.payload.editorData,
+        currentItinerary: convertEditorDataToItinerary(
+          action.payload.editorData
+        ),
+        contentHash: generateContentHash(action.payload.editorData),
+        baseHash: action.payload.hash ?? state.baseHash,
+        mergeConflicts: action.payload.conflicts,
+        remoteUpdateCount: state.remoteUpdateCount + 1,
+        isDirty: false,
+        lastSaved: new Date(),
+      };
+
+    case "RESOLVE_CONFLICT": {
+      const conflict = state.mergeConflicts.find(
+        (c) => c.key === action.payload.key
+      );
+      if (!conflict) return state;
+
+      const remainingConflicts = state.mergeConflicts.filter(
+        (c) => c.key !== action.payload.key
+      );
+
+      if (action.payload.choice === "mine" || !state.editorData) {
+        return { ...state, mergeConflicts: remainingConflicts };
+      }
+
+      // Taking the other version changes the content, so it needs saving and re-rendering
+      const resolvedEditorData = applyConflictResolution(
+        state.editorData,
+        conflict,
+        "theirs"
+      );
+      return {
+        ...state,
+        editorData: resolvedEditorData,
+        currentItinerary: convertEditorDataToItinerary(resolvedEditorData),
+        contentHash: generateContentHash(resolvedEditorData),
+        mergeConflicts: remainingConflicts,
+        remoteUpdateCount: state.remoteUpdateCount + 1,
+        lastUpdated: new Date(),
+        isDirty: true,
+      };
+    }
+
+    case "DISMISS_CONFLICTS":
+      return {
+        ...state,
+        mergeConflicts: [],
       };
 
     case "MARK_DIRTY":
@@ -407,6 +524,26 @@ function itineraryReducer(
         lastUpdated: new Date(),
       };
 
+    case "MARK_QUEUED":
+      // Saved locally; baseHash stays at the server version the queued edits build on
+      return {
+        ...state,
+        isDirty: false,
+        error: null,
+      };
+
+    case "SET_OFFLINE":
+      return {
+        ...state,
+        isOffline: action.payload,
+      };
+
+    case "SET_PENDING_CHANGES":
+      return {
+        ...state,
+        pendingChanges: action.payload,
+      };
+
     case "SET_SELECTED_PLACE":
       return {
         ...state,
@@ -462,6 +599,8 @@ interface ItineraryContextValue {
   ) => void;
   markSaved: () => void;
   markDirty: () => void;
+  resolveConflict: (key: string, choice: "mine" | "theirs") => void;
+  dismissConflicts: () => void;
   setSelectedPlace: (place: { uid: string; dayIndex: number } | null) => void;
 
   // Computed values
@@ -478,15 +617,22 @@ const ItineraryContext = createContext<ItineraryContextValue | undefined>(
 // Provider component props
 interface ItineraryProviderProps {
   children: ReactNode;
+  readOnly?: boolean; // Disables database auto-save, e.g. for shared itineraries
 }
 
 // Provider component
-export function ItineraryProvider({ children }: ItineraryProviderProps) {
+export function ItineraryProvider({
+  children,
+  readOnly = false,
+}: ItineraryProviderProps) {
   // Initialize state
   const [state, dispatch] = useReducer(itineraryReducer, initialState);
 
   // Auto-save to database whenever editorData changes (debounced)
   useEffect(() => {
+    // Read-only providers never persist and must not touch the shared auto-save timer
+    if (readOnly) return;
+
     // Clear any existing timeout
     if (autoSaveTimeoutId) {
       clearTimeout(autoSaveTimeoutId);
@@ -495,29 +641,64 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
     // Only auto-save if we have editor data and it's dirty
     if (state.editorData && state.isDirty && !state.isSaving) {
       autoSaveTimeoutId = setTimeout(async () => {
+        // Extract title from first header element
+        const extractedTitle = extractTitleFromEditorData(state.editorData!);
+        console.log("📝 Extracted title from first header:", extractedTitle);
+
+        const request: SaveItineraryRequest = {
+          id: state.currentItineraryId || undefined,
+          title: extractedTitle,
+          editorData: state.editorData!,
+          baseHash: state.baseHash || undefined,
+          directions: state.directionsData,
+
+          // Include form metadata if available
+          ...(state.formMetadata && {
+            destination: state.formMetadata.destination,
+            startDate: state.formMetadata.startDate,
+            endDate: state.formMetadata.endDate,
+            interests: state.formMetadata.interests,
+            travelStyle: state.formMetadata.travelStyle,
+            additionalNotes: state.formMetadata.additionalNotes,
+          }),
+        };
+
+        // Keep edits in the outbox until the server is reachable again
+        const queueSave = async () => {
+          if (await enqueueSave(request)) {
+            dispatch({ type: "MARK_QUEUED" });
+            dispatch({ type: "SET_PENDING_CHANGES", payload: await countPendingChanges() });
+          } else {
+            dispatch({ type: "SET_ERROR", payload: "Failed to save itinerary" });
+          }
+        };
+
+        if (!navigator.onLine) {
+          console.log("📴 Offline, queueing auto-save");
+          await queueSave();
+          return;
+        }
+
         try {
-          // Extract title from first header element
-          const extractedTitle = extractTitleFromEditorData(state.editorData!);
-          console.log("📝 Extracted title from first header:", extractedTitle);
-
-          const response = await saveItinerary({
-            id: state.currentItineraryId || undefined,
-            title: extractedTitle,
-            editorData: state.editorData!,
-            directions: state.directionsData,
-
-            // Include form metadata if available
-            ...(state.formMetadata && {
-              destination: state.formMetadata.destination,
-              startDate: state.formMetadata.startDate,
-              endDate: state.formMetadata.endDate,
-              interests: state.formMetadata.interests,
-              travelStyle: state.formMetadata.travelStyle,
-              additionalNotes: state.formMetadata.additionalNotes,
-            }),
-          });
+          const response = await saveItinerary(request);
 
           if (response.success) {
+            // This save carries every queued edit for the itinerary, so drop them
+            await removePendingSave(state.currentItineraryId || DRAFT_OUTBOX_KEY);
+            dispatch({ type: "SET_PENDING_CHANGES", payload: await countPendingChanges() });
+            if (response.hash && response.id) {
+              cacheItinerary({
+                id: response.id,
+                editorData:
+                  response.conflictReport?.mergedEditorData || state.editorData!,
+                directions: state.directionsData,
+                hash: response.hash,
+                role: state.accessRole ?? "owner",
+                lastUpdated: new Date().toISOString(),
+                formMetadata: state.formMetadata || undefined,
+              });
+            }
+
             // Update currentItineraryId if we got a new one from the save
             if (response.id && response.id !== state.currentItineraryId) {
               dispatch({
@@ -527,6 +708,7 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
                   editorData: state.editorData!,
                   directions: state.directionsData,
                   lastUpdated: new Date(),
+                  hash: response.hash,
                   formMetadata: state.formMetadata
                     ? {
                         destination: state.formMetadata.destination,
@@ -545,15 +727,31 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
             if (response.unchanged) {
               console.log("📊 Content unchanged, save skipped:", response.id);
               // Content was unchanged - just mark as not dirty without showing save indicator
-              dispatch({ type: "MARK_SAVED" });
+              dispatch({ type: "MARK_SAVED", payload: { hash: response.hash } });
             } else {
               console.log("✅ Auto-saved to database:", response.id);
               // Only show saving indicator when there are actual changes
               dispatch({ type: "SET_SAVING", payload: true });
-              if (response.conflictResolved) {
-                console.log("🔄 Conflict was resolved during save");
+              if (response.conflictResolved && response.conflictReport) {
+                console.log(
+                  "🔀 Save merged with concurrent changes:",
+                  response.conflictReport.conflicts.length,
+                  "conflicts"
+                );
+                dispatch({
+                  type: "APPLY_MERGE",
+                  payload: {
+                    editorData: response.conflictReport.mergedEditorData,
+                    hash: response.hash,
+                    conflicts: response.conflictReport.conflicts,
+                  },
+                });
+              } else {
+                if (response.conflictResolved) {
+                  console.log("🔄 Conflict was resolved during save");
+                }
+                dispatch({ type: "MARK_SAVED", payload: { hash: response.hash } });
               }
-              dispatch({ type: "MARK_SAVED" });
               dispatch({ type: "SET_SAVING", payload: false });
             }
           } else {
@@ -564,8 +762,9 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
             });
           }
         } catch (error) {
-          console.error("Auto-save failed:", error);
-          dispatch({ type: "SET_ERROR", payload: "Failed to save itinerary" });
+          // The request never reached the server - most likely the connection dropped
+          console.error("Auto-save failed, queueing for later:", error);
+          await queueSave();
         }
       }, AUTO_SAVE_DELAY);
     }
@@ -582,8 +781,102 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
     state.isDirty,
     state.isSaving,
     state.currentItineraryId,
+    state.baseHash,
+    readOnly,
   ]);
 
+  // Latest state for the outbox replay, which runs from window events
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  /**
+   * Sends queued saves to the server
+   * The open itinerary is re-saved through auto-save instead, since the editor holds
+   * its newest content; other itineraries replay their queued request. Both carry the
+   * baseHash of the first queued edit, so the server merges with anything saved meanwhile.
+   */
+  const replayOutbox = useCallback(async () => {
+    if (readOnly || isReplayingOutbox || !navigator.onLine) return;
+    isReplayingOutbox = true;
+
+    try {
+      const pendingSaves = await listPendingSaves();
+      if (pendingSaves.length > 0) {
+        console.log(`📤 Replaying ${pendingSaves.length} queued saves`);
+      }
+
+      for (const pending of pendingSaves) {
+        const current = stateRef.current;
+        const currentKey = current.currentItineraryId || DRAFT_OUTBOX_KEY;
+
+        if (pending.key === currentKey && current.editorData) {
+          await removePendingSave(pending.key);
+          dispatch({ type: "MARK_DIRTY" });
+          continue;
+        }
+
+        let response;
+        try {
+          response = await saveItinerary(pending.request);
+        } catch (error) {
+          console.warn("📴 Server still unreachable, keeping queued saves:", error);
+          break;
+        }
+
+        if (!response.success) {
+          console.error("❌ Queued save rejected:", response.error);
+          await markPendingSaveFailed(pending.key, response.error || "Save failed");
+          continue;
+        }
+
+        await removePendingSave(pending.key);
+        if (response.conflictReport?.conflicts.length) {
+          console.warn(
+            `🔀 Queued save for ${response.id} merged with ${response.conflictReport.conflicts.length} conflicts, local versions kept`
+          );
+        }
+
+        const cached = await getCachedItinerary(response.id);
+        if (cached && response.hash) {
+          await cacheItinerary({
+            ...cached,
+            editorData:
+              response.conflictReport?.mergedEditorData || pending.request.editorData,
+            hash: response.hash,
+            lastUpdated: new Date().toISOString(),
+          });
+        }
+        console.log("✅ Queued save delivered:", response.id);
+      }
+    } finally {
+      isReplayingOutbox = false;
+      dispatch({ type: "SET_PENDING_CHANGES", payload: await countPendingChanges() });
+    }
+  }, [readOnly]);
+
+  // Track connectivity and flush the outbox whenever it comes back
+  useEffect(() => {
+    if (readOnly) return;
+
+    const handleOnline = () => {
+      dispatch({ type: "SET_OFFLINE", payload: false });
+      replayOutbox();
+    };
+    const handleOffline = () => {
+      dispatch({ type: "SET_OFFLINE", payload: true });
+    };
+
+    dispatch({ type: "SET_OFFLINE", payload: !navigator.onLine });
+    replayOutbox();
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [readOnly, replayOutbox]);
+
   // Action creators
   const setLoading = useCallback((loading: boolean) => {
     dispatch({ type: "SET_LOADING", payload: loading });
@@ -600,10 +893,77 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
   const loadItineraryById = useCallback(async (id: string) => {
     dispatch({ type: "SET_LOADING", payload: true });
 
+    // Queued edits win over the loaded copy; they keep the base they were made on.
+    // Online, they move from the outbox into auto-save, which merges them on the server.
+    const restorePendingEdits = async (online: boolean) => {
+      const pending = await getPendingSave(id);
+      if (!pending) return;
+
+      console.log("📥 Restoring queued edits for itinerary:", id);
+      dispatch({
+        type: "APPLY_MERGE",
+        payload: {
+          editorData: pending.request.editorData,
+          hash: pending.request.baseHash,
+          conflicts: [],
+        },
+      });
+
+      if (online) {
+        await removePendingSave(id);
+        dispatch({ type: "MARK_DIRTY" });
+        dispatch({ type: "SET_PENDING_CHANGES", payload: await countPendingChanges() });
+      }
+    };
+
+    // Fall back to the last copy stored on this device
+    const loadFromCache = async (): Promise<boolean> => {
+      const cached = await getCachedItinerary(id);
+      if (!cached) return false;
+
+      console.log("📴 Loaded itinerary from offline cache:", id);
+      dispatch({
+        type: "LOAD_ITINERARY",
+        payload: {
+          id: cached.id,
+          editorData: cached.editorData,
+          directions: cached.directions,
+          lastUpdated: new Date(cached.lastUpdated),
+          hash: cached.hash,
+          role: cached.role,
+          formMetadata: cached.formMetadata,
+        },
+      });
+      await restorePendingEdits(false);
+      return true;
+    };
+
     try {
+      if (!navigator.onLine && (await loadFromCache())) {
+        return;
+      }
+
       const response = await loadItinerary(id);
 
       if (response.success && response.data) {
+        cacheItinerary({
+          id: response.data.id,
+          editorData: response.data.editorData,
+          directions: response.data.directions,
+          hash: response.data.hash,
+          role: response.data.role,
+          lastUpdated: new Date(response.data.lastUpdated).toISOString(),
+          formMetadata: response.data.destination
+            ? {
+                destination: response.data.destination,
+                startDate: response.data.startDate,
+                endDate: response.data.endDate,
+                interests: response.data.interests,
+                travelStyle: response.data.travelStyle,
+                additionalNotes: response.data.additionalNotes,
+              }
+            : undefined,
+        });
         dispatch({
           type: "LOAD_ITINERARY",
           payload: {
@@ -611,6 +971,8 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
             editorData: response.data.editorData,
             directions: response.data.directions,
             lastUpdated: response.data.lastUpdated,
+            hash: response.data.hash,
+            role: response.data.role,
             formMetadata: response.data.destination
               ? {
                   destination: response.data.destination,
@@ -623,6 +985,7 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
               : undefined,
           },
         });
+        await restorePendingEdits(true);
       } else {
         dispatch({
           type: "SET_ERROR",
@@ -631,7 +994,9 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
       }
     } catch (error) {
       console.error("Error loading itinerary:", error);
-      dispatch({ type: "SET_ERROR", payload: "Failed to load itinerary" });
+      if (!(await loadFromCache())) {
+        dispatch({ type: "SET_ERROR", payload: "Failed to load itinerary" });
+      }
     } finally {
       dispatch({ type: "SET_LOADING", payload: false });
     }
@@ -710,6 +1075,17 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
     dispatch({ type: "MARK_DIRTY" });
   }, []);
 
+  const resolveConflict = useCallback(
+    (key: string, choice: "mine" | "theirs") => {
+      dispatch({ type: "RESOLVE_CONFLICT", payload: { key, choice } });
+    },
+    []
+  );
+
+  const dismissConflicts = useCallback(() => {
+    dispatch({ type: "DISMISS_CONFLICTS" });
+  }, []);
+
   const setSelectedPlace = useCallback(
     (place: { uid: string; dayIndex: number } | null) => {
       dispatch({ type: "SET_SELECTED_PLACE", payload: place });
@@ -753,6 +1129,8 @@ export function ItineraryProvider({ children }: ItineraryProviderProps) {
     reorderPlaces,
     markSaved,
     markDirty,
+    resolveConflict,
+    dismissConflicts,
     setSelectedPlace,
     hasItinerary,
     totalPlaces,
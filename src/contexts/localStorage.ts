@@ -4,6 +4,10 @@
 
 import { GeneratedItinerary } from "@/services/openai/itinerary";
 import { EditorData } from "@/features/editor/types";
+import {
+  CURRENT_EDITOR_SCHEMA_VERSION,
+  migrateEditorData,
+} from "@/features/data/utils/migrations";
 
 // Key for localStorage
 const ITINERARY_STORAGE_KEY = "itera-notes-itinerary";
@@ -13,11 +17,12 @@ export interface PersistedItineraryState {
   currentItinerary: GeneratedItinerary | null;
   editorData: EditorData | null;
   lastUpdated: string | null; // ISO string format
-  version: string; // For handling schema migrations
+  version: string; // Version of this persisted envelope
+  editorSchemaVersion?: string; // Version of the editorData shape, absent before 1.1.0
 }
 
-// Current version for handling future schema changes
-const STORAGE_VERSION = "1.0.0";
+// Current version of the persisted envelope
+const STORAGE_VERSION = "1.1.0";
 
 /**
  * Save itinerary state to localStorage
@@ -38,6 +43,7 @@ export function saveItineraryToStorage(
       editorData,
       lastUpdated: lastUpdated?.toISOString() || null,
       version: STORAGE_VERSION,
+      editorSchemaVersion: CURRENT_EDITOR_SCHEMA_VERSION,
     };
 
     const serialized = JSON.stringify(dataToSave);
@@ -75,20 +81,29 @@ export function loadItineraryFromStorage(): {
 
     const parsed: PersistedItineraryState = JSON.parse(stored);
     
-    // Check version compatibility
-    if (parsed.version !== STORAGE_VERSION) {
-      console.warn(`⚠️ localStorage version mismatch: ${parsed.version} vs ${STORAGE_VERSION}`);
-      // For now, clear old data. In future, could add migration logic here
-      clearItineraryFromStorage();
-      return null;
+    // Upgrade editor data saved by an older version and write the result back
+    let editorData = parsed.editorData;
+    const isOutdated =
+      parsed.version !== STORAGE_VERSION ||
+      parsed.editorSchemaVersion !== CURRENT_EDITOR_SCHEMA_VERSION;
+
+    if (isOutdated) {
+      console.log(`🔄 Upgrading localStorage data from version ${parsed.version}`);
+      if (editorData) {
+        editorData = migrateEditorData(editorData, parsed.editorSchemaVersion).editorData;
+      }
     }
 
     const result = {
       currentItinerary: parsed.currentItinerary,
-      editorData: parsed.editorData,
+      editorData,
       lastUpdated: parsed.lastUpdated ? new Date(parsed.lastUpdated) : null,
     };
 
+    if (isOutdated) {
+      saveItineraryToStorage(result.currentItinerary, result.editorData, result.lastUpdated);
+    }
+
     console.log("📂 Loaded itinerary from localStorage", {
       hasItinerary: !!result.currentItinerary,
       hasEditorData: !!result.editorData,
@@ -0,0 +1,223 @@
+/**
+ * IndexedDB persistence for offline editing
+ * Keeps a copy of every opened itinerary and an outbox of saves that couldn't reach the server
+ */
+
+import { EditorData } from "@/features/editor/types";
+import { DirectionsData } from "@/features/directions/types";
+import type { CollaboratorRole, SaveItineraryRequest } from "@/features/data";
+
+const DB_NAME = "itera-notes";
+const DB_VERSION = 1;
+const ITINERARY_STORE = "itineraries";
+const OUTBOX_STORE = "outbox";
+
+// Outbox key for an itinerary that has never been saved to the server
+export const DRAFT_OUTBOX_KEY = "draft";
+
+// Last known copy of an itinerary, used when the server can't be reached
+export interface CachedItinerary {
+  id: string;
+  editorData: EditorData;
+  directions: DirectionsData[];
+  hash: string; // Server content hash this copy was loaded or saved with
+  role: CollaboratorRole;
+  lastUpdated: string; // ISO string format
+  formMetadata?: Pick<
+    SaveItineraryRequest,
+    "destination" | "startDate" | "endDate" | "interests" | "travelStyle" | "additionalNotes"
+  >;
+  cachedAt: string;
+}
+
+// A save waiting for connectivity; later edits to the same itinerary replace its content
+export interface PendingSave {
+  key: string; // Itinerary id, or DRAFT_OUTBOX_KEY for a new itinerary
+  request: SaveItineraryRequest; // Keeps the baseHash of the first queued edit, for merging
+  changeCount: number; // Number of edits folded into this save
+  queuedAt: string;
+  lastError?: string; // Set when the server rejected a replay
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isIndexedDbAvailable(): boolean {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ITINERARY_STORE)) {
+          db.createObjectStore(ITINERARY_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Retry on the next call rather than caching the failure
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against a store and resolves with its result
+ */
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Stores the latest known copy of an itinerary
+ */
+export async function cacheItinerary(
+  itinerary: Omit<CachedItinerary, "cachedAt">
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await runRequest(ITINERARY_STORE, "readwrite", (store) =>
+      store.put({ ...itinerary, cachedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    console.error("❌ Failed to cache itinerary offline:", error);
+  }
+}
+
+/**
+ * Reads the cached copy of an itinerary
+ */
+export async function getCachedItinerary(id: string): Promise<CachedItinerary | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const cached = await runRequest<CachedItinerary | undefined>(ITINERARY_STORE, "readonly", (store) =>
+      store.get(id)
+    );
+    return cached || null;
+  } catch (error) {
+    console.error("❌ Failed to read cached itinerary:", error);
+    return null;
+  }
+}
+
+/**
+ * Adds a save to the outbox, folding it into any save already queued for the same itinerary
+ * @returns False if the outbox can't be written, so the caller can surface the failure
+ */
+export async function enqueueSave(request: SaveItineraryRequest): Promise<boolean> {
+  if (!isIndexedDbAvailable()) return false;
+
+  try {
+    const key = request.id || DRAFT_OUTBOX_KEY;
+    const existing = await getPendingSave(key);
+
+    const pending: PendingSave = {
+      key,
+      request: existing
+        ? { ...request, baseHash: existing.request.baseHash }
+        : request,
+      changeCount: (existing?.changeCount || 0) + 1,
+      queuedAt: existing?.queuedAt || new Date().toISOString(),
+    };
+
+    await runRequest(OUTBOX_STORE, "readwrite", (store) => store.put(pending));
+    console.log("📥 Queued save for later:", { key, changeCount: pending.changeCount });
+    return true;
+  } catch (error) {
+    console.error("❌ Failed to queue save offline:", error);
+    return false;
+  }
+}
+
+/**
+ * Reads the queued save for an itinerary, if any
+ */
+export async function getPendingSave(key: string): Promise<PendingSave | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const pending = await runRequest<PendingSave | undefined>(OUTBOX_STORE, "readonly", (store) =>
+      store.get(key)
+    );
+    return pending || null;
+  } catch (error) {
+    console.error("❌ Failed to read queued save:", error);
+    return null;
+  }
+}
+
+/**
+ * Lists queued saves, oldest first
+ */
+export async function listPendingSaves(): Promise<PendingSave[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const pending = await runRequest<PendingSave[]>(OUTBOX_STORE, "readonly", (store) =>
+      store.getAll()
+    );
+    return pending.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  } catch (error) {
+    console.error("❌ Failed to list queued saves:", error);
+    return [];
+  }
+}
+
+/**
+ * Records why the server rejected a queued save; it stays queued for another attempt
+ */
+export async function markPendingSaveFailed(key: string, error: string): Promise<void> {
+  const pending = await getPendingSave(key);
+  if (!pending) return;
+
+  try {
+    await runRequest(OUTBOX_STORE, "readwrite", (store) =>
+      store.put({ ...pending, lastError: error })
+    );
+  } catch (storeError) {
+    console.error("❌ Failed to update queued save:", storeError);
+  }
+}
+
+/**
+ * Removes a queued save once it reached the server or was superseded
+ */
+export async function removePendingSave(key: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await runRequest(OUTBOX_STORE, "readwrite", (store) => store.delete(key));
+  } catch (error) {
+    console.error("❌ Failed to remove queued save:", error);
+  }
+}
+
+/**
+ * Total number of edits waiting in the outbox
+ */
+export async function countPendingChanges(): Promise<number> {
+  const pending = await listPendingSaves();
+  return pending.reduce((total, save) => total + save.changeCount, 0);
+}
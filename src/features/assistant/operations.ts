@@ -0,0 +1,347 @@
+import {
+  EDITOR_BLOCK_SCHEMAS,
+  validateEditorBlocks,
+} from "@/features/editor/schemas";
+import type {
+  BasePlaceBlockData,
+  EditorBlockData,
+  EditorData,
+} from "@/features/editor/types";
+import type { ItineraryOperation } from "./schema";
+
+export type ApplyOperationsResult =
+  | {
+      success: true;
+      editorData: EditorData;
+      changes: string[]; // One readable line per operation, for the preview
+      insertedBlocks: { operationIndex: number; blockId: string }[];
+    }
+  | { success: false; error: string }; // Readable enough to send back to the model
+
+// Block types operations may target; headers hold the trip title and are left alone
+const EDITABLE_TYPES = ["day", "place", "hotel", "paragraph"];
+
+// Place details that no longer apply once a place is renamed
+const PLACE_LOOKUP_RESET = {
+  placeId: "",
+  address: "",
+  rating: 0,
+  photoReferences: [],
+  thumbnailUrl: "",
+  status: "free-text",
+};
+
+function isPlaceLike(block: EditorBlockData): boolean {
+  return block.type === "place" || block.type === "hotel";
+}
+
+function describeBlock(block: EditorBlockData): string {
+  const data = block.data as Record<string, unknown>;
+  switch (block.type) {
+    case "day":
+      return `day "${data.title || "Untitled"}"`;
+    case "place":
+    case "hotel":
+      return `${block.type} "${data.name || "Unnamed"}"`;
+    default:
+      return block.type;
+  }
+}
+
+// Days are placed relative to the previous day, other blocks to the place or day before them
+function describePosition(
+  blocks: EditorBlockData[],
+  index: number,
+  blockType: string,
+): string {
+  const previous = blocks
+    .slice(0, index)
+    .reverse()
+    .find((block) =>
+      blockType === "day" ? block.type === "day" : block.type !== "paragraph",
+    );
+  return previous ? `after ${describeBlock(previous)}` : "at the top";
+}
+
+function findIndex(blocks: EditorBlockData[], blockId: string): number {
+  const index = blocks.findIndex((block) => block.id === blockId);
+  if (index === -1) {
+    throw new Error(`Block "${blockId}" not found`);
+  }
+  return index;
+}
+
+function findNextDayIndex(
+  blocks: EditorBlockData[],
+  fromIndex: number,
+): number {
+  const offset = blocks
+    .slice(fromIndex)
+    .findIndex((block) => block.type === "day");
+  return offset === -1 ? blocks.length : fromIndex + offset;
+}
+
+/**
+ * Indexes of the blocks that move or get deleted together: a day with everything until
+ * the next day, a place with its linked paragraph, or a single block
+ */
+function getUnitIndexes(blocks: EditorBlockData[], index: number): number[] {
+  const block = blocks[index];
+
+  if (block.type === "day") {
+    const end = findNextDayIndex(blocks, index + 1);
+    return Array.from({ length: end - index }, (_, offset) => index + offset);
+  }
+
+  const linkedParagraphId = isPlaceLike(block)
+    ? (block.data as BasePlaceBlockData).linkedParagraphId
+    : undefined;
+  const paragraphIndex = linkedParagraphId
+    ? blocks.findIndex((item) => item.id === linkedParagraphId)
+    : -1;
+  return paragraphIndex === -1 ? [index] : [index, paragraphIndex];
+}
+
+function takeUnit(blocks: EditorBlockData[], index: number): EditorBlockData[] {
+  const indexes = getUnitIndexes(blocks, index);
+  const unit = indexes.map((i) => blocks[i]);
+  [...indexes].sort((a, b) => b - a).forEach((i) => blocks.splice(i, 1));
+  return unit;
+}
+
+/**
+ * Where a block goes when it's placed after another one
+ * Days go after the whole day the target belongs to, so they never split another day;
+ * other blocks go straight after the target, or after its linked paragraph
+ */
+function getInsertionIndex(
+  blocks: EditorBlockData[],
+  afterBlockId: string | null,
+  blockType: string,
+): number {
+  if (afterBlockId === null) return 0;
+
+  const afterIndex = findIndex(blocks, afterBlockId);
+  if (blockType === "day") {
+    return findNextDayIndex(blocks, afterIndex + 1);
+  }
+
+  const indexes = getUnitIndexes(blocks, afterIndex);
+  const afterBlock = blocks[afterIndex];
+  return afterBlock.type === "day" ? afterIndex + 1 : Math.max(...indexes) + 1;
+}
+
+function validateBlockData(
+  blockType: string,
+  data: Record<string, unknown>,
+): void {
+  const result = EDITOR_BLOCK_SCHEMAS[blockType].safeParse(data);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(
+      `Invalid ${blockType} data: ${issue.path.join(".") || "data"}: ${issue.message}`,
+    );
+  }
+  if (
+    isPlaceLike({ type: blockType, data }) &&
+    !String(data.name || "").trim()
+  ) {
+    throw new Error(`Invalid ${blockType} data: name is required`);
+  }
+}
+
+/**
+ * Applies assistant operations to a copy of the editor data, validating each one
+ * against the document as it stands after the previous operations
+ * Nothing is applied unless every operation is valid
+ */
+export function applyItineraryOperations(
+  editorData: EditorData,
+  operations: ItineraryOperation[],
+): ApplyOperationsResult {
+  const blocks = (editorData.blocks || []).map((block) => ({ ...block }));
+  const temporaryIds = new Map<string, string>();
+  const resolve = (blockId: string) => temporaryIds.get(blockId) || blockId;
+  const originalDates = blocks
+    .filter((block) => block.type === "day")
+    .map((block) => (block.data as Record<string, unknown>).date);
+  const changes: string[] = [];
+  const insertedBlocks: { operationIndex: number; blockId: string }[] = [];
+  let movedDay = false;
+  let addedOrRemovedDay = false;
+
+  for (const [operationIndex, operation] of operations.entries()) {
+    try {
+      switch (operation.op) {
+        case "insert": {
+          if (
+            operation.id &&
+            (temporaryIds.has(operation.id) ||
+              blocks.some((block) => block.id === operation.id))
+          ) {
+            throw new Error(`Id "${operation.id}" is already used`);
+          }
+
+          // Day numbers follow the order of days and are set once all operations are done
+          const data: Record<string, unknown> =
+            operation.blockType === "day"
+              ? {
+                  title: "",
+                  date: "",
+                  region: "",
+                  ...operation.data,
+                  dayNumber: 1,
+                }
+              : { ...operation.data };
+          validateBlockData(operation.blockType, data);
+
+          const index = getInsertionIndex(
+            blocks,
+            operation.afterBlockId && resolve(operation.afterBlockId),
+            operation.blockType,
+          );
+          const blockId = crypto.randomUUID();
+          const newBlocks: EditorBlockData[] = [
+            { id: blockId, type: operation.blockType, data },
+          ];
+
+          if (operation.blockType === "place" && operation.paragraph?.trim()) {
+            const paragraphId = crypto.randomUUID();
+            data.linkedParagraphId = paragraphId;
+            newBlocks.push({
+              id: paragraphId,
+              type: "paragraph",
+              data: { text: operation.paragraph.trim() },
+            });
+          }
+
+          blocks.splice(index, 0, ...newBlocks);
+          if (operation.id) temporaryIds.set(operation.id, blockId);
+          insertedBlocks.push({ operationIndex, blockId });
+          addedOrRemovedDay ||= operation.blockType === "day";
+          changes.push(
+            `Add ${describeBlock(newBlocks[0])} ${describePosition(blocks, index, operation.blockType)}`,
+          );
+          break;
+        }
+
+        case "move": {
+          const blockId = resolve(operation.blockId);
+          const index = findIndex(blocks, blockId);
+          const block = blocks[index];
+          if (!EDITABLE_TYPES.includes(block.type)) {
+            throw new Error(`${block.type} blocks can't be moved`);
+          }
+
+          const afterBlockId =
+            operation.afterBlockId && resolve(operation.afterBlockId);
+          const unit = takeUnit(blocks, index);
+          if (afterBlockId && unit.some((item) => item.id === afterBlockId)) {
+            throw new Error(
+              `Can't move ${describeBlock(block)} after a block inside it`,
+            );
+          }
+
+          const insertionIndex = getInsertionIndex(
+            blocks,
+            afterBlockId,
+            block.type,
+          );
+          blocks.splice(insertionIndex, 0, ...unit);
+          movedDay ||= block.type === "day";
+          changes.push(
+            `Move ${describeBlock(block)} ${describePosition(blocks, insertionIndex, block.type)}`,
+          );
+          break;
+        }
+
+        case "delete": {
+          const index = findIndex(blocks, resolve(operation.blockId));
+          const block = blocks[index];
+          if (!EDITABLE_TYPES.includes(block.type)) {
+            throw new Error(`${block.type} blocks can't be deleted`);
+          }
+
+          const unit = takeUnit(blocks, index);
+          addedOrRemovedDay ||= block.type === "day";
+          changes.push(
+            `Delete ${describeBlock(block)}${
+              unit.length > 1
+                ? ` (with ${unit.length - 1} more block${unit.length > 2 ? "s" : ""})`
+                : ""
+            }`,
+          );
+          break;
+        }
+
+        case "update": {
+          const index = findIndex(blocks, resolve(operation.blockId));
+          const block = blocks[index];
+          if (!EDITABLE_TYPES.includes(block.type)) {
+            throw new Error(`${block.type} blocks can't be updated`);
+          }
+
+          const current = block.data as Record<string, unknown>;
+          const changed = { ...operation.data };
+          delete changed.dayNumber; // Derived from the order of days
+          const renamed =
+            isPlaceLike(block) &&
+            changed.name !== undefined &&
+            changed.name !== current.name &&
+            changed.placeId === undefined;
+          const data = {
+            ...current,
+            ...(renamed && PLACE_LOOKUP_RESET),
+            ...changed,
+          };
+          validateBlockData(block.type, data);
+
+          blocks[index] = { ...block, data };
+          changes.push(
+            `Update ${describeBlock(block)}: ${Object.keys(changed).join(", ")}`,
+          );
+          break;
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: `Operation ${operationIndex + 1} (${operation.op}): ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  // Days keep their dates in trip order when their contents are reordered
+  let dayIndex = 0;
+  blocks.forEach((block, index) => {
+    if (block.type !== "day") return;
+    blocks[index] = {
+      ...block,
+      data: {
+        ...block.data,
+        dayNumber: dayIndex + 1,
+        ...(movedDay &&
+          !addedOrRemovedDay && { date: originalDates[dayIndex] }),
+      },
+    };
+    dayIndex++;
+  });
+
+  const issues = validateEditorBlocks(blocks);
+  if (issues.length > 0) {
+    const issue = issues[0];
+    return {
+      success: false,
+      error: `Resulting ${issue.type} block ${issue.blockId || issue.blockIndex}: ${issue.message}`,
+    };
+  }
+
+  return {
+    success: true,
+    editorData: { ...editorData, blocks },
+    changes,
+    insertedBlocks,
+  };
+}
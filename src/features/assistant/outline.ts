@@ -0,0 +1,57 @@
+import type { EditorData } from "@/features/editor/types";
+
+const MAX_TEXT_LENGTH = 120;
+
+function plainText(html: unknown): string {
+  const text = String(html || "")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .trim();
+  return text.length > MAX_TEXT_LENGTH
+    ? `${text.slice(0, MAX_TEXT_LENGTH)}...`
+    : text;
+}
+
+/**
+ * One line per block with its id, so the model can refer to blocks in operations
+ * Blocks inside a day are indented under it
+ */
+export function createEditorOutline(editorData: EditorData): string {
+  let insideDay = false;
+
+  return (editorData.blocks || [])
+    .map((block) => {
+      const data = block.data as Record<string, unknown>;
+      const id = `[${block.id}]`;
+
+      if (block.type === "day") {
+        insideDay = true;
+        return `${id} DAY ${data.dayNumber}${data.date ? ` (${data.date})` : ""}: "${
+          data.title || ""
+        }"${data.region ? ` region: ${data.region}` : ""}`;
+      }
+
+      const indent = insideDay ? "  " : "";
+      switch (block.type) {
+        case "place":
+        case "hotel": {
+          const location =
+            typeof data.lat === "number" && typeof data.lng === "number"
+              ? ` (${data.lat.toFixed(5)}, ${data.lng.toFixed(5)})`
+              : "";
+          const flags = [
+            data.locked && "locked",
+            data.linkedParagraphId && `paragraph: ${data.linkedParagraphId}`,
+          ].filter(Boolean);
+          return `${indent}${id} ${block.type}: ${data.name || "Unnamed"}${location}${
+            flags.length > 0 ? ` [${flags.join(", ")}]` : ""
+          }`;
+        }
+        case "header":
+          return `${id} title: ${plainText(data.text)}`;
+        default:
+          return `${indent}${id} ${block.type}: ${plainText(data.text)}`;
+      }
+    })
+    .join("\n");
+}
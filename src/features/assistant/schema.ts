@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+// Operations the assistant can make on EditorData
+// Blocks are referred to by their Editor.js id; an insert may name its new block with a
+// temporary id so later operations in the same plan can refer to it
+
+const blockIdSchema = z.string().trim().min(1, "Block id is required");
+const blockDataSchema = z.record(z.unknown());
+
+export const insertOperationSchema = z.object({
+  op: z.literal("insert"),
+  blockType: z.enum(["day", "place", "paragraph"]),
+  id: z.string().trim().min(1).optional(), // Temporary id for later operations
+  afterBlockId: blockIdSchema.nullable(), // null inserts at the very top
+  data: blockDataSchema,
+  paragraph: z.string().optional(), // Places only: text for a linked paragraph after the place
+});
+
+export const moveOperationSchema = z.object({
+  op: z.literal("move"),
+  blockId: blockIdSchema,
+  afterBlockId: blockIdSchema.nullable(),
+});
+
+export const deleteOperationSchema = z.object({
+  op: z.literal("delete"),
+  blockId: blockIdSchema,
+});
+
+export const updateOperationSchema = z.object({
+  op: z.literal("update"),
+  blockId: blockIdSchema,
+  data: blockDataSchema, // Merged into the block's existing data
+});
+
+export const itineraryOperationSchema = z.discriminatedUnion("op", [
+  insertOperationSchema,
+  moveOperationSchema,
+  deleteOperationSchema,
+  updateOperationSchema,
+]);
+
+// What the model returns for each instruction
+export const assistantResponseSchema = z.object({
+  reply: z.string().trim().min(1, "Reply is required"),
+  operations: z.array(itineraryOperationSchema).default([]),
+});
+
+// Earlier chat turns sent with each instruction, checked since they go to the model as-is
+export const MAX_ASSISTANT_HISTORY = 6;
+const MAX_ASSISTANT_MESSAGE_LENGTH = 2000;
+
+export const assistantHistorySchema = z
+  .array(
+    z.object({
+      role: z.enum(["user", "assistant"]),
+      content: z
+        .string()
+        .max(MAX_ASSISTANT_MESSAGE_LENGTH, "Chat messages are too long"),
+    })
+  )
+  .max(MAX_ASSISTANT_HISTORY, "Chat history is too long");
+
+export type ItineraryOperation = z.infer<typeof itineraryOperationSchema>;
+export type AssistantResponse = z.infer<typeof assistantResponseSchema>;
@@ -0,0 +1,16 @@
+import type { ItineraryOperation } from "./schema";
+
+export type { ItineraryOperation } from "./schema";
+
+// A turn in the assistant chat
+export interface AssistantMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// The assistant's answer to one instruction: validated operations, not yet applied
+export interface AssistantPlan {
+  reply: string;
+  operations: ItineraryOperation[];
+  changes: string[]; // Readable description of each operation
+}
@@ -0,0 +1,180 @@
+import { createHash, randomBytes } from "crypto";
+import db from "@/services/database/client";
+import {
+  ApiTokenSummary,
+  CreateApiTokenResponse,
+  ListApiTokensResponse,
+  RevokeApiTokenResponse,
+} from "./types";
+
+const DAY = 24 * 60 * 60 * 1000;
+const TOKEN_PREFIX = "itn_";
+const DISPLAY_PREFIX_LENGTH = 12;
+const MAX_TOKEN_NAME_LENGTH = 50;
+const MAX_TOKENS_PER_USER = 20;
+
+// Don't write lastUsedAt on every request of a busy script
+const LAST_USED_RESOLUTION = 60 * 1000;
+
+function generateApiToken(): string {
+  return TOKEN_PREFIX + randomBytes(32).toString("base64url");
+}
+
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toApiTokenSummary(token: {
+  id: string;
+  name: string;
+  prefix: string;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}): ApiTokenSummary {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    lastUsedAt: token.lastUsedAt || undefined,
+    expiresAt: token.expiresAt || undefined,
+    createdAt: token.createdAt,
+  };
+}
+
+/**
+ * Creates a personal access token for the REST API
+ * Only its hash is stored, so the returned secret is the one chance to copy it
+ * @param expiresInDays Number of days until the token stops working, or undefined for no expiry
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  expiresInDays?: number
+): Promise<CreateApiTokenResponse> {
+  console.log("🔑 Creating API token:", name);
+
+  try {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return { success: false, error: "Token name cannot be empty" };
+    }
+    if (trimmed.length > MAX_TOKEN_NAME_LENGTH) {
+      return {
+        success: false,
+        error: `Token name must be at most ${MAX_TOKEN_NAME_LENGTH} characters`,
+      };
+    }
+    if (expiresInDays !== undefined && (!Number.isFinite(expiresInDays) || expiresInDays <= 0)) {
+      return { success: false, error: "Expiry must be a positive number of days" };
+    }
+
+    const activeCount = await db.apiToken.count({
+      where: { userId, revokedAt: null },
+    });
+    if (activeCount >= MAX_TOKENS_PER_USER) {
+      return {
+        success: false,
+        error: `You can have at most ${MAX_TOKENS_PER_USER} active tokens`,
+      };
+    }
+
+    const secret = generateApiToken();
+    const token = await db.apiToken.create({
+      data: {
+        userId,
+        name: trimmed,
+        tokenHash: hashApiToken(secret),
+        prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY) : null,
+      },
+    });
+
+    console.log("✅ API token created:", token.id);
+    return { success: true, data: { token: toApiTokenSummary(token), secret } };
+  } catch (error) {
+    console.error("❌ Error creating API token:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Lists the user's active tokens, newest first
+ */
+export async function listApiTokens(userId: string): Promise<ListApiTokensResponse> {
+  try {
+    const tokens = await db.apiToken.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return { success: true, data: tokens.map(toApiTokenSummary) };
+  } catch (error) {
+    console.error("❌ Error listing API tokens:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Revokes one of the user's tokens; requests using it fail from then on
+ */
+export async function revokeApiToken(
+  userId: string,
+  tokenId: string
+): Promise<RevokeApiTokenResponse> {
+  console.log("🔑 Revoking API token:", tokenId);
+
+  try {
+    const { count } = await db.apiToken.updateMany({
+      where: { id: tokenId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return { success: false, error: "Token not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error revoking API token:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Resolves the user a bearer token belongs to
+ * @returns The user id, or null if the token is unknown, revoked or expired
+ */
+export async function authenticateApiToken(token: string): Promise<string | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const apiToken = await db.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    select: { id: true, userId: true, lastUsedAt: true, expiresAt: true, revokedAt: true },
+  });
+
+  const now = new Date();
+  if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= now)) {
+    return null;
+  }
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION) {
+    await db.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return apiToken.userId;
+}
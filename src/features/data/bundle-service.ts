@@ -0,0 +1,88 @@
+import { loadItinerary, saveItinerary } from "./itinerary-service";
+import {
+  createItineraryBundle,
+  validateItineraryBundle,
+  regenerateBlockIds,
+} from "./utils/bundle";
+import { migrateEditorData } from "./utils/migrations";
+import { DirectionsData } from "@/features/directions/types";
+import {
+  ExportItineraryBundleResponse,
+  ImportItineraryBundleResponse,
+} from "./types";
+
+/**
+ * Exports an itinerary the user can view as a versioned JSON bundle
+ */
+export async function exportItineraryBundle(
+  userId: string,
+  itineraryId: string
+): Promise<ExportItineraryBundleResponse> {
+  console.log("📦 Exporting itinerary bundle:", itineraryId);
+
+  try {
+    const response = await loadItinerary(userId, itineraryId);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error || "Itinerary not found" };
+    }
+
+    return { success: true, data: createItineraryBundle(response.data) };
+  } catch (error) {
+    console.error("❌ Error exporting itinerary bundle:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Validates a bundle and creates a new itinerary from it, owned by the importing user
+ * Older editor data is migrated, block ids are regenerated and database ids are always new
+ */
+export async function importItineraryBundle(
+  userId: string,
+  bundle: unknown
+): Promise<ImportItineraryBundleResponse> {
+  console.log("📦 Importing itinerary bundle");
+
+  try {
+    const validation = validateItineraryBundle(bundle);
+    if (!validation.success) {
+      console.warn("⚠️ Invalid itinerary bundle:", validation.fieldErrors);
+      return {
+        success: false,
+        error: "The bundle is invalid",
+        fieldErrors: validation.fieldErrors,
+      };
+    }
+
+    const { itinerary, directions } = validation.bundle;
+    const { editorData } = migrateEditorData(itinerary.editorData, itinerary.schemaVersion);
+
+    const response = await saveItinerary(userId, {
+      title: itinerary.title,
+      editorData: regenerateBlockIds(editorData),
+      directions: directions as unknown as DirectionsData[],
+      destination: itinerary.destination,
+      startDate: itinerary.startDate,
+      endDate: itinerary.endDate,
+      interests: itinerary.interests,
+      travelStyle: itinerary.travelStyle,
+      additionalNotes: itinerary.additionalNotes || undefined,
+    });
+
+    if (!response.success) {
+      return { success: false, error: response.error || "Failed to create itinerary" };
+    }
+
+    console.log("✅ Itinerary bundle imported:", response.id);
+    return { success: true, data: { id: response.id, title: itinerary.title } };
+  } catch (error) {
+    console.error("❌ Error importing itinerary bundle:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { randomBytes } from "crypto";
+import db from "@/services/database/client";
+import { EditorData } from "@/features/editor/types";
+import { generateIcs } from "@/features/export/calendar";
+import { migrateEditorData } from "./utils/migrations";
+import { getItineraryRole, hasRole } from "./collaborator-service";
+import { CalendarFeedResponse, CalendarFeedContentResponse } from "./types";
+
+function generateCalendarToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Returns the calendar feed token of an itinerary, creating one on first use
+ * Anyone who can view the itinerary may subscribe to its calendar
+ */
+export async function getCalendarFeedToken(
+  userId: string,
+  itineraryId: string
+): Promise<CalendarFeedResponse> {
+  try {
+    if (!hasRole(await getItineraryRole(userId, itineraryId), "viewer")) {
+      return { success: false, error: "Itinerary not found" };
+    }
+
+    const itinerary = await db.itinerary.findUnique({
+      where: { id: itineraryId },
+      select: { calendarToken: true },
+    });
+
+    if (itinerary?.calendarToken) {
+      return { success: true, data: { token: itinerary.calendarToken } };
+    }
+
+    const updated = await db.itinerary.update({
+      where: { id: itineraryId },
+      data: { calendarToken: generateCalendarToken() },
+      select: { calendarToken: true },
+    });
+
+    console.log("📅 Calendar feed token created for itinerary:", itineraryId);
+    return { success: true, data: { token: updated.calendarToken! } };
+  } catch (error) {
+    console.error("❌ Error getting calendar feed token:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Replaces the calendar feed token, cutting off every existing subscription
+ */
+export async function resetCalendarFeedToken(
+  userId: string,
+  itineraryId: string
+): Promise<CalendarFeedResponse> {
+  console.log("📅 Resetting calendar feed token for itinerary:", itineraryId);
+
+  try {
+    if (!hasRole(await getItineraryRole(userId, itineraryId), "owner")) {
+      return { success: false, error: "Only owners can reset the calendar feed" };
+    }
+
+    const updated = await db.itinerary.update({
+      where: { id: itineraryId },
+      data: { calendarToken: generateCalendarToken() },
+      select: { calendarToken: true },
+    });
+
+    return { success: true, data: { token: updated.calendarToken! } };
+  } catch (error) {
+    console.error("❌ Error resetting calendar feed token:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Renders the calendar feed of an itinerary for a feed token
+ * No user is required - calendar apps authenticate with the token alone
+ */
+export async function getCalendarFeed(
+  itineraryId: string,
+  token: string
+): Promise<CalendarFeedContentResponse> {
+  try {
+    if (!token) {
+      return { success: false, error: "Calendar feed not found" };
+    }
+
+    const itinerary = await db.itinerary.findFirst({
+      where: { id: itineraryId, calendarToken: token, deletedAt: null },
+      select: { id: true, title: true, destination: true, editorData: true, version: true },
+    });
+
+    if (!itinerary) {
+      return { success: false, error: "Calendar feed not found" };
+    }
+
+    let editorData: EditorData;
+    try {
+      editorData = JSON.parse(itinerary.editorData);
+      if (!editorData || !Array.isArray(editorData.blocks)) {
+        throw new Error("Invalid editorData structure");
+      }
+    } catch (parseError) {
+      console.error("Error parsing calendar editorData JSON:", parseError);
+      editorData = { time: Date.now(), blocks: [], version: "2.28.0" };
+    }
+
+    // Upgrade older documents in memory; the stored copy is upgraded when an editor opens it
+    editorData = migrateEditorData(editorData, itinerary.version).editorData;
+
+    const title = itinerary.title || itinerary.destination || "Itinerary";
+    const ics = generateIcs(editorData, {
+      title,
+      uidPrefix: itinerary.id,
+      includePlaceEvents: true,
+    });
+
+    return { success: true, data: { ics, title } };
+  } catch (error) {
+    console.error("❌ Error generating calendar feed:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
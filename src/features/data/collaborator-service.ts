@@ -0,0 +1,313 @@
+import db from "@/services/database/client";
+import {
+  CollaboratorRole,
+  CollaboratorSummary,
+  CollaboratorResponse,
+  ListCollaboratorsResponse,
+  RemoveCollaboratorResponse,
+} from "./types";
+
+const ROLE_RANK: Record<CollaboratorRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+const COLLABORATOR_ROLES = Object.keys(ROLE_RANK) as CollaboratorRole[];
+
+// Simple shape check - the address is confirmed when the invitee signs in with it
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Checks whether a role grants at least the required access level
+ */
+export function hasRole(
+  role: CollaboratorRole | null,
+  required: CollaboratorRole
+): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+function isCollaboratorRole(role: string): role is CollaboratorRole {
+  return (COLLABORATOR_ROLES as string[]).includes(role);
+}
+
+async function getUserEmail(userId: string): Promise<string | null> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+  return user?.email.toLowerCase() || null;
+}
+
+/**
+ * Resolves the user's access level on an itinerary
+ * The itinerary's creator is always owner; other users need a collaborator entry,
+ * matched by user id or, for invitations not yet claimed, by email
+ * Itineraries in the trash count as missing unless includeDeleted is set
+ * @returns The role, or null if the itinerary does not exist or the user has no access
+ */
+export async function getItineraryRole(
+  userId: string,
+  itineraryId: string,
+  options: { includeDeleted?: boolean } = {}
+): Promise<CollaboratorRole | null> {
+  const itinerary = await db.itinerary.findUnique({
+    where: { id: itineraryId },
+    select: { userId: true, deletedAt: true },
+  });
+
+  if (!itinerary || (itinerary.deletedAt && !options.includeDeleted)) {
+    return null;
+  }
+
+  if (itinerary.userId === userId) {
+    return "owner";
+  }
+
+  const email = await getUserEmail(userId);
+  const collaborator = await db.itineraryCollaborator.findFirst({
+    where: {
+      itineraryId,
+      OR: [{ userId }, ...(email ? [{ email, userId: null }] : [])],
+    },
+    select: { role: true },
+  });
+
+  if (!collaborator || !isCollaboratorRole(collaborator.role)) {
+    return null;
+  }
+
+  return collaborator.role;
+}
+
+/**
+ * Links pending invitations sent to the user's email address to their account
+ * @returns Number of invitations claimed
+ */
+export async function claimPendingInvitations(userId: string): Promise<number> {
+  try {
+    const email = await getUserEmail(userId);
+    if (!email) return 0;
+
+    const result = await db.itineraryCollaborator.updateMany({
+      where: { email, userId: null },
+      data: { userId, acceptedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      console.log(`🤝 Claimed ${result.count} pending invitations for user:`, userId);
+    }
+    return result.count;
+  } catch (error) {
+    console.error("❌ Error claiming pending invitations:", error);
+    return 0;
+  }
+}
+
+function toCollaboratorSummary(collaborator: {
+  id: string;
+  email: string;
+  role: string;
+  userId: string | null;
+  createdAt: Date;
+  user?: { name: string | null } | null;
+}): CollaboratorSummary {
+  return {
+    id: collaborator.id,
+    email: collaborator.email,
+    name: collaborator.user?.name || undefined,
+    role: isCollaboratorRole(collaborator.role) ? collaborator.role : "viewer",
+    isPending: !collaborator.userId,
+    createdAt: collaborator.createdAt,
+  };
+}
+
+/**
+ * Invites a user by email to collaborate on an itinerary
+ * Re-inviting an existing collaborator updates their role
+ */
+export async function inviteCollaborator(
+  userId: string,
+  itineraryId: string,
+  email: string,
+  role: CollaboratorRole
+): Promise<CollaboratorResponse> {
+  console.log("🤝 Inviting collaborator to itinerary:", itineraryId, role);
+
+  try {
+    if (!hasRole(await getItineraryRole(userId, itineraryId), "owner")) {
+      return { success: false, error: "Only owners can invite collaborators" };
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      return { success: false, error: "Please enter a valid email address" };
+    }
+    if (!isCollaboratorRole(role)) {
+      return { success: false, error: "Invalid role" };
+    }
+
+    const itinerary = await db.itinerary.findUnique({
+      where: { id: itineraryId },
+      select: { user: { select: { email: true } } },
+    });
+    if (itinerary?.user.email.toLowerCase() === normalizedEmail) {
+      return { success: false, error: "This user already owns the itinerary" };
+    }
+
+    // Link straight away if the invitee already has an account
+    const invitee = await db.user.findFirst({
+      where: { email: normalizedEmail },
+      select: { id: true },
+    });
+
+    const collaborator = await db.itineraryCollaborator.upsert({
+      where: { itineraryId_email: { itineraryId, email: normalizedEmail } },
+      create: {
+        itineraryId,
+        email: normalizedEmail,
+        role,
+        invitedById: userId,
+        userId: invitee?.id || null,
+        acceptedAt: invitee ? new Date() : null,
+      },
+      update: { role },
+      include: { user: { select: { name: true } } },
+    });
+
+    console.log("✅ Collaborator invited:", collaborator.id);
+    return { success: true, data: toCollaboratorSummary(collaborator) };
+  } catch (error) {
+    console.error("❌ Error inviting collaborator:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Lists the owner and collaborators of an itinerary
+ */
+export async function listCollaborators(
+  userId: string,
+  itineraryId: string
+): Promise<ListCollaboratorsResponse> {
+  try {
+    const role = await getItineraryRole(userId, itineraryId);
+    if (!hasRole(role, "viewer")) {
+      return { success: false, error: "Itinerary not found" };
+    }
+
+    const itinerary = await db.itinerary.findUnique({
+      where: { id: itineraryId },
+      select: {
+        user: { select: { name: true, email: true } },
+        collaborators: {
+          include: { user: { select: { name: true } } },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!itinerary) {
+      return { success: false, error: "Itinerary not found" };
+    }
+
+    return {
+      success: true,
+      data: {
+        owner: {
+          name: itinerary.user.name || undefined,
+          email: itinerary.user.email,
+        },
+        collaborators: itinerary.collaborators.map(toCollaboratorSummary),
+        role: role!,
+      },
+    };
+  } catch (error) {
+    console.error("❌ Error listing collaborators:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Changes a collaborator's role
+ */
+export async function updateCollaboratorRole(
+  userId: string,
+  collaboratorId: string,
+  role: CollaboratorRole
+): Promise<CollaboratorResponse> {
+  try {
+    const existing = await db.itineraryCollaborator.findUnique({
+      where: { id: collaboratorId },
+      select: { itineraryId: true },
+    });
+
+    if (!existing || !hasRole(await getItineraryRole(userId, existing.itineraryId), "owner")) {
+      return { success: false, error: "Collaborator not found" };
+    }
+    if (!isCollaboratorRole(role)) {
+      return { success: false, error: "Invalid role" };
+    }
+
+    const collaborator = await db.itineraryCollaborator.update({
+      where: { id: collaboratorId },
+      data: { role },
+      include: { user: { select: { name: true } } },
+    });
+
+    return { success: true, data: toCollaboratorSummary(collaborator) };
+  } catch (error) {
+    console.error("❌ Error updating collaborator role:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Removes a collaborator from an itinerary
+ * Owners can remove anyone; collaborators can remove themselves to leave a shared trip
+ */
+export async function removeCollaborator(
+  userId: string,
+  collaboratorId: string
+): Promise<RemoveCollaboratorResponse> {
+  console.log("🤝 Removing collaborator:", collaboratorId);
+
+  try {
+    const collaborator = await db.itineraryCollaborator.findUnique({
+      where: { id: collaboratorId },
+      select: { itineraryId: true, userId: true },
+    });
+
+    if (!collaborator) {
+      return { success: false, error: "Collaborator not found" };
+    }
+
+    const isSelf = collaborator.userId === userId;
+    if (!isSelf && !hasRole(await getItineraryRole(userId, collaborator.itineraryId), "owner")) {
+      return { success: false, error: "Collaborator not found" };
+    }
+
+    await db.itineraryCollaborator.delete({
+      where: { id: collaboratorId },
+    });
+
+    console.log("✅ Collaborator removed:", collaboratorId);
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error removing collaborator:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -2,5 +2,15 @@
 export * from "./types";
 export * from "./server-actions";
 export * from "./utils/hash";
+export {
+  ITINERARY_BUNDLE_FORMAT,
+  ITINERARY_BUNDLE_VERSION,
+  type ItineraryBundle,
+} from "./utils/bundle";
+export {
+  SEARCH_MATCH_START,
+  SEARCH_MATCH_END,
+  type SearchHitKind,
+} from "./utils/searchIndex";
 
 // Note: Services are not exported as they should only be used via server actions
\ No newline at end of file
@@ -1,21 +1,106 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import { EditorData } from "@/features/editor/types";
 import { DirectionsData } from "@/features/directions/types";
 import { generateContentHash } from "./utils/hash";
+import { mergeEditorData } from "./utils/merge";
+import {
+  CURRENT_EDITOR_SCHEMA_VERSION,
+  isEditorSchemaOutdated,
+  migrateEditorData,
+} from "./utils/migrations";
+import {
+  recordRevision,
+  pruneRevisions,
+  findRevisionContentByHash,
+} from "./revision-service";
+import {
+  getItineraryRole,
+  hasRole,
+  claimPendingInvitations,
+} from "./collaborator-service";
+import { updateSearchIndex } from "./search-service";
+import { dispatchItineraryEvent } from "./webhook-service";
+import {
+  applyItineraryListOptions,
+  collectTags,
+  getTripStatus,
+  normalizeTags,
+} from "./utils/itineraryList";
 import {
   SaveItineraryRequest,
   SaveItineraryResponse,
+  SaveConflictReport,
   LoadItineraryResponse,
   ItinerarySummary,
   ListItinerariesResponse,
+  ListItinerariesOptions,
   DeleteItineraryResponse,
+  CollaboratorRole,
 } from "./types";
 
 const prisma = new PrismaClient();
 
+/**
+ * Writes an itinerary's directions day by day: days missing from the list are deleted,
+ * and only days whose input hash or color changed are rewritten
+ */
+async function writeDirections(
+  client: Prisma.TransactionClient,
+  itineraryId: string,
+  directions: DirectionsData[]
+): Promise<number> {
+  const existing = await client.itineraryDirections.findMany({
+    where: { itineraryId },
+    select: { dayIndex: true, color: true, inputHash: true },
+  });
+  const existingByDay = new Map(existing.map((row) => [row.dayIndex, row]));
+
+  await client.itineraryDirections.deleteMany({
+    where: {
+      itineraryId,
+      dayIndex: { notIn: directions.map((direction) => direction.dayIndex) },
+    },
+  });
+
+  const changed = directions.filter((direction) => {
+    const stored = existingByDay.get(direction.dayIndex);
+    return (
+      !stored ||
+      !direction.inputHash ||
+      stored.inputHash !== direction.inputHash ||
+      stored.color !== direction.color
+    );
+  });
+
+  for (const direction of changed) {
+    const data = {
+      color: direction.color,
+      directionsResult: JSON.stringify(direction.directionsResult),
+      inputHash: direction.inputHash || null,
+    };
+    await client.itineraryDirections.upsert({
+      where: { itineraryId_dayIndex: { itineraryId, dayIndex: direction.dayIndex } },
+      create: { itineraryId, dayIndex: direction.dayIndex, ...data },
+      update: data,
+    });
+  }
+
+  return changed.length;
+}
+
+/**
+ * Returns the text of the first header block, which is used as the itinerary title
+ */
+function extractTitle(editorData: EditorData): string | undefined {
+  const header = editorData.blocks.find((block) => block.type === "header");
+  const text = (header?.data as { text?: unknown } | undefined)?.text;
+  return typeof text === "string" ? text : undefined;
+}
+
 /**
  * Saves an itinerary and its directions in a single transaction
- * Includes conflict resolution for concurrent edits
+ * Includes conflict resolution for concurrent edits: when the request's base hash no longer
+ * matches the stored content, both versions are three-way merged against the base revision
  */
 export async function saveItinerary(
   userId: string,
@@ -28,18 +113,34 @@ export async function saveItinerary(
     hasFormMetadata: !!(request.destination || request.startDate || request.endDate || request.interests || request.travelStyle)
   });
 
-  const contentHash = generateContentHash(request.editorData);
-  const editorDataJson = JSON.stringify(request.editorData);
+  let contentHash = generateContentHash(request.editorData);
+  let editorDataJson = JSON.stringify(request.editorData);
+  let title = request.title;
   
   try {
+    // Collaborators need at least editor access; unknown IDs fall through and are created
+    if (request.id) {
+      const role = await getItineraryRole(userId, request.id);
+      const exists = role !== null || (await prisma.itinerary.count({ where: { id: request.id } })) > 0;
+      if (exists && !hasRole(role, "editor")) {
+        return {
+          id: request.id,
+          success: false,
+          error: "You do not have permission to edit this itinerary",
+        };
+      }
+    }
+
     const result = await prisma.$transaction(async (tx) => {
       let itineraryId = request.id;
+      let conflictReport: SaveConflictReport | undefined;
+      let created = false;
 
       if (request.id) {
         // Try to update existing itinerary
         const existing = await tx.itinerary.findUnique({
-          where: { id: request.id, userId },
-          select: { hash: true },
+          where: { id: request.id },
+          select: { hash: true, editorData: true },
         });
 
         if (existing) {
@@ -47,12 +148,38 @@ export async function saveItinerary(
           // Check if content has actually changed
           if (existing.hash === contentHash) {
             console.log("📊 Content unchanged, skipping save");
-            return { id: request.id, success: true, unchanged: true };
+            return { id: request.id, success: true, unchanged: true, hash: existing.hash };
+          }
+
+          // Someone else saved since the client loaded its copy - merge instead of overwriting
+          if (request.baseHash && existing.hash !== request.baseHash) {
+            console.log("🔀 Concurrent edit detected, merging with stored version");
+
+            const base = await findRevisionContentByHash(tx, request.id, request.baseHash);
+            if (!base) {
+              console.warn("⚠️ Base revision not found, reporting every difference as a conflict");
+            }
+
+            const merge = mergeEditorData(base, request.editorData, JSON.parse(existing.editorData));
+            conflictReport = {
+              mergedEditorData: merge.editorData,
+              conflicts: merge.conflicts,
+              autoMergedCount: merge.autoMergedCount,
+            };
+
+            contentHash = generateContentHash(merge.editorData);
+            editorDataJson = JSON.stringify(merge.editorData);
+            title = extractTitle(merge.editorData) ?? request.title;
+
+            console.log("🔀 Merge complete:", {
+              autoMerged: merge.autoMergedCount,
+              conflicts: merge.conflicts.length,
+            });
           }
 
           // Get the full existing itinerary to check current form metadata
           const fullExisting = await tx.itinerary.findUnique({
-            where: { id: request.id, userId },
+            where: { id: request.id },
             select: {
               destination: true,
               startDate: true,
@@ -65,11 +192,12 @@ export async function saveItinerary(
 
           // Update the itinerary - ensure required fields have values
           await tx.itinerary.update({
-            where: { id: request.id, userId },
+            where: { id: request.id },
             data: {
-              title: request.title,
+              title,
               editorData: editorDataJson,
               hash: contentHash,
+              version: CURRENT_EDITOR_SCHEMA_VERSION,
               
               // Update form metadata if provided, otherwise keep existing or provide defaults
               destination: request.destination !== undefined 
@@ -97,13 +225,15 @@ export async function saveItinerary(
         } else {
           // Itinerary doesn't exist - create it with the provided ID
           console.log("📝 Itinerary not found, creating new one with ID:", request.id);
+          created = true;
           await tx.itinerary.create({
             data: {
               id: request.id, // Use the provided ID
               userId,
-              title: request.title,
+              title,
               editorData: editorDataJson,
               hash: contentHash,
+              version: CURRENT_EDITOR_SCHEMA_VERSION,
               
               // Include form metadata (provide defaults for required fields)
               destination: request.destination || "Unknown Destination",
@@ -120,9 +250,10 @@ export async function saveItinerary(
         const newItinerary = await tx.itinerary.create({
           data: {
             userId,
-            title: request.title,
+            title,
             editorData: editorDataJson,
             hash: contentHash,
+            version: CURRENT_EDITOR_SCHEMA_VERSION,
             
             // Include form metadata (provide defaults for required fields)
             destination: request.destination || "Unknown Destination",
@@ -134,15 +265,11 @@ export async function saveItinerary(
           },
         });
         itineraryId = newItinerary.id;
+        created = true;
       }
 
       // Handle directions if provided
       if (request.directions && request.directions.length > 0) {
-        // Delete existing directions for this itinerary
-        await tx.itineraryDirections.deleteMany({
-          where: { itineraryId: itineraryId! },
-        });
-
         // Filter and validate directions data
         const validDirections = request.directions.filter((direction) => {
           // Validate that all required fields are present and valid
@@ -161,33 +288,48 @@ export async function saveItinerary(
           return true;
         });
 
+        // Rewrite only the days whose routes changed; days without valid directions are removed
+        const writtenCount = await writeDirections(tx, itineraryId!, validDirections);
+
         if (validDirections.length > 0) {
-          // Insert new directions
-          const directionsData = validDirections.map((direction) => ({
-            itineraryId: itineraryId!,
-            dayIndex: direction.dayIndex,
-            color: direction.color,
-            directionsResult: JSON.stringify(direction.directionsResult),
-          }));
-
-          console.log(`💾 Saving ${directionsData.length} valid directions (filtered from ${request.directions.length})`);
-          await tx.itineraryDirections.createMany({
-            data: directionsData,
-          });
+          console.log(`💾 Saved ${writtenCount} changed of ${validDirections.length} valid directions (filtered from ${request.directions.length})`);
         } else {
           console.warn("⚠️ No valid directions to save after filtering");
         }
       }
 
-      return { id: itineraryId!, unchanged: false };
+      // Snapshot the new content into the revision history
+      await recordRevision(tx, {
+        itineraryId: itineraryId!,
+        title,
+        editorData: editorDataJson,
+        hash: contentHash,
+      });
+
+      return { id: itineraryId!, unchanged: false, hash: contentHash, conflictReport, created };
     });
 
     if (result.unchanged) {
-      return { id: result.id, success: true };
+      return { id: result.id, success: true, unchanged: true, hash: result.hash };
+    }
+
+    await pruneRevisions(result.id);
+    await updateSearchIndex(result.id);
+    await dispatchItineraryEvent(result.created ? "itinerary.created" : "itinerary.updated", result.id);
+
+    if (result.conflictReport) {
+      console.log("✅ Itinerary saved with merged changes:", result.id);
+      return {
+        id: result.id,
+        success: true,
+        hash: result.hash,
+        conflictResolved: true,
+        conflictReport: result.conflictReport,
+      };
     }
 
     console.log("✅ Itinerary saved successfully:", result.id);
-    return { id: result.id, success: true };
+    return { id: result.id, success: true, hash: result.hash };
 
   } catch (error) {
     console.error("❌ Error saving itinerary:", error);
@@ -230,8 +372,16 @@ export async function loadItinerary(
   console.log("📥 Loading itinerary from database:", itineraryId);
 
   try {
+    const role = await getItineraryRole(userId, itineraryId);
+    if (!hasRole(role, "viewer")) {
+      return {
+        success: false,
+        error: "Itinerary not found",
+      };
+    }
+
     const itinerary = await prisma.itinerary.findUnique({
-      where: { id: itineraryId, userId },
+      where: { id: itineraryId },
       include: {
         directions: {
           orderBy: { dayIndex: "asc" },
@@ -248,6 +398,9 @@ export async function loadItinerary(
 
     // Parse editor data with error handling
     let editorData: EditorData;
+    let editorDataJson = itinerary.editorData;
+    let hash = itinerary.hash;
+    let parsed = false;
     try {
       editorData = JSON.parse(itinerary.editorData);
       
@@ -259,6 +412,7 @@ export async function loadItinerary(
         console.warn("Fixing missing blocks array in editorData");
         editorData.blocks = [];
       }
+      parsed = true;
     } catch (parseError) {
       console.error("Error parsing editorData JSON:", parseError);
       // Return a default structure if parsing fails
@@ -269,6 +423,43 @@ export async function loadItinerary(
       };
     }
 
+    // Upgrade documents saved with an older block shape and write the result back
+    if (parsed && isEditorSchemaOutdated(itinerary.version)) {
+      const migration = migrateEditorData(editorData, itinerary.version);
+      if (migration.migrated) {
+        editorData = migration.editorData;
+        editorDataJson = JSON.stringify(editorData);
+        hash = generateContentHash(editorData);
+
+        await prisma.itinerary.update({
+          where: { id: itinerary.id },
+          data: {
+            editorData: editorDataJson,
+            hash,
+            version: migration.version,
+            updatedAt: itinerary.updatedAt, // A migration isn't a user edit
+          },
+        });
+
+        console.log("🔄 Itinerary upgraded:", {
+          id: itinerary.id,
+          from: itinerary.version,
+          to: migration.version,
+        });
+      }
+    }
+
+    // The client saves against this hash, so it needs a revision to merge against; content
+    // saved before history was recorded, or upgraded above, doesn't have one yet
+    if (parsed) {
+      await recordRevision(prisma, {
+        itineraryId: itinerary.id,
+        title: itinerary.title,
+        editorData: editorDataJson,
+        hash,
+      });
+    }
+
     // Parse directions with error handling
     const directions: DirectionsData[] = [];
     for (const dir of itinerary.directions) {
@@ -277,6 +468,7 @@ export async function loadItinerary(
           dayIndex: dir.dayIndex,
           color: dir.color,
           directionsResult: JSON.parse(dir.directionsResult),
+          inputHash: dir.inputHash || undefined,
         });
       } catch (parseError) {
         console.error("Error parsing direction JSON:", parseError, dir);
@@ -299,6 +491,8 @@ export async function loadItinerary(
         editorData,
         directions,
         lastUpdated: itinerary.updatedAt,
+        hash,
+        role: role!,
         
         // Include form metadata
         destination: itinerary.destination || undefined,
@@ -322,61 +516,144 @@ export async function loadItinerary(
 }
 
 /**
- * Lists all itineraries for a user
+ * Converts an itinerary row into a list summary, parsing its editor data
+ */
+function toItinerarySummary(
+  itinerary: {
+    id: string;
+    title: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    editorData: string;
+    destination: string;
+    startDate: Date;
+    endDate: Date;
+    interests: unknown;
+    travelStyle: string;
+    additionalNotes: string | null;
+    tags: unknown;
+    archived: boolean;
+    folderId: string | null;
+    folder: { name: string } | null;
+  },
+  role: CollaboratorRole,
+  ownerName?: string
+): ItinerarySummary {
+  const { folder, folderId, tags, ...rest } = itinerary;
+  const isOwner = ownerName === undefined;
+
+  return {
+    ...rest,
+    title: itinerary.title || undefined, // Convert null to undefined for TypeScript
+    editorData: itinerary.editorData ? (() => {
+      try {
+        return JSON.parse(itinerary.editorData);
+      } catch (error) {
+        console.error(`Error parsing editorData for itinerary ${itinerary.id}:`, error);
+        return undefined;
+      }
+    })() : undefined,
+    role,
+    isShared: !isOwner,
+    ownerName,
+    
+    // Folders belong to the owner, so collaborators don't see them
+    tags: normalizeTags(tags),
+    folderId: isOwner ? folderId || undefined : undefined,
+    folderName: isOwner ? folder?.name : undefined,
+    tripStatus: getTripStatus(itinerary.startDate, itinerary.endDate),
+    
+    // Include form metadata
+    destination: itinerary.destination || undefined,
+    startDate: itinerary.startDate || undefined,
+    endDate: itinerary.endDate || undefined,
+    interests: Array.isArray(itinerary.interests) 
+      ? (itinerary.interests as unknown[]).filter((item): item is string => typeof item === 'string')
+      : undefined,
+    travelStyle: itinerary.travelStyle || undefined,
+    additionalNotes: itinerary.additionalNotes || undefined,
+  };
+}
+
+const ITINERARY_SUMMARY_SELECT = {
+  id: true,
+  title: true,
+  createdAt: true,
+  updatedAt: true,
+  editorData: true, // Include editorData for extracting stats and images
+  
+  // Include form metadata
+  destination: true,
+  startDate: true,
+  endDate: true,
+  interests: true,
+  travelStyle: true,
+  additionalNotes: true,
+  
+  // Organization
+  tags: true,
+  archived: true,
+  folderId: true,
+  folder: { select: { name: true } },
+} as const;
+
+/**
+ * Lists all itineraries for a user, including those shared with them
+ * Archived itineraries are hidden unless requested; options filter, sort and group the list
  */
-export async function listItineraries(userId: string): Promise<ListItinerariesResponse> {
+export async function listItineraries(
+  userId: string,
+  options: ListItinerariesOptions = {}
+): Promise<ListItinerariesResponse> {
   console.log("📋 Loading itineraries list for user:", userId);
 
   try {
+    // Invitations sent before the user signed up are linked on first listing
+    await claimPendingInvitations(userId);
+
     const itineraries = await prisma.itinerary.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
+      select: ITINERARY_SUMMARY_SELECT,
+      orderBy: { updatedAt: "desc" },
+    });
+
+    const collaborations = await prisma.itineraryCollaborator.findMany({
+      where: { userId, itinerary: { deletedAt: null } },
       select: {
-        id: true,
-        title: true,
-        createdAt: true,
-        updatedAt: true,
-        editorData: true, // Include editorData for extracting stats and images
-        
-        // Include form metadata
-        destination: true,
-        startDate: true,
-        endDate: true,
-        interests: true,
-        travelStyle: true,
-        additionalNotes: true,
+        role: true,
+        itinerary: {
+          select: {
+            ...ITINERARY_SUMMARY_SELECT,
+            user: { select: { name: true, email: true } },
+          },
+        },
       },
-      orderBy: { updatedAt: "desc" },
+      orderBy: { itinerary: { updatedAt: "desc" } },
     });
 
-    console.log("✅ Itineraries list loaded:", itineraries.length);
-
-    // Parse editorData for each itinerary
-    const parsedItineraries: ItinerarySummary[] = itineraries.map(itinerary => ({
-      ...itinerary,
-      title: itinerary.title || undefined, // Convert null to undefined for TypeScript
-      editorData: itinerary.editorData ? (() => {
-        try {
-          return JSON.parse(itinerary.editorData);
-        } catch (error) {
-          console.error(`Error parsing editorData for itinerary ${itinerary.id}:`, error);
-          return undefined;
-        }
-      })() : undefined,
-      
-      // Include form metadata
-      destination: itinerary.destination || undefined,
-      startDate: itinerary.startDate || undefined,
-      endDate: itinerary.endDate || undefined,
-      interests: Array.isArray(itinerary.interests) 
-        ? (itinerary.interests as unknown[]).filter((item): item is string => typeof item === 'string')
-        : undefined,
-      travelStyle: itinerary.travelStyle || undefined,
-      additionalNotes: itinerary.additionalNotes || undefined,
-    }));
+    console.log("✅ Itineraries list loaded:", {
+      owned: itineraries.length,
+      shared: collaborations.length,
+    });
+
+    const parsedItineraries: ItinerarySummary[] = [
+      ...itineraries.map((itinerary) => toItinerarySummary(itinerary, "owner")),
+      ...collaborations.map(({ role, itinerary: { user, ...itinerary } }) =>
+        toItinerarySummary(
+          itinerary,
+          role as CollaboratorRole,
+          user.name || user.email
+        )
+      ),
+    ];
+
+    const { itineraries: listed, groups } = applyItineraryListOptions(parsedItineraries, options);
 
     return {
       success: true,
-      data: parsedItineraries,
+      data: listed,
+      groups,
+      availableTags: collectTags(parsedItineraries),
     };
 
   } catch (error) {
@@ -389,7 +666,8 @@ export async function listItineraries(userId: string): Promise<ListItinerariesRe
 }
 
 /**
- * Deletes an itinerary and all its associated data
+ * Moves an itinerary to the trash
+ * It stays restorable until purged after the retention period (see trash-service)
  */
 export async function deleteItinerary(
   userId: string,
@@ -398,17 +676,42 @@ export async function deleteItinerary(
   console.log("🗑️ Deleting itinerary:", itineraryId);
 
   try {
-    await prisma.itinerary.delete({
-      where: { id: itineraryId, userId },
+    const role = await getItineraryRole(userId, itineraryId);
+    if (role === null) {
+      return {
+        success: false,
+        error: "Itinerary not found",
+      };
+    }
+    if (!hasRole(role, "owner")) {
+      return {
+        success: false,
+        error: "Only owners can delete this itinerary",
+      };
+    }
+
+    const existing = await prisma.itinerary.findUniqueOrThrow({
+      where: { id: itineraryId },
+      select: { updatedAt: true },
+    });
+
+    await prisma.itinerary.update({
+      where: { id: itineraryId },
+      data: {
+        deletedAt: new Date(),
+        updatedAt: existing.updatedAt, // Keep the last edit time for when it's restored
+      },
     });
 
-    console.log("✅ Itinerary deleted successfully");
+    await dispatchItineraryEvent("itinerary.deleted", itineraryId);
+
+    console.log("✅ Itinerary moved to trash");
     return { success: true };
 
   } catch (error) {
     console.error("❌ Error deleting itinerary:", error);
     
-    if (error instanceof Error && error.message.includes("Record to delete does not exist")) {
+    if (error instanceof Error && error.message.includes("No Itinerary found")) {
       return {
         success: false,
         error: "Itinerary not found",
@@ -431,8 +734,12 @@ export async function getItineraryHash(
   itineraryId: string
 ): Promise<string | null> {
   try {
+    if (!hasRole(await getItineraryRole(userId, itineraryId), "viewer")) {
+      return null;
+    }
+
     const itinerary = await prisma.itinerary.findUnique({
-      where: { id: itineraryId, userId },
+      where: { id: itineraryId },
       select: { hash: true },
     });
 
@@ -444,22 +751,20 @@ export async function getItineraryHash(
 }
 
 /**
- * Updates specific details of an itinerary (like title) without affecting the editor data
+ * Updates specific details of an itinerary (like title or form metadata) without affecting the editor data
  */
 export async function updateItineraryDetails(
   userId: string,
   itineraryId: string,
-  updates: { title?: string }
+  updates: Pick<
+    SaveItineraryRequest,
+    "title" | "destination" | "startDate" | "endDate" | "interests" | "travelStyle" | "additionalNotes"
+  >
 ): Promise<{ success: boolean; error?: string }> {
   console.log(`📝 Updating itinerary details: ${itineraryId}`, updates);
 
   try {
-    const itinerary = await prisma.itinerary.findUnique({
-      where: { id: itineraryId, userId },
-      select: { id: true },
-    });
-
-    if (!itinerary) {
+    if (!hasRole(await getItineraryRole(userId, itineraryId), "editor")) {
       return {
         success: false,
         error: "Itinerary not found",
@@ -467,12 +772,14 @@ export async function updateItineraryDetails(
     }
 
     await prisma.itinerary.update({
-      where: { id: itineraryId, userId },
+      where: { id: itineraryId },
       data: {
         ...updates,
         updatedAt: new Date(),
       },
     });
+    await updateSearchIndex(itineraryId);
+    await dispatchItineraryEvent("itinerary.updated", itineraryId);
 
     console.log("✅ Itinerary details updated successfully:", itineraryId);
     return { success: true };
@@ -484,4 +791,47 @@ export async function updateItineraryDetails(
       error: error instanceof Error ? error.message : "Unknown error occurred",
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * Replaces all stored directions of an itinerary, leaving the editor data untouched
+ * Unlike saveItinerary, this also applies when the content is unchanged or the list is empty
+ */
+export async function replaceItineraryDirections(
+  userId: string,
+  itineraryId: string,
+  directions: DirectionsData[]
+): Promise<{ success: boolean; error?: string }> {
+  console.log(`🗺️ Replacing directions for itinerary: ${itineraryId}`, {
+    directionsCount: directions.length,
+  });
+
+  try {
+    const role = await getItineraryRole(userId, itineraryId);
+    if (role === null) {
+      return {
+        success: false,
+        error: "Itinerary not found",
+      };
+    }
+    if (!hasRole(role, "editor")) {
+      return {
+        success: false,
+        error: "You do not have permission to edit this itinerary",
+      };
+    }
+
+    const writtenCount = await prisma.$transaction((tx) =>
+      writeDirections(tx, itineraryId, directions)
+    );
+
+    console.log("✅ Itinerary directions replaced:", itineraryId, { writtenCount });
+    return { success: true };
+
+  } catch (error) {
+    console.error("❌ Error replacing itinerary directions:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
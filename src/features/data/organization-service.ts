@@ -0,0 +1,249 @@
+import db from "@/services/database/client";
+import { normalizeTags } from "./utils/itineraryList";
+import {
+  ItineraryFolderSummary,
+  ListFoldersResponse,
+  FolderResponse,
+  DeleteFolderResponse,
+  OrganizeItinerariesRequest,
+  OrganizeItinerariesResponse,
+} from "./types";
+
+const MAX_FOLDER_NAME_LENGTH = 50;
+const MAX_BULK_ITINERARIES = 200;
+
+// Itineraries in the trash don't count toward a folder's size
+const FOLDER_COUNT_INCLUDE = {
+  _count: { select: { itineraries: { where: { deletedAt: null } } } },
+} as const;
+
+function validateFolderName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return "Folder name cannot be empty";
+  if (trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+    return `Folder name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+function toFolderSummary(folder: {
+  id: string;
+  name: string;
+  _count: { itineraries: number };
+}): ItineraryFolderSummary {
+  return {
+    id: folder.id,
+    name: folder.name,
+    itineraryCount: folder._count.itineraries,
+  };
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes("Unique constraint");
+}
+
+/**
+ * Lists the user's folders alphabetically with their itinerary counts
+ */
+export async function listFolders(userId: string): Promise<ListFoldersResponse> {
+  try {
+    const folders = await db.itineraryFolder.findMany({
+      where: { userId },
+      include: FOLDER_COUNT_INCLUDE,
+      orderBy: { name: "asc" },
+    });
+
+    return { success: true, data: folders.map(toFolderSummary) };
+  } catch (error) {
+    console.error("❌ Error listing folders:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Creates a folder; names are unique per user
+ */
+export async function createFolder(
+  userId: string,
+  name: string
+): Promise<FolderResponse> {
+  console.log("📁 Creating folder:", name);
+
+  try {
+    const validationError = validateFolderName(name);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const folder = await db.itineraryFolder.create({
+      data: { userId, name: name.trim() },
+      include: FOLDER_COUNT_INCLUDE,
+    });
+
+    return { success: true, data: toFolderSummary(folder) };
+  } catch (error) {
+    console.error("❌ Error creating folder:", error);
+    if (isUniqueConstraintError(error)) {
+      return { success: false, error: "A folder with this name already exists" };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Renames one of the user's folders
+ */
+export async function renameFolder(
+  userId: string,
+  folderId: string,
+  name: string
+): Promise<FolderResponse> {
+  console.log("📁 Renaming folder:", folderId);
+
+  try {
+    const validationError = validateFolderName(name);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const existing = await db.itineraryFolder.findFirst({
+      where: { id: folderId, userId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Folder not found" };
+    }
+
+    const folder = await db.itineraryFolder.update({
+      where: { id: folderId },
+      data: { name: name.trim() },
+      include: FOLDER_COUNT_INCLUDE,
+    });
+
+    return { success: true, data: toFolderSummary(folder) };
+  } catch (error) {
+    console.error("❌ Error renaming folder:", error);
+    if (isUniqueConstraintError(error)) {
+      return { success: false, error: "A folder with this name already exists" };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Deletes a folder; its itineraries are kept and moved out of the folder
+ */
+export async function deleteFolder(
+  userId: string,
+  folderId: string
+): Promise<DeleteFolderResponse> {
+  console.log("📁 Deleting folder:", folderId);
+
+  try {
+    const { count } = await db.itineraryFolder.deleteMany({
+      where: { id: folderId, userId },
+    });
+
+    if (count === 0) {
+      return { success: false, error: "Folder not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error deleting folder:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Applies tag, folder and archive changes to several itineraries at once
+ * Only itineraries the user owns are changed; others are reported as skipped.
+ * Organizing isn't editing, so updatedAt is left untouched.
+ */
+export async function organizeItineraries(
+  userId: string,
+  request: OrganizeItinerariesRequest
+): Promise<OrganizeItinerariesResponse> {
+  console.log("🗂️ Organizing itineraries:", {
+    count: request.itineraryIds.length,
+    addTags: request.addTags,
+    removeTags: request.removeTags,
+    folderId: request.folderId,
+    archived: request.archived,
+  });
+
+  try {
+    const itineraryIds = [...new Set(request.itineraryIds)];
+    if (itineraryIds.length === 0) {
+      return { success: false, error: "No itineraries selected" };
+    }
+    if (itineraryIds.length > MAX_BULK_ITINERARIES) {
+      return {
+        success: false,
+        error: `At most ${MAX_BULK_ITINERARIES} itineraries can be changed at once`,
+      };
+    }
+
+    if (request.folderId) {
+      const folder = await db.itineraryFolder.findFirst({
+        where: { id: request.folderId, userId },
+        select: { id: true },
+      });
+      if (!folder) {
+        return { success: false, error: "Folder not found" };
+      }
+    }
+
+    const addTags = normalizeTags(request.addTags);
+    const removeKeys = new Set(
+      normalizeTags(request.removeTags).map((tag) => tag.toLowerCase())
+    );
+
+    const owned = await db.itinerary.findMany({
+      where: { id: { in: itineraryIds }, userId, deletedAt: null },
+      select: { id: true, tags: true, updatedAt: true },
+    });
+    const ownedIds = new Set(owned.map((itinerary) => itinerary.id));
+    const skippedIds = itineraryIds.filter((id) => !ownedIds.has(id));
+
+    await db.$transaction(
+      owned.map((itinerary) => {
+        const tags = normalizeTags([
+          ...normalizeTags(itinerary.tags).filter((tag) => !removeKeys.has(tag.toLowerCase())),
+          ...addTags,
+        ]);
+
+        return db.itinerary.update({
+          where: { id: itinerary.id },
+          data: {
+            tags,
+            ...(request.folderId !== undefined && { folderId: request.folderId }),
+            ...(request.archived !== undefined && { archived: request.archived }),
+            updatedAt: itinerary.updatedAt,
+          },
+        });
+      })
+    );
+
+    console.log("✅ Itineraries organized:", { updated: owned.length, skipped: skippedIds.length });
+    return { success: true, data: { updatedCount: owned.length, skippedIds } };
+  } catch (error) {
+    console.error("❌ Error organizing itineraries:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -0,0 +1,384 @@
+import { Prisma } from "@prisma/client";
+import db from "@/services/database/client";
+import { EditorData } from "@/features/editor/types";
+import { diffEditorData } from "./utils/blockDiff";
+import { LEGACY_EDITOR_SCHEMA_VERSION } from "./utils/migrations";
+import { getItineraryRole, hasRole } from "./collaborator-service";
+import { updateSearchIndex } from "./search-service";
+import { dispatchItineraryEvent } from "./webhook-service";
+import {
+  RevisionReason,
+  ItineraryRevisionSummary,
+  ListRevisionsResponse,
+  RevisionPreviewResponse,
+  RevisionDiffResponse,
+  RestoreRevisionResponse,
+  CollaboratorRole,
+} from "./types";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Retention tiers for revision thinning, from newest to oldest.
+ * Within each tier only the newest revision per `interval` window is kept.
+ */
+const REVISION_RETENTION_TIERS = [
+  { maxAge: HOUR, interval: 0 }, // Keep every snapshot from the last hour
+  { maxAge: DAY, interval: 10 * MINUTE },
+  { maxAge: 7 * DAY, interval: HOUR },
+  { maxAge: Infinity, interval: DAY },
+];
+
+// Hard cap on stored revisions per itinerary, applied after tier thinning
+const MAX_REVISIONS_PER_ITINERARY = 200;
+
+function parseEditorData(json: string): EditorData {
+  try {
+    const parsed = JSON.parse(json);
+    if (parsed && Array.isArray(parsed.blocks)) {
+      return parsed;
+    }
+  } catch (error) {
+    console.error("Error parsing revision editorData JSON:", error);
+  }
+  return { time: Date.now(), blocks: [], version: "2.28.0" };
+}
+
+/**
+ * Writes a snapshot of an itinerary's content unless the latest revision already has the same hash
+ * Accepts a transaction client so it can run inside saveItinerary's transaction
+ * @returns true if a revision was written
+ */
+export async function recordRevision(
+  client: Prisma.TransactionClient,
+  snapshot: {
+    itineraryId: string;
+    title?: string | null;
+    editorData: string;
+    hash: string;
+    reason?: RevisionReason;
+  }
+): Promise<boolean> {
+  const latest = await client.itineraryRevision.findFirst({
+    where: { itineraryId: snapshot.itineraryId },
+    orderBy: { createdAt: "desc" },
+    select: { hash: true },
+  });
+
+  if (latest && latest.hash === snapshot.hash) {
+    console.log("📚 Revision unchanged, skipping snapshot");
+    return false;
+  }
+
+  await client.itineraryRevision.create({
+    data: {
+      itineraryId: snapshot.itineraryId,
+      title: snapshot.title ?? null,
+      editorData: snapshot.editorData,
+      hash: snapshot.hash,
+      reason: snapshot.reason || "save",
+    },
+  });
+
+  console.log("📚 Revision snapshot recorded for itinerary:", snapshot.itineraryId);
+  return true;
+}
+
+/**
+ * Finds the most recent snapshot of an itinerary with the given content hash
+ * Used to recover the common ancestor when merging concurrent edits
+ * @returns The snapshot content, or null if it was never recorded or has been pruned
+ */
+export async function findRevisionContentByHash(
+  client: Prisma.TransactionClient,
+  itineraryId: string,
+  hash: string
+): Promise<EditorData | null> {
+  const revision = await client.itineraryRevision.findFirst({
+    where: { itineraryId, hash },
+    orderBy: { createdAt: "desc" },
+    select: { editorData: true },
+  });
+
+  return revision ? parseEditorData(revision.editorData) : null;
+}
+
+/**
+ * Decides which revisions to drop so history stays dense for recent edits and sparse for old ones
+ * The newest revision and restore points are always kept
+ * @param revisions Revisions of one itinerary, in any order
+ * @param now Reference time for computing ages
+ * @returns IDs of revisions to delete
+ */
+export function selectRevisionsToPrune(
+  revisions: Array<{ id: string; createdAt: Date; reason: string }>,
+  now: Date = new Date()
+): string[] {
+  const sorted = [...revisions].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+  );
+
+  const keptWindows = new Set<string>();
+  const kept: string[] = [];
+  const pruned: string[] = [];
+
+  sorted.forEach((revision, index) => {
+    if (index === 0 || revision.reason === "restore") {
+      kept.push(revision.id);
+      return;
+    }
+
+    const age = now.getTime() - revision.createdAt.getTime();
+    const tierIndex = REVISION_RETENTION_TIERS.findIndex((tier) => age < tier.maxAge);
+    const tier = REVISION_RETENTION_TIERS[tierIndex];
+
+    if (tier.interval === 0) {
+      kept.push(revision.id);
+      return;
+    }
+
+    // Newest-first iteration keeps the latest snapshot in each window
+    const windowKey = `${tierIndex}:${Math.floor(revision.createdAt.getTime() / tier.interval)}`;
+    if (keptWindows.has(windowKey)) {
+      pruned.push(revision.id);
+    } else {
+      keptWindows.add(windowKey);
+      kept.push(revision.id);
+    }
+  });
+
+  // Enforce the hard cap by dropping the oldest remaining revisions
+  if (kept.length > MAX_REVISIONS_PER_ITINERARY) {
+    pruned.push(...kept.slice(MAX_REVISIONS_PER_ITINERARY));
+  }
+
+  return pruned;
+}
+
+/**
+ * Thins out old revisions of an itinerary according to the retention tiers
+ */
+export async function pruneRevisions(itineraryId: string): Promise<number> {
+  try {
+    const revisions = await db.itineraryRevision.findMany({
+      where: { itineraryId },
+      select: { id: true, createdAt: true, reason: true },
+    });
+
+    const toDelete = selectRevisionsToPrune(revisions);
+    if (toDelete.length === 0) {
+      return 0;
+    }
+
+    await db.itineraryRevision.deleteMany({
+      where: { id: { in: toDelete } },
+    });
+
+    console.log(`🧹 Pruned ${toDelete.length} old revisions for itinerary:`, itineraryId);
+    return toDelete.length;
+  } catch (error) {
+    console.error("❌ Error pruning revisions:", error);
+    return 0;
+  }
+}
+
+/**
+ * Finds a revision and verifies the user has the required access to its itinerary
+ */
+async function findAccessibleRevision(
+  userId: string,
+  revisionId: string,
+  required: CollaboratorRole
+) {
+  const revision = await db.itineraryRevision.findUnique({
+    where: { id: revisionId },
+    include: {
+      itinerary: {
+        select: { id: true, userId: true, editorData: true, hash: true, title: true },
+      },
+    },
+  });
+
+  if (!revision || !hasRole(await getItineraryRole(userId, revision.itineraryId), required)) {
+    return null;
+  }
+
+  return revision;
+}
+
+/**
+ * Lists the revision history of an itinerary, newest first
+ */
+export async function listRevisions(
+  userId: string,
+  itineraryId: string
+): Promise<ListRevisionsResponse> {
+  console.log("📚 Loading revision history for itinerary:", itineraryId);
+
+  try {
+    if (!hasRole(await getItineraryRole(userId, itineraryId), "viewer")) {
+      return { success: false, error: "Itinerary not found" };
+    }
+
+    const itinerary = await db.itinerary.findUnique({
+      where: { id: itineraryId },
+      select: { hash: true },
+    });
+
+    if (!itinerary) {
+      return { success: false, error: "Itinerary not found" };
+    }
+
+    const revisions = await db.itineraryRevision.findMany({
+      where: { itineraryId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const summaries: ItineraryRevisionSummary[] = revisions.map((revision) => ({
+      id: revision.id,
+      title: revision.title || undefined,
+      reason: revision.reason as RevisionReason,
+      createdAt: revision.createdAt,
+      blocksCount: parseEditorData(revision.editorData).blocks.length,
+      isCurrent: revision.hash === itinerary.hash,
+    }));
+
+    console.log("✅ Revision history loaded:", summaries.length);
+    return { success: true, data: summaries };
+  } catch (error) {
+    console.error("❌ Error loading revision history:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Loads the full content of a single revision for previewing
+ */
+export async function getRevision(
+  userId: string,
+  revisionId: string
+): Promise<RevisionPreviewResponse> {
+  try {
+    const revision = await findAccessibleRevision(userId, revisionId, "viewer");
+
+    if (!revision) {
+      return { success: false, error: "Revision not found" };
+    }
+
+    return {
+      success: true,
+      data: {
+        id: revision.id,
+        title: revision.title || undefined,
+        reason: revision.reason as RevisionReason,
+        createdAt: revision.createdAt,
+        editorData: parseEditorData(revision.editorData),
+      },
+    };
+  } catch (error) {
+    console.error("❌ Error loading revision:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Computes a block-level diff between a revision and the itinerary's current content
+ */
+export async function diffRevision(
+  userId: string,
+  revisionId: string
+): Promise<RevisionDiffResponse> {
+  try {
+    const revision = await findAccessibleRevision(userId, revisionId, "viewer");
+
+    if (!revision) {
+      return { success: false, error: "Revision not found" };
+    }
+
+    const { entries, summary } = diffEditorData(
+      parseEditorData(revision.editorData),
+      parseEditorData(revision.itinerary.editorData)
+    );
+
+    return {
+      success: true,
+      data: { revisionId, entries, summary },
+    };
+  } catch (error) {
+    console.error("❌ Error diffing revision:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Restores an itinerary's content from a revision
+ * The current content is snapshotted first, so a restore can itself be undone
+ */
+export async function restoreRevision(
+  userId: string,
+  revisionId: string
+): Promise<RestoreRevisionResponse> {
+  console.log("⏪ Restoring revision:", revisionId);
+
+  try {
+    const revision = await findAccessibleRevision(userId, revisionId, "editor");
+
+    if (!revision) {
+      return { success: false, error: "Revision not found" };
+    }
+
+    const { itinerary } = revision;
+
+    await db.$transaction(async (tx) => {
+      await recordRevision(tx, {
+        itineraryId: itinerary.id,
+        title: itinerary.title,
+        editorData: itinerary.editorData,
+        hash: itinerary.hash,
+      });
+
+      await tx.itinerary.update({
+        where: { id: itinerary.id },
+        data: {
+          editorData: revision.editorData,
+          hash: revision.hash,
+          title: revision.title ?? itinerary.title,
+          // Revisions don't record their schema version, so re-run migrations on next load
+          version: LEGACY_EDITOR_SCHEMA_VERSION,
+          updatedAt: new Date(),
+        },
+      });
+
+      await recordRevision(tx, {
+        itineraryId: itinerary.id,
+        title: revision.title,
+        editorData: revision.editorData,
+        hash: revision.hash,
+        reason: "restore",
+      });
+    });
+
+    await updateSearchIndex(itinerary.id);
+    await dispatchItineraryEvent("itinerary.updated", itinerary.id);
+
+    console.log("✅ Revision restored:", revisionId);
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error restoring revision:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -0,0 +1,210 @@
+import { Prisma } from "@prisma/client";
+import db from "@/services/database/client";
+import { EditorData } from "@/features/editor/types";
+import {
+  extractSearchEntries,
+  toFtsQuery,
+  SearchHitKind,
+  SEARCH_MATCH_START,
+  SEARCH_MATCH_END,
+} from "./utils/searchIndex";
+import { ItinerarySearchHit, SearchItinerariesResponse } from "./types";
+
+const MAX_SEARCH_RESULTS = 50;
+
+// Field boosts applied on top of bm25 - title and place matches outrank body text
+const KIND_WEIGHTS: Record<SearchHitKind, number> = {
+  title: 3,
+  place: 2,
+  day: 1.5,
+  region: 1.5,
+  address: 1,
+  text: 1,
+};
+
+let searchIndexReady: Promise<void> | null = null;
+
+/**
+ * Creates the FTS5 index on first use and backfills it when empty
+ * The virtual table is managed with raw SQL since Prisma's schema can't describe it
+ */
+function ensureSearchIndex(): Promise<void> {
+  if (!searchIndexReady) {
+    searchIndexReady = (async () => {
+      await db.$executeRawUnsafe(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS "ItinerarySearch" USING fts5(
+          itineraryId UNINDEXED,
+          blockId UNINDEXED,
+          dayIndex UNINDEXED,
+          dayTitle UNINDEXED,
+          kind UNINDEXED,
+          content,
+          tokenize = 'unicode61 remove_diacritics 2'
+        )
+      `);
+
+      const [{ count }] = await db.$queryRaw<{ count: bigint | number }[]>`
+        SELECT count(*) AS count FROM "ItinerarySearch"
+      `;
+      if (Number(count) === 0) {
+        await rebuildSearchIndex();
+      }
+    })().catch((error) => {
+      // Retry on the next call rather than caching the failure
+      searchIndexReady = null;
+      throw error;
+    });
+  }
+  return searchIndexReady;
+}
+
+async function writeSearchEntries(
+  itineraryId: string,
+  title: string | null,
+  editorJson: string
+): Promise<void> {
+  let editorData: EditorData;
+  try {
+    editorData = JSON.parse(editorJson);
+  } catch (parseError) {
+    console.error("Error parsing editorData JSON for search index:", parseError);
+    editorData = { blocks: [] };
+  }
+
+  const entries = extractSearchEntries(title, editorData);
+
+  await db.$transaction([
+    db.$executeRaw`DELETE FROM "ItinerarySearch" WHERE itineraryId = ${itineraryId}`,
+    ...entries.map(
+      (entry) => db.$executeRaw`
+        INSERT INTO "ItinerarySearch" (itineraryId, blockId, dayIndex, dayTitle, kind, content)
+        VALUES (${itineraryId}, ${entry.blockId}, ${entry.dayIndex}, ${entry.dayTitle}, ${entry.kind}, ${entry.content})
+      `
+    ),
+  ]);
+}
+
+/**
+ * Re-indexes every itinerary, used to populate a new or emptied index
+ */
+async function rebuildSearchIndex(): Promise<void> {
+  const itineraries = await db.itinerary.findMany({
+    select: { id: true, title: true, editorData: true },
+  });
+
+  for (const itinerary of itineraries) {
+    await writeSearchEntries(itinerary.id, itinerary.title, itinerary.editorData);
+  }
+
+  console.log(`🔎 Search index rebuilt for ${itineraries.length} itineraries`);
+}
+
+/**
+ * Refreshes the index entries of one itinerary from its stored content
+ * Removes them if the itinerary no longer exists; failures are logged, never thrown,
+ * so search problems can't block saving
+ */
+export async function updateSearchIndex(itineraryId: string): Promise<void> {
+  try {
+    await ensureSearchIndex();
+
+    const itinerary = await db.itinerary.findUnique({
+      where: { id: itineraryId },
+      select: { title: true, editorData: true },
+    });
+
+    if (!itinerary) {
+      await db.$executeRaw`DELETE FROM "ItinerarySearch" WHERE itineraryId = ${itineraryId}`;
+      return;
+    }
+
+    await writeSearchEntries(itineraryId, itinerary.title, itinerary.editorData);
+  } catch (error) {
+    console.error("⚠️ Failed to update search index:", error);
+  }
+}
+
+/**
+ * Searches the itineraries a user owns or collaborates on
+ * Returns one hit per matching block field, best matches first
+ */
+export async function searchItineraries(
+  userId: string,
+  query: string
+): Promise<SearchItinerariesResponse> {
+  console.log("🔎 Searching itineraries:", query);
+
+  try {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) {
+      return { success: true, data: [] };
+    }
+
+    await ensureSearchIndex();
+
+    const itineraries = await db.itinerary.findMany({
+      where: {
+        OR: [{ userId }, { collaborators: { some: { userId } } }],
+        deletedAt: null,
+      },
+      select: { id: true, title: true },
+    });
+
+    if (itineraries.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const titles = new Map(itineraries.map((itinerary) => [itinerary.id, itinerary.title]));
+    const kindWeight = Prisma.raw(
+      `CASE kind ${Object.entries(KIND_WEIGHTS)
+        .map(([kind, weight]) => `WHEN '${kind}' THEN ${weight}`)
+        .join(" ")} ELSE 1 END`
+    );
+
+    const rows = await db.$queryRaw<
+      {
+        itineraryId: string;
+        blockId: string | null;
+        dayIndex: bigint | number | null;
+        dayTitle: string | null;
+        kind: SearchHitKind;
+        snippet: string;
+        rank: number;
+      }[]
+    >`
+      SELECT
+        itineraryId,
+        blockId,
+        dayIndex,
+        dayTitle,
+        kind,
+        snippet("ItinerarySearch", 5, ${SEARCH_MATCH_START}, ${SEARCH_MATCH_END}, '…', 16) AS snippet,
+        bm25("ItinerarySearch") * ${kindWeight} AS rank
+      FROM "ItinerarySearch"
+      WHERE "ItinerarySearch" MATCH ${ftsQuery}
+        AND itineraryId IN (${Prisma.join(itineraries.map((itinerary) => itinerary.id))})
+      ORDER BY rank
+      LIMIT ${MAX_SEARCH_RESULTS}
+    `;
+
+    const hits: ItinerarySearchHit[] = rows.map((row) => ({
+      itineraryId: row.itineraryId,
+      itineraryTitle: titles.get(row.itineraryId) || undefined,
+      blockId: row.blockId || undefined,
+      kind: row.kind,
+      dayIndex: row.dayIndex === null ? undefined : Number(row.dayIndex),
+      dayTitle: row.dayTitle || undefined,
+      snippet: row.snippet,
+      rank: Number(row.rank),
+    }));
+
+    console.log(`✅ Search found ${hits.length} hits`);
+    return { success: true, data: hits };
+  } catch (error) {
+    console.error("❌ Error searching itineraries:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
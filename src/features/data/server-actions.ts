@@ -1,6 +1,7 @@
 "use server";
 
 import { auth } from "@/lib/auth";
+import { runWithUsageContext } from "@/services/logging/usageContext";
 import {
   saveItinerary as saveItineraryService,
   loadItinerary as loadItineraryService,
@@ -8,12 +9,123 @@ import {
   deleteItinerary as deleteItineraryService,
   getItineraryHash as getItineraryHashService,
 } from "./itinerary-service";
+import {
+  listRevisions as listRevisionsService,
+  getRevision as getRevisionService,
+  diffRevision as diffRevisionService,
+  restoreRevision as restoreRevisionService,
+} from "./revision-service";
+import {
+  createShareLink as createShareLinkService,
+  listShareLinks as listShareLinksService,
+  revokeShareLink as revokeShareLinkService,
+  getSharedItinerary as getSharedItineraryService,
+} from "./share-service";
+import {
+  inviteCollaborator as inviteCollaboratorService,
+  listCollaborators as listCollaboratorsService,
+  updateCollaboratorRole as updateCollaboratorRoleService,
+  removeCollaborator as removeCollaboratorService,
+} from "./collaborator-service";
+import {
+  getCalendarFeedToken as getCalendarFeedTokenService,
+  resetCalendarFeedToken as resetCalendarFeedTokenService,
+} from "./calendar-service";
+import {
+  exportItineraryBundle as exportItineraryBundleService,
+  importItineraryBundle as importItineraryBundleService,
+} from "./bundle-service";
+import { searchItineraries as searchItinerariesService } from "./search-service";
+import {
+  listFolders as listFoldersService,
+  createFolder as createFolderService,
+  renameFolder as renameFolderService,
+  deleteFolder as deleteFolderService,
+  organizeItineraries as organizeItinerariesService,
+} from "./organization-service";
+import {
+  listTrash as listTrashService,
+  restoreItinerary as restoreItineraryService,
+  permanentlyDeleteItinerary as permanentlyDeleteItineraryService,
+} from "./trash-service";
+import {
+  createTemplate as createTemplateService,
+  listTemplates as listTemplatesService,
+  deleteTemplate as deleteTemplateService,
+  instantiateTemplate as instantiateTemplateService,
+} from "./template-service";
+import {
+  shiftTrip as shiftTripService,
+  getOpeningHoursWarnings as getOpeningHoursWarningsService,
+} from "./trip-dates-service";
+import {
+  createApiToken as createApiTokenService,
+  listApiTokens as listApiTokensService,
+  revokeApiToken as revokeApiTokenService,
+} from "./api-token-service";
+import {
+  createWebhook as createWebhookService,
+  listWebhooks as listWebhooksService,
+  updateWebhook as updateWebhookService,
+  deleteWebhook as deleteWebhookService,
+  listWebhookDeliveries as listWebhookDeliveriesService,
+  sendTestWebhook as sendTestWebhookService,
+} from "./webhook-service";
+import {
+  checkUsageQuota,
+  getApiUsageSummary as getApiUsageSummaryService,
+} from "./usage-service";
 import {
   SaveItineraryRequest,
   SaveItineraryResponse,
   LoadItineraryResponse,
   ListItinerariesResponse,
+  ListItinerariesOptions,
   DeleteItineraryResponse,
+  ListRevisionsResponse,
+  RevisionPreviewResponse,
+  RevisionDiffResponse,
+  RestoreRevisionResponse,
+  ShareLinkResponse,
+  ListShareLinksResponse,
+  RevokeShareLinkResponse,
+  SharedItineraryResponse,
+  CollaboratorRole,
+  CollaboratorResponse,
+  ListCollaboratorsResponse,
+  RemoveCollaboratorResponse,
+  CalendarFeedResponse,
+  ExportItineraryBundleResponse,
+  ImportItineraryBundleResponse,
+  SearchItinerariesResponse,
+  ListFoldersResponse,
+  FolderResponse,
+  DeleteFolderResponse,
+  OrganizeItinerariesRequest,
+  OrganizeItinerariesResponse,
+  ListTrashResponse,
+  RestoreItineraryResponse,
+  PermanentlyDeleteItineraryResponse,
+  CreateTemplateRequest,
+  TemplateResponse,
+  ListTemplatesResponse,
+  DeleteTemplateResponse,
+  InstantiateTemplateRequest,
+  InstantiateTemplateResponse,
+  ShiftTripRequest,
+  ShiftTripResponse,
+  OpeningHoursWarningsResponse,
+  CreateApiTokenResponse,
+  ListApiTokensResponse,
+  RevokeApiTokenResponse,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookResponse,
+  ListWebhooksResponse,
+  DeleteWebhookResponse,
+  ListWebhookDeliveriesResponse,
+  SendTestWebhookResponse,
+  ApiUsageSummaryResponse,
 } from "./types";
 
 /**
@@ -53,8 +165,11 @@ export async function loadItinerary(itineraryId: string): Promise<LoadItineraryR
 
 /**
  * Server action to list all itineraries for the current user
+ * @param options Optional filters, sort order and grouping
  */
-export async function listItineraries(): Promise<ListItinerariesResponse> {
+export async function listItineraries(
+  options?: ListItinerariesOptions
+): Promise<ListItinerariesResponse> {
   const session = await auth();
   
   if (!session?.user?.id) {
@@ -64,11 +179,11 @@ export async function listItineraries(): Promise<ListItinerariesResponse> {
     };
   }
 
-  return listItinerariesService(session.user.id);
+  return listItinerariesService(session.user.id, options);
 }
 
 /**
- * Server action to delete an itinerary
+ * Server action to move an itinerary to the trash
  */
 export async function deleteItinerary(itineraryId: string): Promise<DeleteItineraryResponse> {
   const session = await auth();
@@ -125,4 +240,728 @@ export async function updateItineraryDetails(
       error: error instanceof Error ? error.message : "Unknown error occurred",
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Server action to list the revision history of an itinerary
+ */
+export async function listItineraryRevisions(
+  itineraryId: string
+): Promise<ListRevisionsResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listRevisionsService(session.user.id, itineraryId);
+}
+
+/**
+ * Server action to load a single revision for preview
+ */
+export async function getItineraryRevision(
+  revisionId: string
+): Promise<RevisionPreviewResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return getRevisionService(session.user.id, revisionId);
+}
+
+/**
+ * Server action to diff a revision against the itinerary's current content
+ */
+export async function diffItineraryRevision(
+  revisionId: string
+): Promise<RevisionDiffResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return diffRevisionService(session.user.id, revisionId);
+}
+
+/**
+ * Server action to restore an itinerary to a previous revision
+ */
+export async function restoreItineraryRevision(
+  revisionId: string
+): Promise<RestoreRevisionResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return restoreRevisionService(session.user.id, revisionId);
+}
+
+/**
+ * Server action to create a read-only share link for an itinerary
+ */
+export async function createShareLink(
+  itineraryId: string,
+  expiresInDays?: number
+): Promise<ShareLinkResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return createShareLinkService(session.user.id, itineraryId, expiresInDays);
+}
+
+/**
+ * Server action to list the share links of an itinerary
+ */
+export async function listShareLinks(
+  itineraryId: string
+): Promise<ListShareLinksResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listShareLinksService(session.user.id, itineraryId);
+}
+
+/**
+ * Server action to revoke a share link
+ */
+export async function revokeShareLink(
+  shareLinkId: string
+): Promise<RevokeShareLinkResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return revokeShareLinkService(session.user.id, shareLinkId);
+}
+
+/**
+ * Server action to load a shared itinerary by its share token
+ * Public - the token itself is the credential
+ */
+export async function getSharedItinerary(
+  token: string
+): Promise<SharedItineraryResponse> {
+  return getSharedItineraryService(token);
+}
+
+/**
+ * Server action to invite a collaborator to an itinerary by email
+ */
+export async function inviteCollaborator(
+  itineraryId: string,
+  email: string,
+  role: CollaboratorRole
+): Promise<CollaboratorResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return inviteCollaboratorService(session.user.id, itineraryId, email, role);
+}
+
+/**
+ * Server action to list the collaborators of an itinerary
+ */
+export async function listCollaborators(
+  itineraryId: string
+): Promise<ListCollaboratorsResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listCollaboratorsService(session.user.id, itineraryId);
+}
+
+/**
+ * Server action to change a collaborator's role
+ */
+export async function updateCollaboratorRole(
+  collaboratorId: string,
+  role: CollaboratorRole
+): Promise<CollaboratorResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return updateCollaboratorRoleService(session.user.id, collaboratorId, role);
+}
+
+/**
+ * Server action to remove a collaborator from an itinerary
+ */
+export async function removeCollaborator(
+  collaboratorId: string
+): Promise<RemoveCollaboratorResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return removeCollaboratorService(session.user.id, collaboratorId);
+}
+
+/**
+ * Server action to get the calendar feed token of an itinerary
+ */
+export async function getCalendarFeedToken(
+  itineraryId: string
+): Promise<CalendarFeedResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return getCalendarFeedTokenService(session.user.id, itineraryId);
+}
+
+/**
+ * Server action to rotate the calendar feed token, revoking existing subscriptions
+ */
+export async function resetCalendarFeedToken(
+  itineraryId: string
+): Promise<CalendarFeedResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return resetCalendarFeedTokenService(session.user.id, itineraryId);
+}
+
+/**
+ * Server action to export an itinerary as a versioned JSON bundle
+ */
+export async function exportItineraryBundle(
+  itineraryId: string
+): Promise<ExportItineraryBundleResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return exportItineraryBundleService(session.user.id, itineraryId);
+}
+
+/**
+ * Server action to create a new itinerary from a JSON bundle
+ */
+export async function importItineraryBundle(
+  bundle: unknown
+): Promise<ImportItineraryBundleResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return importItineraryBundleService(session.user.id, bundle);
+}
+
+/**
+ * Server action to full-text search the user's itineraries
+ */
+export async function searchItineraries(
+  query: string
+): Promise<SearchItinerariesResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return searchItinerariesService(session.user.id, query);
+}
+
+/**
+ * Server action to list the current user's folders
+ */
+export async function listFolders(): Promise<ListFoldersResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listFoldersService(session.user.id);
+}
+
+/**
+ * Server action to create a folder
+ */
+export async function createFolder(
+  name: string
+): Promise<FolderResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return createFolderService(session.user.id, name);
+}
+
+/**
+ * Server action to rename a folder
+ */
+export async function renameFolder(
+  folderId: string,
+  name: string
+): Promise<FolderResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return renameFolderService(session.user.id, folderId, name);
+}
+
+/**
+ * Server action to delete a folder, keeping its itineraries
+ */
+export async function deleteFolder(
+  folderId: string
+): Promise<DeleteFolderResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return deleteFolderService(session.user.id, folderId);
+}
+
+/**
+ * Server action to tag, move or archive several itineraries at once
+ */
+export async function organizeItineraries(
+  request: OrganizeItinerariesRequest
+): Promise<OrganizeItinerariesResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return organizeItinerariesService(session.user.id, request);
+}
+
+/**
+ * Server action to list the user's deleted itineraries
+ */
+export async function listTrash(): Promise<ListTrashResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listTrashService(session.user.id);
+}
+
+/**
+ * Server action to restore an itinerary from the trash
+ */
+export async function restoreItinerary(itineraryId: string): Promise<RestoreItineraryResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return restoreItineraryService(session.user.id, itineraryId);
+}
+
+/**
+ * Server action to permanently delete an itinerary from the trash
+ */
+export async function permanentlyDeleteItinerary(
+  itineraryId: string
+): Promise<PermanentlyDeleteItineraryResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return permanentlyDeleteItineraryService(session.user.id, itineraryId);
+}
+
+/**
+ * Server action to save an itinerary as a reusable template
+ */
+export async function createTemplate(
+  request: CreateTemplateRequest
+): Promise<TemplateResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return createTemplateService(session.user.id, request);
+}
+
+/**
+ * Server action to list the user's templates
+ */
+export async function listTemplates(): Promise<ListTemplatesResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listTemplatesService(session.user.id);
+}
+
+/**
+ * Server action to delete a template
+ */
+export async function deleteTemplate(templateId: string): Promise<DeleteTemplateResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return deleteTemplateService(session.user.id, templateId);
+}
+
+/**
+ * Server action to create a new trip from a template
+ */
+export async function instantiateTemplate(
+  request: InstantiateTemplateRequest
+): Promise<InstantiateTemplateResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return instantiateTemplateService(session.user.id, request);
+}
+
+/**
+ * Server action to move a trip to new dates, re-dating all of its days
+ */
+export async function shiftTrip(request: ShiftTripRequest): Promise<ShiftTripResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  // Opening-hours lookups are billed to the user and itinerary; without Google quota
+  // the dates still move, only the lookups are skipped
+  const userId = session.user.id;
+  const quota = await checkUsageQuota(userId, "google");
+
+  return runWithUsageContext({ userId, itineraryId: request.itineraryId }, () =>
+    shiftTripService(userId, request, quota.success)
+  );
+}
+
+/**
+ * Server action to list places scheduled on a day they're usually closed
+ */
+export async function getOpeningHoursWarnings(
+  itineraryId: string
+): Promise<OpeningHoursWarningsResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  const userId = session.user.id;
+  const quota = await checkUsageQuota(userId, "google");
+  if (!quota.success) {
+    return { success: false, error: quota.error };
+  }
+
+  return runWithUsageContext({ userId, itineraryId }, () =>
+    getOpeningHoursWarningsService(userId, itineraryId)
+  );
+}
+
+/**
+ * Server action to create a personal access token for the REST API
+ */
+export async function createApiToken(
+  name: string,
+  expiresInDays?: number
+): Promise<CreateApiTokenResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return createApiTokenService(session.user.id, name, expiresInDays);
+}
+
+/**
+ * Server action to list the user's personal access tokens
+ */
+export async function listApiTokens(): Promise<ListApiTokensResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listApiTokensService(session.user.id);
+}
+
+/**
+ * Server action to revoke a personal access token
+ */
+export async function revokeApiToken(tokenId: string): Promise<RevokeApiTokenResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return revokeApiTokenService(session.user.id, tokenId);
+}
+
+/**
+ * Server action to register a webhook endpoint
+ */
+export async function createWebhook(request: CreateWebhookRequest): Promise<WebhookResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return createWebhookService(session.user.id, request);
+}
+
+/**
+ * Server action to list the user's webhooks
+ */
+export async function listWebhooks(): Promise<ListWebhooksResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listWebhooksService(session.user.id);
+}
+
+/**
+ * Server action to change a webhook's URL, events or active state
+ */
+export async function updateWebhook(
+  webhookId: string,
+  updates: UpdateWebhookRequest
+): Promise<WebhookResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return updateWebhookService(session.user.id, webhookId, updates);
+}
+
+/**
+ * Server action to delete a webhook
+ */
+export async function deleteWebhook(webhookId: string): Promise<DeleteWebhookResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return deleteWebhookService(session.user.id, webhookId);
+}
+
+/**
+ * Server action to list a webhook's recent deliveries
+ */
+export async function listWebhookDeliveries(webhookId: string): Promise<ListWebhookDeliveriesResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return listWebhookDeliveriesService(session.user.id, webhookId);
+}
+
+/**
+ * Server action to send a test event to a webhook
+ */
+export async function sendTestWebhook(webhookId: string): Promise<SendTestWebhookResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return sendTestWebhookService(session.user.id, webhookId);
+}
+
+/**
+ * Server action to get the user's API usage and quota standing
+ */
+export async function getApiUsageSummary(): Promise<ApiUsageSummaryResponse> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Authentication required",
+    };
+  }
+
+  return getApiUsageSummaryService(session.user.id);
+}
@@ -0,0 +1,229 @@
+import { randomBytes } from "crypto";
+import db from "@/services/database/client";
+import { EditorData } from "@/features/editor/types";
+import { DirectionsData } from "@/features/directions/types";
+import { migrateEditorData } from "./utils/migrations";
+import { getItineraryRole, hasRole } from "./collaborator-service";
+import {
+  ShareLinkSummary,
+  ShareLinkResponse,
+  ListShareLinksResponse,
+  RevokeShareLinkResponse,
+  SharedItineraryResponse,
+} from "./types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function generateShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+function isLinkActive(
+  link: { expiresAt: Date | null; revokedAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return !link.revokedAt && (!link.expiresAt || link.expiresAt > now);
+}
+
+function toShareLinkSummary(link: {
+  id: string;
+  token: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  lastAccessedAt: Date | null;
+}): ShareLinkSummary {
+  return {
+    id: link.id,
+    token: link.token,
+    createdAt: link.createdAt,
+    expiresAt: link.expiresAt || undefined,
+    revokedAt: link.revokedAt || undefined,
+    lastAccessedAt: link.lastAccessedAt || undefined,
+    isActive: isLinkActive(link),
+  };
+}
+
+/**
+ * Creates a public read-only share link for an itinerary owned by the user
+ * @param expiresInDays Number of days until the link stops working, or undefined for no expiry
+ */
+export async function createShareLink(
+  userId: string,
+  itineraryId: string,
+  expiresInDays?: number
+): Promise<ShareLinkResponse> {
+  console.log("🔗 Creating share link for itinerary:", itineraryId);
+
+  try {
+    if (!hasRole(await getItineraryRole(userId, itineraryId), "owner")) {
+      return { success: false, error: "Itinerary not found" };
+    }
+
+    if (expiresInDays !== undefined && (!Number.isFinite(expiresInDays) || expiresInDays <= 0)) {
+      return { success: false, error: "Expiry must be a positive number of days" };
+    }
+
+    const link = await db.shareLink.create({
+      data: {
+        itineraryId,
+        token: generateShareToken(),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY) : null,
+      },
+    });
+
+    console.log("✅ Share link created:", link.id);
+    return { success: true, data: toShareLinkSummary(link) };
+  } catch (error) {
+    console.error("❌ Error creating share link:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Lists all share links of an itinerary owned by the user, newest first
+ */
+export async function listShareLinks(
+  userId: string,
+  itineraryId: string
+): Promise<ListShareLinksResponse> {
+  try {
+    if (!hasRole(await getItineraryRole(userId, itineraryId), "owner")) {
+      return { success: false, error: "Itinerary not found" };
+    }
+
+    const links = await db.shareLink.findMany({
+      where: { itineraryId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return { success: true, data: links.map(toShareLinkSummary) };
+  } catch (error) {
+    console.error("❌ Error listing share links:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Revokes a share link so its token no longer resolves
+ */
+export async function revokeShareLink(
+  userId: string,
+  shareLinkId: string
+): Promise<RevokeShareLinkResponse> {
+  console.log("🔗 Revoking share link:", shareLinkId);
+
+  try {
+    const link = await db.shareLink.findUnique({
+      where: { id: shareLinkId },
+    });
+
+    if (!link || !hasRole(await getItineraryRole(userId, link.itineraryId), "owner")) {
+      return { success: false, error: "Share link not found" };
+    }
+
+    if (!link.revokedAt) {
+      await db.shareLink.update({
+        where: { id: shareLinkId },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    console.log("✅ Share link revoked:", shareLinkId);
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error revoking share link:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Resolves a share token to the itinerary content and its stored directions
+ * No user is required - possession of an active token grants read access
+ */
+export async function getSharedItinerary(
+  token: string
+): Promise<SharedItineraryResponse> {
+  console.log("🔗 Loading shared itinerary");
+
+  try {
+    const link = await db.shareLink.findUnique({
+      where: { token },
+      include: {
+        itinerary: {
+          include: {
+            directions: {
+              orderBy: { dayIndex: "asc" },
+            },
+          },
+        },
+      },
+    });
+
+    if (!link || !isLinkActive(link) || link.itinerary.deletedAt) {
+      return { success: false, error: "This share link is invalid or has expired" };
+    }
+
+    const { itinerary } = link;
+
+    let editorData: EditorData;
+    try {
+      editorData = JSON.parse(itinerary.editorData);
+      if (!editorData || !Array.isArray(editorData.blocks)) {
+        throw new Error("Invalid editorData structure");
+      }
+    } catch (parseError) {
+      console.error("Error parsing shared editorData JSON:", parseError);
+      editorData = { time: Date.now(), blocks: [], version: "2.28.0" };
+    }
+
+    // Upgrade older documents in memory; the stored copy is upgraded when an editor opens it
+    editorData = migrateEditorData(editorData, itinerary.version).editorData;
+
+    const directions: DirectionsData[] = [];
+    for (const dir of itinerary.directions) {
+      try {
+        directions.push({
+          dayIndex: dir.dayIndex,
+          color: dir.color,
+          directionsResult: JSON.parse(dir.directionsResult),
+        });
+      } catch (parseError) {
+        console.error("Error parsing shared direction JSON:", parseError);
+      }
+    }
+
+    await db.shareLink.update({
+      where: { id: link.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    return {
+      success: true,
+      data: {
+        title: itinerary.title || undefined,
+        editorData,
+        directions,
+        lastUpdated: itinerary.updatedAt,
+        destination: itinerary.destination || undefined,
+        startDate: itinerary.startDate || undefined,
+        endDate: itinerary.endDate || undefined,
+      },
+    };
+  } catch (error) {
+    console.error("❌ Error loading shared itinerary:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -0,0 +1,238 @@
+import db from "@/services/database/client";
+import { EditorData } from "@/features/editor/types";
+import { DirectionsData } from "@/features/directions/types";
+import { loadItinerary, saveItinerary } from "./itinerary-service";
+import {
+  CURRENT_EDITOR_SCHEMA_VERSION,
+  migrateEditorData,
+} from "./utils/migrations";
+import {
+  addDays,
+  getDayOffset,
+  rekeyTemplateBlocks,
+  setTitleBlock,
+  shiftDayDates,
+  stripPersonalNotes,
+} from "./utils/template";
+import {
+  ItineraryTemplateSummary,
+  CreateTemplateRequest,
+  TemplateResponse,
+  ListTemplatesResponse,
+  DeleteTemplateResponse,
+  InstantiateTemplateRequest,
+  InstantiateTemplateResponse,
+} from "./types";
+
+const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+const TEMPLATE_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  destination: true,
+  startDate: true,
+  endDate: true,
+  sourceItineraryId: true,
+  createdAt: true,
+} as const;
+
+function toTemplateSummary(template: {
+  id: string;
+  name: string;
+  destination: string;
+  startDate: Date;
+  endDate: Date;
+  sourceItineraryId: string | null;
+  createdAt: Date;
+}): ItineraryTemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    destination: template.destination,
+    dayCount: getDayOffset(template.startDate, template.endDate) + 1,
+    sourceItineraryId: template.sourceItineraryId || undefined,
+    createdAt: template.createdAt,
+  };
+}
+
+/**
+ * Saves a copy of an itinerary the user can view as a reusable template
+ * Directions are stored with it so trips created from the template don't recompute routes
+ */
+export async function createTemplate(
+  userId: string,
+  request: CreateTemplateRequest
+): Promise<TemplateResponse> {
+  console.log("📋 Saving itinerary as template:", {
+    itineraryId: request.itineraryId,
+    stripNotes: !!request.stripNotes,
+  });
+
+  try {
+    const name = request.name.trim();
+    if (!name) {
+      return { success: false, error: "Template name cannot be empty" };
+    }
+    if (name.length > MAX_TEMPLATE_NAME_LENGTH) {
+      return {
+        success: false,
+        error: `Template name must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`,
+      };
+    }
+
+    const response = await loadItinerary(userId, request.itineraryId);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error || "Itinerary not found" };
+    }
+
+    const itinerary = response.data;
+    const editorData = request.stripNotes
+      ? stripPersonalNotes(itinerary.editorData)
+      : itinerary.editorData;
+    const startDate = itinerary.startDate || new Date();
+
+    const template = await db.itineraryTemplate.create({
+      data: {
+        userId,
+        name,
+        sourceItineraryId: itinerary.id,
+        editorData: JSON.stringify(editorData),
+        version: CURRENT_EDITOR_SCHEMA_VERSION,
+        directions: JSON.stringify(itinerary.directions),
+        destination: itinerary.destination || "Unknown Destination",
+        startDate,
+        endDate: itinerary.endDate || startDate,
+        interests: itinerary.interests || [],
+        travelStyle: itinerary.travelStyle || "mid-range",
+        additionalNotes: request.stripNotes ? null : itinerary.additionalNotes || null,
+      },
+      select: TEMPLATE_SUMMARY_SELECT,
+    });
+
+    console.log("✅ Template saved:", template.id);
+    return { success: true, data: toTemplateSummary(template) };
+  } catch (error) {
+    console.error("❌ Error saving template:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Lists the user's templates, newest first
+ */
+export async function listTemplates(userId: string): Promise<ListTemplatesResponse> {
+  try {
+    const templates = await db.itineraryTemplate.findMany({
+      where: { userId },
+      select: TEMPLATE_SUMMARY_SELECT,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return { success: true, data: templates.map(toTemplateSummary) };
+  } catch (error) {
+    console.error("❌ Error listing templates:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Deletes one of the user's templates; trips created from it are unaffected
+ */
+export async function deleteTemplate(
+  userId: string,
+  templateId: string
+): Promise<DeleteTemplateResponse> {
+  console.log("📋 Deleting template:", templateId);
+
+  try {
+    const { count } = await db.itineraryTemplate.deleteMany({
+      where: { id: templateId, userId },
+    });
+
+    if (count === 0) {
+      return { success: false, error: "Template not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error deleting template:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Creates a new trip from a template, starting on the requested date
+ * Day dates and the trip's date range move by the same offset, blocks and places get
+ * fresh ids, and the template's directions are copied as-is
+ */
+export async function instantiateTemplate(
+  userId: string,
+  request: InstantiateTemplateRequest
+): Promise<InstantiateTemplateResponse> {
+  console.log("📋 Creating itinerary from template:", request.templateId);
+
+  try {
+    const startDate = new Date(request.startDate);
+    if (isNaN(startDate.getTime())) {
+      return { success: false, error: "A valid start date is required" };
+    }
+
+    const template = await db.itineraryTemplate.findFirst({
+      where: { id: request.templateId, userId },
+    });
+    if (!template) {
+      return { success: false, error: "Template not found" };
+    }
+
+    let editorData: EditorData;
+    let directions: DirectionsData[];
+    try {
+      editorData = JSON.parse(template.editorData);
+      directions = JSON.parse(template.directions);
+    } catch (parseError) {
+      console.error("Error parsing template JSON:", parseError);
+      return { success: false, error: "Template data is corrupted" };
+    }
+
+    editorData = migrateEditorData(editorData, template.version).editorData;
+
+    const offsetDays = getDayOffset(template.startDate, startDate);
+    const title = request.title?.trim() || template.name;
+
+    const response = await saveItinerary(userId, {
+      title,
+      editorData: rekeyTemplateBlocks(
+        setTitleBlock(shiftDayDates(editorData, offsetDays), title)
+      ),
+      directions,
+      destination: template.destination,
+      startDate: addDays(template.startDate, offsetDays),
+      endDate: addDays(template.endDate, offsetDays),
+      interests: Array.isArray(template.interests) ? (template.interests as string[]) : [],
+      travelStyle: template.travelStyle,
+      additionalNotes: template.additionalNotes || undefined,
+    });
+
+    if (!response.success) {
+      return { success: false, error: response.error || "Failed to create itinerary" };
+    }
+
+    console.log("✅ Itinerary created from template:", { id: response.id, offsetDays });
+    return { success: true, data: { id: response.id, title } };
+  } catch (error) {
+    console.error("❌ Error creating itinerary from template:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import db from "@/services/database/client";
+import { getItineraryRole, hasRole } from "./collaborator-service";
+import { updateSearchIndex } from "./search-service";
+import { dispatchItineraryEvent } from "./webhook-service";
+import {
+  TrashedItinerarySummary,
+  ListTrashResponse,
+  RestoreItineraryResponse,
+  PermanentlyDeleteItineraryResponse,
+  PurgeTrashResponse,
+} from "./types";
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses a retention period in days; undefined unless it's a positive whole number
+ * A blank, zero or fractional value would make the purge empty the whole trash
+ */
+export function parseTrashRetentionDays(value: string | null | undefined): number | undefined {
+  const trimmed = value?.trim();
+  const days = trimmed ? Number(trimmed) : NaN;
+  return Number.isInteger(days) && days > 0 ? days : undefined;
+}
+
+/**
+ * Days a deleted itinerary stays in the trash, from TRASH_RETENTION_DAYS (default 30)
+ * Anything but a positive whole number uses the default
+ */
+export function getTrashRetentionDays(): number {
+  return (
+    parseTrashRetentionDays(process.env.TRASH_RETENTION_DAYS) ?? DEFAULT_TRASH_RETENTION_DAYS
+  );
+}
+
+function toTrashedSummary(
+  itinerary: { id: string; title: string | null; deletedAt: Date | null },
+  retentionDays: number,
+  now: Date
+): TrashedItinerarySummary {
+  const deletedAt = itinerary.deletedAt!;
+  const purgeAt = new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+
+  return {
+    id: itinerary.id,
+    title: itinerary.title || undefined,
+    deletedAt,
+    purgeAt,
+    daysUntilPurge: Math.max(0, Math.ceil((purgeAt.getTime() - now.getTime()) / DAY_MS)),
+  };
+}
+
+/**
+ * Lists the deleted itineraries the user owns, most recently deleted first
+ */
+export async function listTrash(userId: string): Promise<ListTrashResponse> {
+  try {
+    const retentionDays = getTrashRetentionDays();
+    const now = new Date();
+
+    const itineraries = await db.itinerary.findMany({
+      where: {
+        deletedAt: { not: null },
+        OR: [{ userId }, { collaborators: { some: { userId, role: "owner" } } }],
+      },
+      select: { id: true, title: true, deletedAt: true },
+      orderBy: { deletedAt: "desc" },
+    });
+
+    return {
+      success: true,
+      data: {
+        items: itineraries.map((itinerary) => toTrashedSummary(itinerary, retentionDays, now)),
+        retentionDays,
+      },
+    };
+  } catch (error) {
+    console.error("❌ Error listing trash:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Resolves an itinerary in the trash that the user owns
+ * @returns An error message, or null if the user may restore or purge it
+ */
+async function checkTrashedItineraryAccess(
+  userId: string,
+  itineraryId: string
+): Promise<string | null> {
+  const role = await getItineraryRole(userId, itineraryId, { includeDeleted: true });
+  if (role === null) {
+    return "Itinerary not found";
+  }
+  if (!hasRole(role, "owner")) {
+    return "Only owners can manage this itinerary in the trash";
+  }
+
+  const itinerary = await db.itinerary.findUnique({
+    where: { id: itineraryId },
+    select: { deletedAt: true },
+  });
+  if (!itinerary?.deletedAt) {
+    return "Itinerary is not in the trash";
+  }
+
+  return null;
+}
+
+/**
+ * Moves an itinerary out of the trash
+ */
+export async function restoreItinerary(
+  userId: string,
+  itineraryId: string
+): Promise<RestoreItineraryResponse> {
+  console.log("♻️ Restoring itinerary from trash:", itineraryId);
+
+  try {
+    const accessError = await checkTrashedItineraryAccess(userId, itineraryId);
+    if (accessError) {
+      return { success: false, error: accessError };
+    }
+
+    const itinerary = await db.itinerary.findUniqueOrThrow({
+      where: { id: itineraryId },
+      select: { updatedAt: true },
+    });
+
+    await db.itinerary.update({
+      where: { id: itineraryId },
+      data: { deletedAt: null, updatedAt: itinerary.updatedAt },
+    });
+    await dispatchItineraryEvent("itinerary.updated", itineraryId);
+
+    console.log("✅ Itinerary restored");
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error restoring itinerary:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Deletes an itinerary in the trash for good, along with its directions and revisions
+ */
+export async function permanentlyDeleteItinerary(
+  userId: string,
+  itineraryId: string
+): Promise<PermanentlyDeleteItineraryResponse> {
+  console.log("🗑️ Permanently deleting itinerary:", itineraryId);
+
+  try {
+    const accessError = await checkTrashedItineraryAccess(userId, itineraryId);
+    if (accessError) {
+      return { success: false, error: accessError };
+    }
+
+    await db.itinerary.delete({
+      where: { id: itineraryId },
+    });
+    await updateSearchIndex(itineraryId);
+
+    console.log("✅ Itinerary permanently deleted");
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error permanently deleting itinerary:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Permanently deletes every itinerary that has been in the trash longer than the retention period
+ * Not tied to a user - run it from a scheduled job (see scripts/purge-trash.sh)
+ */
+export async function purgeDeletedItineraries(
+  retentionDays: number = getTrashRetentionDays(),
+  now: Date = new Date()
+): Promise<PurgeTrashResponse> {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  console.log("🧹 Purging itineraries deleted before:", cutoff.toISOString());
+
+  try {
+    const expired = await db.itinerary.findMany({
+      where: { deletedAt: { lt: cutoff } },
+      select: { id: true },
+    });
+    const ids = expired.map((itinerary) => itinerary.id);
+
+    if (ids.length > 0) {
+      await db.itinerary.deleteMany({
+        where: { id: { in: ids } },
+      });
+      for (const id of ids) {
+        await updateSearchIndex(id);
+      }
+    }
+
+    console.log(`✅ Purged ${ids.length} itineraries from the trash`);
+    return { success: true, data: { purgedCount: ids.length, cutoff } };
+  } catch (error) {
+    console.error("❌ Error purging trash:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import db from "@/services/database/client";
+import { googlePlacesService } from "@/services/google/places";
+import { EditorData } from "@/features/editor/types";
+import { loadItinerary, saveItinerary } from "./itinerary-service";
+import { getItineraryRole, hasRole } from "./collaborator-service";
+import { dispatchItineraryEvent } from "./webhook-service";
+import { addDays } from "./utils/template";
+import {
+  getTripDayCount,
+  getWeekdayName,
+  isClosedOnDate,
+  shiftTripDays,
+} from "./utils/tripDates";
+import {
+  OpeningHoursWarning,
+  OpeningHoursWarningsResponse,
+  ShiftTripRequest,
+  ShiftTripResponse,
+} from "./types";
+
+// Place details are cached, but keep a single check from fanning out on huge trips
+const MAX_OPENING_HOURS_LOOKUPS = 60;
+
+/**
+ * Looks up opening hours for every found place on a dated day
+ * Places that are closed all day on their day's weekday produce a warning;
+ * lookup failures are logged and skipped so they never block the caller
+ */
+async function collectOpeningHoursWarnings(editorData: EditorData): Promise<OpeningHoursWarning[]> {
+  const visits: { blockId?: string; placeId: string; placeName: string; dayNumber: number; date: string }[] = [];
+  let dayNumber = 0;
+  let date = "";
+
+  for (const block of editorData.blocks) {
+    if (block.type === "day") {
+      dayNumber++;
+      date = typeof block.data.date === "string" ? block.data.date : "";
+      continue;
+    }
+    // Hotels are about where you sleep, not when you can visit
+    if (block.type !== "place" || !date || typeof block.data.placeId !== "string" || !block.data.placeId) {
+      continue;
+    }
+    visits.push({
+      blockId: block.id,
+      placeId: block.data.placeId,
+      placeName:
+        (typeof block.data.shortName === "string" && block.data.shortName) ||
+        (typeof block.data.name === "string" && block.data.name) ||
+        "Place",
+      dayNumber,
+      date,
+    });
+  }
+
+  const warnings: OpeningHoursWarning[] = [];
+  for (const visit of visits.slice(0, MAX_OPENING_HOURS_LOOKUPS)) {
+    try {
+      const details = await googlePlacesService.getPlaceDetails(visit.placeId);
+      const weekdayText = details?.opening_hours?.weekday_text;
+      if (!weekdayText || !isClosedOnDate(weekdayText, visit.date)) continue;
+
+      const weekday = getWeekdayName(visit.date)!;
+      warnings.push({
+        blockId: visit.blockId,
+        placeName: visit.placeName,
+        dayNumber: visit.dayNumber,
+        date: visit.date,
+        weekday,
+        message: `${visit.placeName} is usually closed on ${weekday}s`,
+      });
+    } catch (error) {
+      console.warn("⚠️ Could not check opening hours for place:", visit.placeId, error);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Moves a trip to new dates
+ * Updates the itinerary's start and end dates, re-dates every day block and adds or
+ * flags days when the length changes, then re-checks opening hours for the new weekdays
+ * unless checkOpeningHours is false
+ */
+export async function shiftTrip(
+  userId: string,
+  request: ShiftTripRequest,
+  checkOpeningHours: boolean = true
+): Promise<ShiftTripResponse> {
+  console.log("📅 Shifting trip dates:", {
+    itineraryId: request.itineraryId,
+    startDate: request.startDate,
+    endDate: request.endDate,
+  });
+
+  try {
+    if (!hasRole(await getItineraryRole(userId, request.itineraryId), "editor")) {
+      return { success: false, error: "You do not have permission to edit this itinerary" };
+    }
+
+    const startDate = new Date(request.startDate);
+    if (isNaN(startDate.getTime())) {
+      return { success: false, error: "A valid start date is required" };
+    }
+
+    if (request.endDate && new Date(request.endDate) < startDate) {
+      return { success: false, error: "End date must not be before start date" };
+    }
+
+    const response = await loadItinerary(userId, request.itineraryId);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error || "Itinerary not found" };
+    }
+    const itinerary = response.data;
+
+    // Without a new end date the trip keeps its length
+    const dayCount = request.endDate
+      ? getTripDayCount(startDate, new Date(request.endDate))
+      : itinerary.startDate && itinerary.endDate
+        ? getTripDayCount(itinerary.startDate, itinerary.endDate)
+        : Math.max(1, itinerary.editorData.blocks.filter((block) => block.type === "day").length);
+
+    const endDate = addDays(startDate, dayCount - 1);
+    const shifted = shiftTripDays(
+      itinerary.editorData,
+      startDate,
+      dayCount,
+      !!request.removeSurplusDays
+    );
+
+    const saveResponse = await saveItinerary(userId, {
+      id: request.itineraryId,
+      title: itinerary.title,
+      editorData: shifted.editorData,
+      baseHash: request.baseHash || itinerary.hash,
+      startDate,
+      endDate,
+    });
+
+    if (!saveResponse.success) {
+      return { success: false, error: saveResponse.error || "Failed to save itinerary" };
+    }
+
+    // Day dates may already have matched, in which case the save skipped the metadata
+    if (saveResponse.unchanged) {
+      await db.itinerary.update({
+        where: { id: request.itineraryId },
+        data: { startDate, endDate },
+      });
+      await dispatchItineraryEvent("itinerary.updated", request.itineraryId);
+    }
+
+    // Routes of removed days would otherwise be drawn for days that no longer exist
+    if (request.removeSurplusDays && shifted.surplusDays.length > 0) {
+      await db.itineraryDirections.deleteMany({
+        where: { itineraryId: request.itineraryId, dayIndex: { gte: dayCount } },
+      });
+    }
+
+    const savedEditorData = saveResponse.conflictReport?.mergedEditorData || shifted.editorData;
+    const openingHoursWarnings = checkOpeningHours
+      ? await collectOpeningHoursWarnings(savedEditorData)
+      : [];
+
+    console.log("✅ Trip dates shifted:", {
+      addedDays: shifted.addedDays,
+      surplusDays: shifted.surplusDays.length,
+      openingHoursWarnings: openingHoursWarnings.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        startDate,
+        endDate,
+        hash: saveResponse.hash || itinerary.hash,
+        addedDays: shifted.addedDays,
+        surplusDays: shifted.surplusDays,
+        openingHoursWarnings,
+        openingHoursChecked: checkOpeningHours,
+      },
+    };
+  } catch (error) {
+    console.error("❌ Error shifting trip dates:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Lists places scheduled on a day they're usually closed
+ */
+export async function getOpeningHoursWarnings(
+  userId: string,
+  itineraryId: string
+): Promise<OpeningHoursWarningsResponse> {
+  try {
+    const response = await loadItinerary(userId, itineraryId);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error || "Itinerary not found" };
+    }
+
+    return {
+      success: true,
+      data: await collectOpeningHoursWarnings(response.data.editorData),
+    };
+  } catch (error) {
+    console.error("❌ Error checking opening hours:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -1,5 +1,7 @@
-import { EditorData } from "@/features/editor/types";
+import { EditorData, EditorBlockData } from "@/features/editor/types";
 import { DirectionsData } from "@/features/directions/types";
+import type { ItineraryBundle } from "./utils/bundle";
+import type { SearchHitKind } from "./utils/searchIndex";
 
 export interface ItineraryRecord {
   id: string;
@@ -35,6 +37,7 @@ export interface SaveItineraryRequest {
   id?: string; // undefined for new itinerary
   title?: string;
   editorData: EditorData;
+  baseHash?: string; // Content hash the client's edits are based on, enables merging concurrent edits
   directions?: DirectionsData[];
   
   // Form metadata fields
@@ -50,10 +53,35 @@ export interface SaveItineraryResponse {
   id: string;
   success: boolean;
   error?: string;
-  conflictResolved?: boolean;
+  conflictResolved?: boolean; // True if the save was merged with concurrent changes
+  conflictReport?: SaveConflictReport;
+  hash?: string; // Content hash now stored for the itinerary
   unchanged?: boolean; // True if content was identical and save was skipped
 }
 
+export type MergeConflictType =
+  | "both-modified" // Both sides changed the block differently
+  | "modified-deleted" // Client changed the block, server copy deleted it
+  | "deleted-modified" // Client deleted the block, server copy changed it
+  | "only-mine" // No common ancestor: the block is only in the client version
+  | "only-theirs"; // No common ancestor: the block is only in the server copy
+
+export interface MergeConflict {
+  key: string; // Block id, or place uid for place/hotel blocks
+  blockType: string;
+  type: MergeConflictType;
+  label: string;
+  mine?: EditorBlockData; // Client version, absent if deleted by the client
+  theirs?: EditorBlockData; // Server version, absent if deleted on the server
+  afterKey?: string; // Key of the block preceding the server version, for re-inserting it
+}
+
+export interface SaveConflictReport {
+  mergedEditorData: EditorData; // The merged content that was saved
+  conflicts: MergeConflict[]; // Blocks that could not be merged automatically (client version kept)
+  autoMergedCount: number; // Server-side changes merged in without conflict
+}
+
 export interface LoadItineraryResponse {
   success: boolean;
   data?: {
@@ -62,6 +90,8 @@ export interface LoadItineraryResponse {
     editorData: EditorData;
     directions: DirectionsData[];
     lastUpdated: Date;
+    hash: string;
+    role: CollaboratorRole; // Access level of the requesting user
     
     // Form metadata fields
     destination?: string;
@@ -80,6 +110,16 @@ export interface ItinerarySummary {
   createdAt: Date;
   updatedAt: Date;
   editorData?: EditorData; // Include editor data for extracting stats and images
+  role: CollaboratorRole; // "owner" for the user's own itineraries
+  isShared: boolean; // True if the itinerary belongs to someone else
+  ownerName?: string; // Name or email of the owner, for shared itineraries
+  
+  // Organization
+  tags: string[];
+  folderId?: string;
+  folderName?: string;
+  archived: boolean;
+  tripStatus: TripStatus; // Derived from startDate/endDate
   
   // Form metadata fields
   destination?: string;
@@ -90,13 +130,538 @@ export interface ItinerarySummary {
   additionalNotes?: string;
 }
 
+export type TripStatus = "upcoming" | "ongoing" | "past";
+
+export type ItinerarySortBy = "updated" | "created" | "title" | "startDate";
+
+export type ItineraryGroupBy = "none" | "folder" | "status" | "tag";
+
+export interface ListItinerariesOptions {
+  folderId?: string | null; // null lists itineraries outside any folder
+  tags?: string[]; // Itineraries must have every tag
+  status?: TripStatus;
+  archived?: "active" | "archived" | "all"; // Defaults to "active"
+  sortBy?: ItinerarySortBy; // Defaults to "updated"
+  sortOrder?: "asc" | "desc"; // Defaults to newest/earliest first for dates, A-Z for titles
+  groupBy?: ItineraryGroupBy;
+}
+
+export interface ItineraryGroup {
+  key: string;
+  label: string;
+  itineraryIds: string[]; // In list order
+}
+
 export interface ListItinerariesResponse {
   success: boolean;
   data?: ItinerarySummary[];
+  groups?: ItineraryGroup[]; // Present when grouping was requested
+  availableTags?: string[]; // Every tag in use across the user's itineraries, before filtering
   error?: string;
 }
 
 export interface DeleteItineraryResponse {
   success: boolean;
   error?: string;
-}
\ No newline at end of file
+}
+
+export type RevisionReason = "save" | "restore";
+
+export interface ItineraryRevisionRecord {
+  id: string;
+  itineraryId: string;
+  title?: string | null;
+  editorData: string; // JSON stringified EditorData snapshot
+  hash: string;
+  reason: RevisionReason;
+  createdAt: Date;
+}
+
+export interface ItineraryRevisionSummary {
+  id: string;
+  title?: string;
+  reason: RevisionReason;
+  createdAt: Date;
+  blocksCount: number;
+  isCurrent: boolean; // True if the snapshot matches the itinerary's current content
+}
+
+export interface ListRevisionsResponse {
+  success: boolean;
+  data?: ItineraryRevisionSummary[];
+  error?: string;
+}
+
+export interface RevisionPreviewResponse {
+  success: boolean;
+  data?: {
+    id: string;
+    title?: string;
+    reason: RevisionReason;
+    createdAt: Date;
+    editorData: EditorData;
+  };
+  error?: string;
+}
+
+export type BlockChangeType = "added" | "removed" | "modified" | "moved";
+
+export interface BlockDiffEntry {
+  blockId: string;
+  blockType: string;
+  change: BlockChangeType;
+  label: string; // Human readable description of the block (day title, place name, text excerpt)
+  before?: EditorBlockData;
+  after?: EditorBlockData;
+}
+
+export interface BlockDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+}
+
+export interface RevisionDiffResponse {
+  success: boolean;
+  data?: {
+    revisionId: string;
+    entries: BlockDiffEntry[];
+    summary: BlockDiffSummary;
+  };
+  error?: string;
+}
+
+export interface RestoreRevisionResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface ShareLinkSummary {
+  id: string;
+  token: string;
+  createdAt: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastAccessedAt?: Date;
+  isActive: boolean; // False once revoked or expired
+}
+
+export interface ShareLinkResponse {
+  success: boolean;
+  data?: ShareLinkSummary;
+  error?: string;
+}
+
+export interface ListShareLinksResponse {
+  success: boolean;
+  data?: ShareLinkSummary[];
+  error?: string;
+}
+
+export interface RevokeShareLinkResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface SharedItineraryResponse {
+  success: boolean;
+  data?: {
+    title?: string;
+    editorData: EditorData;
+    directions: DirectionsData[];
+    lastUpdated: Date;
+    destination?: string;
+    startDate?: Date;
+    endDate?: Date;
+  };
+  error?: string;
+}
+
+export type CollaboratorRole = "viewer" | "editor" | "owner";
+
+export interface CollaboratorSummary {
+  id: string;
+  email: string;
+  name?: string;
+  role: CollaboratorRole;
+  isPending: boolean; // True until the invited email signs in
+  createdAt: Date;
+}
+
+export interface CollaboratorResponse {
+  success: boolean;
+  data?: CollaboratorSummary;
+  error?: string;
+}
+
+export interface ListCollaboratorsResponse {
+  success: boolean;
+  data?: {
+    owner: { name?: string; email: string };
+    collaborators: CollaboratorSummary[];
+    role: CollaboratorRole; // Access level of the requesting user
+  };
+  error?: string;
+}
+
+export interface RemoveCollaboratorResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface CalendarFeedResponse {
+  success: boolean;
+  data?: {
+    token: string;
+  };
+  error?: string;
+}
+
+export interface CalendarFeedContentResponse {
+  success: boolean;
+  data?: {
+    ics: string;
+    title: string;
+  };
+  error?: string;
+}
+
+export interface ExportItineraryBundleResponse {
+  success: boolean;
+  data?: ItineraryBundle;
+  error?: string;
+}
+
+export interface ImportItineraryBundleResponse {
+  success: boolean;
+  data?: {
+    id: string;
+    title?: string;
+  };
+  error?: string;
+  fieldErrors?: Record<string, string>; // Dotted field path -> message, when the bundle is invalid
+}
+
+export interface ItinerarySearchHit {
+  itineraryId: string;
+  itineraryTitle?: string;
+  blockId?: string; // Absent for title matches
+  kind: SearchHitKind; // Which field of the block matched
+  dayIndex?: number;
+  dayTitle?: string;
+  snippet: string; // Matched terms are wrapped in SEARCH_MATCH_START / SEARCH_MATCH_END
+  rank: number; // Lower is better
+}
+
+export interface SearchItinerariesResponse {
+  success: boolean;
+  data?: ItinerarySearchHit[];
+  error?: string;
+}
+
+export interface ItineraryFolderSummary {
+  id: string;
+  name: string;
+  itineraryCount: number;
+}
+
+export interface ListFoldersResponse {
+  success: boolean;
+  data?: ItineraryFolderSummary[];
+  error?: string;
+}
+
+export interface FolderResponse {
+  success: boolean;
+  data?: ItineraryFolderSummary;
+  error?: string;
+}
+
+export interface DeleteFolderResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface OrganizeItinerariesRequest {
+  itineraryIds: string[];
+  addTags?: string[];
+  removeTags?: string[];
+  folderId?: string | null; // null removes the itineraries from their folder
+  archived?: boolean;
+}
+
+export interface OrganizeItinerariesResponse {
+  success: boolean;
+  data?: {
+    updatedCount: number;
+    skippedIds: string[]; // Itineraries the user doesn't own
+  };
+  error?: string;
+}
+
+export interface TrashedItinerarySummary {
+  id: string;
+  title?: string;
+  deletedAt: Date;
+  purgeAt: Date;
+  daysUntilPurge: number;
+}
+
+export interface ListTrashResponse {
+  success: boolean;
+  data?: {
+    items: TrashedItinerarySummary[];
+    retentionDays: number;
+  };
+  error?: string;
+}
+
+export interface RestoreItineraryResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface PermanentlyDeleteItineraryResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface PurgeTrashResponse {
+  success: boolean;
+  data?: {
+    purgedCount: number;
+    cutoff: Date;
+  };
+  error?: string;
+}
+
+export interface ItineraryTemplateSummary {
+  id: string;
+  name: string;
+  destination: string;
+  dayCount: number; // Trip length in days, from the source's start and end dates
+  sourceItineraryId?: string;
+  createdAt: Date;
+}
+
+export interface CreateTemplateRequest {
+  itineraryId: string;
+  name: string;
+  stripNotes?: boolean; // Clears notes, free paragraphs, hotel details and the trip's additional notes
+}
+
+export interface TemplateResponse {
+  success: boolean;
+  data?: ItineraryTemplateSummary;
+  error?: string;
+}
+
+export interface ListTemplatesResponse {
+  success: boolean;
+  data?: ItineraryTemplateSummary[];
+  error?: string;
+}
+
+export interface DeleteTemplateResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface InstantiateTemplateRequest {
+  templateId: string;
+  startDate: Date; // Day dates are shifted so the trip starts on this date
+  title?: string; // Defaults to the template name
+}
+
+export interface InstantiateTemplateResponse {
+  success: boolean;
+  data?: {
+    id: string;
+    title: string;
+  };
+  error?: string;
+}
+
+export interface ShiftTripRequest {
+  itineraryId: string;
+  startDate: Date;
+  endDate?: Date; // Defaults to keeping the current trip length
+  removeSurplusDays?: boolean; // Delete days beyond the new end date instead of flagging them
+  baseHash?: string; // Content hash the caller last saw, merges with concurrent edits
+}
+
+export interface SurplusTripDay {
+  blockId?: string;
+  dayNumber: number;
+  title: string;
+  placeCount: number; // Place and hotel blocks under the day
+}
+
+export interface OpeningHoursWarning {
+  blockId?: string;
+  placeName: string;
+  dayNumber: number;
+  date: string; // YYYY-MM-DD
+  weekday: string;
+  message: string;
+}
+
+export interface ShiftTripResponse {
+  success: boolean;
+  data?: {
+    startDate: Date;
+    endDate: Date;
+    hash: string;
+    addedDays: number;
+    surplusDays: SurplusTripDay[]; // Days past the end date; already removed if requested
+    openingHoursWarnings: OpeningHoursWarning[];
+    openingHoursChecked: boolean; // False when the lookups were skipped (Google quota used up)
+  };
+  error?: string;
+}
+
+export interface OpeningHoursWarningsResponse {
+  success: boolean;
+  data?: OpeningHoursWarning[];
+  error?: string;
+}
+
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  prefix: string;
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreateApiTokenResponse {
+  success: boolean;
+  data?: {
+    token: ApiTokenSummary;
+    secret: string; // The full token; it can't be retrieved again
+  };
+  error?: string;
+}
+
+export interface ListApiTokensResponse {
+  success: boolean;
+  data?: ApiTokenSummary[];
+  error?: string;
+}
+
+export interface RevokeApiTokenResponse {
+  success: boolean;
+  error?: string;
+}
+
+export type WebhookEvent =
+  | "itinerary.created"
+  | "itinerary.updated"
+  | "itinerary.deleted"
+  | "generation.completed"
+  | "webhook.test"; // Only sent by "send test event"
+
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  secret: string; // Shown to the owner so receivers can verify signatures
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: Date;
+  lastDelivery?: Pick<WebhookDeliverySummary, "status" | "createdAt" | "responseStatus">;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDeliverySummary {
+  id: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: WebhookEvent[];
+  active?: boolean;
+}
+
+export interface WebhookResponse {
+  success: boolean;
+  data?: WebhookSummary;
+  error?: string;
+}
+
+export interface ListWebhooksResponse {
+  success: boolean;
+  data?: WebhookSummary[];
+  error?: string;
+}
+
+export interface DeleteWebhookResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface ListWebhookDeliveriesResponse {
+  success: boolean;
+  data?: WebhookDeliverySummary[];
+  error?: string;
+}
+
+export interface SendTestWebhookResponse {
+  success: boolean;
+  data?: WebhookDeliverySummary; // The delivery after its first attempt
+  error?: string;
+}
+
+export type UsageQuotaKind = "openai" | "google";
+
+export interface UsageQuotaStatus {
+  kind: UsageQuotaKind;
+  period: "day" | "month";
+  unit: "tokens" | "requests"; // OpenAI quotas count tokens, Google quotas count billable requests
+  used: number;
+  limit: number;
+}
+
+export interface ApiUsageServiceTotals {
+  service: string;
+  requests: number;
+  cacheHits: number;
+  totalTokens: number;
+  estimatedCost: number; // USD
+}
+
+export interface ApiUsagePeriodSummary {
+  since: Date;
+  services: ApiUsageServiceTotals[];
+  estimatedCost: number; // USD
+}
+
+export interface ApiUsageSummaryResponse {
+  success: boolean;
+  data?: {
+    today: ApiUsagePeriodSummary;
+    month: ApiUsagePeriodSummary;
+    quotas: UsageQuotaStatus[]; // Only configured quotas
+  };
+  error?: string;
+}
+
+export interface UsageQuotaCheckResponse {
+  success: boolean; // False when a quota is used up
+  error?: string;
+}
@@ -0,0 +1,143 @@
+import db from "@/services/database/client";
+import {
+  UsageQuotaKind,
+  UsageQuotaStatus,
+  ApiUsagePeriodSummary,
+  ApiUsageSummaryResponse,
+  UsageQuotaCheckResponse,
+} from "./types";
+
+const GOOGLE_SERVICES = ["google-places", "google-directions"];
+
+const QUOTA_LABELS: Record<UsageQuotaKind, string> = {
+  openai: "AI generation",
+  google: "Google Maps",
+};
+
+/**
+ * Reads per-user quotas from the environment; unset or zero means unlimited
+ */
+function getUsageQuotaLimits(): Omit<UsageQuotaStatus, "used">[] {
+  const limits: Omit<UsageQuotaStatus, "used">[] = [
+    { kind: "openai", period: "day", unit: "tokens", limit: Number(process.env.USAGE_QUOTA_OPENAI_TOKENS_DAILY || 0) },
+    { kind: "openai", period: "month", unit: "tokens", limit: Number(process.env.USAGE_QUOTA_OPENAI_TOKENS_MONTHLY || 0) },
+    { kind: "google", period: "day", unit: "requests", limit: Number(process.env.USAGE_QUOTA_GOOGLE_REQUESTS_DAILY || 0) },
+    { kind: "google", period: "month", unit: "requests", limit: Number(process.env.USAGE_QUOTA_GOOGLE_REQUESTS_MONTHLY || 0) },
+  ];
+  return limits.filter((quota) => Number.isFinite(quota.limit) && quota.limit > 0);
+}
+
+// Quota periods are calendar days and months in UTC
+function getPeriodStart(period: "day" | "month", now: Date = new Date()): Date {
+  return period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * OpenAI quotas count tokens; Google quotas count requests that missed the cache
+ */
+async function getQuotaUsage(userId: string, kind: UsageQuotaKind, since: Date): Promise<number> {
+  if (kind === "openai") {
+    const { _sum } = await db.apiUsage.aggregate({
+      where: { userId, service: "openai", createdAt: { gte: since } },
+      _sum: { totalTokens: true },
+    });
+    return _sum.totalTokens || 0;
+  }
+
+  return db.apiUsage.count({
+    where: { userId, service: { in: GOOGLE_SERVICES }, cacheHit: false, createdAt: { gte: since } },
+  });
+}
+
+/**
+ * Checks the user's daily and monthly quotas before making calls of the given kind
+ * Usage is only known after a call, so a quota blocks the first call after it's reached
+ */
+export async function checkUsageQuota(
+  userId: string,
+  kind: UsageQuotaKind
+): Promise<UsageQuotaCheckResponse> {
+  try {
+    for (const quota of getUsageQuotaLimits().filter((limit) => limit.kind === kind)) {
+      const used = await getQuotaUsage(userId, kind, getPeriodStart(quota.period));
+      if (used >= quota.limit) {
+        console.warn("⚠️ Usage quota reached:", { userId, kind, period: quota.period, used, limit: quota.limit });
+        return {
+          success: false,
+          error: `You've reached your ${quota.period === "day" ? "daily" : "monthly"} ${
+            QUOTA_LABELS[kind]
+          } limit (${quota.limit.toLocaleString()} ${quota.unit}). It resets at the start of the next ${
+            quota.period
+          } (UTC).`,
+        };
+      }
+    }
+
+    return { success: true };
+  } catch (error) {
+    // Don't lock users out when usage can't be read
+    console.error("❌ Error checking usage quota:", error);
+    return { success: true };
+  }
+}
+
+async function summarizePeriod(userId: string, since: Date): Promise<ApiUsagePeriodSummary> {
+  const rows = await db.apiUsage.groupBy({
+    by: ["service", "cacheHit"],
+    where: { userId, createdAt: { gte: since } },
+    _count: { _all: true },
+    _sum: { totalTokens: true, estimatedCost: true },
+  });
+
+  const services = new Map<string, ApiUsagePeriodSummary["services"][number]>();
+  for (const row of rows) {
+    const totals = services.get(row.service) || {
+      service: row.service,
+      requests: 0,
+      cacheHits: 0,
+      totalTokens: 0,
+      estimatedCost: 0,
+    };
+    totals.requests += row._count._all;
+    totals.cacheHits += row.cacheHit ? row._count._all : 0;
+    totals.totalTokens += row._sum.totalTokens || 0;
+    totals.estimatedCost += row._sum.estimatedCost || 0;
+    services.set(row.service, totals);
+  }
+
+  const list = [...services.values()].sort((a, b) => a.service.localeCompare(b.service));
+  return {
+    since,
+    services: list,
+    estimatedCost: list.reduce((total, service) => total + service.estimatedCost, 0),
+  };
+}
+
+/**
+ * Summarizes the user's API usage for today and this month, with their quota standing
+ */
+export async function getApiUsageSummary(userId: string): Promise<ApiUsageSummaryResponse> {
+  try {
+    const now = new Date();
+    const today = await summarizePeriod(userId, getPeriodStart("day", now));
+    const month = await summarizePeriod(userId, getPeriodStart("month", now));
+
+    const quotas: UsageQuotaStatus[] = [];
+    for (const quota of getUsageQuotaLimits()) {
+      quotas.push({
+        ...quota,
+        used: await getQuotaUsage(userId, quota.kind, getPeriodStart(quota.period, now)),
+      });
+    }
+
+    return { success: true, data: { today, month, quotas } };
+  } catch (error) {
+    console.error("❌ Error loading API usage:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import { EditorData, EditorBlockData } from "@/features/editor/types";
+import { BlockDiffEntry, BlockDiffSummary } from "../types";
+import { getBlockContent } from "./hash";
+
+/**
+ * Returns a stable key for a block - its Editor.js id, or its position when no id is present
+ */
+export function getBlockKey(block: EditorBlockData, index: number): string {
+  return block.id || `index:${index}`;
+}
+
+/**
+ * Strips HTML tags and collapses whitespace in Editor.js text content
+ */
+function stripHtml(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Builds a short human readable label for a block (day title, place name or text excerpt)
+ * @param block The editor block
+ * @returns Label suitable for showing in a diff or history list
+ */
+export function getBlockLabel(block: EditorBlockData): string {
+  const data = (block.data || {}) as Record<string, any>;
+
+  switch (block.type) {
+    case "day":
+      return `Day ${data.dayNumber || "?"}${data.title ? `: ${data.title}` : ""}`;
+    case "place":
+    case "hotel":
+      return data.name || `Unnamed ${block.type}`;
+    case "header":
+    case "paragraph": {
+      const text = typeof data.text === "string" ? stripHtml(data.text) : "";
+      if (!text) return `Empty ${block.type}`;
+      return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+    }
+    default:
+      return block.type;
+  }
+}
+
+/**
+ * Finds the longest common subsequence of two key sequences
+ * Used to detect which shared blocks kept their relative order
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compares two EditorData documents block by block, keyed on Editor.js block ids
+ * UI-only state (expanded, thumbnails, loading status) is ignored, as in the content hash
+ * @param before The older document (e.g. a revision)
+ * @param after The newer document (e.g. the current itinerary)
+ * @returns Diff entries in document order, followed by removed blocks, and a summary
+ */
+export function diffEditorData(
+  before: EditorData,
+  after: EditorData
+): { entries: BlockDiffEntry[]; summary: BlockDiffSummary } {
+  const beforeBlocks = before?.blocks || [];
+  const afterBlocks = after?.blocks || [];
+
+  const beforeByKey = new Map<string, EditorBlockData>();
+  beforeBlocks.forEach((block, index) => {
+    beforeByKey.set(getBlockKey(block, index), block);
+  });
+
+  const afterKeys = afterBlocks.map((block, index) => getBlockKey(block, index));
+  const afterKeySet = new Set(afterKeys);
+
+  // Shared blocks that are not part of the LCS changed their relative position
+  const sharedBefore = beforeBlocks
+    .map((block, index) => getBlockKey(block, index))
+    .filter((key) => afterKeySet.has(key));
+  const sharedAfter = afterKeys.filter((key) => beforeByKey.has(key));
+  const inOrder = longestCommonSubsequence(sharedBefore, sharedAfter);
+
+  const entries: BlockDiffEntry[] = [];
+  const summary: BlockDiffSummary = { added: 0, removed: 0, modified: 0, moved: 0 };
+
+  afterBlocks.forEach((block, index) => {
+    const key = afterKeys[index];
+    const previous = beforeByKey.get(key);
+
+    if (!previous) {
+      entries.push({
+        blockId: key,
+        blockType: block.type,
+        change: "added",
+        label: getBlockLabel(block),
+        after: block,
+      });
+      summary.added++;
+      return;
+    }
+
+    const contentChanged =
+      previous.type !== block.type ||
+      JSON.stringify(getBlockContent(previous)) !==
+        JSON.stringify(getBlockContent(block));
+
+    if (contentChanged) {
+      entries.push({
+        blockId: key,
+        blockType: block.type,
+        change: "modified",
+        label: getBlockLabel(block),
+        before: previous,
+        after: block,
+      });
+      summary.modified++;
+    } else if (!inOrder.has(key)) {
+      entries.push({
+        blockId: key,
+        blockType: block.type,
+        change: "moved",
+        label: getBlockLabel(block),
+        before: previous,
+        after: block,
+      });
+      summary.moved++;
+    }
+  });
+
+  beforeBlocks.forEach((block, index) => {
+    const key = getBlockKey(block, index);
+    if (!afterKeySet.has(key)) {
+      entries.push({
+        blockId: key,
+        blockType: block.type,
+        change: "removed",
+        label: getBlockLabel(block),
+        before: block,
+      });
+      summary.removed++;
+    }
+  });
+
+  return { entries, summary };
+}
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { EditorData, EditorBlockData } from "@/features/editor/types";
+import { DirectionsData } from "@/features/directions/types";
+import { CURRENT_EDITOR_SCHEMA_VERSION } from "./migrations";
+
+export const ITINERARY_BUNDLE_FORMAT = "itera-notes.itinerary-bundle";
+export const ITINERARY_BUNDLE_VERSION = 1;
+
+const MAX_BUNDLE_BLOCKS = 5000;
+const MAX_BUNDLE_DIRECTIONS = 100;
+
+const editorBlockSchema = z
+  .object({
+    id: z.string().optional(),
+    type: z.string().min(1, "Block type is required"),
+    data: z.record(z.unknown(), {
+      invalid_type_error: "Block data must be an object",
+    }),
+  })
+  .passthrough();
+
+export const editorDataSchema = z.object({
+  time: z.number().optional(),
+  version: z.string().optional(),
+  blocks: z
+    .array(editorBlockSchema, { required_error: "Editor blocks are required" })
+    .max(MAX_BUNDLE_BLOCKS, `An itinerary can have at most ${MAX_BUNDLE_BLOCKS} blocks`),
+});
+
+export const directionsSchema = z.object({
+  dayIndex: z
+    .number({ required_error: "Day index is required" })
+    .int("Day index must be a whole number")
+    .min(0, "Day index cannot be negative"),
+  color: z.string().min(1, "Route color is required"),
+  directionsResult: z
+    .object({
+      routes: z.array(z.unknown(), { required_error: "Routes are required" }),
+      status: z.string().optional(),
+    })
+    .passthrough(),
+  inputHash: z.string().max(128).optional(),
+});
+
+const bundleDateSchema = z.coerce.date({
+  errorMap: () => ({ message: "Must be a valid date" }),
+});
+
+export const itineraryBundleSchema = z
+  .object({
+    format: z.literal(ITINERARY_BUNDLE_FORMAT, {
+      errorMap: () => ({ message: "Not an Itera Notes itinerary bundle" }),
+    }),
+    version: z
+      .number({ required_error: "Bundle version is required" })
+      .int("Bundle version must be a whole number")
+      .min(1, "Bundle version must be at least 1")
+      .max(
+        ITINERARY_BUNDLE_VERSION,
+        "This bundle was created by a newer version of the app"
+      ),
+    exportedAt: z.string().optional(),
+    itinerary: z.object({
+      title: z.string().max(200, "Title is too long").optional(),
+      editorData: editorDataSchema,
+      // Editor data shape version; bundles without one are migrated from the oldest shape
+      schemaVersion: z.string().max(20, "Schema version is too long").optional(),
+      destination: z
+        .string({ required_error: "Destination is required" })
+        .max(100, "Destination is too long"),
+      startDate: bundleDateSchema,
+      endDate: bundleDateSchema,
+      interests: z.array(z.string()).max(50, "Too many interests").default([]),
+      travelStyle: z.string().max(50, "Travel style is too long").default("mid-range"),
+      additionalNotes: z.string().max(1000, "Additional notes are too long").nullable().optional(),
+    }),
+    directions: z
+      .array(directionsSchema)
+      .max(MAX_BUNDLE_DIRECTIONS, `A bundle can have at most ${MAX_BUNDLE_DIRECTIONS} routes`)
+      .default([]),
+  })
+  .refine((bundle) => bundle.itinerary.endDate >= bundle.itinerary.startDate, {
+    message: "End date must not be before start date",
+    path: ["itinerary", "endDate"],
+  });
+
+// Serialized bundle as written to disk; dates are ISO strings
+export interface ItineraryBundle {
+  format: typeof ITINERARY_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  itinerary: {
+    title?: string;
+    editorData: EditorData;
+    schemaVersion: string;
+    destination: string;
+    startDate: string;
+    endDate: string;
+    interests: string[];
+    travelStyle: string;
+    additionalNotes?: string | null;
+  };
+  directions: DirectionsData[];
+}
+
+export type ParsedItineraryBundle = z.output<typeof itineraryBundleSchema>;
+
+/**
+ * Validates an unknown value as an itinerary bundle
+ * @returns The parsed bundle, or a map of dotted field paths to error messages
+ */
+export function validateItineraryBundle(
+  value: unknown
+):
+  | { success: true; bundle: ParsedItineraryBundle }
+  | { success: false; fieldErrors: Record<string, string> } {
+  const result = itineraryBundleSchema.safeParse(value);
+  if (result.success) {
+    return { success: true, bundle: result.data };
+  }
+
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of result.error.errors) {
+    const path = issue.path.join(".") || "bundle";
+    // Keep the first error per field
+    if (!fieldErrors[path]) {
+      fieldErrors[path] = issue.message;
+    }
+  }
+  return { success: false, fieldErrors };
+}
+
+/**
+ * Builds a bundle from an itinerary's content, directions and form metadata
+ */
+export function createItineraryBundle(itinerary: {
+  title?: string;
+  editorData: EditorData;
+  directions: DirectionsData[];
+  destination?: string;
+  startDate?: Date;
+  endDate?: Date;
+  interests?: string[];
+  travelStyle?: string;
+  additionalNotes?: string;
+}): ItineraryBundle {
+  return {
+    format: ITINERARY_BUNDLE_FORMAT,
+    version: ITINERARY_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    itinerary: {
+      title: itinerary.title,
+      editorData: itinerary.editorData,
+      schemaVersion: CURRENT_EDITOR_SCHEMA_VERSION,
+      destination: itinerary.destination || "Unknown Destination",
+      startDate: (itinerary.startDate || new Date()).toISOString(),
+      endDate: (itinerary.endDate || itinerary.startDate || new Date()).toISOString(),
+      interests: itinerary.interests || [],
+      travelStyle: itinerary.travelStyle || "mid-range",
+      additionalNotes: itinerary.additionalNotes,
+    },
+    directions: itinerary.directions.map((direction) => ({
+      dayIndex: direction.dayIndex,
+      color: direction.color,
+      directionsResult: direction.directionsResult,
+    })),
+  };
+}
+
+/**
+ * Gives every block a fresh id so an imported copy never shares ids with its source
+ * Place links to paragraph blocks (linkedParagraphId) and mirrored data.id fields are remapped
+ */
+export function regenerateBlockIds(editorData: EditorData): EditorData {
+  const idMap = new Map<string, string>();
+  for (const block of editorData.blocks) {
+    if (block.id) {
+      idMap.set(block.id, crypto.randomUUID());
+    }
+  }
+
+  const blocks: EditorBlockData[] = editorData.blocks.map((block) => {
+    const id = block.id ? idMap.get(block.id)! : crypto.randomUUID();
+    const data = { ...block.data };
+
+    if (typeof data.id === "string" && data.id === block.id) {
+      data.id = id;
+    }
+    if (typeof data.linkedParagraphId === "string" && data.linkedParagraphId) {
+      data.linkedParagraphId = idMap.get(data.linkedParagraphId) || "";
+    }
+
+    return { ...block, id, data };
+  });
+
+  return { ...editorData, time: Date.now(), blocks };
+}
@@ -119,6 +119,15 @@ export function generateContentHash(editorData: EditorData): string {
   }
 }
 
+/**
+ * Returns the content-relevant part of a block's data, as used for hashing
+ * @param block The editor block
+ * @returns Cleaned data object suitable for comparing two blocks
+ */
+export function getBlockContent(block: EditorBlockData): Record<string, unknown> {
+  return block?.data ? excludeUIState(block.data) : {};
+}
+
 /**
  * Compares two EditorData objects by their content hash
  * @param data1 First EditorData object
@@ -0,0 +1,197 @@
+import {
+  ItinerarySummary,
+  ItineraryGroup,
+  ListItinerariesOptions,
+  TripStatus,
+} from "../types";
+
+export const MAX_TAGS_PER_ITINERARY = 20;
+export const MAX_TAG_LENGTH = 30;
+
+const TRIP_STATUS_LABELS: Record<TripStatus, string> = {
+  upcoming: "Upcoming",
+  ongoing: "Ongoing",
+  past: "Past",
+};
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Derives whether a trip is upcoming, ongoing or past by comparing calendar dates
+ * Trip dates are stored as UTC midnight, so only their date part is compared
+ */
+export function getTripStatus(
+  startDate: Date | undefined,
+  endDate: Date | undefined,
+  now: Date = new Date()
+): TripStatus {
+  if (!startDate) return "upcoming";
+
+  const today = toDateKey(now);
+  const start = toDateKey(new Date(startDate));
+  const end = toDateKey(new Date(endDate || startDate));
+
+  if (today < start) return "upcoming";
+  if (today > end) return "past";
+  return "ongoing";
+}
+
+/**
+ * Trims, length-limits and de-duplicates tags case-insensitively, keeping the first spelling
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    if (typeof tag !== "string") continue;
+    const trimmed = tag.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+    seen.add(key);
+    result.push(trimmed);
+  }
+  return result.slice(0, MAX_TAGS_PER_ITINERARY);
+}
+
+function hasTag(itinerary: ItinerarySummary, tag: string): boolean {
+  const key = tag.toLowerCase();
+  return itinerary.tags.some((t) => t.toLowerCase() === key);
+}
+
+function compareOptionalDates(a?: Date, b?: Date): number {
+  // Itineraries without dates sort last in either direction
+  if (!a && !b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return new Date(a).getTime() - new Date(b).getTime();
+}
+
+function sortItineraries(
+  itineraries: ItinerarySummary[],
+  options: ListItinerariesOptions
+): ItinerarySummary[] {
+  const sortBy = options.sortBy || "updated";
+  // Recent first for edit timestamps, A-Z and soonest first otherwise
+  const defaultOrder = sortBy === "updated" || sortBy === "created" ? "desc" : "asc";
+  const direction = (options.sortOrder || defaultOrder) === "asc" ? 1 : -1;
+
+  return [...itineraries].sort((a, b) => {
+    switch (sortBy) {
+      case "title":
+        return direction * (a.title || "").localeCompare(b.title || "", undefined, { sensitivity: "base" });
+      case "startDate": {
+        const diff = compareOptionalDates(a.startDate, b.startDate);
+        return !a.startDate || !b.startDate ? diff : direction * diff;
+      }
+      case "created":
+        return direction * (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+      default:
+        return direction * (new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime());
+    }
+  });
+}
+
+function groupItineraries(
+  itineraries: ItinerarySummary[],
+  groupBy: ListItinerariesOptions["groupBy"]
+): ItineraryGroup[] {
+  const groups = new Map<string, ItineraryGroup>();
+  const addToGroup = (key: string, label: string, id: string) => {
+    if (!groups.has(key)) {
+      groups.set(key, { key, label, itineraryIds: [] });
+    }
+    groups.get(key)!.itineraryIds.push(id);
+  };
+
+  for (const itinerary of itineraries) {
+    switch (groupBy) {
+      case "folder":
+        addToGroup(
+          itinerary.folderId ? `folder:${itinerary.folderId}` : "folder:none",
+          itinerary.folderName || "No folder",
+          itinerary.id
+        );
+        break;
+      case "status":
+        addToGroup(
+          `status:${itinerary.tripStatus}`,
+          TRIP_STATUS_LABELS[itinerary.tripStatus],
+          itinerary.id
+        );
+        break;
+      case "tag":
+        // An itinerary appears under each of its tags
+        if (itinerary.tags.length === 0) {
+          addToGroup("tag:none", "Untagged", itinerary.id);
+        }
+        for (const tag of itinerary.tags) {
+          addToGroup(`tag:${tag.toLowerCase()}`, tag, itinerary.id);
+        }
+        break;
+    }
+  }
+
+  const result = [...groups.values()];
+  if (groupBy === "status") {
+    const order: TripStatus[] = ["ongoing", "upcoming", "past"];
+    return result.sort(
+      (a, b) => order.indexOf(a.key.slice(7) as TripStatus) - order.indexOf(b.key.slice(7) as TripStatus)
+    );
+  }
+
+  // Named groups alphabetically, the catch-all group last
+  return result.sort((a, b) => {
+    const aIsNone = a.key.endsWith(":none");
+    const bIsNone = b.key.endsWith(":none");
+    if (aIsNone !== bIsNone) return aIsNone ? 1 : -1;
+    return a.label.localeCompare(b.label, undefined, { sensitivity: "base" });
+  });
+}
+
+/**
+ * Filters, sorts and optionally groups itinerary summaries
+ */
+export function applyItineraryListOptions(
+  itineraries: ItinerarySummary[],
+  options: ListItinerariesOptions = {}
+): { itineraries: ItinerarySummary[]; groups?: ItineraryGroup[] } {
+  const archived = options.archived || "active";
+
+  const filtered = itineraries.filter((itinerary) => {
+    if (archived === "active" && itinerary.archived) return false;
+    if (archived === "archived" && !itinerary.archived) return false;
+    if (options.status && itinerary.tripStatus !== options.status) return false;
+    if (options.folderId !== undefined && (itinerary.folderId ?? null) !== options.folderId) {
+      return false;
+    }
+    if (options.tags?.length && !options.tags.every((tag) => hasTag(itinerary, tag))) {
+      return false;
+    }
+    return true;
+  });
+
+  const sorted = sortItineraries(filtered, options);
+
+  if (!options.groupBy || options.groupBy === "none") {
+    return { itineraries: sorted };
+  }
+
+  return { itineraries: sorted, groups: groupItineraries(sorted, options.groupBy) };
+}
+
+/**
+ * Collects the distinct tags used across itineraries, sorted alphabetically
+ */
+export function collectTags(itineraries: ItinerarySummary[]): string[] {
+  const tags = new Map<string, string>();
+  for (const tag of itineraries.flatMap((itinerary) => itinerary.tags)) {
+    if (!tags.has(tag.toLowerCase())) {
+      tags.set(tag.toLowerCase(), tag);
+    }
+  }
+  return [...tags.values()].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: "base" }));
+}
@@ -0,0 +1,226 @@
+import { EditorData, EditorBlockData } from "@/features/editor/types";
+import { MergeConflict } from "../types";
+import { getBlockContent } from "./hash";
+import { getBlockLabel } from "./blockDiff";
+
+/**
+ * Returns the identity used to match blocks across versions
+ * Place and hotel blocks are matched on their place uid, other blocks on their Editor.js id
+ */
+export function getMergeKey(block: EditorBlockData, index: number): string {
+  const uid = (block.data as { uid?: unknown } | undefined)?.uid;
+  if ((block.type === "place" || block.type === "hotel") && typeof uid === "string" && uid) {
+    return `${block.type}:${uid}`;
+  }
+  return block.id || `index:${index}`;
+}
+
+function isSameBlock(a: EditorBlockData, b: EditorBlockData): boolean {
+  return (
+    a.type === b.type &&
+    JSON.stringify(getBlockContent(a)) === JSON.stringify(getBlockContent(b))
+  );
+}
+
+function toKeyedMap(blocks: EditorBlockData[]): Map<string, EditorBlockData> {
+  const map = new Map<string, EditorBlockData>();
+  blocks.forEach((block, index) => map.set(getMergeKey(block, index), block));
+  return map;
+}
+
+/**
+ * Orders the merged keys, following `primary` and inserting keys only present in
+ * `secondary` right after the nearest block that precedes them there
+ */
+function mergeOrder(primary: string[], secondary: string[], keep: Set<string>): string[] {
+  const order = primary.filter((key) => keep.has(key));
+  const placed = new Set(order);
+
+  secondary.forEach((key, index) => {
+    if (!keep.has(key) || placed.has(key)) return;
+
+    let insertAt = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const position = order.indexOf(secondary[i]);
+      if (position !== -1) {
+        insertAt = position + 1;
+        break;
+      }
+    }
+
+    order.splice(insertAt, 0, key);
+    placed.add(key);
+  });
+
+  return order;
+}
+
+/**
+ * Three-way merges two concurrently edited versions of an itinerary
+ * Non-overlapping changes from both sides are combined; blocks changed on both sides are
+ * reported as conflicts and resolved in favour of the client ("mine") version
+ * Without a base there's no telling additions from deletions, so every block found on
+ * only one side is reported as a conflict rather than merged
+ * @param base The common ancestor both versions were edited from, or null if unknown
+ * @param mine The version being saved
+ * @param theirs The version currently stored
+ * @returns The merged document, the conflicts and the number of server changes merged in
+ */
+export function mergeEditorData(
+  base: EditorData | null,
+  mine: EditorData,
+  theirs: EditorData
+): { editorData: EditorData; conflicts: MergeConflict[]; autoMergedCount: number } {
+  const baseBlocks = base?.blocks || [];
+  const mineBlocks = mine.blocks || [];
+  const theirBlocks = theirs.blocks || [];
+
+  const baseMap = toKeyedMap(baseBlocks);
+  const mineMap = toKeyedMap(mineBlocks);
+  const theirMap = toKeyedMap(theirBlocks);
+
+  const baseKeys = baseBlocks.map((block, index) => getMergeKey(block, index));
+  const mineKeys = mineBlocks.map((block, index) => getMergeKey(block, index));
+  const theirKeys = theirBlocks.map((block, index) => getMergeKey(block, index));
+
+  const merged = new Map<string, EditorBlockData>();
+  const conflicts: MergeConflict[] = [];
+  let autoMergedCount = 0;
+
+  const allKeys = new Set([...mineKeys, ...theirKeys]);
+  allKeys.forEach((key) => {
+    const baseBlock = baseMap.get(key);
+    const mineBlock = mineMap.get(key);
+    const theirBlock = theirMap.get(key);
+
+    if (mineBlock && theirBlock) {
+      if (isSameBlock(mineBlock, theirBlock) || (baseBlock && isSameBlock(baseBlock, theirBlock))) {
+        merged.set(key, mineBlock);
+      } else if (baseBlock && isSameBlock(baseBlock, mineBlock)) {
+        merged.set(key, theirBlock);
+        autoMergedCount++;
+      } else {
+        merged.set(key, mineBlock);
+        conflicts.push({
+          key,
+          blockType: mineBlock.type,
+          type: "both-modified",
+          label: getBlockLabel(mineBlock),
+          mine: mineBlock,
+          theirs: theirBlock,
+        });
+      }
+      return;
+    }
+
+    if (mineBlock) {
+      // Missing on the server: either added by the client or deleted on the server
+      if (!base) {
+        merged.set(key, mineBlock);
+        conflicts.push({
+          key,
+          blockType: mineBlock.type,
+          type: "only-mine",
+          label: getBlockLabel(mineBlock),
+          mine: mineBlock,
+        });
+      } else if (!baseBlock) {
+        merged.set(key, mineBlock);
+      } else if (isSameBlock(baseBlock, mineBlock)) {
+        autoMergedCount++; // Accept the server-side deletion
+      } else {
+        merged.set(key, mineBlock);
+        conflicts.push({
+          key,
+          blockType: mineBlock.type,
+          type: "modified-deleted",
+          label: getBlockLabel(mineBlock),
+          mine: mineBlock,
+        });
+      }
+      return;
+    }
+
+    if (theirBlock) {
+      // Missing on the client: either added on the server or deleted by the client
+      if (base && !baseBlock) {
+        merged.set(key, theirBlock);
+        autoMergedCount++;
+      } else if (!base || (baseBlock && !isSameBlock(baseBlock, theirBlock))) {
+        const theirIndex = theirKeys.indexOf(key);
+        conflicts.push({
+          key,
+          blockType: theirBlock.type,
+          type: base ? "deleted-modified" : "only-theirs",
+          label: getBlockLabel(theirBlock),
+          theirs: theirBlock,
+          afterKey: theirIndex > 0 ? theirKeys[theirIndex - 1] : undefined,
+        });
+      }
+    }
+  });
+
+  // Follow the server's ordering only if the client did not reorder anything itself
+  const keep = new Set(merged.keys());
+  const mineOrder = mineKeys.filter((key) => baseMap.has(key)).join("|");
+  const baseOrder = baseKeys.filter((key) => mineMap.has(key)).join("|");
+  const clientReordered = !base || mineOrder !== baseOrder;
+  const order = clientReordered
+    ? mergeOrder(mineKeys, theirKeys, keep)
+    : mergeOrder(theirKeys, mineKeys, keep);
+
+  return {
+    editorData: {
+      ...mine,
+      blocks: order.map((key) => merged.get(key)!),
+    },
+    conflicts,
+    autoMergedCount,
+  };
+}
+
+/**
+ * Applies the user's choice for a reported merge conflict to the merged document
+ * Conflicts already hold the client version, so only choosing "theirs" changes anything
+ * @param editorData The merged document
+ * @param conflict The conflict being resolved
+ * @param choice Which version to keep
+ * @returns The updated document
+ */
+export function applyConflictResolution(
+  editorData: EditorData,
+  conflict: MergeConflict,
+  choice: "mine" | "theirs"
+): EditorData {
+  if (choice === "mine") {
+    return editorData;
+  }
+
+  const blocks = [...editorData.blocks];
+  const index = blocks.findIndex((block, i) => getMergeKey(block, i) === conflict.key);
+
+  switch (conflict.type) {
+    case "both-modified":
+      if (index !== -1 && conflict.theirs) {
+        blocks[index] = conflict.theirs;
+      }
+      break;
+    case "modified-deleted":
+    case "only-mine":
+      if (index !== -1) {
+        blocks.splice(index, 1);
+      }
+      break;
+    case "deleted-modified":
+    case "only-theirs": {
+      if (!conflict.theirs || index !== -1) break;
+      const afterIndex = conflict.afterKey
+        ? blocks.findIndex((block, i) => getMergeKey(block, i) === conflict.afterKey)
+        : -1;
+      blocks.splice(afterIndex + 1, 0, conflict.theirs);
+      break;
+    }
+  }
+
+  return { ...editorData, blocks };
+}
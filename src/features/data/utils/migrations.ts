@@ -0,0 +1,189 @@
+import { EditorData, EditorBlockData } from "@/features/editor/types";
+import { PLACE_STATUS_VALUES, validateEditorBlocks } from "@/features/editor/schemas";
+
+/**
+ * Version of the editor data shape, stored in Itinerary.version
+ * Bump it by appending a migration to EDITOR_DATA_MIGRATIONS
+ */
+export const LEGACY_EDITOR_SCHEMA_VERSION = "1.0";
+
+export interface EditorDataMigration {
+  version: string; // Version the document is at after this migration
+  description: string;
+  migrate: (editorData: EditorData) => EditorData;
+}
+
+export interface EditorDataMigrationResult {
+  editorData: EditorData;
+  version: string;
+  migrated: boolean;
+  appliedVersions: string[];
+}
+
+const PLACE_BLOCK_TYPES = ["place", "hotel"];
+
+function isPlaceBlock(block: EditorBlockData): boolean {
+  return PLACE_BLOCK_TYPES.includes(block.type);
+}
+
+function mapBlocks(
+  editorData: EditorData,
+  mapper: (block: EditorBlockData, index: number) => EditorBlockData
+): EditorData {
+  return { ...editorData, blocks: editorData.blocks.map(mapper) };
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Ordered registry of editor data migrations, oldest first
+ * Migrations must be idempotent - documents without a recorded version run through all of them
+ */
+export const EDITOR_DATA_MIGRATIONS: EditorDataMigration[] = [
+  {
+    version: "1.1",
+    description: "Default place flags, paragraph links and status",
+    migrate: (editorData) => {
+      const blockIds = new Set(
+        editorData.blocks.map((block) => block.id).filter((id): id is string => !!id)
+      );
+
+      return mapBlocks(editorData, (block) => {
+        if (!isPlaceBlock(block)) return block;
+
+        const data = { ...block.data };
+        data.isDayFinish = data.isDayFinish === true;
+        data.hideInMap = data.hideInMap === true;
+
+        // Links to paragraphs that no longer exist would break sync editing
+        if (typeof data.linkedParagraphId !== "string" || !blockIds.has(data.linkedParagraphId)) {
+          data.linkedParagraphId = "";
+        }
+
+        // Loading is transient and older documents had no status at all
+        const status = data.status as string | undefined;
+        const isKnownStatus =
+          !!status && (PLACE_STATUS_VALUES as readonly string[]).includes(status);
+        if (!isKnownStatus || status === "loading") {
+          data.status = data.placeId || (data.lat && data.lng) ? "found" : "idle";
+        }
+
+        return { ...block, data };
+      });
+    },
+  },
+  {
+    version: "1.2",
+    description: "Normalize day dates and numeric place fields",
+    migrate: (editorData) => {
+      let dayNumber = 0;
+
+      return mapBlocks(editorData, (block) => {
+        if (block.type === "day") {
+          dayNumber++;
+          const data: Record<string, unknown> = { ...block.data, dayNumber };
+          // Dates were once stored as full ISO timestamps
+          if (typeof data.date === "string") {
+            data.date = data.date.match(/^\d{4}-\d{2}-\d{2}/)?.[0] || "";
+          }
+          return { ...block, data };
+        }
+
+        if (isPlaceBlock(block)) {
+          const data = { ...block.data };
+          for (const key of [
+            "lat",
+            "lng",
+            "rating",
+            "drivingTimeFromPrevious",
+            "drivingDistanceFromPrevious",
+          ]) {
+            if (data[key] !== undefined) {
+              data[key] = toNumber(data[key]);
+            }
+          }
+          return { ...block, data };
+        }
+
+        return block;
+      });
+    },
+  },
+];
+
+export const CURRENT_EDITOR_SCHEMA_VERSION =
+  EDITOR_DATA_MIGRATIONS[EDITOR_DATA_MIGRATIONS.length - 1].version;
+
+/**
+ * Compares dotted version strings numerically ("1.10" is newer than "1.9")
+ */
+export function compareSchemaVersions(a: string, b: string): number {
+  const partsA = a.split(".").map((part) => parseInt(part, 10) || 0);
+  const partsB = b.split(".").map((part) => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Whether a document at the given version needs to run migrations
+ */
+export function isEditorSchemaOutdated(version: string | null | undefined): boolean {
+  return (
+    compareSchemaVersions(version || LEGACY_EDITOR_SCHEMA_VERSION, CURRENT_EDITOR_SCHEMA_VERSION) < 0
+  );
+}
+
+/**
+ * Upgrades editor data from the given version by applying every newer migration in order
+ * Documents from a newer version are returned unchanged
+ */
+export function migrateEditorData(
+  editorData: EditorData,
+  fromVersion: string | null | undefined
+): EditorDataMigrationResult {
+  const startVersion = fromVersion || LEGACY_EDITOR_SCHEMA_VERSION;
+  let migratedData: EditorData = {
+    ...editorData,
+    blocks: Array.isArray(editorData?.blocks) ? editorData.blocks : [],
+  };
+  const appliedVersions: string[] = [];
+
+  for (const migration of EDITOR_DATA_MIGRATIONS) {
+    if (compareSchemaVersions(migration.version, startVersion) <= 0) {
+      continue;
+    }
+
+    migratedData = migration.migrate(migratedData);
+    appliedVersions.push(migration.version);
+    console.log(`🔄 Migrated editor data to ${migration.version}: ${migration.description}`);
+  }
+
+  if (appliedVersions.length === 0) {
+    return { editorData, version: startVersion, migrated: false, appliedVersions };
+  }
+
+  const issues = validateEditorBlocks(migratedData.blocks);
+  if (issues.length > 0) {
+    console.warn(`⚠️ ${issues.length} blocks don't match their schema after migration:`, issues);
+  }
+
+  return {
+    editorData: migratedData,
+    version: CURRENT_EDITOR_SCHEMA_VERSION,
+    migrated: true,
+    appliedVersions,
+  };
+}
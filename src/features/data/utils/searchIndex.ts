@@ -0,0 +1,92 @@
+import { EditorData, BasePlaceBlockData, DayBlockData } from "@/features/editor/types";
+import { toPlainText } from "@/features/export/text";
+
+export type SearchHitKind = "title" | "day" | "region" | "place" | "address" | "text";
+
+// One row of the full-text index
+export interface SearchIndexEntry {
+  blockId: string | null; // null for the itinerary title
+  dayIndex: number | null; // null before the first day
+  dayTitle: string;
+  kind: SearchHitKind;
+  content: string;
+}
+
+// Delimiters FTS5's snippet() puts around matched terms; control characters never occur in block text
+export const SEARCH_MATCH_START = "\u0002";
+export const SEARCH_MATCH_END = "\u0003";
+
+/**
+ * Extracts the searchable text of an itinerary, one entry per field of each block
+ * Indexes the title, day titles and regions, place names and addresses, and paragraph text
+ */
+export function extractSearchEntries(
+  title: string | null | undefined,
+  editorData: EditorData
+): SearchIndexEntry[] {
+  const entries: SearchIndexEntry[] = [];
+  let dayIndex: number | null = null;
+  let dayTitle = "";
+
+  const addEntry = (
+    blockId: string | undefined,
+    kind: SearchHitKind,
+    value: unknown
+  ) => {
+    const content = toPlainText(value).replace(/\s+/g, " ");
+    if (!content) return;
+    entries.push({ blockId: blockId || null, dayIndex, dayTitle, kind, content });
+  };
+
+  addEntry(undefined, "title", title);
+
+  for (const block of editorData?.blocks || []) {
+    switch (block.type) {
+      case "day": {
+        const data = block.data as unknown as DayBlockData;
+        dayIndex = dayIndex === null ? 0 : dayIndex + 1;
+        dayTitle = toPlainText(data.title);
+        addEntry(block.id, "day", data.title);
+        addEntry(block.id, "region", data.region);
+        break;
+      }
+      case "place":
+      case "hotel": {
+        const data = block.data as BasePlaceBlockData;
+        addEntry(block.id, "place", data.name);
+        addEntry(block.id, "address", data.address);
+        addEntry(block.id, "text", data.notes);
+        break;
+      }
+      case "header":
+        // The first header doubles as the title, which is already indexed
+        if (toPlainText(block.data.text) !== toPlainText(title)) {
+          addEntry(block.id, "text", block.data.text);
+        }
+        break;
+      case "paragraph":
+        addEntry(block.id, "text", block.data.text);
+        break;
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Turns user input into an FTS5 query: every word must match, the last one as a prefix
+ * Words are quoted so FTS5 operators and punctuation in the input are treated as text
+ */
+export function toFtsQuery(input: string): string | null {
+  const words = input
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, ""))
+    .filter((word) => /[\p{L}\p{N}]/u.test(word)) // Punctuation-only words have no tokens
+    .slice(0, 10);
+
+  if (words.length === 0) return null;
+
+  return words
+    .map((word, index) => (index === words.length - 1 ? `"${word}"*` : `"${word}"`))
+    .join(" ");
+}
@@ -0,0 +1,118 @@
+import { EditorData } from "@/features/editor/types";
+import { regenerateBlockIds } from "./bundle";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const PLACE_BLOCK_TYPES = ["place", "hotel"];
+
+function toUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Whole days between two dates, comparing only their UTC date parts
+ */
+export function getDayOffset(from: Date, to: Date): number {
+  return Math.round((toUtcDay(to) - toUtcDay(from)) / DAY_MS);
+}
+
+/**
+ * Moves a date by whole days, keeping its time of day
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function shiftDayDate(date: string, offsetDays: number): string {
+  const match = DAY_DATE_PATTERN.exec(date);
+  if (!match) return date;
+
+  const shifted = new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) + offsetDays * DAY_MS
+  );
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Shifts every dated day block by the same number of days; undated days are left alone
+ */
+export function shiftDayDates(editorData: EditorData, offsetDays: number): EditorData {
+  if (offsetDays === 0) return editorData;
+
+  return {
+    ...editorData,
+    blocks: editorData.blocks.map((block) => {
+      if (block.type !== "day" || typeof block.data.date !== "string" || !block.data.date) {
+        return block;
+      }
+      return { ...block, data: { ...block.data, date: shiftDayDate(block.data.date, offsetDays) } };
+    }),
+  };
+}
+
+/**
+ * Removes what the user wrote for themselves before a trip is shared as a template
+ * Cleared: notes on places and hotels, paragraphs not linked to a place (day descriptions
+ * and free notes) and the paragraphs linked to hotels, which tend to hold booking details
+ * Kept: the title, day titles, dates and regions, places and hotels themselves, and the
+ * descriptions linked to places
+ */
+export function stripPersonalNotes(editorData: EditorData): EditorData {
+  const placeParagraphIds = new Set(
+    editorData.blocks
+      .filter((block) => block.type === "place" && block.data.linkedParagraphId)
+      .map((block) => block.data.linkedParagraphId)
+  );
+
+  return {
+    ...editorData,
+    blocks: editorData.blocks
+      .filter((block) => block.type !== "paragraph" || placeParagraphIds.has(block.id))
+      .map((block) => {
+        if (!PLACE_BLOCK_TYPES.includes(block.type)) return block;
+        const data: Record<string, unknown> = { ...block.data, notes: "" };
+        if (block.type === "hotel") {
+          delete data.linkedParagraphId;
+        }
+        return { ...block, data };
+      }),
+  };
+}
+
+/**
+ * Uses the given title for the trip: the first header block holds the itinerary title,
+ * so it's rewritten, or added at the top if the template has none
+ */
+export function setTitleBlock(editorData: EditorData, title: string): EditorData {
+  const headerIndex = editorData.blocks.findIndex((block) => block.type === "header");
+  if (headerIndex === -1) {
+    return {
+      ...editorData,
+      blocks: [{ type: "header", data: { text: title, level: 1 } }, ...editorData.blocks],
+    };
+  }
+
+  return {
+    ...editorData,
+    blocks: editorData.blocks.map((block, index) =>
+      index === headerIndex ? { ...block, data: { ...block.data, text: title } } : block
+    ),
+  };
+}
+
+/**
+ * Gives every block and place a fresh identity, so trips created from the same template
+ * never share block ids or place uids with each other or with the template's source
+ */
+export function rekeyTemplateBlocks(editorData: EditorData): EditorData {
+  const rekeyed = regenerateBlockIds(editorData);
+
+  return {
+    ...rekeyed,
+    blocks: rekeyed.blocks.map((block) =>
+      PLACE_BLOCK_TYPES.includes(block.type)
+        ? { ...block, data: { ...block.data, uid: crypto.randomUUID() } }
+        : block
+    ),
+  };
+}
@@ -0,0 +1,108 @@
+import { EditorData, EditorBlockData } from "@/features/editor/types";
+import { SurplusTripDay } from "../types";
+import { addDays, getDayOffset } from "./template";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function toDayDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Number of calendar days a trip spans, counting both ends
+ */
+export function getTripDayCount(startDate: Date, endDate: Date): number {
+  return Math.max(1, getDayOffset(startDate, endDate) + 1);
+}
+
+/**
+ * Weekday name of a YYYY-MM-DD day date, matching Google's opening-hours weekday_text
+ */
+export function getWeekdayName(dayDate: string): string | null {
+  const date = new Date(`${dayDate}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : WEEKDAYS[date.getUTCDay()];
+}
+
+/**
+ * Checks Google's weekday_text ("Monday: Closed", ...) for the weekday of a day date
+ * @returns True only when the place is listed as closed all day
+ */
+export function isClosedOnDate(weekdayText: string[], dayDate: string): boolean {
+  const weekday = getWeekdayName(dayDate);
+  if (!weekday) return false;
+
+  const line = weekdayText.find((text) => text.startsWith(`${weekday}:`));
+  return !!line && line.slice(weekday.length + 1).trim().toLowerCase() === "closed";
+}
+
+function countPlaces(blocks: EditorBlockData[]): number {
+  return blocks.filter((block) => block.type === "place" || block.type === "hotel").length;
+}
+
+/**
+ * Rewrites the itinerary's days for a new date range
+ * Day N is dated startDate + N - 1. Missing days are appended as empty day blocks;
+ * days beyond the new length are either kept (still dated, and reported as surplus)
+ * or removed together with the blocks under them
+ */
+export function shiftTripDays(
+  editorData: EditorData,
+  startDate: Date,
+  dayCount: number,
+  removeSurplus: boolean = false
+): { editorData: EditorData; addedDays: number; surplusDays: SurplusTripDay[] } {
+  // Split blocks into a preamble (before the first day) and one section per day
+  const preamble: EditorBlockData[] = [];
+  const days: { day: EditorBlockData; blocks: EditorBlockData[] }[] = [];
+  for (const block of editorData.blocks) {
+    if (block.type === "day") {
+      days.push({ day: block, blocks: [] });
+    } else if (days.length > 0) {
+      days[days.length - 1].blocks.push(block);
+    } else {
+      preamble.push(block);
+    }
+  }
+
+  const surplusDays: SurplusTripDay[] = days.slice(dayCount).map(({ day, blocks }, index) => ({
+    blockId: day.id,
+    dayNumber: dayCount + index + 1,
+    title: typeof day.data.title === "string" ? day.data.title : "",
+    placeCount: countPlaces(blocks),
+  }));
+
+  const keptDays = removeSurplus ? days.slice(0, dayCount) : days;
+  const blocks: EditorBlockData[] = [...preamble];
+
+  keptDays.forEach(({ day, blocks: dayBlocks }, index) => {
+    blocks.push({
+      ...day,
+      data: {
+        ...day.data,
+        dayNumber: index + 1,
+        date: toDayDate(addDays(startDate, index)),
+      },
+    });
+    blocks.push(...dayBlocks);
+  });
+
+  const addedDays = Math.max(0, dayCount - days.length);
+  for (let index = days.length; index < dayCount; index++) {
+    blocks.push({
+      id: crypto.randomUUID(),
+      type: "day",
+      data: {
+        dayNumber: index + 1,
+        date: toDayDate(addDays(startDate, index)),
+        title: "",
+        region: "",
+      },
+    });
+  }
+
+  return {
+    editorData: { ...editorData, time: Date.now(), blocks },
+    addedDays,
+    surplusDays,
+  };
+}
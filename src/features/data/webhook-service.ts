@@ -0,0 +1,576 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import db from "@/services/database/client";
+import {
+  WebhookEvent,
+  WebhookSummary,
+  WebhookDeliverySummary,
+  WebhookDeliveryStatus,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookResponse,
+  ListWebhooksResponse,
+  DeleteWebhookResponse,
+  ListWebhookDeliveriesResponse,
+  SendTestWebhookResponse,
+} from "./types";
+
+// Events users can subscribe to; "webhook.test" is only sent on request
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "itinerary.created",
+  "itinerary.updated",
+  "itinerary.deleted",
+  "generation.completed",
+];
+
+const MAX_WEBHOOKS_PER_USER = 10;
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 30 * 1000; // 30s, 2m, 8m, 32m between attempts
+const DELIVERY_TIMEOUT = 10 * 1000;
+const DELIVERY_LOG_LIMIT = 50;
+// Autosave writes every few seconds while someone types, so updates are sent once edits
+// pause, or at the latest after UPDATE_EVENT_MAX_WAIT of continuous editing
+const UPDATE_EVENT_DELAY = 60 * 1000;
+const UPDATE_EVENT_MAX_WAIT = 5 * 60 * 1000;
+
+const pendingUpdateEvents = new Map<string, { timer: NodeJS.Timeout; since: number }>();
+
+type WebhookRow = {
+  id: string;
+  url: string;
+  secret: string;
+  events: unknown;
+  active: boolean;
+  createdAt: Date;
+};
+
+type DeliveryRow = {
+  id: string;
+  event: string;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+};
+
+function parseEvents(events: unknown): WebhookEvent[] {
+  return Array.isArray(events)
+    ? events.filter((event): event is WebhookEvent => WEBHOOK_EVENTS.includes(event))
+    : [];
+}
+
+function toDeliverySummary(delivery: DeliveryRow): WebhookDeliverySummary {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    status: delivery.status as WebhookDeliveryStatus,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus ?? undefined,
+    error: delivery.error || undefined,
+    nextAttemptAt: delivery.nextAttemptAt || undefined,
+    deliveredAt: delivery.deliveredAt || undefined,
+    createdAt: delivery.createdAt,
+  };
+}
+
+function toWebhookSummary(
+  webhook: WebhookRow & { deliveries?: DeliveryRow[] }
+): WebhookSummary {
+  const lastDelivery = webhook.deliveries?.[0];
+
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    secret: webhook.secret,
+    events: parseEvents(webhook.events),
+    active: webhook.active,
+    createdAt: webhook.createdAt,
+    lastDelivery: lastDelivery && {
+      status: lastDelivery.status as WebhookDeliveryStatus,
+      createdAt: lastDelivery.createdAt,
+      responseStatus: lastDelivery.responseStatus ?? undefined,
+    },
+  };
+}
+
+const LAST_DELIVERY_INCLUDE = {
+  deliveries: { orderBy: { createdAt: "desc" }, take: 1 },
+} as const;
+
+/**
+ * Checks a webhook URL and event list
+ * @returns An error message, or null when valid
+ */
+function validateWebhook(url?: string, events?: WebhookEvent[]): string | null {
+  if (url !== undefined) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return "Enter a valid URL";
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      return "Webhook URLs must use http or https";
+    }
+  }
+  if (events !== undefined) {
+    if (events.length === 0) {
+      return "Select at least one event";
+    }
+    if (events.some((event) => !WEBHOOK_EVENTS.includes(event))) {
+      return "Unknown webhook event";
+    }
+  }
+  return null;
+}
+
+/**
+ * Signs a payload the way receivers verify it:
+ * X-Itera-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" keyed with the webhook secret>
+ */
+function signPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Makes one attempt at a delivery and records the outcome
+ * The attempt first claims the delivery by clearing nextAttemptAt, so a scheduled retry and
+ * the catch-up sweep never send the same attempt twice. Failures are rescheduled with
+ * exponential backoff until MAX_DELIVERY_ATTEMPTS, unless retry is false.
+ */
+async function attemptDelivery(
+  deliveryId: string,
+  scheduledAt: Date,
+  retry: boolean = true
+): Promise<void> {
+  try {
+    const { count } = await db.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: "pending", nextAttemptAt: scheduledAt },
+      data: { nextAttemptAt: null },
+    });
+    if (count === 0) return;
+
+    const delivery = await db.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+    if (!delivery) return;
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!delivery.webhook.active) {
+      error = "Webhook is disabled";
+    } else {
+      try {
+        const response = await fetch(delivery.webhook.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "Itera-Notes-Webhooks/1.0",
+            "X-Itera-Event": delivery.event,
+            "X-Itera-Delivery": delivery.id,
+            "X-Itera-Signature": signPayload(
+              delivery.webhook.secret,
+              Math.floor(Date.now() / 1000),
+              delivery.payload
+            ),
+          },
+          body: delivery.payload,
+          redirect: "manual",
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+        });
+        responseStatus = response.status;
+        if (!response.ok) {
+          error = `Receiver responded with ${response.status}`;
+        }
+      } catch (fetchError) {
+        error = fetchError instanceof Error ? fetchError.message : "Request failed";
+      }
+    }
+
+    if (!error) {
+      await db.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: "succeeded", attempts, responseStatus, error: null, deliveredAt: new Date() },
+      });
+      console.log("📤 Webhook delivered:", { deliveryId, event: delivery.event, attempts });
+      return;
+    }
+
+    const canRetry = retry && delivery.webhook.active && attempts < MAX_DELIVERY_ATTEMPTS;
+    const nextAttemptAt = canRetry
+      ? new Date(Date.now() + RETRY_BASE_DELAY * 4 ** (attempts - 1))
+      : null;
+
+    await db.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: canRetry ? "pending" : "failed",
+        attempts,
+        responseStatus,
+        error,
+        nextAttemptAt,
+      },
+    });
+
+    console.warn("⚠️ Webhook delivery failed:", { deliveryId, attempts, error, retrying: canRetry });
+
+    if (nextAttemptAt) {
+      scheduleDelivery(deliveryId, nextAttemptAt);
+    }
+  } catch (error) {
+    console.error("❌ Error delivering webhook:", error);
+  }
+}
+
+function scheduleDelivery(deliveryId: string, attemptAt: Date) {
+  const timer = setTimeout(() => {
+    void attemptDelivery(deliveryId, attemptAt);
+  }, Math.max(0, attemptAt.getTime() - Date.now()));
+  // Pending retries shouldn't keep the process alive; the catch-up sweep picks them up after a restart
+  timer.unref?.();
+}
+
+/**
+ * Retries deliveries whose next attempt is overdue, e.g. because the server restarted
+ * while they were waiting
+ */
+async function retryDueDeliveries(): Promise<void> {
+  try {
+    const due = await db.webhookDelivery.findMany({
+      where: { status: "pending", nextAttemptAt: { lte: new Date(Date.now() - DELIVERY_TIMEOUT) } },
+      select: { id: true, nextAttemptAt: true },
+      take: 20,
+    });
+
+    for (const delivery of due) {
+      void attemptDelivery(delivery.id, delivery.nextAttemptAt!);
+    }
+  } catch (error) {
+    console.error("❌ Error retrying webhook deliveries:", error);
+  }
+}
+
+/**
+ * Queues an event for every active webhook of the user subscribed to it
+ * Deliveries run in the background, so callers never wait on receivers; failures are
+ * logged, never thrown
+ */
+export async function dispatchWebhookEvent(
+  userId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const webhooks = await db.webhook.findMany({
+      where: { userId, active: true },
+      select: { id: true, events: true },
+    });
+    const subscribed = webhooks.filter((webhook) => parseEvents(webhook.events).includes(event));
+
+    if (subscribed.length > 0) {
+      const payload = JSON.stringify({
+        id: randomUUID(),
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      });
+
+      for (const webhook of subscribed) {
+        const delivery = await db.webhookDelivery.create({
+          data: { webhookId: webhook.id, event, payload, nextAttemptAt: new Date() },
+          select: { id: true, nextAttemptAt: true },
+        });
+        void attemptDelivery(delivery.id, delivery.nextAttemptAt!);
+      }
+
+      console.log("📤 Webhook event queued:", { event, webhooks: subscribed.length });
+    }
+
+    void retryDueDeliveries();
+  } catch (error) {
+    console.error("❌ Error dispatching webhook event:", error);
+  }
+}
+
+async function sendItineraryEvent(
+  event: Extract<WebhookEvent, `itinerary.${string}`>,
+  itineraryId: string
+): Promise<void> {
+  try {
+    const itinerary = await db.itinerary.findUnique({
+      where: { id: itineraryId },
+      select: {
+        id: true,
+        userId: true,
+        title: true,
+        destination: true,
+        startDate: true,
+        endDate: true,
+        hash: true,
+        updatedAt: true,
+      },
+    });
+    if (!itinerary) return;
+
+    const { userId, ...details } = itinerary;
+    await dispatchWebhookEvent(userId, event, { itinerary: details });
+  } catch (error) {
+    console.error("❌ Error dispatching itinerary event:", error);
+  }
+}
+
+/**
+ * Sends an itinerary event to the owner's webhooks with the itinerary's current details
+ * Updates are coalesced per itinerary: a burst of saves sends a single event with the
+ * details as of its last save. Pending updates are dropped if the server restarts
+ */
+export async function dispatchItineraryEvent(
+  event: Extract<WebhookEvent, `itinerary.${string}`>,
+  itineraryId: string
+): Promise<void> {
+  const pending = pendingUpdateEvents.get(itineraryId);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingUpdateEvents.delete(itineraryId);
+  }
+
+  if (event !== "itinerary.updated") {
+    await sendItineraryEvent(event, itineraryId);
+    return;
+  }
+
+  const since = pending?.since ?? Date.now();
+  const delay = Math.min(UPDATE_EVENT_DELAY, Math.max(0, since + UPDATE_EVENT_MAX_WAIT - Date.now()));
+  const timer = setTimeout(() => {
+    pendingUpdateEvents.delete(itineraryId);
+    void sendItineraryEvent(event, itineraryId);
+  }, delay);
+  timer.unref?.();
+  pendingUpdateEvents.set(itineraryId, { timer, since });
+}
+
+/**
+ * Registers a webhook endpoint with a fresh signing secret
+ */
+export async function createWebhook(
+  userId: string,
+  request: CreateWebhookRequest
+): Promise<WebhookResponse> {
+  console.log("🪝 Creating webhook:", { url: request.url, events: request.events });
+
+  try {
+    const url = request.url.trim();
+    const validationError = validateWebhook(url, request.events);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const count = await db.webhook.count({ where: { userId } });
+    if (count >= MAX_WEBHOOKS_PER_USER) {
+      return {
+        success: false,
+        error: `You can have at most ${MAX_WEBHOOKS_PER_USER} webhooks`,
+      };
+    }
+
+    const webhook = await db.webhook.create({
+      data: {
+        userId,
+        url,
+        secret: "whsec_" + randomBytes(24).toString("base64url"),
+        events: [...new Set(request.events)],
+      },
+    });
+
+    console.log("✅ Webhook created:", webhook.id);
+    return { success: true, data: toWebhookSummary(webhook) };
+  } catch (error) {
+    console.error("❌ Error creating webhook:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Lists the user's webhooks with the outcome of their latest delivery
+ */
+export async function listWebhooks(userId: string): Promise<ListWebhooksResponse> {
+  try {
+    const webhooks = await db.webhook.findMany({
+      where: { userId },
+      include: LAST_DELIVERY_INCLUDE,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return { success: true, data: webhooks.map(toWebhookSummary) };
+  } catch (error) {
+    console.error("❌ Error listing webhooks:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Changes a webhook's URL, events or whether it's active
+ */
+export async function updateWebhook(
+  userId: string,
+  webhookId: string,
+  updates: UpdateWebhookRequest
+): Promise<WebhookResponse> {
+  console.log("🪝 Updating webhook:", webhookId, updates);
+
+  try {
+    const url = updates.url?.trim();
+    const validationError = validateWebhook(url, updates.events);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const { count } = await db.webhook.updateMany({
+      where: { id: webhookId, userId },
+      data: {
+        url,
+        events: updates.events && [...new Set(updates.events)],
+        active: updates.active,
+      },
+    });
+    if (count === 0) {
+      return { success: false, error: "Webhook not found" };
+    }
+
+    const webhook = await db.webhook.findUniqueOrThrow({
+      where: { id: webhookId },
+      include: LAST_DELIVERY_INCLUDE,
+    });
+    return { success: true, data: toWebhookSummary(webhook) };
+  } catch (error) {
+    console.error("❌ Error updating webhook:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Deletes a webhook together with its delivery log
+ */
+export async function deleteWebhook(
+  userId: string,
+  webhookId: string
+): Promise<DeleteWebhookResponse> {
+  console.log("🪝 Deleting webhook:", webhookId);
+
+  try {
+    const { count } = await db.webhook.deleteMany({
+      where: { id: webhookId, userId },
+    });
+
+    if (count === 0) {
+      return { success: false, error: "Webhook not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error deleting webhook:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Lists a webhook's most recent deliveries, newest first
+ */
+export async function listWebhookDeliveries(
+  userId: string,
+  webhookId: string
+): Promise<ListWebhookDeliveriesResponse> {
+  try {
+    const webhook = await db.webhook.findFirst({
+      where: { id: webhookId, userId },
+      select: { id: true },
+    });
+    if (!webhook) {
+      return { success: false, error: "Webhook not found" };
+    }
+
+    const deliveries = await db.webhookDelivery.findMany({
+      where: { webhookId },
+      orderBy: { createdAt: "desc" },
+      take: DELIVERY_LOG_LIMIT,
+    });
+
+    return { success: true, data: deliveries.map(toDeliverySummary) };
+  } catch (error) {
+    console.error("❌ Error listing webhook deliveries:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Sends a "webhook.test" event to a single webhook and waits for the attempt
+ * Test events are not retried, so the result shows right away whether the receiver works
+ */
+export async function sendTestWebhook(
+  userId: string,
+  webhookId: string
+): Promise<SendTestWebhookResponse> {
+  console.log("🪝 Sending test event to webhook:", webhookId);
+
+  try {
+    const webhook = await db.webhook.findFirst({
+      where: { id: webhookId, userId },
+      select: { id: true, active: true },
+    });
+    if (!webhook) {
+      return { success: false, error: "Webhook not found" };
+    }
+    if (!webhook.active) {
+      return { success: false, error: "Enable the webhook before sending a test event" };
+    }
+
+    const event: WebhookEvent = "webhook.test";
+    const delivery = await db.webhookDelivery.create({
+      data: {
+        webhookId,
+        event,
+        payload: JSON.stringify({
+          id: randomUUID(),
+          event,
+          createdAt: new Date().toISOString(),
+          data: { message: "This is a test event from Itera Notes" },
+        }),
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    await attemptDelivery(delivery.id, delivery.nextAttemptAt!, false);
+
+    const result = await db.webhookDelivery.findUniqueOrThrow({
+      where: { id: delivery.id },
+    });
+    return { success: true, data: toDeliverySummary(result) };
+  } catch (error) {
+    console.error("❌ Error sending test webhook:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
@@ -11,6 +11,7 @@ import {
   extractDrivingTimes,
 } from "@/features/editor/actions/directions";
 import { getDayColor } from "@/features/map/utils/colors";
+import { getDirectionsInputHash } from "./inputHash";
 import { PlaceBlockData, HotelBlockData } from "@/features/editor/types";
 
 /**
@@ -133,18 +134,23 @@ function convertPlaceLocationsToPlaceData(itinerary: GeneratedItinerary): PlaceB
 /**
  * Calculate directions for multiple days with cross-day connections
  * This version is specifically for editor context where we have place metadata
+ * Days whose input hash matches previousInputHashes are skipped and listed in unchangedDays;
+ * the caller keeps their stored routes and driving times
  */
 export async function calculateDirectionsForDaysWithCrossDayConnections(
   placesByDay: { [dayIndex: number]: PlaceCoordinate[] },
-  allPlacesData: (PlaceBlockData | HotelBlockData)[]
+  allPlacesData: (PlaceBlockData | HotelBlockData)[],
+  previousInputHashes: { [dayIndex: number]: string } = {}
 ): Promise<{
   directions: DirectionsData[];
   drivingTimesByUid: { [uid: string]: { time: number; distance: number } };
+  unchangedDays: number[];
 }> {
   const directionsResults: DirectionsData[] = [];
   const drivingTimesByUid: {
     [uid: string]: { time: number; distance: number };
   } = {};
+  const unchangedDays: number[] = [];
 
   const dayIndices = Object.keys(placesByDay).map(k => parseInt(k)).sort((a, b) => a - b);
   
@@ -187,6 +193,13 @@ export async function calculateDirectionsForDaysWithCrossDayConnections(
       continue;
     }
 
+    const inputHash = getDirectionsInputHash(places);
+    if (previousInputHashes[dayIndex] === inputHash) {
+      console.log(`♻️ Day ${dayNumber}: Route inputs unchanged, keeping stored directions`);
+      unchangedDays.push(dayIndex);
+      continue;
+    }
+
     console.log(
       `🚗 Day ${dayNumber}: Calculating directions for ${places.length} places (${i > 0 ? 'including cross-day connection' : 'first day'})`
     );
@@ -235,6 +248,7 @@ export async function calculateDirectionsForDaysWithCrossDayConnections(
         dayIndex,
         color: dayColor,
         directionsResult: directionsResponse,
+        inputHash,
       });
 
       const routeType = directionsResponse.isFallbackStraightLine
@@ -257,12 +271,13 @@ export async function calculateDirectionsForDaysWithCrossDayConnections(
   const realRoutesCount = directionsResults.length - fallbackCount;
 
   console.log(
-    `✅ Cross-day directions calculation completed - ${realRoutesCount} driving routes, ${fallbackCount} straight-line fallbacks`
+    `✅ Cross-day directions calculation completed - ${realRoutesCount} driving routes, ${fallbackCount} straight-line fallbacks, ${unchangedDays.length} unchanged days`
   );
 
   return {
     directions: directionsResults,
     drivingTimesByUid,
+    unchangedDays,
   };
 }
 
@@ -0,0 +1,20 @@
+import { createHash } from "crypto";
+import type { PlaceCoordinate } from "@/services/google/directions";
+
+// ~10cm; finer differences come from float noise, not moved places
+const COORDINATE_PRECISION = 6;
+
+/**
+ * Hashes what a day's route is calculated from: its stops in order and the travel mode
+ * The stops include the previous day's end point when the route starts there
+ */
+export function getDirectionsInputHash(
+  places: PlaceCoordinate[],
+  travelMode: string = "driving"
+): string {
+  const stops = places
+    .map((place) => `${place.lat.toFixed(COORDINATE_PRECISION)},${place.lng.toFixed(COORDINATE_PRECISION)}`)
+    .join(";");
+
+  return createHash("sha256").update(`${travelMode}|${stops}`).digest("hex");
+}
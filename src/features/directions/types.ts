@@ -17,4 +17,11 @@ export interface DirectionsData {
   dayIndex: number;
   color: string;
   directionsResult: DirectionsResponse;
+  inputHash?: string; // Hash of the day's ordered coordinates and travel mode the route was calculated from
+}
+
+// Outcome of a route refresh, so the UI can tell which days were recalculated
+export interface DirectionsRefreshSummary {
+  refreshedDays: number[]; // 0-based day indices whose routes were recalculated
+  unchangedDays: number[]; // Days whose inputs matched their stored route
 }
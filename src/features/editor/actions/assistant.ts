@@ -0,0 +1,68 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { checkUsageQuota } from "@/features/data/usage-service";
+import { runWithUsageContext } from "@/services/logging/usageContext";
+import {
+  planItineraryEdits,
+  type ItineraryEditRequest,
+} from "@/services/openai/itinerary";
+import { assistantHistorySchema } from "@/features/assistant/schema";
+import type { AssistantPlan } from "@/features/assistant/types";
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+/**
+ * Plans the edits for one assistant instruction
+ * The operations are validated against the editor data sent with the request, but are
+ * applied by the editor so they can be previewed and undone
+ */
+export async function planItineraryEditsAction(
+  request: ItineraryEditRequest
+): Promise<{ success: boolean; data?: AssistantPlan; error?: string }> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, error: "Authentication required" };
+    }
+    const userId = session.user.id;
+
+    const instruction = request.instruction.trim();
+    if (!instruction) {
+      return { success: false, error: "Instruction is required" };
+    }
+    if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+      return {
+        success: false,
+        error: `Instructions must be ${MAX_INSTRUCTION_LENGTH} characters or less`,
+      };
+    }
+
+    const historyResult = assistantHistorySchema.safeParse(request.history);
+    if (!historyResult.success) {
+      return { success: false, error: historyResult.error.errors[0].message };
+    }
+
+    // New places are looked up on Google Places after planning
+    for (const service of ["openai", "google"] as const) {
+      const quota = await checkUsageQuota(userId, service);
+      if (!quota.success) {
+        return { success: false, error: quota.error };
+      }
+    }
+
+    console.log(`💬 Planning itinerary edits: "${instruction}"`);
+    const plan = await runWithUsageContext({ userId }, () =>
+      planItineraryEdits({ ...request, instruction, history: historyResult.data })
+    );
+
+    console.log(`✅ Planned ${plan.operations.length} itinerary edits`);
+    return { success: true, data: plan };
+  } catch (error) {
+    console.error("❌ Error planning itinerary edits:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to plan itinerary edits",
+    };
+  }
+}
@@ -5,6 +5,8 @@ import {
   PlaceCoordinate,
   DirectionsResponse,
 } from "@/services/google/directions";
+import { runWithUsageContext } from "@/services/logging/usageContext";
+import { getGoogleUsageContext } from "./usage";
 
 // Get API key from environment
 const getApiKey = () => {
@@ -26,10 +28,17 @@ export async function calculateDirections(
       `🚗 Server Action: Calculating directions for ${places.length} places`
     );
 
+    const usage = await getGoogleUsageContext();
+    if ("error" in usage) {
+      throw new Error(usage.error);
+    }
+
     const apiKey = getApiKey();
     const directionsService = new GoogleDirectionsService(apiKey);
 
-    const response = await directionsService.calculateDirections(places);
+    const response = await runWithUsageContext(usage.context, () =>
+      directionsService.calculateDirections(places)
+    );
 
     console.log(`✅ Server Action: Directions calculated successfully`);
     return response;
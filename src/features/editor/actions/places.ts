@@ -1,6 +1,8 @@
 "use server";
 
 import { googlePlacesService } from "@/services/google/places";
+import { runWithUsageContext } from "@/services/logging/usageContext";
+import { getGoogleUsageContext } from "./usage";
 import type { PlaceSearchResult, PlaceDetails } from "../types";
 
 export async function searchPlacesAction(
@@ -11,7 +13,15 @@ export async function searchPlacesAction(
       return [];
     }
 
-    const results = await googlePlacesService.searchPlaces(query.trim());
+    const usage = await getGoogleUsageContext();
+    if ("error" in usage) {
+      console.warn("⚠️ Search places skipped:", usage.error);
+      return [];
+    }
+
+    const results = await runWithUsageContext(usage.context, () =>
+      googlePlacesService.searchPlaces(query.trim())
+    );
 
     // Return top 5 results to keep it manageable
     return results.slice(0, 5);
@@ -29,7 +39,15 @@ export async function getPlaceDetailsAction(
       return null;
     }
 
-    const details = await googlePlacesService.getPlaceDetails(placeId);
+    const usage = await getGoogleUsageContext();
+    if ("error" in usage) {
+      console.warn("⚠️ Get place details skipped:", usage.error);
+      return null;
+    }
+
+    const details = await runWithUsageContext(usage.context, () =>
+      googlePlacesService.getPlaceDetails(placeId)
+    );
     return details;
   } catch (error) {
     console.error("Get place details action error:", error);
@@ -58,8 +76,13 @@ export async function findPlaceByNameAction(placeName: string): Promise<{
       return { success: false, error: "Place name too short" };
     }
 
-    const placeResult = await googlePlacesService.findPlaceByName(
-      placeName.trim()
+    const usage = await getGoogleUsageContext();
+    if ("error" in usage) {
+      return { success: false, error: usage.error };
+    }
+
+    const placeResult = await runWithUsageContext(usage.context, () =>
+      googlePlacesService.findPlaceByName(placeName.trim())
     );
 
     if (!placeResult) {
@@ -67,8 +90,8 @@ export async function findPlaceByNameAction(placeName: string): Promise<{
     }
 
     // Get detailed information
-    const placeDetails = await googlePlacesService.getPlaceDetails(
-      placeResult.place_id
+    const placeDetails = await runWithUsageContext(usage.context, () =>
+      googlePlacesService.getPlaceDetails(placeResult.place_id)
     );
 
     if (!placeDetails) {
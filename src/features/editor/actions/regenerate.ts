@@ -0,0 +1,61 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { checkUsageQuota } from "@/features/data/usage-service";
+import { runWithUsageContext } from "@/services/logging/usageContext";
+import {
+  regenerateItineraryDay,
+  type DayRegenerationRequest,
+  type ItineraryDay,
+} from "@/services/openai/itinerary";
+
+const MAX_INSTRUCTIONS_LENGTH = 500;
+
+/**
+ * Regenerates a single day of an itinerary with an LLM
+ * The editor sends the surrounding days and places already in use, and replaces the
+ * day's blocks with the result
+ */
+export async function regenerateDayAction(
+  request: DayRegenerationRequest
+): Promise<{ success: boolean; data?: ItineraryDay; error?: string }> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, error: "Authentication required" };
+    }
+    const userId = session.user.id;
+
+    if (!Number.isInteger(request.dayNumber) || request.dayNumber < 1) {
+      return { success: false, error: "Invalid day number" };
+    }
+    if ((request.instructions?.length || 0) > MAX_INSTRUCTIONS_LENGTH) {
+      return {
+        success: false,
+        error: `Instructions must be ${MAX_INSTRUCTIONS_LENGTH} characters or less`,
+      };
+    }
+
+    const quota = await checkUsageQuota(userId, "openai");
+    if (!quota.success) {
+      return { success: false, error: quota.error };
+    }
+
+    console.log(`🔄 Regenerating day ${request.dayNumber} of "${request.tripTitle}"`);
+    const day = await runWithUsageContext({ userId }, () =>
+      regenerateItineraryDay({
+        ...request,
+        instructions: request.instructions?.trim() || undefined,
+      })
+    );
+
+    console.log(`✅ Regenerated day ${request.dayNumber} with ${day.places.length} places`);
+    return { success: true, data: day };
+  } catch (error) {
+    console.error("❌ Error regenerating day:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to regenerate day",
+    };
+  }
+}
@@ -0,0 +1,48 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { checkUsageQuota } from "@/features/data/usage-service";
+import { runWithUsageContext } from "@/services/logging/usageContext";
+import { suggestPlacesForDay } from "@/features/suggestions/engine";
+import { placeSuggestionRequestSchema } from "@/features/suggestions/schema";
+import type {
+  PlaceSuggestion,
+  PlaceSuggestionRequest,
+} from "@/features/suggestions/types";
+
+/**
+ * Suggests places to add to a day, near its route and matching the trip's interests
+ */
+export async function suggestPlacesAction(
+  request: PlaceSuggestionRequest
+): Promise<{ success: boolean; data?: PlaceSuggestion[]; error?: string }> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return { success: false, error: "Authentication required" };
+    }
+    const userId = session.user.id;
+
+    const validationResult = placeSuggestionRequestSchema.safeParse(request);
+    if (!validationResult.success) {
+      return { success: false, error: validationResult.error.errors[0].message };
+    }
+
+    // Suggestions use both the model and Google Places
+    for (const service of ["openai", "google"] as const) {
+      const quota = await checkUsageQuota(userId, service);
+      if (!quota.success) {
+        return { success: false, error: quota.error };
+      }
+    }
+
+    const suggestions = await runWithUsageContext({ userId }, () =>
+      suggestPlacesForDay(validationResult.data)
+    );
+
+    return { success: true, data: suggestions };
+  } catch (error) {
+    console.error("❌ Error suggesting places:", error);
+    return { success: false, error: "Failed to suggest places" };
+  }
+}
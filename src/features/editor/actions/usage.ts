@@ -0,0 +1,23 @@
+import { auth } from "@/lib/auth";
+import { checkUsageQuota } from "@/features/data/usage-service";
+import { UsageContext } from "@/services/logging/usageContext";
+
+/**
+ * Resolves who a Google call is made for and checks their Google quota
+ * Signed-out callers get an empty context: their calls are recorded without a user
+ * @returns The usage context to run the call in, or the quota error to report
+ */
+export async function getGoogleUsageContext(): Promise<{ context: UsageContext } | { error: string }> {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) {
+    return { context: {} };
+  }
+
+  const quota = await checkUsageQuota(userId, "google");
+  if (!quota.success) {
+    return { error: quota.error || "Google Maps usage limit reached" };
+  }
+
+  return { context: { userId } };
+}
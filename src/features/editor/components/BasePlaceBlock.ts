@@ -37,6 +37,7 @@ export function triggerPlaceNumberingUpdate() {
 
 export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
   protected data: T;
+  protected readOnly: boolean; // Shown without editing, e.g. on the share page
   protected wrapper: HTMLElement | null = null;
   protected isExpanded: boolean = false;
   protected imagePopover: HTMLElement | null = null;
@@ -61,8 +62,13 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
   protected abstract createDefaultData(data?: Partial<T>): T;
   protected abstract getPlaceNumberDisplay(placeNumber: number): string;
 
-  constructor({ data }: { data?: Partial<T> }) {
+  static get isReadOnlySupported() {
+    return true;
+  }
+
+  constructor({ data, readOnly }: { data?: Partial<T>; readOnly?: boolean }) {
     this.data = this.createDefaultData(data);
+    this.readOnly = !!readOnly;
 
     // Listen for driving time updates
     if (typeof window !== "undefined") {
@@ -397,7 +403,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
     `;
 
     // Start in editing mode if no place is set
-    const shouldStartEditing = !this.data.placeId && !this.data.name;
+    const shouldStartEditing = !this.readOnly && !this.data.placeId && !this.data.name;
 
     // Use setTimeout to ensure DOM is fully updated before calculating place numbers
     setTimeout(() => {
@@ -563,6 +569,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
 
   protected renderCollapsed(isEditing: boolean = false) {
     if (!this.wrapper) return;
+    if (this.readOnly) isEditing = false;
 
     // Clean up existing autocomplete instance when switching modes
     if (!isEditing) {
@@ -1012,6 +1019,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
 
       // Make place name clickable to enter edit mode
       placeName.addEventListener("click", (e) => {
+        if (this.readOnly) return;
         e.stopPropagation();
         this.renderCollapsed(true);
       });
@@ -1031,6 +1039,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
       placeholderText.textContent = this.getClickPlaceholder();
 
       placeholderText.addEventListener("click", (e) => {
+        if (this.readOnly) return;
         e.stopPropagation();
         this.renderCollapsed(true);
       });
@@ -1066,6 +1075,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
 
       // Make place name clickable to enter edit mode
       placeName.addEventListener("click", (e) => {
+        if (this.readOnly) return;
         e.stopPropagation();
         this.renderCollapsed(true);
       });
@@ -1156,14 +1166,16 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
 
     // Action buttons (show when not editing and has a name)
     if (!isEditing && this.data.name) {
-      const buttonsContainer = document.createElement("div");
-      buttonsContainer.style.cssText =
-        "display: flex; align-items: center; gap: 4px; margin-right: 4px;";
+      if (!this.readOnly) {
+        const buttonsContainer = document.createElement("div");
+        buttonsContainer.style.cssText =
+          "display: flex; align-items: center; gap: 4px; margin-right: 4px;";
 
-      // Create all buttons in the correct order
-      this.createActionButtonsInOrder(buttonsContainer);
+        // Create all buttons in the correct order
+        this.createActionButtonsInOrder(buttonsContainer);
 
-      rightContent.appendChild(buttonsContainer);
+        rightContent.appendChild(buttonsContainer);
+      }
 
       // Expand arrow
       const expandArrow = document.createElement("div");
@@ -1301,19 +1313,21 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
     // }
 
     // Make place name clickable to enter edit mode
-    placeName.style.cursor = "pointer";
-    placeName.addEventListener("click", (e) => {
-      e.stopPropagation();
-      this.renderCollapsed(true);
-    });
+    if (!this.readOnly) {
+      placeName.style.cursor = "pointer";
+      placeName.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this.renderCollapsed(true);
+      });
 
-    placeName.addEventListener("mouseenter", () => {
-      placeName.style.textDecoration = "underline";
-    });
+      placeName.addEventListener("mouseenter", () => {
+        placeName.style.textDecoration = "underline";
+      });
 
-    placeName.addEventListener("mouseleave", () => {
-      placeName.style.textDecoration = "none";
-    });
+      placeName.addEventListener("mouseleave", () => {
+        placeName.style.textDecoration = "none";
+      });
+    }
 
     // Collapse arrow
     const collapseArrow = document.createElement("div");
@@ -1333,7 +1347,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
 
     header.addEventListener("click", (e) => {
       // Check if click was on place name (which should trigger edit mode)
-      if (e.target === placeName) {
+      if (e.target === placeName && !this.readOnly) {
         // Place name click is handled by its own event listener
         return;
       }
@@ -1576,6 +1590,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
       margin-bottom: 16px;
     `;
     notesTextarea.rows = 3;
+    notesTextarea.readOnly = this.readOnly;
 
     notesTextarea.addEventListener("input", (e) => {
       this.data.notes = (e.target as HTMLTextAreaElement).value;
@@ -1648,8 +1663,13 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
     this.wrapper.appendChild(header);
     this.wrapper.appendChild(imagesSection);
     this.wrapper.appendChild(detailsSection);
-    this.wrapper.appendChild(notesTextarea);
-    this.wrapper.appendChild(saveButtonContainer);
+    if (!this.readOnly) {
+      this.wrapper.appendChild(notesTextarea);
+      this.wrapper.appendChild(saveButtonContainer);
+    } else if (this.data.notes) {
+      notesTextarea.style.resize = "none";
+      this.wrapper.appendChild(notesTextarea);
+    }
   }
 
   protected updateStatusIndicator(indicator: HTMLElement, status: string) {
@@ -1968,6 +1988,17 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
         buttonId: "hide-in-map",
       },
 
+      // Lock toggle button - locked blocks survive regenerating the day
+      {
+        iconPath: IconPaths.LOCK,
+        tooltip: this.data.locked
+          ? "Unlock (replace when regenerating day)"
+          : "Lock (keep when regenerating day)",
+        onClick: () => this.handleToggleLocked(),
+        isActive: this.data.locked || false,
+        buttonId: "locked",
+      },
+
       // Define as day finish toggle button
       {
         iconPath: IconPaths.FLAG,
@@ -2296,6 +2327,25 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
     );
   }
 
+  protected handleToggleLocked() {
+    this.data.locked = !this.data.locked;
+
+    // Re-render the collapsed view to show the updated button state
+    if (!this.isExpanded) {
+      this.renderCollapsed(false);
+    }
+
+    // Trigger editor change event
+    if (this.wrapper) {
+      const changeEvent = new Event("input", { bubbles: true });
+      this.wrapper.dispatchEvent(changeEvent);
+    }
+
+    console.log(
+      `🔒 ${this.blockType}: Locked toggled to ${this.data.locked} for ${this.data.name}`
+    );
+  }
+
   protected async handleSuggestSimilar() {
     if (this.autocompleteType !== "place") return; // Only for places
 
@@ -2371,6 +2421,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
       drivingDistanceFromPrevious: this.data.drivingDistanceFromPrevious,
       isDayFinish: this.data.isDayFinish,
       hideInMap: this.data.hideInMap,
+      locked: this.data.locked,
     };
   }
 
@@ -2416,6 +2467,7 @@ export abstract class BasePlaceBlock<T extends BasePlaceBlockData> {
       status: false,
       isDayFinish: false,
       hideInMap: false,
+      locked: false,
     };
   }
 }
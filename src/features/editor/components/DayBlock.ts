@@ -3,10 +3,12 @@ import { getDayColor } from "../../map/utils/colors";
 
 export default class DayBlock {
   private data: DayBlockData;
+  private readOnly: boolean; // Shown without editing, e.g. on the share page
   private wrapper: HTMLElement | null = null;
   private isExpanded: boolean = false;
   private actualDayNumber: number = 1; // Auto-calculated day number
   private orderObserver: MutationObserver | null = null; // Store observer for cleanup
+  private isRegenerating: boolean = false; // Waiting for the editor to replace this day's places
   
   // Editing state management
   private originalTitle: string = "";
@@ -25,7 +27,12 @@ export default class DayBlock {
     };
   }
 
-  constructor({ data }: { data?: DayBlockData }) {
+  static get isReadOnlySupported() {
+    return true;
+  }
+
+  constructor({ data, readOnly }: { data?: DayBlockData; readOnly?: boolean }) {
+    this.readOnly = !!readOnly;
     this.data = {
       dayNumber: data?.dayNumber || 1, // This will be overridden by auto-calculation
       date: data?.date || "",
@@ -89,7 +96,7 @@ export default class DayBlock {
       margin: 8px 0;
       background: linear-gradient(135deg, ${dayColor}15 0%, ${dayColor}25 100%);
       position: relative;
-      cursor: pointer;
+      cursor: ${this.readOnly ? "default" : "pointer"};
       transition: all 0.2s ease;
     `;
 
@@ -103,10 +110,18 @@ export default class DayBlock {
 
     this.renderCollapsed();
 
-    // Add click handler for expand/collapse
+    // Add click handler for expand/collapse (the expanded view is for editing)
     this.wrapper.addEventListener("click", (e) => {
       e.stopPropagation();
-      this.toggle();
+      if (!this.readOnly) this.toggle();
+    });
+
+    // The editor reports back once the day's blocks have been replaced (or it failed)
+    this.wrapper.addEventListener("dayblock:regenerateFinished", () => {
+      this.isRegenerating = false;
+      if (!this.isExpanded) {
+        this.renderCollapsed();
+      }
     });
 
     return this.wrapper;
@@ -211,7 +226,8 @@ export default class DayBlock {
       font-weight: 500;
       font-size: 14px;
     `;
-    titleDisplay.textContent = this.data.title || "Click to add title...";
+    titleDisplay.textContent =
+      this.data.title || (this.readOnly ? "" : "Click to add title...");
 
     // Right side controls
     const rightControls = document.createElement("div");
@@ -326,6 +342,78 @@ export default class DayBlock {
       this.addBlockAfterDay("hotel");
     });
 
+    // Suggest places button
+    const suggestBtn = document.createElement("button");
+    suggestBtn.title = "Suggest places near this day's route";
+    suggestBtn.style.cssText = `
+      background: #0ea5e9;
+      color: white;
+      border: none;
+      padding: 4px 8px;
+      border-radius: 6px;
+      font-size: 11px;
+      cursor: pointer;
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      transition: background-color 0.2s;
+    `;
+    suggestBtn.innerHTML = `
+      <svg width="12" height="12" viewBox="0 0 24 24" fill="none">
+        <path d="M9 18h6" stroke="currentColor" stroke-width="2"/>
+        <path d="M10 22h4" stroke="currentColor" stroke-width="2"/>
+        <path d="M12 2a7 7 0 0 0-4 12.74V16h8v-1.26A7 7 0 0 0 12 2z" stroke="currentColor" stroke-width="2" fill="none"/>
+      </svg>
+      Suggest
+    `;
+    suggestBtn.addEventListener("mouseenter", () => {
+      suggestBtn.style.backgroundColor = "#0284c7";
+    });
+    suggestBtn.addEventListener("mouseleave", () => {
+      suggestBtn.style.backgroundColor = "#0ea5e9";
+    });
+    suggestBtn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.requestSuggestions();
+    });
+
+    // Regenerate day button
+    const regenerateBtn = document.createElement("button");
+    regenerateBtn.disabled = this.isRegenerating;
+    regenerateBtn.title = "Plan this day again, keeping locked places";
+    regenerateBtn.style.cssText = `
+      background: #f59e0b;
+      color: white;
+      border: none;
+      padding: 4px 8px;
+      border-radius: 6px;
+      font-size: 11px;
+      cursor: ${this.isRegenerating ? "wait" : "pointer"};
+      opacity: ${this.isRegenerating ? "0.7" : "1"};
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      transition: background-color 0.2s;
+    `;
+    regenerateBtn.innerHTML = `
+      <svg width="12" height="12" viewBox="0 0 24 24" fill="none">
+        <polyline points="23,4 23,10 17,10" stroke="currentColor" stroke-width="2" fill="none"/>
+        <polyline points="1,20 1,14 7,14" stroke="currentColor" stroke-width="2" fill="none"/>
+        <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15" stroke="currentColor" stroke-width="2" fill="none"/>
+      </svg>
+      ${this.isRegenerating ? "Regenerating..." : "Regenerate"}
+    `;
+    regenerateBtn.addEventListener("mouseenter", () => {
+      if (!this.isRegenerating) regenerateBtn.style.backgroundColor = "#d97706";
+    });
+    regenerateBtn.addEventListener("mouseleave", () => {
+      regenerateBtn.style.backgroundColor = "#f59e0b";
+    });
+    regenerateBtn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.requestRegenerate();
+    });
+
     // Expand arrow
     const expandArrow = document.createElement("div");
     expandArrow.style.cssText = `
@@ -341,14 +429,33 @@ export default class DayBlock {
     leftContent.appendChild(colorSwatch);
     leftContent.appendChild(titleDisplay);
 
+    header.appendChild(leftContent);
+    this.wrapper.appendChild(header);
+
+    // Read-only days can't be expanded, so their date and region are shown here
+    if (this.readOnly) {
+      const details = [this.data.date, this.data.region].filter(Boolean).join(" · ");
+      if (details) {
+        const detailsDisplay = document.createElement("span");
+        detailsDisplay.style.cssText = `
+          color: #64748b;
+          font-size: 12px;
+          margin-left: 8px;
+        `;
+        detailsDisplay.textContent = details;
+        leftContent.appendChild(detailsDisplay);
+      }
+      return;
+    }
+
     rightControls.appendChild(addPlaceBtn);
     rightControls.appendChild(addHotelBtn);
     rightControls.appendChild(addTextBtn);
+    rightControls.appendChild(suggestBtn);
+    rightControls.appendChild(regenerateBtn);
     rightControls.appendChild(expandArrow);
 
-    header.appendChild(leftContent);
     header.appendChild(rightControls);
-    this.wrapper.appendChild(header);
   }
 
   private renderExpanded() {
@@ -728,6 +835,49 @@ export default class DayBlock {
     this.wrapper?.dispatchEvent(customEvent);
   }
 
+  private requestSuggestions() {
+    if (this.readOnly) return;
+
+    console.log(`DayBlock: Requesting suggestions for day ${this.actualDayNumber}`);
+
+    // The editor component looks up the day's route and shows the suggestions
+    const customEvent = new CustomEvent("dayblock:suggestPlaces", {
+      detail: {
+        dayBlockElement: this.wrapper,
+        dayNumber: this.actualDayNumber,
+      },
+      bubbles: true,
+    });
+
+    this.wrapper?.dispatchEvent(customEvent);
+  }
+
+  private requestRegenerate() {
+    if (this.readOnly || this.isRegenerating) return;
+
+    const instructions = window.prompt(
+      `Regenerate day ${this.actualDayNumber}? Locked places, locked hotels and your own notes are kept.\n\nOptional instructions (e.g. "more food, fewer museums"):`,
+      ""
+    );
+    if (instructions === null) return; // Cancelled
+
+    console.log(`DayBlock: Requesting regeneration of day ${this.actualDayNumber}`);
+    this.isRegenerating = true;
+    this.renderCollapsed();
+
+    // Like adding blocks, the editor component does the actual work
+    const customEvent = new CustomEvent("dayblock:regenerate", {
+      detail: {
+        dayBlockElement: this.wrapper,
+        dayNumber: this.actualDayNumber,
+        instructions: instructions.trim(),
+      },
+      bubbles: true,
+    });
+
+    this.wrapper?.dispatchEvent(customEvent);
+  }
+
   static get sanitize() {
     return {
       dayNumber: false,
@@ -52,6 +52,7 @@ export default class HotelBlock extends BasePlaceBlock<HotelBlockData> {
       drivingDistanceFromPrevious: data?.drivingDistanceFromPrevious || 0,
       isDayFinish: data?.isDayFinish || false,
       hideInMap: data?.hideInMap || false,
+      locked: data?.locked || false,
       __type: "hotel",
     };
   }
@@ -7,11 +7,13 @@ import type {
   EditorData,
   PlaceBlockData,
   BasePlaceBlockData,
+  DayBlockData,
 } from "../types";
-import {
-  PlaceCoordinate,
-  DirectionsResponse,
-} from "@/services/google/directions";
+import { PlaceCoordinate } from "@/services/google/directions";
+import type {
+  DirectionsData,
+  DirectionsRefreshSummary,
+} from "@/features/directions/types";
 import { useItinerary } from "@/contexts/ItineraryContext";
 import { calculateDirectionsForDaysWithCrossDayConnections } from "@/features/directions/generator";
 import { PlaceLocation } from "@/services/openai/itinerary";
@@ -20,6 +22,11 @@ import {
   emitFitDayBounds,
 } from "@/features/map/boundsManager";
 import { triggerPlaceNumberingUpdate } from "./BasePlaceBlock";
+import { regenerateDayAction } from "../actions/regenerate";
+import { suggestPlacesAction } from "../actions/suggestions";
+import PlaceSuggestionsPanel from "./PlaceSuggestionsPanel";
+import type { DayRegenerationRequest } from "@/services/openai/itinerary";
+import type { PlaceSuggestion, RouteStop } from "@/features/suggestions/types";
 import HeaderBlock from "@editorjs/header";
 import ParagraphBlock from "@editorjs/paragraph";
 import "./editorjs-global.css";
@@ -34,10 +41,14 @@ interface EditorBlocks {
     type: string,
     data?: Record<string, unknown>,
     config?: Record<string, unknown>,
-    index?: number
+    index?: number,
+    needToFocus?: boolean,
+    replace?: boolean,
+    id?: string
   ) => void;
   delete: (index?: number) => void;
   getBlocksCount: () => number;
+  getBlockIndex: (blockId: string) => number | undefined;
   getBlockByIndex: (index: number) => EditorBlock;
 }
 
@@ -126,6 +137,152 @@ function findBlockIndexById(editorData: EditorData, blockId: string): number {
   return blocks.findIndex(block => block.id === blockId);
 }
 
+// Helper function to collect what regenerating a day needs from the editor data:
+// the prompt context, the blocks to remove and the block to insert new places after
+function collectDayRegenerationContext(
+  editorData: EditorData,
+  dayBlockId: string,
+  instructions?: string
+): {
+  request: DayRegenerationRequest;
+  removeBlockIds: string[];
+  insertAfterBlockId: string;
+} | null {
+  const blocks = editorData.blocks || [];
+  const dayBlockIndex = findBlockIndexById(editorData, dayBlockId);
+  if (dayBlockIndex === -1) return null;
+
+  // Group place and hotel names by day
+  const days: {
+    blockIndex: number;
+    title?: string;
+    region?: string;
+    places: string[];
+  }[] = [];
+  blocks.forEach((block, index) => {
+    if (block.type === "day") {
+      const data = block.data as Partial<DayBlockData>;
+      days.push({ blockIndex: index, title: data.title, region: data.region, places: [] });
+    } else if ((block.type === "place" || block.type === "hotel") && days.length > 0) {
+      const name = (block.data as BasePlaceBlockData).name;
+      if (name) days[days.length - 1].places.push(name);
+    }
+  });
+  const dayIndex = days.findIndex((day) => day.blockIndex === dayBlockIndex);
+  const nextDayBlockIndex = days[dayIndex + 1]?.blockIndex ?? blocks.length;
+  const dayBlocks = blocks.slice(dayBlockIndex + 1, nextDayBlockIndex);
+
+  // Locked places and hotels stay, along with their linked paragraphs
+  const placeBlocks = dayBlocks.filter(
+    (block) => block.type === "place" || block.type === "hotel"
+  );
+  const keptBlocks = placeBlocks.filter(
+    (block) => (block.data as BasePlaceBlockData).locked
+  );
+  const removedPlaceBlocks = placeBlocks.filter(
+    (block) => !(block.data as BasePlaceBlockData).locked
+  );
+  const removeBlockIds = removedPlaceBlocks.flatMap((block) => [
+    block.id!,
+    (block.data as BasePlaceBlockData).linkedParagraphId!,
+  ]);
+
+  // The day description is replaced too; the user's own paragraphs stay
+  const linkedParagraphIds = new Set(
+    placeBlocks.map((block) => (block.data as BasePlaceBlockData).linkedParagraphId)
+  );
+  const firstBlock = dayBlocks[0];
+  if (firstBlock?.type === "paragraph" && !linkedParagraphIds.has(firstBlock.id)) {
+    removeBlockIds.push(firstBlock.id!);
+  }
+
+  // New places go after the last locked place (and its paragraph), before any hotels
+  const lastLockedPlace = [...keptBlocks].reverse().find((block) => block.type === "place");
+  const lockedParagraphId = (lastLockedPlace?.data as BasePlaceBlockData | undefined)
+    ?.linkedParagraphId;
+  const insertAfterBlockId =
+    (lockedParagraphId && findBlockIndexById(editorData, lockedParagraphId) !== -1
+      ? lockedParagraphId
+      : lastLockedPlace?.id) || dayBlockId;
+
+  const dayData = blocks[dayBlockIndex].data as Partial<DayBlockData>;
+  const keptPlaces = keptBlocks
+    .map((block) => (block.data as BasePlaceBlockData).name || "")
+    .filter(Boolean);
+  const usedPlaces = days
+    .filter((_, index) => index !== dayIndex)
+    .flatMap((day) => day.places);
+  const summarizeDay = (day?: (typeof days)[number]) =>
+    day && { title: day.title, region: day.region, places: day.places };
+  const header = blocks.find((block) => block.type === "header");
+  const tripTitle = String(header?.data.text || "").replace(/<[^>]*>/g, "").trim();
+
+  return {
+    request: {
+      tripTitle: tripTitle || "My trip",
+      dayNumber: dayIndex + 1,
+      date: dayData.date || undefined,
+      region: dayData.region || days[dayIndex - 1]?.region || undefined,
+      previousDay: summarizeDay(days[dayIndex - 1]),
+      nextDay: summarizeDay(days[dayIndex + 1]),
+      usedPlaces,
+      keptPlaces,
+      instructions,
+    },
+    removeBlockIds: removeBlockIds.filter(Boolean),
+    insertAfterBlockId,
+  };
+}
+
+// Helper function to collect a day's located places and hotels, in route order,
+// along with the blocks they came from
+function collectDayStops(
+  editorData: EditorData,
+  dayBlockId: string
+): {
+  region?: string;
+  stops: RouteStop[];
+  stopBlocks: { id: string; linkedParagraphId?: string }[];
+  excludePlaces: string[];
+} | null {
+  const blocks = editorData.blocks || [];
+  const dayBlockIndex = findBlockIndexById(editorData, dayBlockId);
+  if (dayBlockIndex === -1) return null;
+
+  const nextDayOffset = blocks
+    .slice(dayBlockIndex + 1)
+    .findIndex((block) => block.type === "day");
+  const dayEnd = nextDayOffset === -1 ? blocks.length : dayBlockIndex + 1 + nextDayOffset;
+
+  const stops: RouteStop[] = [];
+  const stopBlocks: { id: string; linkedParagraphId?: string }[] = [];
+  for (const block of blocks.slice(dayBlockIndex + 1, dayEnd)) {
+    if (block.type !== "place" && block.type !== "hotel") continue;
+    const data = block.data as BasePlaceBlockData;
+    if (!block.id || !data.lat || !data.lng) continue;
+
+    stops.push({
+      name: data.name || "Unnamed place",
+      lat: data.lat,
+      lng: data.lng,
+      drivingTimeFromPrevious: data.drivingTimeFromPrevious,
+    });
+    stopBlocks.push({ id: block.id, linkedParagraphId: data.linkedParagraphId });
+  }
+
+  const excludePlaces = blocks
+    .filter((block) => block.type === "place" || block.type === "hotel")
+    .map((block) => (block.data as BasePlaceBlockData).name || "")
+    .filter(Boolean);
+
+  return {
+    region: (blocks[dayBlockIndex].data as Partial<DayBlockData>).region || undefined,
+    stops,
+    stopBlocks,
+    excludePlaces,
+  };
+}
+
 // Helper function to extract places data from editor grouped by day
 async function extractPlacesDataFromEditor(editorRef: any): Promise<{
   placesByDay: { [dayIndex: number]: PlaceCoordinate[] };
@@ -283,6 +440,22 @@ export default function ItineraryEditor({
   const { setSelectedPlace, state, updateDay } = useItinerary();
   const { selectedPlace } = state;
 
+  // Place suggestions for one day, shown in a side panel
+  const [placeSuggestions, setPlaceSuggestions] = useState<{
+    dayBlockId: string;
+    dayNumber: number;
+    stopNames: string[];
+    stopBlocks: { id: string; linkedParagraphId?: string }[];
+    suggestions: PlaceSuggestion[];
+    isLoading: boolean;
+    error: string | null;
+  } | null>(null);
+  const suggestionRequestRef = useRef(0); // Ignores answers for a day the user moved on from
+
+  // Event handlers are registered once, so they read the trip's interests through a ref
+  const formMetadataRef = useRef(state.formMetadata);
+  formMetadataRef.current = state.formMetadata;
+
   // Track place/hotel block structure for numbering updates
   const lastBlockStructure = useRef<string>("");
 
@@ -494,14 +667,12 @@ export default function ItineraryEditor({
   }, [selectedPlace, findAndExpandPlace]);
 
   // Refresh directions function
-  const refreshDirections = useCallback(async (): Promise<{
-    directions: Array<{
-      dayIndex: number;
-      color: string;
-      directionsResult: DirectionsResponse;
-    }>;
+  const refreshDirections = useCallback(async (
+    previousDirections: DirectionsData[] = []
+  ): Promise<{
+    directions: DirectionsData[];
     updatedPlaces: PlaceBlockData[];
-  }> => {
+  } & DirectionsRefreshSummary> => {
     console.log("🚗 ItineraryEditor: Starting directions refresh");
 
     try {
@@ -512,15 +683,34 @@ export default function ItineraryEditor({
 
       if (Object.keys(placesByDay).length === 0) {
         console.log("🚗 No days with places found");
-        return { directions: [], updatedPlaces: [] };
+        return { directions: [], updatedPlaces: [], refreshedDays: [], unchangedDays: [] };
       }
 
+      // Days whose stops haven't changed since their route was stored are not recalculated
+      const previousInputHashes: { [dayIndex: number]: string } = {};
+      previousDirections.forEach((direction) => {
+        if (direction.inputHash) {
+          previousInputHashes[direction.dayIndex] = direction.inputHash;
+        }
+      });
+
       // Use shared directions calculation logic with cross-day connections
-      const { directions, drivingTimesByUid } =
-        await calculateDirectionsForDaysWithCrossDayConnections(
-          placesByDay,
-          allPlaces
-        );
+      const {
+        directions: refreshedDirections,
+        drivingTimesByUid,
+        unchangedDays,
+      } = await calculateDirectionsForDaysWithCrossDayConnections(
+        placesByDay,
+        allPlaces,
+        previousInputHashes
+      );
+
+      const directions = [
+        ...previousDirections.filter((direction) =>
+          unchangedDays.includes(direction.dayIndex)
+        ),
+        ...refreshedDirections,
+      ].sort((a, b) => a.dayIndex - b.dayIndex);
 
       // Update place blocks with driving times (editor-specific functionality)
       await updatePlaceBlocksWithDrivingTimes(editorRef, drivingTimesByUid);
@@ -538,12 +728,14 @@ export default function ItineraryEditor({
       });
 
       console.log(
-        `✅ ItineraryEditor: Directions refresh completed - ${directions.length} routes`
+        `✅ ItineraryEditor: Directions refresh completed - ${refreshedDirections.length} recalculated, ${unchangedDays.length} unchanged`
       );
 
       return {
         directions,
         updatedPlaces,
+        refreshedDays: refreshedDirections.map((direction) => direction.dayIndex),
+        unchangedDays,
       };
     } catch (error) {
       console.error("❌ ItineraryEditor: Error refreshing directions:", error);
@@ -781,6 +973,200 @@ export default function ItineraryEditor({
               }
             };
 
+            // Add event listener for day block requests to regenerate the day
+            const handleRegenerateDayRequest = async (event: CustomEvent) => {
+              const { dayBlockElement, dayNumber, instructions } = event.detail;
+              const finish = () =>
+                dayBlockElement.dispatchEvent(
+                  new CustomEvent("dayblock:regenerateFinished")
+                );
+              console.log(`🔄 REGENERATE REQUEST: day ${dayNumber}`);
+
+              // Regenerating uses the user's quota and edits the day, so viewers can't
+              if (readOnly) {
+                finish();
+                return;
+              }
+
+              const dayBlockId = (dayBlockElement as HTMLElement)
+                .closest(".ce-block")
+                ?.getAttribute("data-id");
+              if (!editorRef.current?.blocks || !dayBlockId) {
+                console.warn("ItineraryEditor: Could not find day block to regenerate");
+                finish();
+                return;
+              }
+
+              try {
+                const outputData = await editorRef.current.save();
+                const context = collectDayRegenerationContext(
+                  outputData,
+                  dayBlockId,
+                  instructions || undefined
+                );
+                if (!context) {
+                  console.warn(
+                    `ItineraryEditor: Day block ${dayBlockId} missing from saved data`
+                  );
+                  return;
+                }
+
+                const result = await regenerateDayAction(context.request);
+                if (!result.success || !result.data) {
+                  alert(result.error || "Failed to regenerate day");
+                  return;
+                }
+
+                const blocksApi = editorRef.current?.blocks;
+                if (!blocksApi) return;
+
+                // Look indexes up by id, since the user may have edited while waiting
+                for (const blockId of context.removeBlockIds) {
+                  const index = blocksApi.getBlockIndex(blockId);
+                  if (index !== undefined && index >= 0) {
+                    blocksApi.delete(index);
+                  }
+                }
+
+                const newDay = result.data;
+                const dayIndex = blocksApi.getBlockIndex(dayBlockId);
+                if (dayIndex === undefined || dayIndex < 0) {
+                  console.warn("ItineraryEditor: Day block was removed during regeneration");
+                  return;
+                }
+                if (newDay.description) {
+                  blocksApi.insert(
+                    "paragraph",
+                    { text: newDay.description },
+                    {},
+                    dayIndex + 1,
+                    false
+                  );
+                }
+
+                const anchorIndex = blocksApi.getBlockIndex(context.insertAfterBlockId);
+                let insertIndex =
+                  (anchorIndex !== undefined && anchorIndex >= 0 ? anchorIndex : dayIndex) + 1;
+                if (context.insertAfterBlockId === dayBlockId && newDay.description) {
+                  insertIndex++; // Keep the day description first
+                }
+
+                for (const place of newDay.places) {
+                  const paragraphId = place.paragraph?.trim() ? crypto.randomUUID() : "";
+                  blocksApi.insert(
+                    place.type === "hotel" ? "hotel" : "place",
+                    {
+                      name: place.name,
+                      shortName: place.shortName || "",
+                      linkedParagraphId: paragraphId,
+                      lat: place.lat,
+                      lng: place.lng,
+                      placeId: place.placeId || "",
+                      description: place.description || "",
+                      address: place.address || "",
+                      rating: place.rating || 0,
+                      photoReferences: place.photoReferences || [],
+                      thumbnailUrl: place.thumbnailUrl || "",
+                      status: place.status || "found",
+                    },
+                    {},
+                    insertIndex++,
+                    false
+                  );
+                  if (paragraphId) {
+                    blocksApi.insert(
+                      "paragraph",
+                      { text: place.paragraph!.trim() },
+                      {},
+                      insertIndex++,
+                      false,
+                      false,
+                      paragraphId
+                    );
+                  }
+                }
+
+                setTimeout(() => {
+                  triggerPlaceNumberingUpdate();
+                }, 50);
+
+                console.log(
+                  `✅ ItineraryEditor: Replaced ${context.removeBlockIds.length} blocks of day ${dayNumber} with ${newDay.places.length} new places`
+                );
+              } catch (error) {
+                console.error("❌ ItineraryEditor: Error regenerating day:", error);
+                alert("Failed to regenerate day");
+              } finally {
+                finish();
+              }
+            };
+
+            // Add event listener for day block requests to suggest more places
+            const handleSuggestPlacesRequest = async (event: CustomEvent) => {
+              const { dayBlockElement, dayNumber } = event.detail;
+              console.log(`💡 SUGGEST REQUEST: day ${dayNumber}`);
+
+              // Suggestions use the user's quota and are added to the day, so viewers can't
+              if (readOnly) return;
+
+              const dayBlockId = (dayBlockElement as HTMLElement)
+                .closest(".ce-block")
+                ?.getAttribute("data-id");
+              if (!editorRef.current || !dayBlockId) return;
+
+              const requestId = ++suggestionRequestRef.current;
+              const showError = (error: string) =>
+                setPlaceSuggestions({
+                  dayBlockId,
+                  dayNumber,
+                  stopNames: [],
+                  stopBlocks: [],
+                  suggestions: [],
+                  isLoading: false,
+                  error,
+                });
+
+              try {
+                const outputData = await editorRef.current.save();
+                const day = collectDayStops(outputData, dayBlockId);
+                if (!day || day.stops.length === 0) {
+                  showError("Add at least one place with a location to this day first");
+                  return;
+                }
+
+                const panel = {
+                  dayBlockId,
+                  dayNumber,
+                  stopNames: day.stops.map((stop) => stop.name),
+                  stopBlocks: day.stopBlocks,
+                };
+                setPlaceSuggestions({ ...panel, suggestions: [], isLoading: true, error: null });
+
+                const formMetadata = formMetadataRef.current;
+                const result = await suggestPlacesAction({
+                  dayNumber,
+                  region: day.region,
+                  stops: day.stops,
+                  interests: formMetadata?.interests || [],
+                  travelStyle: formMetadata?.travelStyle || "mid-range",
+                  excludePlaces: day.excludePlaces,
+                });
+                if (requestId !== suggestionRequestRef.current) return;
+
+                setPlaceSuggestions({
+                  ...panel,
+                  suggestions: result.data || [],
+                  isLoading: false,
+                  error: result.success ? null : result.error || "Failed to suggest places",
+                });
+              } catch (error) {
+                console.error("❌ ItineraryEditor: Error suggesting places:", error);
+                if (requestId === suggestionRequestRef.current) {
+                  showError("Failed to suggest places");
+                }
+              }
+            };
+
             if (holderRef.current) {
               holderRef.current.addEventListener(
                 "dayblock:addBlock",
@@ -794,10 +1180,24 @@ export default function ItineraryEditor({
                 "block:requestDelete",
                 handleDeleteBlockRequest as any
               );
+              holderRef.current.addEventListener(
+                "dayblock:regenerate",
+                handleRegenerateDayRequest as unknown as EventListener
+              );
+              holderRef.current.addEventListener(
+                "dayblock:suggestPlaces",
+                handleSuggestPlacesRequest as unknown as EventListener
+              );
             }
           },
         });
 
+        // onReady never fires if the editor fails to start (e.g. a tool rejects read-only mode)
+        editor.isReady.catch((error: unknown) => {
+          console.error("ItineraryEditor: Editor failed to start:", error);
+          setError(`Failed to initialize editor: ${String(error)}`);
+        });
+
         console.log("ItineraryEditor: Editor instance created");
       } catch (error) {
         console.error("ItineraryEditor: Error:", error);
@@ -823,6 +1223,110 @@ export default function ItineraryEditor({
     };
   }, [placeholder, readOnly]);
 
+  // Insert a suggested place where it adds the least detour
+  const handleAddSuggestion = useCallback(
+    (suggestion: PlaceSuggestion) => {
+      const blocksApi = editorRef.current?.blocks;
+      if (!blocksApi || !placeSuggestions || readOnly) return;
+
+      const indexOf = (blockId?: string) => {
+        const index = blockId ? blocksApi.getBlockIndex(blockId) : undefined;
+        return index !== undefined && index >= 0 ? index : -1;
+      };
+      const { stopBlocks, dayBlockId } = placeSuggestions;
+
+      let insertIndex = -1;
+      if (suggestion.insertAfterStop < 0) {
+        insertIndex = indexOf(stopBlocks[0]?.id);
+      } else {
+        // Go after the stop's linked paragraph, so the pair stays together
+        const stop = stopBlocks[suggestion.insertAfterStop];
+        const anchorIndex = Math.max(indexOf(stop?.id), indexOf(stop?.linkedParagraphId));
+        insertIndex = anchorIndex >= 0 ? anchorIndex + 1 : -1;
+      }
+      if (insertIndex < 0) {
+        const dayIndex = indexOf(dayBlockId);
+        insertIndex = dayIndex >= 0 ? dayIndex + 1 : blocksApi.getBlocksCount();
+      }
+
+      blocksApi.insert(
+        "place",
+        {
+          name: suggestion.name,
+          placeId: suggestion.placeId,
+          address: suggestion.address,
+          rating: suggestion.rating || 0,
+          photoReferences: suggestion.photoReferences,
+          thumbnailUrl: suggestion.thumbnailUrl || "",
+          lat: suggestion.lat,
+          lng: suggestion.lng,
+          description: suggestion.reason,
+          status: "found",
+        },
+        {},
+        insertIndex,
+        false
+      );
+      console.log(
+        `💡 ItineraryEditor: Added suggestion ${suggestion.name} at index ${insertIndex}`
+      );
+
+      setPlaceSuggestions((current) =>
+        current && {
+          ...current,
+          suggestions: current.suggestions.filter(
+            (item) => item.placeId !== suggestion.placeId
+          ),
+        }
+      );
+      setTimeout(() => {
+        triggerPlaceNumberingUpdate();
+      }, 50);
+    },
+    [placeSuggestions, readOnly]
+  );
+
+  // Scroll to the block named in the "?block=" deep link (e.g. from search results)
+  useEffect(() => {
+    if (!isReady || !holderRef.current) return;
+
+    const blockId = new URLSearchParams(window.location.search).get("block");
+    if (!blockId) return;
+
+    // Wait a moment for custom blocks to finish rendering
+    const timeout = setTimeout(() => {
+      const blockElement = holderRef.current?.querySelector(
+        `.ce-block[data-id="${CSS.escape(blockId)}"]`
+      ) as HTMLElement | null;
+
+      if (!blockElement) {
+        console.warn(`🔗 ItineraryEditor: Deep-linked block not found: ${blockId}`);
+        return;
+      }
+
+      blockElement.scrollIntoView({ behavior: "smooth", block: "center" });
+
+      const placeBlock = blockElement.querySelector(".place-block, .hotel-block");
+      if (placeBlock) {
+        setTimeout(() => {
+          placeBlock.dispatchEvent(
+            new CustomEvent("place:forceExpand", { bubbles: true })
+          );
+        }, 300);
+      }
+
+      // Briefly highlight the block so it stands out after scrolling
+      blockElement.classList.add("ring-2", "ring-yellow-300", "rounded-md");
+      setTimeout(() => {
+        blockElement.classList.remove("ring-2", "ring-yellow-300", "rounded-md");
+      }, 2500);
+
+      console.log(`🔗 ItineraryEditor: Scrolled to deep-linked block ${blockId}`);
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [isReady]);
+
   // Watch for changes in itinerary context and add new places to editor
   useEffect(() => {
     if (!isReady || !state.currentItinerary) return;
@@ -1068,7 +1572,7 @@ export default function ItineraryEditor({
   return (
     <div className="itinerary-editor h-full flex flex-col relative">
       {/* Toolbar - Sticky at top */}
-      {isReady && (
+      {isReady && !readOnly && (
         <div className="sticky top-0 z-10 flex-shrink-0 mb-4 p-3 bg-white border border-slate-200 rounded-lg shadow-sm">
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-slate-700 mr-4">
@@ -1232,6 +1736,21 @@ export default function ItineraryEditor({
           className="h-full border border-slate-200 rounded-lg p-4 text-black editor-holder"
         />
       </div>
+
+      {placeSuggestions && (
+        <PlaceSuggestionsPanel
+          dayNumber={placeSuggestions.dayNumber}
+          stopNames={placeSuggestions.stopNames}
+          suggestions={placeSuggestions.suggestions}
+          isLoading={placeSuggestions.isLoading}
+          error={placeSuggestions.error}
+          onAdd={handleAddSuggestion}
+          onClose={() => {
+            suggestionRequestRef.current++;
+            setPlaceSuggestions(null);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -49,6 +49,7 @@ export default class PlaceBlock extends BasePlaceBlock<PlaceBlockData> {
       drivingDistanceFromPrevious: data?.drivingDistanceFromPrevious || 0,
       isDayFinish: data?.isDayFinish || false,
       hideInMap: data?.hideInMap || false,
+      locked: data?.locked || false,
       __type: "place",
     };
   }
@@ -0,0 +1,108 @@
+"use client";
+
+import {
+  LightBulbIcon,
+  PlusIcon,
+  StarIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import type { PlaceSuggestion } from "@/features/suggestions/types";
+import { formatDistance } from "../utils/formatting";
+
+interface PlaceSuggestionsPanelProps {
+  dayNumber: number;
+  stopNames: string[]; // The day's stops, to say where each suggestion goes
+  suggestions: PlaceSuggestion[];
+  isLoading: boolean;
+  error: string | null;
+  onAdd: (suggestion: PlaceSuggestion) => void;
+  onClose: () => void;
+}
+
+function describePosition(insertAfterStop: number, stopNames: string[]): string {
+  if (insertAfterStop < 0) {
+    return stopNames.length > 0 ? `Before ${stopNames[0]}` : "Start of day";
+  }
+  if (insertAfterStop >= stopNames.length - 1) {
+    return `After ${stopNames[stopNames.length - 1]}`;
+  }
+  return `Between ${stopNames[insertAfterStop]} and ${stopNames[insertAfterStop + 1]}`;
+}
+
+export default function PlaceSuggestionsPanel({
+  dayNumber,
+  stopNames,
+  suggestions,
+  isLoading,
+  error,
+  onAdd,
+  onClose,
+}: PlaceSuggestionsPanelProps) {
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-80 flex flex-col bg-white border-l border-slate-200 shadow-lg">
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-800 text-white flex-shrink-0">
+        <div className="flex items-center">
+          <LightBulbIcon className="h-5 w-5 text-yellow-400 mr-2" />
+          <h2 className="text-base font-semibold">Suggestions for Day {dayNumber}</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-300 hover:text-white"
+          title="Close suggestions"
+        >
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center h-32 gap-2">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <span className="text-sm text-slate-500">Looking near your route...</span>
+          </div>
+        ) : error ? (
+          <p className="p-4 text-sm text-red-600">{error}</p>
+        ) : suggestions.length === 0 ? (
+          <p className="p-4 text-sm text-slate-500">
+            No suggestions found near this day&apos;s route.
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {suggestions.map((suggestion) => (
+              <li key={suggestion.placeId} className="px-4 py-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-slate-900">
+                      {suggestion.name}
+                    </div>
+                    {suggestion.rating !== undefined && (
+                      <div className="flex items-center text-xs text-slate-500 mt-0.5">
+                        <StarIcon className="h-3 w-3 text-yellow-500 mr-1" />
+                        {suggestion.rating.toFixed(1)}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => onAdd(suggestion)}
+                    className="inline-flex items-center gap-1 px-2 py-1 bg-green-50 text-green-700 border border-green-200 rounded-md hover:bg-green-100 transition-colors text-xs font-medium flex-shrink-0"
+                    title="Add to this day"
+                  >
+                    <PlusIcon className="h-3 w-3" />
+                    Add
+                  </button>
+                </div>
+                {suggestion.reason && (
+                  <p className="text-xs text-slate-600 mt-1">{suggestion.reason}</p>
+                )}
+                <div className="text-xs text-slate-500 mt-1">
+                  +{suggestion.detourMinutes} min ({formatDistance(suggestion.detourMeters)}) •{" "}
+                  {describePosition(suggestion.insertAfterStop, stopNames)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
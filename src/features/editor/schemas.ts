@@ -0,0 +1,118 @@
+import { z } from "zod";
+
+/**
+ * Zod schemas for the data saved by each Editor.js block type
+ * Schemas are permissive (passthrough) so fields added by newer blocks survive validation
+ */
+
+export const PLACE_STATUS_VALUES = [
+  "idle",
+  "loading",
+  "found",
+  "error",
+  "free-text",
+  "not-found",
+  "renamed",
+] as const;
+
+export const headerBlockSchema = z
+  .object({
+    text: z.string(),
+    level: z.number().int().min(1).max(6).optional(),
+  })
+  .passthrough();
+
+export const paragraphBlockSchema = z
+  .object({
+    text: z.string(),
+  })
+  .passthrough();
+
+export const dayBlockSchema = z
+  .object({
+    dayNumber: z.number().int().min(1),
+    date: z
+      .string()
+      .regex(/^(\d{4}-\d{2}-\d{2})?$/, "Day date must be in YYYY-MM-DD format")
+      .optional(),
+    title: z.string().optional(),
+    region: z.string().optional(),
+  })
+  .passthrough();
+
+export const basePlaceBlockSchema = z
+  .object({
+    uid: z.string().optional(),
+    placeId: z.string().optional(),
+    name: z.string().optional(),
+    shortName: z.string().optional(),
+    linkedParagraphId: z.string().optional(),
+    address: z.string().optional(),
+    rating: z.number().optional(),
+    photoReferences: z.array(z.string()).optional(),
+    lat: z.number().optional(),
+    lng: z.number().optional(),
+    notes: z.string().optional(),
+    description: z.string().optional(),
+    thumbnailUrl: z.string().optional(),
+    status: z.enum(PLACE_STATUS_VALUES).optional(),
+    hasBeenSearched: z.boolean().optional(),
+    drivingTimeFromPrevious: z.number().optional(),
+    drivingDistanceFromPrevious: z.number().optional(),
+    isDayFinish: z.boolean().optional(),
+    hideInMap: z.boolean().optional(),
+    locked: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const placeBlockSchema = basePlaceBlockSchema;
+export const hotelBlockSchema = basePlaceBlockSchema;
+
+// Block data schemas keyed by Editor.js tool name
+export const EDITOR_BLOCK_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  header: headerBlockSchema,
+  paragraph: paragraphBlockSchema,
+  day: dayBlockSchema,
+  place: placeBlockSchema,
+  hotel: hotelBlockSchema,
+};
+
+export interface EditorBlockValidationIssue {
+  blockIndex: number;
+  blockId?: string;
+  type: string;
+  message: string;
+}
+
+/**
+ * Validates every block's data against the schema for its type
+ * Blocks of unknown types are reported, since the editor has no tool to render them
+ */
+export function validateEditorBlocks(blocks: {
+  id?: string;
+  type: string;
+  data: Record<string, unknown>;
+}[]): EditorBlockValidationIssue[] {
+  const issues: EditorBlockValidationIssue[] = [];
+
+  blocks.forEach((block, blockIndex) => {
+    const schema = EDITOR_BLOCK_SCHEMAS[block.type];
+    if (!schema) {
+      issues.push({ blockIndex, blockId: block.id, type: block.type, message: "Unknown block type" });
+      return;
+    }
+
+    const result = schema.safeParse(block.data);
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      issues.push({
+        blockIndex,
+        blockId: block.id,
+        type: block.type,
+        message: `${issue.path.join(".") || "data"}: ${issue.message}`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -1,3 +1,5 @@
+import type { DirectionsData, DirectionsRefreshSummary } from "@/features/directions/types";
+
 export interface PlaceSearchResult {
   place_id: string;
   name: string;
@@ -77,6 +79,7 @@ export interface BasePlaceBlockData {
   drivingDistanceFromPrevious?: number;
   isDayFinish?: boolean; // Toggle for "Define as day finish"
   hideInMap?: boolean; // Toggle for "Hide in map"
+  locked?: boolean; // Kept, with its linked paragraph, when the day is regenerated
 }
 
 export interface PlaceBlockData extends BasePlaceBlockData {
@@ -107,10 +110,10 @@ export interface ItineraryEditorProps {
   data?: EditorData;
   onChange?: (data: EditorData) => void;
   onRefreshReady?: (
-    refreshFn: () => Promise<{
-      directions: unknown[];
+    refreshFn: (previousDirections?: DirectionsData[]) => Promise<{
+      directions: DirectionsData[];
       updatedPlaces: PlaceBlockData[];
-    }>
+    } & DirectionsRefreshSummary>
   ) => void;
   placeholder?: string;
   readOnly?: boolean;
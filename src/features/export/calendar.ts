@@ -0,0 +1,303 @@
+import { EditorData, BasePlaceBlockData, DayBlockData } from "@/features/editor/types";
+import { toPlainText, getHeaderTitle } from "./text";
+
+export const ICS_MIME_TYPE = "text/calendar";
+
+export interface CalendarExportOptions {
+  title?: string;
+  // Prefix for event UIDs - keep it stable so subscribed calendars update events in place
+  uidPrefix?: string;
+  // Add a timed event per place, scheduled back to back from dayStartTime
+  includePlaceEvents?: boolean;
+  dayStartTime?: string; // "HH:MM", local time of the trip
+  placeDurationMinutes?: number;
+  now?: Date; // Used for DTSTAMP, injectable for deterministic output
+}
+
+interface CalendarPlace {
+  uid?: string;
+  name: string;
+  type: "place" | "hotel";
+  address?: string;
+  notes?: string;
+  lat?: number;
+  lng?: number;
+  drivingMinutes: number;
+}
+
+interface CalendarDay {
+  dayNumber: number;
+  date: Date;
+  title?: string;
+  region?: string;
+  places: CalendarPlace[];
+}
+
+const DEFAULT_DAY_START_TIME = "09:00";
+const DEFAULT_PLACE_DURATION_MINUTES = 90;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+
+/**
+ * Parse a "YYYY-MM-DD" day date as a UTC calendar date
+ */
+function parseDayDate(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatIcsUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format a floating local date-time (no timezone), interpreted in the calendar's own zone
+ */
+function formatIcsLocalDateTime(date: Date, minutesFromMidnight: number): string {
+  const hours = Math.floor(minutesFromMidnight / 60);
+  const minutes = minutesFromMidnight % 60;
+  return `${formatIcsDate(date)}T${String(hours).padStart(2, "0")}${String(minutes).padStart(2, "0")}00`;
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return 9 * 60;
+  return Math.min(23, Number(match[1])) * 60 + Math.min(59, Number(match[2]));
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to 75 octets as required by RFC 5545
+ */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward their length
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = "";
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Collect dated days and their places from the editor data
+ * Days without a date follow on from the previous dated day; days before any date are skipped
+ */
+function collectCalendarDays(editorData: EditorData): CalendarDay[] {
+  const days: CalendarDay[] = [];
+  let currentDay: CalendarDay | null = null;
+  let dayNumber = 0;
+
+  for (const block of editorData?.blocks || []) {
+    if (block.type === "day") {
+      const dayData = block.data as unknown as DayBlockData;
+      dayNumber++;
+
+      const previousDay = days[days.length - 1];
+      const date =
+        parseDayDate(dayData.date) ||
+        (previousDay ? addDays(previousDay.date, dayNumber - previousDay.dayNumber) : null);
+
+      currentDay = date
+        ? {
+            dayNumber,
+            date,
+            title: toPlainText(dayData.title) || undefined,
+            region: toPlainText(dayData.region) || undefined,
+            places: [],
+          }
+        : null;
+
+      if (currentDay) {
+        days.push(currentDay);
+      }
+    } else if ((block.type === "place" || block.type === "hotel") && currentDay) {
+      const placeData = block.data as BasePlaceBlockData;
+      const name = toPlainText(placeData.shortName || placeData.name);
+      if (!name) continue;
+
+      currentDay.places.push({
+        uid: placeData.uid,
+        name,
+        type: block.type,
+        address: toPlainText(placeData.address) || undefined,
+        notes: toPlainText(placeData.notes || placeData.description) || undefined,
+        lat: placeData.lat,
+        lng: placeData.lng,
+        drivingMinutes: placeData.drivingTimeFromPrevious || 0,
+      });
+    }
+  }
+
+  return days;
+}
+
+function getHotelKey(place: CalendarPlace): string {
+  return place.name.toLowerCase();
+}
+
+function getGeoLine(place: CalendarPlace): string | null {
+  return place.lat && place.lng
+    ? `GEO:${place.lat.toFixed(6)};${place.lng.toFixed(6)}`
+    : null;
+}
+
+/**
+ * Generate an iCalendar (RFC 5545) document for an itinerary
+ * Creates an all-day event per dated day, a multi-day event per hotel stay
+ * and, optionally, timed events for the places of each day
+ */
+export function generateIcs(
+  editorData: EditorData,
+  options: CalendarExportOptions = {}
+): string {
+  const title = options.title?.trim() || getHeaderTitle(editorData) || "Itinerary";
+  const uidPrefix = options.uidPrefix || "itinerary";
+  const dtStamp = formatIcsUtcDateTime(options.now || new Date());
+  const dayStart = parseTimeOfDay(options.dayStartTime || DEFAULT_DAY_START_TIME);
+  const placeDuration = options.placeDurationMinutes ?? DEFAULT_PLACE_DURATION_MINUTES;
+
+  const days = collectCalendarDays(editorData);
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Itera Notes//Itinerary Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(title)}`,
+  ];
+
+  const pushEvent = (eventLines: (string | null)[]) => {
+    lines.push("BEGIN:VEVENT", `DTSTAMP:${dtStamp}`);
+    for (const line of eventLines) {
+      if (line) lines.push(line);
+    }
+    lines.push("END:VEVENT");
+  };
+
+  // All-day event per day
+  for (const day of days) {
+    const summary = day.title ? `Day ${day.dayNumber}: ${day.title}` : `Day ${day.dayNumber}`;
+    const placeList = day.places
+      .filter((place) => place.type === "place")
+      .map((place) => `• ${place.name}`)
+      .join("\n");
+
+    pushEvent([
+      `UID:${uidPrefix}-day-${day.dayNumber}@itera-notes`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(day.date)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(addDays(day.date, 1))}`,
+      `SUMMARY:${escapeIcsText(`${title} – ${summary}`)}`,
+      day.region ? `LOCATION:${escapeIcsText(day.region)}` : null,
+      placeList ? `DESCRIPTION:${escapeIcsText(placeList)}` : null,
+      "TRANSP:TRANSPARENT",
+    ]);
+  }
+
+  // Hotel stays - consecutive days at the same hotel merge into a single stay
+  let stay: { hotel: CalendarPlace; checkIn: Date; nights: number; dayNumber: number } | null = null;
+  const flushStay = () => {
+    if (!stay) return;
+    pushEvent([
+      `UID:${uidPrefix}-stay-${stay.hotel.uid || stay.dayNumber}@itera-notes`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(stay.checkIn)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(addDays(stay.checkIn, stay.nights))}`,
+      `SUMMARY:${escapeIcsText(`Stay: ${stay.hotel.name}`)}`,
+      stay.hotel.address ? `LOCATION:${escapeIcsText(stay.hotel.address)}` : null,
+      getGeoLine(stay.hotel),
+      `DESCRIPTION:${escapeIcsText(
+        [`${stay.nights} ${stay.nights === 1 ? "night" : "nights"}`, stay.hotel.notes]
+          .filter(Boolean)
+          .join("\n\n")
+      )}`,
+      "TRANSP:TRANSPARENT",
+    ]);
+    stay = null;
+  };
+
+  days.forEach((day, index) => {
+    const hotel = day.places.filter((place) => place.type === "hotel").pop();
+    const previousDay = days[index - 1];
+    const isNextNight =
+      stay && previousDay && day.date.getTime() === addDays(stay.checkIn, stay.nights).getTime();
+
+    if (hotel && stay && isNextNight && getHotelKey(stay.hotel) === getHotelKey(hotel)) {
+      stay.nights++;
+      return;
+    }
+
+    flushStay();
+    if (hotel) {
+      stay = { hotel, checkIn: day.date, nights: 1, dayNumber: day.dayNumber };
+    }
+  });
+  flushStay();
+
+  // Timed place events, scheduled sequentially through the day
+  if (options.includePlaceEvents) {
+    for (const day of days) {
+      let cursor = dayStart;
+      let placeIndex = 0;
+
+      for (const place of day.places) {
+        if (place.type !== "place") continue;
+        placeIndex++;
+
+        if (placeIndex > 1) {
+          cursor += place.drivingMinutes;
+        }
+        // Keep events within the day
+        const start = Math.max(0, Math.min(cursor, 24 * 60 - placeDuration));
+        const end = start + placeDuration;
+        cursor = end;
+
+        pushEvent([
+          `UID:${uidPrefix}-place-${place.uid || `${day.dayNumber}-${placeIndex}`}@itera-notes`,
+          `DTSTART:${formatIcsLocalDateTime(day.date, start)}`,
+          `DTEND:${formatIcsLocalDateTime(day.date, end)}`,
+          `SUMMARY:${escapeIcsText(place.name)}`,
+          place.address ? `LOCATION:${escapeIcsText(place.address)}` : null,
+          getGeoLine(place),
+          place.notes ? `DESCRIPTION:${escapeIcsText(place.notes)}` : null,
+        ]);
+      }
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
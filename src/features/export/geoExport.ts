@@ -0,0 +1,268 @@
+import { EditorData, BasePlaceBlockData, DayBlockData } from "@/features/editor/types";
+import { DirectionsData } from "@/features/directions/types";
+import { getDayColor, getDefaultPlaceColor } from "@/features/map/utils/colors";
+import { decodeDirectionsPath } from "./polyline";
+import { toPlainText, toExportFilename, getHeaderTitle } from "./text";
+import {
+  ExportDay,
+  ExportDocument,
+  GeoExportFile,
+  GeoExportFormat,
+  GeoPoint,
+} from "./types";
+
+const GPX_MIME_TYPE = "application/gpx+xml";
+const KML_MIME_TYPE = "application/vnd.google-earth.kml+xml";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function formatCoordinate(value: number): string {
+  return Number(value.toFixed(6)).toString();
+}
+
+function getWaypointDescription(waypoint: {
+  address?: string;
+  notes?: string;
+}): string {
+  return [waypoint.address, waypoint.notes].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Collect days, their located places and decoded routes from the editor data
+ * Places without coordinates are skipped; places before the first day form an unassigned group
+ */
+export function buildExportDocument(
+  editorData: EditorData,
+  directions: DirectionsData[] = [],
+  title?: string
+): ExportDocument {
+  const days: ExportDay[] = [];
+  let currentDay: ExportDay | null = null;
+  let dayIndex = -1;
+
+  for (const block of editorData?.blocks || []) {
+    if (block.type === "day") {
+      const dayData = block.data as unknown as DayBlockData;
+      dayIndex++;
+      const dayTitle = toPlainText(dayData.title);
+
+      currentDay = {
+        dayIndex,
+        name: dayTitle ? `Day ${dayIndex + 1}: ${dayTitle}` : `Day ${dayIndex + 1}`,
+        date: dayData.date || undefined,
+        color: getDayColor(dayIndex),
+        waypoints: [],
+        route: [],
+      };
+      days.push(currentDay);
+    } else if (block.type === "place" || block.type === "hotel") {
+      const placeData = block.data as BasePlaceBlockData;
+      // Same rule as the map: 0/missing coordinates mean the place isn't located
+      if (!placeData.lat || !placeData.lng || !placeData.name) {
+        continue;
+      }
+
+      if (!currentDay) {
+        currentDay = {
+          dayIndex: null,
+          name: "Unassigned places",
+          color: getDefaultPlaceColor(),
+          waypoints: [],
+          route: [],
+        };
+        days.push(currentDay);
+      }
+
+      currentDay.waypoints.push({
+        name: toPlainText(placeData.shortName || placeData.name),
+        type: block.type,
+        lat: placeData.lat,
+        lng: placeData.lng,
+        address: toPlainText(placeData.address) || undefined,
+        notes: toPlainText(placeData.notes || placeData.description) || undefined,
+      });
+    }
+  }
+
+  for (const direction of directions) {
+    const day = days.find((d) => d.dayIndex === direction.dayIndex);
+    if (day) {
+      day.route = decodeDirectionsPath(direction.directionsResult);
+    }
+  }
+
+  return {
+    title: title?.trim() || getHeaderTitle(editorData) || "Itinerary",
+    days: days.filter((day) => day.waypoints.length > 0 || day.route.length > 0),
+  };
+}
+
+function serializeGpxPoint(tag: string, point: GeoPoint): string {
+  return `<${tag} lat="${formatCoordinate(point.lat)}" lon="${formatCoordinate(point.lng)}"`;
+}
+
+/**
+ * Serialize an export document as GPX 1.1
+ * Places become waypoints typed by day, routes become one track per day colored with gpx_style
+ */
+export function serializeGpx(doc: ExportDocument): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Itera Notes" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpx_style="http://www.topografix.com/GPX/gpx_style/0/2">',
+    "  <metadata>",
+    `    <name>${escapeXml(doc.title)}</name>`,
+    "  </metadata>",
+  ];
+
+  for (const day of doc.days) {
+    for (const waypoint of day.waypoints) {
+      const description = getWaypointDescription(waypoint);
+      lines.push(`  ${serializeGpxPoint("wpt", waypoint)}>`);
+      lines.push(`    <name>${escapeXml(waypoint.name)}</name>`);
+      if (description) {
+        lines.push(`    <desc>${escapeXml(description)}</desc>`);
+      }
+      lines.push(`    <sym>${waypoint.type === "hotel" ? "Lodging" : "Flag, Blue"}</sym>`);
+      lines.push(`    <type>${escapeXml(day.name)}</type>`);
+      lines.push("  </wpt>");
+    }
+  }
+
+  for (const day of doc.days) {
+    if (day.route.length === 0) continue;
+
+    lines.push("  <trk>");
+    lines.push(`    <name>${escapeXml(day.name)}</name>`);
+    if (day.date) {
+      lines.push(`    <desc>${escapeXml(day.date)}</desc>`);
+    }
+    lines.push("    <extensions>");
+    lines.push("      <gpx_style:line>");
+    lines.push(`        <gpx_style:color>${day.color.replace("#", "").toUpperCase()}</gpx_style:color>`);
+    lines.push("      </gpx_style:line>");
+    lines.push("    </extensions>");
+    lines.push("    <trkseg>");
+    for (const point of day.route) {
+      lines.push(`      ${serializeGpxPoint("trkpt", point)}/>`);
+    }
+    lines.push("    </trkseg>");
+    lines.push("  </trk>");
+  }
+
+  lines.push("</gpx>");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Convert "#RRGGBB" to KML's "aabbggrr" color notation
+ */
+function toKmlColor(hex: string, alpha: string = "ff"): string {
+  const value = hex.replace("#", "").toLowerCase();
+  if (!/^[0-9a-f]{6}$/.test(value)) {
+    return `${alpha}ffffff`;
+  }
+  return `${alpha}${value.slice(4, 6)}${value.slice(2, 4)}${value.slice(0, 2)}`;
+}
+
+function formatKmlCoordinates(points: GeoPoint[]): string {
+  return points
+    .map((point) => `${formatCoordinate(point.lng)},${formatCoordinate(point.lat)},0`)
+    .join(" ");
+}
+
+/**
+ * Serialize an export document as KML 2.2
+ * Each day becomes a folder holding its place marks and route line, styled with the day color
+ */
+export function serializeKml(doc: ExportDocument): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(doc.title)}</name>`,
+  ];
+
+  doc.days.forEach((day, index) => {
+    lines.push(`    <Style id="day-${index}">`);
+    lines.push("      <IconStyle>");
+    lines.push(`        <color>${toKmlColor(day.color)}</color>`);
+    lines.push("      </IconStyle>");
+    lines.push("      <LineStyle>");
+    lines.push(`        <color>${toKmlColor(day.color)}</color>`);
+    lines.push("        <width>4</width>");
+    lines.push("      </LineStyle>");
+    lines.push("    </Style>");
+  });
+
+  doc.days.forEach((day, index) => {
+    lines.push("    <Folder>");
+    lines.push(`      <name>${escapeXml(day.name)}</name>`);
+    if (day.date) {
+      lines.push(`      <description>${escapeXml(day.date)}</description>`);
+    }
+
+    for (const waypoint of day.waypoints) {
+      const description = getWaypointDescription(waypoint);
+      lines.push("      <Placemark>");
+      lines.push(`        <name>${escapeXml(waypoint.name)}</name>`);
+      if (description) {
+        lines.push(`        <description>${escapeXml(description)}</description>`);
+      }
+      lines.push(`        <styleUrl>#day-${index}</styleUrl>`);
+      lines.push("        <Point>");
+      lines.push(`          <coordinates>${formatKmlCoordinates([waypoint])}</coordinates>`);
+      lines.push("        </Point>");
+      lines.push("      </Placemark>");
+    }
+
+    if (day.route.length > 0) {
+      lines.push("      <Placemark>");
+      lines.push(`        <name>${escapeXml(`${day.name} route`)}</name>`);
+      lines.push(`        <styleUrl>#day-${index}</styleUrl>`);
+      lines.push("        <LineString>");
+      lines.push("          <tessellate>1</tessellate>");
+      lines.push(`          <coordinates>${formatKmlCoordinates(day.route)}</coordinates>`);
+      lines.push("        </LineString>");
+      lines.push("      </Placemark>");
+    }
+
+    lines.push("    </Folder>");
+  });
+
+  lines.push("  </Document>");
+  lines.push("</kml>");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Build a downloadable GPX or KML file from the editor data and stored directions
+ */
+export function exportItineraryGeoFile(
+  format: GeoExportFormat,
+  editorData: EditorData,
+  directions: DirectionsData[] = [],
+  title?: string
+): GeoExportFile {
+  const doc = buildExportDocument(editorData, directions, title);
+
+  if (format === "kml") {
+    return {
+      content: serializeKml(doc),
+      mimeType: KML_MIME_TYPE,
+      filename: toExportFilename(doc.title, "kml"),
+    };
+  }
+
+  return {
+    content: serializeGpx(doc),
+    mimeType: GPX_MIME_TYPE,
+    filename: toExportFilename(doc.title, "gpx"),
+  };
+}
@@ -0,0 +1,6 @@
+// Re-export all export functionality
+export * from "./types";
+export * from "./polyline";
+export * from "./geoExport";
+export * from "./calendar";
+export { toExportFilename, getHeaderTitle } from "./text";
@@ -0,0 +1,71 @@
+import { DirectionsResponse } from "@/services/google/directions";
+import { GeoPoint } from "./types";
+
+/**
+ * Decode a Google encoded polyline string into coordinates
+ * Pure implementation of the polyline algorithm so it works outside the Maps JS API
+ * @see https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+ */
+export function decodePolyline(encoded: string): GeoPoint[] {
+  const points: GeoPoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = (): number | null => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      if (index >= encoded.length) return null;
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    const dLat = readValue();
+    const dLng = readValue();
+    if (dLat === null || dLng === null) break; // Truncated input
+
+    lat += dLat;
+    lng += dLng;
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+}
+
+/**
+ * Parse the "lat1,lng1|lat2,lng2|..." format used by fallback straight-line directions
+ */
+export function parseStraightLinePoints(points: string): GeoPoint[] {
+  return points
+    .split("|")
+    .map((coord) => {
+      const [lat, lng] = coord.split(",").map(Number);
+      return { lat, lng };
+    })
+    .filter((point) => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+}
+
+/**
+ * Extract the route path of a stored directions result
+ * @returns Decoded path of the first route, or an empty array if none is available
+ */
+export function decodeDirectionsPath(
+  directionsResult: DirectionsResponse | null | undefined
+): GeoPoint[] {
+  const points = directionsResult?.routes?.[0]?.overview_polyline?.points;
+  if (!points) {
+    return [];
+  }
+
+  return directionsResult?.isFallbackStraightLine
+    ? parseStraightLinePoints(points)
+    : decodePolyline(points);
+}
@@ -0,0 +1,40 @@
+import { EditorData } from "@/features/editor/types";
+
+/**
+ * Strip inline HTML from Editor.js text so it can be used as plain text
+ */
+export function toPlainText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Build a safe download filename from an itinerary title
+ */
+export function toExportFilename(title: string, extension: string): string {
+  const base = title
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .substring(0, 50);
+  return `${base || "itinerary"}.${extension}`;
+}
+
+/**
+ * Get the plain-text title of the first header block, if any
+ */
+export function getHeaderTitle(editorData: EditorData): string | undefined {
+  const header = editorData?.blocks?.find((block) => block.type === "header");
+  return toPlainText(header?.data?.text) || undefined;
+}
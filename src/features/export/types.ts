@@ -0,0 +1,33 @@
+export type GeoExportFormat = "gpx" | "kml";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface ExportWaypoint extends GeoPoint {
+  name: string;
+  type: "place" | "hotel";
+  address?: string;
+  notes?: string;
+}
+
+export interface ExportDay {
+  dayIndex: number | null; // null for places listed before the first day
+  name: string;
+  date?: string;
+  color: string; // Hex color, e.g. "#3B82F6"
+  waypoints: ExportWaypoint[];
+  route: GeoPoint[]; // Decoded route path, empty if no directions are stored
+}
+
+export interface ExportDocument {
+  title: string;
+  days: ExportDay[];
+}
+
+export interface GeoExportFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
@@ -0,0 +1,204 @@
+import { ZodError } from "zod";
+import { calculateDateForDay } from "./responseParser";
+import {
+  LLMItinerary,
+  LLMPlaceSuggestions,
+  llmDaySchema,
+  llmItinerarySchema,
+  llmPlaceSuggestionsSchema,
+} from "./schema";
+import { GeneratedItinerary, ItineraryDay, PlaceLocation } from "./types";
+import {
+  AssistantResponse,
+  assistantResponseSchema,
+} from "@/features/assistant/schema";
+
+const MAX_REPORTED_ISSUES = 10;
+
+export type ItineraryJsonParseResult =
+  | { success: true; itinerary: GeneratedItinerary }
+  | { success: false; error: string }; // Readable enough to send back to the model
+
+export type ItineraryDayJsonParseResult =
+  | { success: true; day: ItineraryDay }
+  | { success: false; error: string };
+
+export type AssistantResponseJsonParseResult =
+  | { success: true; response: AssistantResponse }
+  | { success: false; error: string };
+
+export type PlaceSuggestionsJsonParseResult =
+  | { success: true; suggestions: LLMPlaceSuggestions["suggestions"] }
+  | { success: false; error: string };
+
+/**
+ * Pulls the JSON object out of a response, ignoring code fences or text around it
+ */
+function extractJsonObject(response: string): string {
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  return start !== -1 && end > start ? response.slice(start, end + 1) : response;
+}
+
+function formatIssues(error: ZodError): string {
+  const issues = error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => {
+    const path = issue.path.join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+  const more = error.issues.length - issues.length;
+  return issues.join("; ") + (more > 0 ? ` (and ${more} more)` : "");
+}
+
+function parseJson(response: string): { raw: unknown } | { error: string } {
+  try {
+    return { raw: JSON.parse(extractJsonObject(response)) };
+  } catch (error) {
+    return {
+      error: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+function toPlaceLocations(places: LLMItinerary["days"][number]["places"]): PlaceLocation[] {
+  return places.map((place) => ({
+    name: place.name,
+    lat: place.lat,
+    lng: place.lng,
+    paragraph: place.description,
+    shortName: place.shortName || "",
+    linkedParagraphId: "", // Empty for generated content
+  }));
+}
+
+/**
+ * Parses a JSON mode response into a GeneratedItinerary
+ * Small problems are repaired on the way: days are put in order and renumbered, missing
+ * dates and regions are filled in, and missing or extra days are handled like the text parser
+ */
+export function parseItineraryJson(
+  response: string,
+  destination: string,
+  startDate: string,
+  totalDays: number
+): ItineraryJsonParseResult {
+  const parsed = parseJson(response);
+  if ("error" in parsed) {
+    return { success: false, error: parsed.error };
+  }
+
+  const result = llmItinerarySchema.safeParse(parsed.raw);
+  if (!result.success) {
+    return { success: false, error: formatIssues(result.error) };
+  }
+
+  let lastKnownRegion = "";
+  const days: ItineraryDay[] = [...result.data.days]
+    .sort((a, b) => a.dayNumber - b.dayNumber)
+    .slice(0, totalDays)
+    .map((day, index) => {
+      lastKnownRegion = day.region || lastKnownRegion;
+      return {
+        dayNumber: index + 1,
+        date: day.date || calculateDateForDay(startDate, index),
+        title: day.title,
+        description: day.description,
+        region: lastKnownRegion,
+        places: toPlaceLocations(day.places),
+      };
+    });
+
+  // Fill in missing days if needed
+  while (days.length < totalDays) {
+    const dayNumber = days.length + 1;
+    days.push({
+      dayNumber,
+      date: calculateDateForDay(startDate, dayNumber - 1),
+      title: `Day ${dayNumber}`,
+      description: "Free time to explore",
+      region: lastKnownRegion,
+      places: [],
+    });
+  }
+
+  console.log(`✅ JSON parsing complete. Found ${days.length} days total.`);
+
+  return {
+    success: true,
+    itinerary: {
+      title: result.data.title,
+      destination,
+      totalDays,
+      days,
+    },
+  };
+}
+
+/**
+ * Parses a single regenerated day from a JSON mode response
+ * The day keeps its place in the trip: number and date come from the caller, and the
+ * region falls back to the one it had before
+ */
+export function parseItineraryDayJson(
+  response: string,
+  dayNumber: number,
+  date: string,
+  region: string
+): ItineraryDayJsonParseResult {
+  const parsed = parseJson(response);
+  if ("error" in parsed) {
+    return { success: false, error: parsed.error };
+  }
+
+  const result = llmDaySchema.safeParse(parsed.raw);
+  if (!result.success) {
+    return { success: false, error: formatIssues(result.error) };
+  }
+
+  return {
+    success: true,
+    day: {
+      dayNumber,
+      date,
+      title: result.data.title,
+      description: result.data.description,
+      region: result.data.region || region,
+      places: toPlaceLocations(result.data.places),
+    },
+  };
+}
+
+/**
+ * Parses place suggestions from a JSON mode response
+ */
+export function parsePlaceSuggestionsJson(
+  response: string
+): PlaceSuggestionsJsonParseResult {
+  const parsed = parseJson(response);
+  if ("error" in parsed) {
+    return { success: false, error: parsed.error };
+  }
+
+  const result = llmPlaceSuggestionsSchema.safeParse(parsed.raw);
+  return result.success
+    ? { success: true, suggestions: result.data.suggestions }
+    : { success: false, error: formatIssues(result.error) };
+}
+
+/**
+ * Parses the assistant's reply and operations from a JSON mode response
+ * The operations are only checked for shape here; whether they fit the itinerary is
+ * checked by applying them
+ */
+export function parseAssistantResponseJson(
+  response: string
+): AssistantResponseJsonParseResult {
+  const parsed = parseJson(response);
+  if ("error" in parsed) {
+    return { success: false, error: parsed.error };
+  }
+
+  const result = assistantResponseSchema.safeParse(parsed.raw);
+  return result.success
+    ? { success: true, response: result.data }
+    : { success: false, error: formatIssues(result.error) };
+}
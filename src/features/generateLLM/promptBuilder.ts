@@ -1,3 +1,64 @@
+type PromptFormat = "text" | "json";
+
+const NO_MARKDOWN_REQUIREMENT = "Do not use markdown anywhere in the values";
+
+function formatRequirements(requirements: string[]): string {
+  return requirements.map((requirement) => `- ${requirement}`).join("\n");
+}
+
+function describeCoordinatesRequirement(format: PromptFormat): string {
+  return `Provide realistic latitude and longitude coordinates (5 decimal places)${
+    format === "json" ? " as numbers" : ""
+  }`;
+}
+
+/**
+ * Requirements for the places and descriptions of a planned day, shared by the text and
+ * JSON prompts for whole trips and single days so the formats can't drift apart
+ */
+function describePlaceRequirements(format: PromptFormat): string[] {
+  return [
+    "Include only the place name itself with no other additions",
+    "Don't include transportation options unless the transport itself is the attraction",
+    "Day title should be up to 4 words",
+    "For each place, provide a description in a narrative style that shows why the specific traveller would want to visit it, what can they expect to do there and a bit of interesting cultural and historical background about the place.",
+    'Write in a tourist guide style. Start paragraph with 2nd person language always start with a verb ("discover the old city..., hike to the top..."), avoid reapting the same language.',
+    `${
+      format === "json" ? "Descriptions" : "Paragraphs"
+    } should be no more than 25 words for a day and no more than 40 words for a place`,
+    ...(format === "text"
+      ? [
+          "In each place description, include a shortened version of the place name surrounded by double square brackets [[ShortName]] for easy reference",
+        ]
+      : []),
+    describeCoordinatesRequirement(format),
+    ...(format === "text" ? ["Each place name must be wrapped in **double asterisks**"] : []),
+  ];
+}
+
+/**
+ * Requirements for planning a whole trip, shared by the text and JSON itinerary prompts
+ */
+function describeTripRequirements(interests: string[], travelStyle: string): string[] {
+  return [
+    "Don't include alternative routes or options",
+    "match the activities to the interests of the traveler, the season and whether at the time of the year",
+    "Consider travel time between locations and places that might be closed at the time of the year or on the specific day",
+    "Each day should have a thematic focus when possible",
+    "For each day, provide an intro with the theme of the day and the types of activies and possibly some historical background (depending on and subject to the travelers interests)",
+    `traveler's interests: ${interests.join(", ")}`,
+    `Match the ${travelStyle} budget and style`,
+    "Include specific place names (restaurants, museums, attractions, etc.)",
+    "Provide practical, actionable recommendations. You can include practical tips about going from place to place (if not trivial) and about opening hours and other practical matters, as long as they are short. For hikings and walking trips include walking time and difficulty.",
+  ];
+}
+
+// Requirements for a single regenerated day, in either format
+const DAY_REGENERATION_REQUIREMENTS = [
+  "Include 3-5 places and attractions, counting the places the traveler is keeping",
+  "Stay in the day's region and keep the route sensible between the previous and next day",
+];
+
 export function createItineraryPrompt({
   destination,
   startDate,
@@ -43,26 +104,270 @@ DAY 2 - [Date: YYYY-MM-DD] - [Day Title]
 Continue this format for all ${totalDays} days.
 
 Requirements:
-- Include 3-5 places and attractions per day
-- Include only the place name itself with no other additions
-- Don't include transportation options unless the transport itself is the attraction
-- Day title should be up to 4 words
-- Don't include alternative routes or options
-- match the activities to the interests of the traveler, the season and whether at the time of the year
-- Consider travel time between locations and places that might be closed at the time of the year or on the specific day
-- Each day should have a thematic focus when possible
-- For each place, provide a description in a narrative style that shows why the specific traveller would want to visit it, what can they expect to do there and a bit of interesting cultural and historical background about the place. 
-- Write in a tourist guide style. Start paragraph with 2nd person language always start with a verb ("discover the old city..., hike to the top..."), avoid reapting the same language. 
-- Paragraphs should be no more than 25 words for a day and no more than 40 words for a place
-- In each place description, include a shortened version of the place name surrounded by double square brackets [[ShortName]] for easy reference
-- For each day, provide an intro with the theme of the day and the types of activies and possibly some historical background (depending on and subject to the travelers interests)
-- The title of at least the first day should include the name of the region or city, surrounded by ** (for example: **Rome**). Each consecutive day concerning a new city or region should also include this formatting
-- Each day should also have a region context - if you move to a new city or region, mention it clearly in the day title with the **RegionName** format
-- traveler's interests: ${interests.join(", ")}
-- Match the ${travelStyle} budget and style
-- Provide realistic latitude and longitude coordinates (5 decimal places)
-- Each place name must be wrapped in **double asterisks**
-- Include specific place names (restaurants, museums, attractions, etc.)
-- Provide practical, actionable recommendations. You can include practical tips about going from place to place (if not trivial) and about opening hours and other practical matters, as long as they are short. For hikings and walking trips include walking time and difficulty.
-- Do not include any blocks other than days and places`;
+${formatRequirements([
+  "Include 3-5 places and attractions per day",
+  ...describePlaceRequirements("text"),
+  ...describeTripRequirements(interests, travelStyle),
+  "The title of at least the first day should include the name of the region or city, surrounded by ** (for example: **Rome**). Each consecutive day concerning a new city or region should also include this formatting",
+  "Each day should also have a region context - if you move to a new city or region, mention it clearly in the day title with the **RegionName** format",
+  "Do not include any blocks other than days and places",
+])}`;
+}
+
+/**
+ * Prompt for JSON mode: the same trip, returned as an object matching llmItinerarySchema
+ */
+export function createItineraryJsonPrompt({
+  destination,
+  startDate,
+  endDate,
+  totalDays,
+  interests,
+  travelStyle,
+  additionalNotes,
+}: {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  totalDays: number;
+  interests: string[];
+  travelStyle: string;
+  additionalNotes?: string;
+}): string {
+  return `Create a detailed ${totalDays}-day travel itinerary for ${destination} from ${startDate} to ${endDate}.
+
+Travel Style: ${travelStyle}
+Interests: ${interests.join(", ")}
+${additionalNotes ? `Additional Notes: ${additionalNotes}` : ""}
+
+Respond with a single JSON object and nothing else, in exactly this shape:
+
+{
+  "title": "Creative title for the trip",
+  "days": [
+    {
+      "dayNumber": 1,
+      "date": "YYYY-MM-DD",
+      "title": "Day title",
+      "region": "City or region the day takes place in",
+      "description": "Brief day description",
+      "places": [
+        {
+          "name": "Place name",
+          "shortName": "Shortened place name",
+          "lat": 00.00000,
+          "lng": 00.00000,
+          "description": "Description of the place and activities"
+        }
+      ]
+    }
+  ]
+}
+
+Requirements:
+${formatRequirements([
+  `Include exactly ${totalDays} days, numbered from 1, with dates starting at ${startDate}`,
+  "Include 3-5 places and attractions per day",
+  ...describePlaceRequirements("json"),
+  ...describeTripRequirements(interests, travelStyle),
+  "Set each day's region to the city or region it takes place in",
+  NO_MARKDOWN_REQUIREMENT,
+])}`;
+}
+
+export interface DayRegenerationPromptParams {
+  tripTitle: string;
+  dayNumber: number;
+  date?: string;
+  region?: string;
+  previousDay?: { title?: string; region?: string; places: string[] };
+  nextDay?: { title?: string; region?: string; places: string[] };
+  usedPlaces: string[]; // Places elsewhere in the trip, not to be repeated
+  keptPlaces: string[]; // Locked places and hotels that stay in this day
+  instructions?: string;
+}
+
+function describeNeighbourDay(
+  label: string,
+  day?: { title?: string; region?: string; places: string[] }
+): string {
+  if (!day) return "";
+  const places = day.places.length > 0 ? day.places.join(", ") : "no places";
+  return `${label}: ${day.title || "Untitled"}${day.region ? ` (${day.region})` : ""} - ${places}\n`;
+}
+
+function describeDayContext({
+  tripTitle,
+  dayNumber,
+  date,
+  region,
+  previousDay,
+  nextDay,
+  usedPlaces,
+  keptPlaces,
+  instructions,
+}: DayRegenerationPromptParams): string {
+  return `Plan a new version of day ${dayNumber}${date ? ` (${date})` : ""} of the trip "${tripTitle}". The rest of the trip stays as it is.
+
+${region ? `Region: ${region}\n` : ""}${describeNeighbourDay("Previous day", previousDay)}${describeNeighbourDay("Next day", nextDay)}${
+    usedPlaces.length > 0
+      ? `Places already in the trip (don't repeat them): ${usedPlaces.join(", ")}\n`
+      : ""
+  }${
+    keptPlaces.length > 0
+      ? `Places the traveler is keeping on this day (don't include them again, plan around them): ${keptPlaces.join(", ")}\n`
+      : ""
+  }${instructions ? `Traveler's instructions for this day: ${instructions}\n` : ""}`;
+}
+
+/**
+ * Prompt for regenerating a single day in the text format, parsed like a one-day itinerary
+ */
+export function createDayRegenerationPrompt(
+  params: DayRegenerationPromptParams
+): string {
+  return `${describeDayContext(params)}
+Please format your response EXACTLY as follows:
+
+DAY ${params.dayNumber} - [Date: YYYY-MM-DD] - [Day Title]
+[Brief day description]
+
+**[Place Name 1]** (lat: XX.XXXXX, lng: XX.XXXXX)
+[Description of the place and activities]
+
+**[Place Name 2]** (lat: XX.XXXXX, lng: XX.XXXXX)
+[Description of the place and activities]
+
+Requirements:
+${formatRequirements([
+  ...DAY_REGENERATION_REQUIREMENTS,
+  ...describePlaceRequirements("text"),
+  "Do not include any blocks other than the day and its places",
+])}`;
+}
+
+/**
+ * Prompt for regenerating a single day in JSON mode, matching llmDaySchema
+ */
+export function createDayRegenerationJsonPrompt(
+  params: DayRegenerationPromptParams
+): string {
+  return `${describeDayContext(params)}
+Respond with a single JSON object and nothing else, in exactly this shape:
+
+{
+  "dayNumber": ${params.dayNumber},
+  "date": "YYYY-MM-DD",
+  "title": "Day title",
+  "region": "City or region the day takes place in",
+  "description": "Brief day description",
+  "places": [
+    {
+      "name": "Place name",
+      "shortName": "Shortened place name",
+      "lat": 00.00000,
+      "lng": 00.00000,
+      "description": "Description of the place and activities"
+    }
+  ]
+}
+
+Requirements:
+${formatRequirements([
+  ...DAY_REGENERATION_REQUIREMENTS,
+  ...describePlaceRequirements("json"),
+  NO_MARKDOWN_REQUIREMENT,
+])}`;
+}
+
+/**
+ * Prompt for extra stops near a day's route, in JSON mode matching llmPlaceSuggestionsSchema
+ */
+export function createPlaceSuggestionsPrompt({
+  region,
+  stops,
+  interests,
+  travelStyle,
+  excludePlaces,
+  count,
+}: {
+  region?: string;
+  stops: string[];
+  interests: string[];
+  travelStyle: string;
+  excludePlaces: string[];
+  count: number;
+}): string {
+  return `Suggest ${count} places a traveler could add to a day of their trip${region ? ` in ${region}` : ""}.
+
+The day currently visits, in order: ${stops.join(", ")}
+Travel Style: ${travelStyle}
+Interests: ${interests.join(", ")}
+${excludePlaces.length > 0 ? `Already in the trip (don't suggest these): ${excludePlaces.join(", ")}` : ""}
+
+Respond with a single JSON object and nothing else, in exactly this shape:
+
+{
+  "suggestions": [
+    {
+      "name": "Place name",
+      "reason": "Why this traveler would enjoy it"
+    }
+  ]
+}
+
+Requirements:
+- Only suggest real, specific places that are close to the places the day already visits
+- Order the suggestions from best to worst fit
+- Match the traveler's interests and the ${travelStyle} budget and style
+- Include only the place name itself with no other additions, so it can be looked up on a map
+- Keep each reason under 20 words, written to the traveler in 2nd person
+- Don't suggest hotels or transportation
+- ${NO_MARKDOWN_REQUIREMENT}`;
+}
+
+/**
+ * Prompt for one assistant instruction, answered with operations matching assistantResponseSchema
+ */
+export function createAssistantPrompt({
+  outline,
+  instruction,
+}: {
+  outline: string;
+  instruction: string;
+}): string {
+  return `The itinerary currently looks like this, one block per line with its id in brackets:
+
+${outline || "(empty)"}
+
+Instruction: ${instruction}
+
+Respond with a single JSON object and nothing else, in exactly this shape:
+
+{
+  "reply": "Short answer to the traveler describing what you changed",
+  "operations": [
+    { "op": "insert", "blockType": "place", "id": "new-1", "afterBlockId": "block id", "data": { "name": "Place name", "lat": 00.00000, "lng": 00.00000 }, "paragraph": "Description of the place" },
+    { "op": "insert", "blockType": "day", "id": "new-2", "afterBlockId": "block id", "data": { "title": "Day title", "date": "YYYY-MM-DD", "region": "Region" } },
+    { "op": "insert", "blockType": "paragraph", "afterBlockId": "block id", "data": { "text": "Paragraph text" } },
+    { "op": "move", "blockId": "block id", "afterBlockId": "block id" },
+    { "op": "delete", "blockId": "block id" },
+    { "op": "update", "blockId": "block id", "data": { "title": "New day title" } }
+  ]
+}
+
+Rules:
+- Only use block ids from the itinerary above, or the "id" you gave a block inserted earlier in the same list
+- Operations run in order, each on the result of the previous ones
+- Moving or deleting a day includes all of its blocks; moving a day after another day puts it after that whole day
+- Moving or deleting a place includes its linked paragraph
+- A block inserted after a day goes at the start of that day; to add a place at the end of a day, insert it after the day's last block
+- Day numbers are updated automatically; when days are reordered their dates stay in trip order
+- Place data: name (required), lat, lng, notes; day data: title, date, region; paragraph data: text
+- Never change places marked as locked unless the instruction names them
+- Don't modify the title block
+- If the instruction is a question or can't be done, explain why in the reply and return no operations
+
+New places and days follow the same requirements as the rest of the trip:
+${formatRequirements([...describePlaceRequirements("json"), NO_MARKDOWN_REQUIREMENT])}`;
 }
@@ -264,7 +264,7 @@ export function parseItineraryResponse(
   };
 }
 
-function calculateDateForDay(startDate: string, dayOffset: number): string {
+export function calculateDateForDay(startDate: string, dayOffset: number): string {
   const date = new Date(startDate);
   date.setDate(date.getDate() + dayOffset);
   return date.toISOString().split("T")[0];
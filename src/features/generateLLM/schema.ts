@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+// What the model returns in JSON mode: GeneratedItinerary without the fields that
+// enrichment fills in later
+
+// Models sometimes quote numbers; plain z.coerce would also turn null into 0
+const numeric = z.union([z.number(), z.string().trim().min(1).pipe(z.coerce.number())], {
+  errorMap: () => ({ message: "Expected a number" }),
+});
+
+export const llmPlaceSchema = z.object({
+  name: z.string().trim().min(1, "Place name is required"),
+  shortName: z.string().trim().optional(),
+  lat: numeric.pipe(
+    z
+      .number()
+      .min(-90, "Latitude must be between -90 and 90")
+      .max(90, "Latitude must be between -90 and 90")
+  ),
+  lng: numeric.pipe(
+    z
+      .number()
+      .min(-180, "Longitude must be between -180 and 180")
+      .max(180, "Longitude must be between -180 and 180")
+  ),
+  description: z.string().default(""),
+});
+
+export const llmDaySchema = z.object({
+  dayNumber: numeric.pipe(
+    z
+      .number()
+      .int("Day number must be a whole number")
+      .min(1, "Day number must be at least 1")
+  ),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+  title: z.string().trim().min(1, "Day title is required"),
+  description: z.string().default(""),
+  region: z.string().trim().optional(),
+  places: z.array(llmPlaceSchema).default([]),
+});
+
+export const llmItinerarySchema = z.object({
+  title: z.string().trim().min(1, "Itinerary title is required"),
+  days: z.array(llmDaySchema).min(1, "At least one day is required"),
+});
+
+export type LLMItinerary = z.infer<typeof llmItinerarySchema>;
+
+// Candidates for "suggest more places"; locations come from Google, so only names are needed
+export const llmPlaceSuggestionsSchema = z.object({
+  suggestions: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, "Place name is required"),
+        reason: z.string().trim().default(""),
+      })
+    )
+    .min(1, "At least one suggestion is required"),
+});
+
+export type LLMPlaceSuggestions = z.infer<typeof llmPlaceSuggestionsSchema>;
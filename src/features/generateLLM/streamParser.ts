@@ -0,0 +1,70 @@
+import { parseItineraryResponse } from "./responseParser";
+import { GeneratedItinerary, ItineraryDay } from "./types";
+
+// Same day header format parseItineraryResponse looks for: DAY X - Date - Title
+const DAY_HEADER_PATTERN = /^DAY\s+(\d+)\s*-\s*(.+)/i;
+
+/**
+ * Parses an itinerary response while the model is still streaming it
+ * A day counts as complete once the next day's header has arrived, since its places
+ * and descriptions can't change after that
+ */
+export function createStreamingItineraryParser(
+  destination: string,
+  startDate: string,
+  totalDays: number
+) {
+  let response = "";
+  let completedDays = 0;
+
+  return {
+    /**
+     * Adds a chunk of the response
+     * @returns The itinerary title and any days completed by this chunk
+     */
+    push(chunk: string): { title: string; days: ItineraryDay[] } {
+      response += chunk;
+
+      // Only look at whole lines; the last one may still be cut off mid-header
+      const completeText = response.slice(0, response.lastIndexOf("\n") + 1);
+      const headerOffsets: number[] = [];
+      let offset = 0;
+      for (const line of completeText.split("\n")) {
+        if (DAY_HEADER_PATTERN.test(line.trim())) {
+          headerOffsets.push(offset);
+        }
+        offset += line.length + 1;
+      }
+
+      // Everything before the last header holds finished days
+      const finishedDayCount = Math.min(headerOffsets.length - 1, totalDays);
+      if (finishedDayCount <= completedDays) {
+        return { title: "", days: [] };
+      }
+
+      const parsed = parseItineraryResponse(
+        completeText.slice(0, headerOffsets[headerOffsets.length - 1]),
+        destination,
+        startDate,
+        finishedDayCount
+      );
+      const days = parsed.days.slice(completedDays);
+      completedDays = parsed.days.length;
+
+      return { title: parsed.title, days };
+    },
+
+    /**
+     * Parses the full response once the stream has ended
+     * @returns The complete itinerary and the days not yet returned by push
+     */
+    finish(): { itinerary: GeneratedItinerary; remainingDays: ItineraryDay[] } {
+      const itinerary = parseItineraryResponse(response, destination, startDate, totalDays);
+      return { itinerary, remainingDays: itinerary.days.slice(completedDays) };
+    },
+
+    getResponse(): string {
+      return response;
+    },
+  };
+}
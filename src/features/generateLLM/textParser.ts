@@ -0,0 +1,255 @@
+import { PlaceLocation, ItineraryDay, GeneratedItinerary } from "./types";
+
+export interface TextImportOptions {
+  destination?: string;
+  startDate?: string; // YYYY-MM-DD, used for days without an explicit date
+}
+
+// "# Heading", "## Heading", ...
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*$/;
+// "Day 3", "DAY 3 - ...", "Day 3: ...", optionally bold
+const DAY_LINE_PATTERN = /^\**\s*day\s+(\d+)\b\s*[:.\-–—]?\s*(.*?)\**$/i;
+// "- item", "* item", "+ item", "1. item", "1) item"
+const BULLET_PATTERN = /^(?:[-*+•]|\d+[.)])\s+(.+)$/;
+const TITLE_LINE_PATTERN = /^(?:itinerary\s+)?title:\s*(.+)$/i;
+const DATE_PATTERN = /(\d{4}-\d{2}-\d{2})/;
+const HOTEL_PREFIX_PATTERN =
+  /^(?:🏨\s*|(?:hotel|stay|accommodation|lodging|check[- ]?in)\s*:\s*)/i;
+
+// Coordinates in "(lat: 1.23, lng: 4.56)", "(1.23, 4.56)" or "@1.23,4.56" form
+const COORDINATE_PATTERNS = [
+  /\(\s*lat(?:itude)?:\s*(-?\d+(?:\.\d+)?)\s*,\s*(?:lng|lon|long|longitude):\s*(-?\d+(?:\.\d+)?)\s*\)/i,
+  /\(\s*(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)\s*\)/,
+  /@\s*(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)/,
+];
+
+/**
+ * Remove Markdown inline formatting that shouldn't end up in the editor
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "") // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // Links keep their text
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|\s)[*_](\S(?:.*?\S)?)[*_](?=\s|$|[.,;:!?])/g, "$1$2")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function extractCoordinates(text: string): {
+  lat?: number;
+  lng?: number;
+  rest: string;
+} {
+  for (const pattern of COORDINATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const lat = parseFloat(match[1]);
+    const lng = parseFloat(match[2]);
+    if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+      return { lat, lng, rest: text.replace(match[0], " ").trim() };
+    }
+  }
+  return { rest: text };
+}
+
+/**
+ * Split a place line into its name and the descriptive text that follows
+ * The name is the bold part if there is one, otherwise the text before the first separator
+ */
+function splitPlaceLine(text: string): { name: string; paragraph: string } {
+  const boldMatch = text.match(/^(.*?)(\*\*|__)(.+?)\2(.*)$/);
+  if (boldMatch) {
+    return {
+      name: stripInlineMarkdown(boldMatch[3]),
+      paragraph: stripInlineMarkdown(
+        `${boldMatch[1]} ${boldMatch[4]}`.replace(/^\s*[:\-–—,]\s*/, "")
+      ),
+    };
+  }
+
+  const separatorMatch = text.match(/^(.+?)\s+[-–—]\s+(.+)$/) || text.match(/^([^:]+):\s+(.+)$/);
+  if (separatorMatch) {
+    return {
+      name: stripInlineMarkdown(separatorMatch[1]),
+      paragraph: stripInlineMarkdown(separatorMatch[2]),
+    };
+  }
+
+  return { name: stripInlineMarkdown(text), paragraph: "" };
+}
+
+function calculateDateForDay(startDate: string | undefined, dayOffset: number): string {
+  if (!startDate) return "";
+  const date = new Date(startDate);
+  if (isNaN(date.getTime())) return "";
+  date.setDate(date.getDate() + dayOffset);
+  return date.toISOString().split("T")[0];
+}
+
+function parseDayHeading(
+  heading: string,
+  dayNumber: number,
+  fallbackDate: string
+): ItineraryDay {
+  const dayMatch = heading.match(DAY_LINE_PATTERN);
+  const text = dayMatch ? dayMatch[2] : heading;
+
+  const dateMatch = text.match(DATE_PATTERN);
+  const regionMatch = text.match(/\*\*([^*]+)\*\*/);
+
+  const title = stripInlineMarkdown(
+    text
+      .replace(DATE_PATTERN, "")
+      .replace(/^\s*[-–—:]\s*/, "")
+      .replace(/\s*[-–—:]\s*$/, "")
+  );
+
+  return {
+    dayNumber,
+    date: dateMatch ? dateMatch[1] : fallbackDate,
+    title: title || `Day ${dayNumber}`,
+    description: "",
+    region: regionMatch ? stripInlineMarkdown(regionMatch[1]) : undefined,
+    places: [],
+  };
+}
+
+/**
+ * Parse free-form notes or Markdown into a GeneratedItinerary
+ * Looser than parseItineraryResponse: headings or "Day N" lines start days, bullets or bold
+ * text become places and coordinates are optional. Places without coordinates are marked
+ * with hasCoordinates: false so enrichment can resolve them.
+ */
+export function parseItineraryText(
+  text: string,
+  options: TextImportOptions = {}
+): GeneratedItinerary {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trim());
+
+  let title = "";
+  const days: ItineraryDay[] = [];
+  let currentDay: ItineraryDay | null = null;
+  let currentPlace: PlaceLocation | null = null;
+  // The destination gives place searches context until a heading names a region
+  let lastKnownRegion = options.destination?.trim() || "";
+
+  // A single top-level heading is the title rather than a day
+  const topLevelHeadings = lines.filter((line) => /^#\s/.test(line));
+  const hasTitleHeading =
+    topLevelHeadings.length === 1 &&
+    !DAY_LINE_PATTERN.test(topLevelHeadings[0].replace(/^#\s+/, ""));
+
+  const startDay = (heading: string) => {
+    // Undated days follow the previous day, or count from the start date
+    const previousDay = days[days.length - 1];
+    const fallbackDate = previousDay?.date
+      ? calculateDateForDay(previousDay.date, 1)
+      : calculateDateForDay(options.startDate, days.length);
+    const day = parseDayHeading(heading, days.length + 1, fallbackDate);
+    if (day.region) {
+      lastKnownRegion = day.region;
+    } else if (lastKnownRegion) {
+      day.region = lastKnownRegion;
+    }
+    days.push(day);
+    currentDay = day;
+    currentPlace = null;
+  };
+
+  const ensureDay = (): ItineraryDay => {
+    if (!currentDay) {
+      startDay(`Day ${days.length + 1}`);
+    }
+    return currentDay!;
+  };
+
+  const appendText = (target: { description?: string; paragraph?: string }, key: "description" | "paragraph", value: string) => {
+    if (!value) return;
+    target[key] = target[key] ? `${target[key]} ${value}` : value;
+  };
+
+  for (const line of lines) {
+    if (!line || /^(?:-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      continue;
+    }
+
+    const titleMatch = line.match(TITLE_LINE_PATTERN);
+    if (titleMatch && !title) {
+      title = stripInlineMarkdown(titleMatch[1]);
+      continue;
+    }
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      if (hasTitleHeading && headingMatch[1].length === 1 && !title) {
+        title = stripInlineMarkdown(headingMatch[2]);
+      } else {
+        startDay(headingMatch[2]);
+      }
+      continue;
+    }
+
+    if (DAY_LINE_PATTERN.test(line)) {
+      startDay(line);
+      continue;
+    }
+
+    const bulletMatch = line.match(BULLET_PATTERN);
+    const isBoldPlace = !bulletMatch && /^(\*\*|__).+?\1/.test(line);
+
+    if (bulletMatch || isBoldPlace) {
+      const day = ensureDay();
+      let content = bulletMatch ? bulletMatch[1] : line;
+
+      // "Hotel: Name" style prefixes mark accommodation, inside or outside bold text
+      const boldPrefix = content.match(/^(\*\*|__)/)?.[1] || "";
+      const isHotel = HOTEL_PREFIX_PATTERN.test(content.slice(boldPrefix.length));
+      if (isHotel) {
+        content = (boldPrefix + content.slice(boldPrefix.length).replace(HOTEL_PREFIX_PATTERN, ""))
+          .replace(/^(\*\*|__)\1\s*/, ""); // Drop bold left empty by "**Hotel:** Name"
+      }
+
+      const { lat, lng, rest } = extractCoordinates(content);
+      const { name, paragraph } = splitPlaceLine(rest);
+      if (!name) continue;
+
+      const place: PlaceLocation = {
+        name,
+        lat: lat ?? 0,
+        lng: lng ?? 0,
+        hasCoordinates: lat !== undefined && lng !== undefined,
+        paragraph,
+        shortName: "",
+        linkedParagraphId: "",
+        type: isHotel ? "hotel" : "place",
+      };
+
+      day.places.push(place);
+      currentPlace = place;
+      continue;
+    }
+
+    // Plain text describes the current place, or the day when no place has started yet
+    const plain = stripInlineMarkdown(line.replace(/^>\s*/, ""));
+    if (currentPlace) {
+      appendText(currentPlace, "paragraph", plain);
+    } else if (currentDay) {
+      appendText(currentDay, "description", plain);
+    }
+  }
+
+  const destination = options.destination?.trim() || lastKnownRegion || title || "Imported trip";
+
+  return {
+    title: title || `${destination} Trip`,
+    destination,
+    totalDays: days.length,
+    days,
+  };
+}
@@ -1,7 +1,10 @@
+import type { DirectionsData } from "@/features/directions/types";
+
 export interface PlaceLocation {
   name: string;
   lat: number;
   lng: number;
+  hasCoordinates?: boolean; // False when lat/lng are placeholders to be resolved by enrichment
   paragraph?: string; // Description text from the itinerary
   shortName?: string; // Shortened name extracted from [[]] format
   linkedParagraphId?: string; // ID of linked paragraph for sync editing
@@ -34,3 +37,13 @@ export interface GeneratedItinerary {
   totalDays: number;
   days: ItineraryDay[];
 }
+
+// Progress events of a streamed generation, sent as newline-delimited JSON
+// Indexes are 0-based positions in the itinerary's days and a day's places
+export type ItineraryGenerationEvent =
+  | { type: "title"; title: string }
+  | { type: "day"; dayIndex: number; day: ItineraryDay }
+  | { type: "place"; dayIndex: number; placeIndex: number; place: PlaceLocation }
+  | { type: "directions"; directions: DirectionsData[] }
+  | { type: "complete"; itinerary: GeneratedItinerary }
+  | { type: "error"; error: string };
@@ -9,6 +9,7 @@ import {
   getDayColor,
 } from "../utils/colors";
 import { DirectionsPolyRenderer } from "../../directions/directionsPolyRenderer";
+import type { DirectionsRefreshSummary } from "../../directions/types";
 import { getPlaceDetailsAction } from "@/features/editor/actions/places";
 import { getPlacePhotoUrl } from "@/features/editor/utils/photoUtils";
 import { PlaceLocation } from "@/services/openai/itinerary";
@@ -24,6 +25,18 @@ import { emitMapBoundsChanged, debounce, MapBounds } from "../boundsManager";
 
 const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || "";
 const DEFAULT_CENTER = { lat: 40.7128, lng: -74.006 }; // New York City default
+const REFRESH_STATUS_DURATION = 5000;
+
+// e.g. "Updated days 2, 4 · 3 unchanged"
+function formatRefreshStatus({ refreshedDays, unchangedDays }: DirectionsRefreshSummary) {
+  if (refreshedDays.length === 0) {
+    return "All routes up to date";
+  }
+
+  const days = refreshedDays.map((dayIndex) => dayIndex + 1).join(", ");
+  const updated = `Updated ${refreshedDays.length === 1 ? "day" : "days"} ${days}`;
+  return unchangedDays.length > 0 ? `${updated} · ${unchangedDays.length} unchanged` : updated;
+}
 
 export const GoogleMap = React.memo(function GoogleMap({
   data,
@@ -31,6 +44,7 @@ export const GoogleMap = React.memo(function GoogleMap({
   onMapReady,
   onRefreshDirections,
   selectedPlace,
+  readOnly = false,
   className = "",
 }: MapProps) {
   console.log("GoogleMap component rendering, data:", data);
@@ -42,6 +56,7 @@ export const GoogleMap = React.memo(function GoogleMap({
   const [error, setError] = useState<string | null>(null);
   const [mapContainer, setMapContainer] = useState<HTMLDivElement | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshStatus, setRefreshStatus] = useState<string | null>(null);
   const [originalBounds, setOriginalBounds] =
     useState<google.maps.LatLngBounds | null>(null);
   const [selectedMarker, setSelectedMarker] =
@@ -59,6 +74,13 @@ export const GoogleMap = React.memo(function GoogleMap({
 
   console.log("GoogleMap state - isLoaded:", isLoaded, "error:", error);
 
+  // Hide the last refresh summary after a few seconds
+  useEffect(() => {
+    if (!refreshStatus) return;
+    const timeout = setTimeout(() => setRefreshStatus(null), REFRESH_STATUS_DURATION);
+    return () => clearTimeout(timeout);
+  }, [refreshStatus]);
+
   // Callback ref to ensure we have the DOM element
   const setMapRef = React.useCallback((node: HTMLDivElement | null) => {
     mapRef.current = node;
@@ -235,7 +257,7 @@ export const GoogleMap = React.memo(function GoogleMap({
             closePopup();
 
             // Check if click was on a POI (point of interest)
-            if (event.placeId) {
+            if (event.placeId && !readOnly) {
               console.log("📍 Clicked on POI with place_id:", event.placeId);
 
               // Prevent default POI info window
@@ -295,7 +317,7 @@ export const GoogleMap = React.memo(function GoogleMap({
         window.removeEventListener("map:fitDayBounds", () => {});
       }
     };
-  }, [mapContainer, onMapReady, closePopup]);
+  }, [mapContainer, onMapReady, closePopup, readOnly]);
 
   // Function to fetch place details using placeId
   const fetchPlaceDetails = async (placeId: string, placeName: string) => {
@@ -657,8 +679,12 @@ export const GoogleMap = React.memo(function GoogleMap({
     if (!onRefreshDirections || isRefreshing) return;
 
     setIsRefreshing(true);
+    setRefreshStatus(null);
     try {
-      await onRefreshDirections();
+      const summary = await onRefreshDirections();
+      if (summary) {
+        setRefreshStatus(formatRefreshStatus(summary));
+      }
     } catch (error) {
       console.error("Error refreshing directions:", error);
     } finally {
@@ -679,27 +705,34 @@ export const GoogleMap = React.memo(function GoogleMap({
           </div>
 
           {/* Refresh Button */}
-          <button
-            onClick={handleRefresh}
-            disabled={isRefreshing || data.places.length === 0}
-            className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white rounded-md text-sm font-medium transition-colors"
-            title="Calculate driving directions"
-          >
-            <svg
-              className={`w-4 h-4 ${isRefreshing ? "animate-spin" : ""}`}
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-              />
-            </svg>
-            {isRefreshing ? "Calculating..." : "Refresh Routes"}
-          </button>
+          {!readOnly && (
+            <div className="flex items-center gap-3">
+              {refreshStatus && (
+                <span className="text-xs text-slate-600">{refreshStatus}</span>
+              )}
+              <button
+                onClick={handleRefresh}
+                disabled={isRefreshing || data.places.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white rounded-md text-sm font-medium transition-colors"
+                title="Calculate driving directions"
+              >
+                <svg
+                  className={`w-4 h-4 ${isRefreshing ? "animate-spin" : ""}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                  />
+                </svg>
+                {isRefreshing ? "Calculating..." : "Refresh Routes"}
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
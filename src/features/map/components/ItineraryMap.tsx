@@ -3,6 +3,7 @@
 import { useCallback, useMemo, useState } from "react";
 import { GoogleMap } from "./GoogleMap";
 import { MapPlace } from "../types";
+import type { DirectionsRefreshSummary } from "../../directions/types";
 import {
   transformEditorDataToMapData,
   createEditorDataHash,
@@ -17,7 +18,8 @@ interface EditorBlock {
 interface ItineraryMapProps {
   editorData?: EditorBlock[]; // Editor.js blocks
   directionsData?: any[]; // Directions data from the editor
-  onRefreshDirections?: () => Promise<void>; // Callback to refresh directions
+  onRefreshDirections?: () => Promise<DirectionsRefreshSummary | void>; // Callback to refresh directions
+  readOnly?: boolean; // Viewing only, e.g. a shared itinerary
   className?: string;
 }
 
@@ -25,6 +27,7 @@ export function ItineraryMap({
   editorData = [],
   directionsData = [],
   onRefreshDirections,
+  readOnly = false,
   className = "",
 }: ItineraryMapProps) {
   const { state, setSelectedPlace } = useItinerary();
@@ -188,6 +191,7 @@ export function ItineraryMap({
         onMapReady={handleMapReady}
         onRefreshDirections={onRefreshDirections}
         selectedPlace={selectedPlace}
+        readOnly={readOnly}
         className="w-full h-full"
       />
     </div>
@@ -1,4 +1,6 @@
 // Map feature types
+import type { DirectionsRefreshSummary } from "../directions/types";
+
 export interface MapPlace {
   id: string;
   uid?: string; // Unique identifier for syncing with editor
@@ -35,8 +37,9 @@ export interface MapProps {
   data: MapData;
   onPlaceClick?: (place: MapPlace | null) => void;
   onMapReady?: (map: google.maps.Map) => void;
-  onRefreshDirections?: () => Promise<void>;
+  onRefreshDirections?: () => Promise<DirectionsRefreshSummary | void>;
   selectedPlace?: { uid: string; dayIndex: number } | null;
+  readOnly?: boolean; // Hides route refresh and disables adding places from the map
   className?: string;
 }
 
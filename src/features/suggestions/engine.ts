@@ -0,0 +1,180 @@
+import {
+  googlePlacesService,
+  isHotelPlace,
+  type LocationBias,
+  type PlaceSearchResult,
+} from "@/services/google/places";
+import { suggestPlaceCandidates } from "@/services/openai/itinerary";
+import {
+  estimateMinutesPerKm,
+  findBestInsertion,
+  getSearchArea,
+  isWithinSearchArea,
+} from "./routeGeometry";
+import type { PlaceSuggestion, PlaceSuggestionRequest } from "./types";
+
+const DEFAULT_LIMIT = 5;
+
+// Interests searched directly when the model has no candidates
+const MAX_INTEREST_SEARCHES = 4;
+const RESULTS_PER_INTEREST = 3;
+
+// Scoring: each rating star is worth this many minutes of detour
+const MINUTES_PER_RATING_STAR = 10;
+const DEFAULT_RATING = 3.5;
+// Model candidates were picked for this traveler, interest search results only for a keyword
+const MODEL_PICK_BONUS = 5;
+
+interface Candidate {
+  result: PlaceSearchResult;
+  reason: string;
+  fromModel: boolean;
+}
+
+async function searchFirst(
+  query: string,
+  area: LocationBias
+): Promise<PlaceSearchResult | null> {
+  try {
+    const results = await googlePlacesService.searchPlaces(query, area);
+    return results[0] || null;
+  } catch (error) {
+    console.warn(`⚠️ Suggestion lookup failed for "${query}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Candidates the model picked for the traveler, located with Google
+ */
+async function getModelCandidates(
+  request: PlaceSuggestionRequest,
+  area: LocationBias,
+  count: number
+): Promise<Candidate[]> {
+  let picks: { name: string; reason: string }[] = [];
+  try {
+    picks = await suggestPlaceCandidates({
+      region: request.region,
+      stops: request.stops.map((stop) => stop.name),
+      interests: request.interests,
+      travelStyle: request.travelStyle,
+      excludePlaces: request.excludePlaces,
+      count,
+    });
+  } catch (error) {
+    console.warn("⚠️ Model suggestions failed, using interest search only:", error);
+  }
+
+  const results = await Promise.all(
+    picks.map((pick) =>
+      searchFirst(request.region ? `${pick.name}, ${request.region}` : pick.name, area)
+    )
+  );
+
+  return picks.flatMap((pick, index) => {
+    const result = results[index];
+    return result ? [{ result, reason: pick.reason, fromModel: true }] : [];
+  });
+}
+
+/**
+ * Top Google results for the traveler's interests around the route
+ */
+async function getInterestCandidates(
+  request: PlaceSuggestionRequest,
+  area: LocationBias
+): Promise<Candidate[]> {
+  const interests = request.interests.slice(0, MAX_INTEREST_SEARCHES);
+
+  const results = await Promise.all(
+    interests.map(async (interest) => {
+      try {
+        const query = request.region ? `${interest} in ${request.region}` : interest;
+        return await googlePlacesService.searchPlaces(query, area);
+      } catch (error) {
+        console.warn(`⚠️ Interest search failed for "${interest}":`, error);
+        return [];
+      }
+    })
+  );
+
+  return interests.flatMap((interest, index) =>
+    results[index].slice(0, RESULTS_PER_INTEREST).map((result) => ({
+      result,
+      reason: `Matches your interest in ${interest.toLowerCase()}`,
+      fromModel: false,
+    }))
+  );
+}
+
+/**
+ * Suggests places to add to a day, ranked by how well they fit against the detour they add
+ * The model picks candidates for the traveler's interests and style, Google locates them
+ * near the route, and Google's own interest results fill in when the model has none
+ */
+export async function suggestPlacesForDay(
+  request: PlaceSuggestionRequest
+): Promise<PlaceSuggestion[]> {
+  const limit = request.limit || DEFAULT_LIMIT;
+  const area = getSearchArea(request.stops);
+  const minutesPerKm = estimateMinutesPerKm(request.stops);
+  console.log(
+    `💡 Suggesting places for day ${request.dayNumber} within ${Math.round(area.radius)}m`
+  );
+
+  let candidates = await getModelCandidates(request, area, limit * 2);
+  if (candidates.length === 0) {
+    candidates = await getInterestCandidates(request, area);
+  }
+
+  const excluded = new Set(request.excludePlaces.map((name) => name.trim().toLowerCase()));
+  const seenPlaceIds = new Set<string>();
+
+  const suggestions = candidates.flatMap(({ result, reason, fromModel }) => {
+    const location = result.geometry.location;
+    if (
+      seenPlaceIds.has(result.place_id) ||
+      excluded.has(result.name.trim().toLowerCase()) ||
+      isHotelPlace(result.types || []) ||
+      !isWithinSearchArea(area, location)
+    ) {
+      return [];
+    }
+    seenPlaceIds.add(result.place_id);
+
+    const { insertAfterStop, detourMeters } = findBestInsertion(request.stops, location);
+    const detourMinutes = Math.round((detourMeters / 1000) * minutesPerKm);
+    const score =
+      (result.rating || DEFAULT_RATING) * MINUTES_PER_RATING_STAR -
+      detourMinutes +
+      (fromModel ? MODEL_PICK_BONUS : 0);
+    const photoReferences = (result.photos || [])
+      .slice(0, 4)
+      .map((photo) => photo.photo_reference);
+
+    const suggestion: PlaceSuggestion = {
+      name: result.name,
+      reason,
+      placeId: result.place_id,
+      address: result.formatted_address,
+      lat: location.lat,
+      lng: location.lng,
+      rating: result.rating,
+      photoReferences,
+      thumbnailUrl: photoReferences[0],
+      insertAfterStop,
+      detourMeters: Math.round(detourMeters),
+      detourMinutes,
+      score,
+    };
+    return [suggestion];
+  });
+
+  suggestions.sort((a, b) => b.score - a.score);
+  console.log(
+    `✅ Found ${suggestions.length} suggestions for day ${request.dayNumber} from ${candidates.length} candidates`
+  );
+
+  return suggestions.slice(0, limit);
+}
@@ -0,0 +1,103 @@
+import { calculateStraightLineDistance } from "@/utils/distance";
+import type { LocationBias } from "@/services/google/places";
+import type { RouteStop } from "./types";
+
+// Pace used when the day has no directions yet: ~30 km/h, with roads ~1.3x the straight line
+const DEFAULT_MINUTES_PER_KM = 2.6;
+
+const MIN_SEARCH_RADIUS = 2000;
+const MAX_SEARCH_RADIUS = 50000; // Text Search limit
+const SEARCH_RADIUS_BUFFER = 2000;
+
+function distanceBetween(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number {
+  return calculateStraightLineDistance(a.lat, a.lng, b.lat, b.lng);
+}
+
+/**
+ * Minutes of travel per straight-line kilometer on this day, from its directions when it has them
+ */
+export function estimateMinutesPerKm(stops: RouteStop[]): number {
+  let minutes = 0;
+  let meters = 0;
+
+  for (let i = 1; i < stops.length; i++) {
+    const legMinutes = stops[i].drivingTimeFromPrevious;
+    if (legMinutes && legMinutes > 0) {
+      minutes += legMinutes;
+      meters += distanceBetween(stops[i - 1], stops[i]);
+    }
+  }
+
+  // Very short legs are dominated by parking and traffic lights, so they'd overstate the pace
+  return meters >= 1000 ? minutes / (meters / 1000) : DEFAULT_MINUTES_PER_KM;
+}
+
+/**
+ * Area around the day's stops to look for suggestions in
+ */
+export function getSearchArea(stops: RouteStop[]): LocationBias {
+  const lat = stops.reduce((sum, stop) => sum + stop.lat, 0) / stops.length;
+  const lng = stops.reduce((sum, stop) => sum + stop.lng, 0) / stops.length;
+  const farthest = Math.max(
+    0,
+    ...stops.map((stop) => distanceBetween({ lat, lng }, stop))
+  );
+
+  return {
+    lat,
+    lng,
+    radius: Math.min(
+      MAX_SEARCH_RADIUS,
+      Math.max(MIN_SEARCH_RADIUS, farthest + SEARCH_RADIUS_BUFFER)
+    ),
+  };
+}
+
+/**
+ * Finds where in the day a new place adds the least distance
+ * @returns The stop to visit it after (-1 for before the first) and the distance it adds in meters
+ */
+export function findBestInsertion(
+  stops: RouteStop[],
+  place: { lat: number; lng: number }
+): { insertAfterStop: number; detourMeters: number } {
+  if (stops.length === 0) {
+    return { insertAfterStop: -1, detourMeters: 0 };
+  }
+
+  // Starting or ending the day at the new place only adds the leg to or from it
+  let best = {
+    insertAfterStop: -1,
+    detourMeters: distanceBetween(place, stops[0]),
+  };
+  const last = stops.length - 1;
+  const afterLast = distanceBetween(stops[last], place);
+  if (afterLast < best.detourMeters) {
+    best = { insertAfterStop: last, detourMeters: afterLast };
+  }
+
+  for (let i = 0; i < last; i++) {
+    const detourMeters =
+      distanceBetween(stops[i], place) +
+      distanceBetween(place, stops[i + 1]) -
+      distanceBetween(stops[i], stops[i + 1]);
+    if (detourMeters < best.detourMeters) {
+      best = { insertAfterStop: i, detourMeters };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether a place is within the search area, allowing for results Text Search returns just outside it
+ */
+export function isWithinSearchArea(
+  area: LocationBias,
+  place: { lat: number; lng: number }
+): boolean {
+  return distanceBetween(area, place) <= area.radius * 1.5;
+}
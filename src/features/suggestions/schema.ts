@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+export const MAX_SUGGESTION_LIMIT = 10;
+
+const MAX_STOPS = 50;
+const MAX_EXCLUDED_PLACES = 500;
+
+// Suggestions refer to stops by index, so invalid ones are rejected rather than dropped
+const coordinateSchema = z
+  .number({ invalid_type_error: "Invalid place coordinates" })
+  .finite("Invalid place coordinates");
+
+const routeStopSchema = z.object({
+  name: z.string().max(200),
+  lat: coordinateSchema,
+  lng: coordinateSchema,
+  drivingTimeFromPrevious: z.number().finite().nonnegative().optional(),
+});
+
+export const placeSuggestionRequestSchema = z.object({
+  dayNumber: z.number().int().positive(),
+  region: z.string().max(100, "Region is too long").optional(),
+  stops: z
+    .array(routeStopSchema)
+    .min(1, "Add at least one place with a location to this day first")
+    .max(MAX_STOPS, `A day can have at most ${MAX_STOPS} places`),
+  interests: z.array(z.string().max(50, "Interest is too long")).max(50, "Too many interests"),
+  travelStyle: z.string().max(50, "Travel style is too long"),
+  excludePlaces: z
+    .array(z.string().max(200))
+    .max(MAX_EXCLUDED_PLACES, "Too many places to exclude"),
+  // Clamped rather than rejected, since it only caps how many are returned
+  limit: z
+    .number()
+    .int()
+    .optional()
+    .transform((limit) =>
+      limit === undefined ? undefined : Math.min(Math.max(limit, 1), MAX_SUGGESTION_LIMIT)
+    ),
+});
@@ -0,0 +1,35 @@
+// Place suggestion types
+
+// A stop already on the day's route, in visiting order
+export interface RouteStop {
+  name: string;
+  lat: number;
+  lng: number;
+  drivingTimeFromPrevious?: number; // Minutes from the previous stop, from the day's directions
+}
+
+export interface PlaceSuggestionRequest {
+  dayNumber: number;
+  region?: string;
+  stops: RouteStop[];
+  interests: string[];
+  travelStyle: string;
+  excludePlaces: string[]; // Places anywhere in the trip, never suggested again
+  limit?: number;
+}
+
+export interface PlaceSuggestion {
+  name: string;
+  reason: string; // Why it fits the traveler, shown with the suggestion
+  placeId: string;
+  address: string;
+  lat: number;
+  lng: number;
+  rating?: number;
+  photoReferences: string[];
+  thumbnailUrl?: string;
+  insertAfterStop: number; // Index of the stop to visit it after; -1 for before the first
+  detourMeters: number; // Straight-line distance it adds to the route
+  detourMinutes: number; // Estimated travel time it adds
+  score: number; // Higher is better
+}
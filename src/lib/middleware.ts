@@ -9,6 +9,8 @@ export default auth((req) => {
     "/",
     "/auth/signin",
     "/api/auth",
+    "/share",
+    "/api/v1", // Authenticated with personal access tokens instead of a session
   ]
 
   // Check if the current path is public
@@ -10,6 +10,7 @@ import {
   generateDirectionsKey,
   generatePlacesKey,
 } from "./cache";
+import { recordApiUsage } from "@/services/logging/usageTracker";
 
 /**
  * Cache wrapper for directions API calls
@@ -26,11 +27,13 @@ export async function withDirectionsCache<T>(
   const cached = googleAPICache.get<T>(key);
   if (cached !== undefined) {
     console.log(`🗺️ DIRECTIONS (CACHED): ${route} [${mode}]`);
+    recordApiUsage({ service: "google-directions", operation: "directions", cacheHit: true });
     return cached;
   }
 
   // Call API and cache result
   console.log(`🗺️ DIRECTIONS (API): ${route} [${mode}]`);
+  recordApiUsage({ service: "google-directions", operation: "directions" });
   const result = await apiCall();
   googleAPICache.set(key, result, CACHE_TTL.DIRECTIONS);
   return result;
@@ -49,11 +52,13 @@ export async function withPlacesSearchCache<T>(
   const cached = googleAPICache.get<T>(key);
   if (cached !== undefined) {
     console.log(`📍 PLACES SEARCH (CACHED): "${query}"`);
+    recordApiUsage({ service: "google-places", operation: "places.search", cacheHit: true });
     return cached;
   }
 
   // Call API and cache result
   console.log(`📍 PLACES SEARCH (API): "${query}"`);
+  recordApiUsage({ service: "google-places", operation: "places.search" });
   const result = await apiCall();
   googleAPICache.set(key, result, CACHE_TTL.PLACES_SEARCH);
   return result;
@@ -72,11 +77,13 @@ export async function withPlaceDetailsCache<T>(
   const cached = googleAPICache.get<T>(key);
   if (cached !== undefined) {
     console.log(`🏢 PLACE DETAILS (CACHED): ${placeId}`);
+    recordApiUsage({ service: "google-places", operation: "places.details", cacheHit: true });
     return cached;
   }
 
   // Call API and cache result
   console.log(`🏢 PLACE DETAILS (API): ${placeId}`);
+  recordApiUsage({ service: "google-places", operation: "places.details" });
   const result = await apiCall();
   googleAPICache.set(key, result, CACHE_TTL.PLACES_DETAILS);
   return result;
@@ -101,6 +108,7 @@ export async function withPlacePhotosCache(
         5
       )}...${photoReference.slice(-5)}} (${maxWidth}px)`
     );
+    recordApiUsage({ service: "google-places", operation: "places.photo", cacheHit: true });
     return cached;
   }
 
@@ -111,6 +119,7 @@ export async function withPlacePhotosCache(
       5
     )}...${photoReference.slice(-5)}} (${maxWidth}px)`
   );
+  recordApiUsage({ service: "google-places", operation: "places.photo" });
   const result = await apiCall();
   googleAPICache.set(key, result, CACHE_TTL.PLACES_PHOTOS);
   return result;
@@ -58,6 +58,13 @@ interface PlaceDetails {
   };
 }
 
+// Prefers results around a point; Text Search may still return places outside the radius
+interface LocationBias {
+  lat: number;
+  lng: number;
+  radius: number; // meters, up to 50000
+}
+
 class GooglePlacesService {
   private apiKey: string;
   private baseUrl = "https://maps.googleapis.com/maps/api";
@@ -69,13 +76,23 @@ class GooglePlacesService {
     }
   }
 
-  async searchPlaces(query: string): Promise<PlaceSearchResult[]> {
+  async searchPlaces(
+    query: string,
+    bias?: LocationBias
+  ): Promise<PlaceSearchResult[]> {
+    const biasParams = bias
+      ? `&location=${bias.lat},${bias.lng}&radius=${Math.round(bias.radius)}`
+      : "";
+    const cacheQuery = bias
+      ? `${query}@${bias.lat.toFixed(3)},${bias.lng.toFixed(3)},${Math.round(bias.radius)}`
+      : query;
+
     try {
-      return await withPlacesSearchCache(query, async () => {
+      return await withPlacesSearchCache(cacheQuery, async () => {
         const response = await fetch(
           `${this.baseUrl}/place/textsearch/json?query=${encodeURIComponent(
             query
-          )}&key=${this.apiKey}`
+          )}${biasParams}&key=${this.apiKey}`
         );
 
         if (!response.ok) {
@@ -197,4 +214,4 @@ export function isHotelPlace(types: string[]): boolean {
 }
 
 export const googlePlacesService = new GooglePlacesService();
-export type { PlaceSearchResult, PlaceDetails };
+export type { PlaceSearchResult, PlaceDetails, LocationBias };
@@ -0,0 +1,52 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { LLMCompletion, LLMCompletionRequest } from "./types";
+
+// Used when there's no recording for the exact request
+export const DEFAULT_FIXTURE_KEY = "default";
+
+export function getFixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.LLM_FIXTURES_DIR || "fixtures/llm");
+}
+
+/**
+ * Identifies a request by its messages, so the same prompt replays the same response
+ */
+export function getFixtureKey(request: LLMCompletionRequest): string {
+  return createHash("sha256")
+    .update(JSON.stringify(request.messages))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Reads a recorded completion
+ * @returns The completion, or null if there's no fixture with this key
+ */
+export async function readFixture(key: string): Promise<LLMCompletion | null> {
+  try {
+    const content = await fs.readFile(path.join(getFixturesDir(), `${key}.json`), "utf8");
+    return JSON.parse(content) as LLMCompletion;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeFixture(
+  key: string,
+  request: LLMCompletionRequest,
+  completion: LLMCompletion
+): Promise<void> {
+  const dir = getFixturesDir();
+  await fs.mkdir(dir, { recursive: true });
+
+  // The request is kept alongside the response so recordings can be told apart
+  await fs.writeFile(
+    path.join(dir, `${key}.json`),
+    JSON.stringify({ ...completion, request }, null, 2) + "\n"
+  );
+}
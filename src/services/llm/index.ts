@@ -0,0 +1,88 @@
+import { MockLLMProvider, RecordingLLMProvider } from "./mockProvider";
+import { OpenAIProvider } from "./openaiProvider";
+import { LLMProvider } from "./types";
+
+export type {
+  LLMMessage,
+  LLMCompletionRequest,
+  LLMTokenUsage,
+  LLMCompletion,
+  LLMStreamChunk,
+  LLMProvider,
+} from "./types";
+
+export type LLMProviderName = "openai" | "openai-compatible" | "mock";
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openai", "openai-compatible", "mock"];
+
+let provider: LLMProvider | null = null;
+
+/**
+ * The provider selected with LLM_PROVIDER, defaulting to OpenAI
+ */
+export function getLLMProviderName(): LLMProviderName {
+  const name = (process.env.LLM_PROVIDER || "openai") as LLMProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}" (expected one of: ${PROVIDER_NAMES.join(", ")})`
+    );
+  }
+  return name;
+}
+
+/**
+ * Environment variables the selected provider can't run without
+ */
+export function getRequiredLLMEnvVars(): string[] {
+  switch (getLLMProviderName()) {
+    case "openai":
+      return ["OPENAI_API_KEY"];
+    case "openai-compatible":
+      return ["LLM_BASE_URL"];
+    case "mock":
+      return [];
+  }
+}
+
+function createProvider(): LLMProvider {
+  const missingVars = getRequiredLLMEnvVars().filter((name) => !process.env[name]);
+  if (missingVars.length > 0) {
+    throw new Error(`${missingVars.join(", ")} environment variable is required`);
+  }
+
+  switch (getLLMProviderName()) {
+    case "openai":
+      return new OpenAIProvider({
+        name: "openai",
+        model: process.env.OPENAI_MODEL || "gpt-4",
+        apiKey: process.env.OPENAI_API_KEY!,
+      });
+    case "openai-compatible":
+      return new OpenAIProvider({
+        name: "openai-compatible",
+        model: process.env.LLM_MODEL || process.env.OPENAI_MODEL || "gpt-4",
+        // Local servers usually ignore the key, but the SDK won't send a request without one
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        baseURL: process.env.LLM_BASE_URL,
+      });
+    case "mock":
+      return new MockLLMProvider();
+  }
+}
+
+/**
+ * Returns the configured LLM provider, created on first use so a missing key only
+ * fails the requests that need it
+ * With LLM_RECORD_FIXTURES=true, completions are also saved for the mock provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const selected = createProvider();
+    provider =
+      process.env.LLM_RECORD_FIXTURES === "true" && selected.name !== "mock"
+        ? new RecordingLLMProvider(selected)
+        : selected;
+    console.log(`🤖 Using LLM provider: ${provider.name} (${provider.model})`);
+  }
+  return provider;
+}
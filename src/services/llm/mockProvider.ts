@@ -0,0 +1,94 @@
+import {
+  DEFAULT_FIXTURE_KEY,
+  getFixtureKey,
+  getFixturesDir,
+  readFixture,
+  writeFixture,
+} from "./fixtures";
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMStreamChunk,
+} from "./types";
+
+// Streamed replays are cut into fixed-size pieces so runs are reproducible
+const STREAM_CHUNK_SIZE = 40;
+
+/**
+ * Replays recorded completions from the fixtures directory, without any network access
+ * Looks for a recording of the exact request first, then falls back to default.json
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly model = "mock";
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const key = getFixtureKey(request);
+    const fixture = (await readFixture(key)) || (await readFixture(DEFAULT_FIXTURE_KEY));
+
+    if (!fixture) {
+      throw new Error(
+        `No LLM fixture found in ${getFixturesDir()} (looked for ${key}.json and ${DEFAULT_FIXTURE_KEY}.json)`
+      );
+    }
+
+    console.log(`🎭 Replaying LLM fixture for request ${key}`);
+    return { content: fixture.content, usage: fixture.usage };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const { content, usage } = await this.complete(request);
+
+    for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+      yield { content: content.slice(i, i + STREAM_CHUNK_SIZE) };
+    }
+    if (usage) {
+      yield { usage };
+    }
+  }
+}
+
+/**
+ * Passes requests through to another provider and saves each completion as a fixture
+ * for MockLLMProvider to replay later
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(private provider: LLMProvider) {
+    this.name = provider.name;
+    this.model = provider.model;
+  }
+
+  private async record(request: LLMCompletionRequest, completion: LLMCompletion) {
+    const key = getFixtureKey(request);
+    try {
+      await writeFixture(key, request, completion);
+      console.log(`📼 Recorded LLM fixture ${key}.json`);
+    } catch (error) {
+      console.error("❌ Failed to record LLM fixture:", error);
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.provider.complete(request);
+    await this.record(request, completion);
+    return completion;
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const completion: LLMCompletion = { content: "" };
+
+    for await (const chunk of this.provider.stream(request)) {
+      completion.content += chunk.content || "";
+      if (chunk.usage) {
+        completion.usage = chunk.usage;
+      }
+      yield chunk;
+    }
+
+    await this.record(request, completion);
+  }
+}
@@ -0,0 +1,79 @@
+import OpenAI from "openai";
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMTokenUsage,
+} from "./types";
+
+interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  apiKey: string;
+  baseURL?: string; // Any server that speaks the OpenAI chat completions API
+}
+
+function toTokenUsage(usage?: OpenAI.CompletionUsage | null): LLMTokenUsage | undefined {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+}
+
+/**
+ * Chat completions through the OpenAI SDK, against OpenAI itself or a compatible server
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor({ name, model, apiKey, baseURL }: OpenAIProviderOptions) {
+    this.name = name;
+    this.model = model;
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  private createParams(request: LLMCompletionRequest) {
+    return {
+      model: this.model,
+      messages: request.messages,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.responseFormat === "json" && {
+        response_format: { type: "json_object" as const },
+      }),
+    };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.client.chat.completions.create(
+      this.createParams(request)
+    );
+
+    return {
+      content: completion.choices[0]?.message?.content || "",
+      usage: toTokenUsage(completion.usage),
+    };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const stream = await this.client.chat.completions.create({
+      ...this.createParams(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      const usage = toTokenUsage(chunk.usage);
+      if (content || usage) {
+        yield { content: content || undefined, usage };
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+// LLM provider types
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: "text" | "json"; // "json" asks for a single JSON object; the prompt must mention JSON
+}
+
+export interface LLMTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage?: LLMTokenUsage;
+}
+
+// A piece of a streamed completion; usage usually arrives alone in the last chunk
+export interface LLMStreamChunk {
+  content?: string;
+  usage?: LLMTokenUsage;
+}
+
+export interface LLMProvider {
+  name: string; // e.g. "openai", "openai-compatible", "mock"
+  model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk>;
+}
@@ -1,5 +1,6 @@
 import fs from "fs";
 import path from "path";
+import { recordApiUsage } from "./usageTracker";
 
 interface BaseApiLog {
   id: string;
@@ -141,6 +142,14 @@ class ApiLogger {
     const logEntry = this.formatLogEntry(log);
     this.writeToFile(logEntry);
 
+    recordApiUsage({
+      service: "openai",
+      operation: "chat.completions",
+      model: params.model,
+      promptTokens: params.tokensUsed?.promptTokens,
+      completionTokens: params.tokensUsed?.completionTokens,
+    });
+
     // Also log to console for development
     console.log(`📊 ${logEntry}`);
   }
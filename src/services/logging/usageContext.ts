@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Who an external API call is made on behalf of
+ * Server actions set it once; the usage tracker reads it wherever the call ends up,
+ * so services don't need a user parameter threaded through every layer
+ */
+export interface UsageContext {
+  userId?: string;
+  itineraryId?: string;
+}
+
+const usageContextStorage = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Runs a function with API usage attributed to the given user and itinerary
+ */
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageContextStorage.run({ ...usageContextStorage.getStore(), ...context }, fn);
+}
+
+export function getUsageContext(): UsageContext {
+  return usageContextStorage.getStore() || {};
+}
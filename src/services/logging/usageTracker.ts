@@ -0,0 +1,74 @@
+import db from "@/services/database/client";
+import { getUsageContext } from "./usageContext";
+
+export type UsageService = "openai" | "google-places" | "google-directions";
+
+export type UsageOperation =
+  | "chat.completions"
+  | "places.search"
+  | "places.details"
+  | "places.photo"
+  | "directions";
+
+// Google list prices in USD per billable request; cache hits are free
+const GOOGLE_REQUEST_COST: Record<Exclude<UsageOperation, "chat.completions">, number> = {
+  "places.search": 0.032,
+  "places.details": 0.017,
+  "places.photo": 0.007,
+  directions: 0.005,
+};
+
+// USD per 1K tokens, defaulting to gpt-4 prices; override when using another model
+const OPENAI_PROMPT_COST_PER_1K = Number(process.env.USAGE_COST_OPENAI_PROMPT_PER_1K || 0.03);
+const OPENAI_COMPLETION_COST_PER_1K = Number(process.env.USAGE_COST_OPENAI_COMPLETION_PER_1K || 0.06);
+
+interface UsageRecord {
+  service: UsageService;
+  operation: UsageOperation;
+  cacheHit?: boolean;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+function estimateCost(record: UsageRecord): number {
+  if (record.cacheHit) return 0;
+  if (record.operation === "chat.completions") {
+    return (
+      ((record.promptTokens || 0) / 1000) * OPENAI_PROMPT_COST_PER_1K +
+      ((record.completionTokens || 0) / 1000) * OPENAI_COMPLETION_COST_PER_1K
+    );
+  }
+  return GOOGLE_REQUEST_COST[record.operation];
+}
+
+/**
+ * Stores one external API call, attributed to the current usage context
+ * Writes happen in the background and failures are only logged, so tracking never breaks a request
+ */
+export function recordApiUsage(record: UsageRecord): void {
+  const { userId, itineraryId } = getUsageContext();
+  const totalTokens =
+    record.promptTokens !== undefined || record.completionTokens !== undefined
+      ? (record.promptTokens || 0) + (record.completionTokens || 0)
+      : null;
+
+  db.apiUsage
+    .create({
+      data: {
+        userId: userId || null,
+        itineraryId: itineraryId || null,
+        service: record.service,
+        operation: record.operation,
+        model: record.model || null,
+        cacheHit: !!record.cacheHit,
+        promptTokens: record.promptTokens ?? null,
+        completionTokens: record.completionTokens ?? null,
+        totalTokens,
+        estimatedCost: estimateCost(record),
+      },
+    })
+    .catch((error) => {
+      console.error("❌ Failed to record API usage:", error);
+    });
+}
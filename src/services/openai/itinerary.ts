@@ -1,15 +1,46 @@
-import OpenAI from "openai";
-import { createItineraryPrompt } from "@/features/generateLLM/promptBuilder";
+import {
+  createItineraryPrompt,
+  createItineraryJsonPrompt,
+  createDayRegenerationPrompt,
+  createDayRegenerationJsonPrompt,
+  createPlaceSuggestionsPrompt,
+  createAssistantPrompt,
+  DayRegenerationPromptParams,
+} from "@/features/generateLLM/promptBuilder";
 import { parseItineraryResponse } from "@/features/generateLLM/responseParser";
-import { enrichPlacesWithGoogleData } from "@/features/generateLLM/enrichment";
-import { GeneratedItinerary } from "@/features/generateLLM/types";
+import {
+  parseItineraryJson,
+  parseItineraryDayJson,
+  parsePlaceSuggestionsJson,
+  parseAssistantResponseJson,
+} from "@/features/generateLLM/jsonParser";
+import { createStreamingItineraryParser } from "@/features/generateLLM/streamParser";
+import {
+  enrichPlacesWithGoogleData,
+  enrichDayWithGoogleData,
+  enrichPlace,
+} from "@/features/generateLLM/enrichment";
+import {
+  GeneratedItinerary,
+  ItineraryDay,
+  ItineraryGenerationEvent,
+} from "@/features/generateLLM/types";
+import { applyItineraryOperations } from "@/features/assistant/operations";
+import { createEditorOutline } from "@/features/assistant/outline";
+import type {
+  AssistantMessage,
+  AssistantPlan,
+  ItineraryOperation,
+} from "@/features/assistant/types";
+import type { EditorData } from "@/features/editor/types";
 import { apiLogger } from "@/services/logging/apiLogger";
+import {
+  getLLMProvider,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMTokenUsage,
+} from "@/services/llm";
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY environment variable is required");
-}
-
-const MODEL_NAME = process.env.OPENAI_MODEL || "gpt-4";
 const MAX_TOKENS = process.env.OPENAI_MAX_TOKENS
   ? parseInt(process.env.OPENAI_MAX_TOKENS)
   : undefined;
@@ -17,9 +48,11 @@ const TEMPERATURE = process.env.OPENAI_TEMPERATURE
   ? parseFloat(process.env.OPENAI_TEMPERATURE)
   : undefined;
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// "json" asks for an object matching llmItinerarySchema instead of the free-text format
+const OUTPUT_FORMAT = process.env.LLM_OUTPUT_FORMAT === "json" ? "json" : "text";
+
+// Attempts at a valid JSON itinerary before falling back to the text format
+const MAX_JSON_ATTEMPTS = 2;
 
 export interface ItineraryGenerationRequest {
   destination: string;
@@ -30,16 +63,24 @@ export interface ItineraryGenerationRequest {
   additionalNotes?: string;
 }
 
+// Context for regenerating one day; the date falls back to today when the day has none
+export type DayRegenerationRequest = DayRegenerationPromptParams;
+
 // Re-export types for backward compatibility
 export type {
   PlaceLocation,
   ItineraryDay,
   GeneratedItinerary,
+  ItineraryGenerationEvent,
 } from "@/features/generateLLM/types";
 
-export async function generateItinerary(
-  request: ItineraryGenerationRequest
-): Promise<GeneratedItinerary> {
+function createPrompt(
+  request: ItineraryGenerationRequest,
+  format: "text" | "json" = "text"
+): {
+  prompt: string;
+  totalDays: number;
+} {
   const {
     destination,
     startDate,
@@ -53,8 +94,8 @@ export async function generateItinerary(
     (new Date(endDate).getTime() - new Date(startDate).getTime()) / 86400000 +
     1;
 
-  // Create the prompt for OpenAI
-  const prompt = createItineraryPrompt({
+  // Create the prompt for the model
+  const promptParams = {
     destination,
     startDate,
     endDate,
@@ -62,88 +103,478 @@ export async function generateItinerary(
     interests,
     travelStyle,
     additionalNotes,
-  });
+  };
+  const prompt =
+    format === "json"
+      ? createItineraryJsonPrompt(promptParams)
+      : createItineraryPrompt(promptParams);
 
-  console.log("prompt", prompt);
+  return { prompt, totalDays };
+}
+
+function createCompletionRequest(
+  prompt: string,
+  format: "text" | "json" = "text"
+): LLMCompletionRequest {
+  return {
+    messages: [
+      {
+        role: "system",
+        content:
+          "You are a professional travel planner. Create detailed, practical itineraries with specific places, realistic timing, and helpful descriptions. Always include approximate latitude and longitude coordinates for each place.",
+      },
+      {
+        role: "user",
+        content: prompt,
+      },
+    ],
+    temperature: TEMPERATURE,
+    maxTokens: MAX_TOKENS,
+    responseFormat: format,
+  };
+}
+
+/**
+ * Runs a single completion and logs it, whether it succeeds or not
+ */
+async function completeAndLog(
+  provider: LLMProvider,
+  completionRequest: LLMCompletionRequest
+): Promise<string> {
+  const prompt = completionRequest.messages[completionRequest.messages.length - 1].content;
   const startTime = Date.now();
 
   try {
-    const completionParams: any = {
-      model: MODEL_NAME,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a professional travel planner. Create detailed, practical itineraries with specific places, realistic timing, and helpful descriptions. Always include approximate latitude and longitude coordinates for each place.",
-        },
+    const completion = await provider.complete(completionRequest);
+
+    const response = completion.content;
+    const duration = Date.now() - startTime;
+
+    console.log("response", response);
+    if (!response) {
+      throw new Error(`No response from ${provider.name}`);
+    }
+
+    // Log successful LLM call
+    apiLogger.logOpenAICall({
+      model: provider.model,
+      prompt,
+      response,
+      tokensUsed: completion.usage,
+      duration,
+      status: "success",
+    });
+
+    return response;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    // Log failed LLM call
+    apiLogger.logOpenAICall({
+      model: provider.model,
+      prompt,
+      duration,
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw error;
+  }
+}
+
+async function generateTextItinerary(
+  provider: LLMProvider,
+  request: ItineraryGenerationRequest
+): Promise<GeneratedItinerary> {
+  const { prompt, totalDays } = createPrompt(request, "text");
+  console.log("prompt", prompt);
+
+  const response = await completeAndLog(provider, createCompletionRequest(prompt, "text"));
+
+  // Parse the model's response into structured data
+  return parseItineraryResponse(
+    response,
+    request.destination,
+    request.startDate,
+    totalDays
+  );
+}
+
+/**
+ * Completes in JSON mode, sending schema violations back to the model to correct
+ * @returns The parsed value, or null if the model never produced a valid one
+ */
+async function completeValidJson<T>(
+  provider: LLMProvider,
+  completionRequest: LLMCompletionRequest,
+  parse: (response: string) => { success: true; value: T } | { success: false; error: string }
+): Promise<T | null> {
+  for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+    const response = await completeAndLog(provider, completionRequest);
+    const result = parse(response);
+    if (result.success) {
+      return result.value;
+    }
+
+    console.warn(
+      `⚠️ JSON response failed validation (attempt ${attempt}/${MAX_JSON_ATTEMPTS}):`,
+      result.error
+    );
+    completionRequest.messages.push(
+      { role: "assistant", content: response },
+      {
+        role: "user",
+        content: `That response doesn't match the required format: ${result.error}. Reply with the corrected JSON object only.`,
+      }
+    );
+  }
+
+  return null;
+}
+
+async function generateJsonItinerary(
+  provider: LLMProvider,
+  request: ItineraryGenerationRequest
+): Promise<GeneratedItinerary | null> {
+  const { prompt, totalDays } = createPrompt(request, "json");
+  console.log("prompt", prompt);
+
+  return completeValidJson(provider, createCompletionRequest(prompt, "json"), (response) => {
+    const result = parseItineraryJson(
+      response,
+      request.destination,
+      request.startDate,
+      totalDays
+    );
+    return result.success ? { success: true, value: result.itinerary } : result;
+  });
+}
+
+export async function generateItinerary(
+  request: ItineraryGenerationRequest
+): Promise<GeneratedItinerary> {
+  const provider = getLLMProvider();
+
+  try {
+    let parsedItinerary =
+      OUTPUT_FORMAT === "json"
+        ? await generateJsonItinerary(provider, request)
+        : null;
+
+    if (!parsedItinerary) {
+      if (OUTPUT_FORMAT === "json") {
+        console.warn("⚠️ No valid JSON itinerary, falling back to the text format");
+      }
+      parsedItinerary = await generateTextItinerary(provider, request);
+    }
+    console.log("parsedItinerary", JSON.stringify(parsedItinerary, null, 2));
+
+    // Enrich places with Google Places API data
+    const enrichedItinerary = await enrichPlacesWithGoogleData(parsedItinerary);
+    console.log("enrichedItinerary", enrichedItinerary);
+
+    return enrichedItinerary;
+  } catch (error) {
+    console.error(`Error generating itinerary with ${provider.name}:`, error);
+    throw new Error("Failed to generate itinerary");
+  }
+}
+
+/**
+ * Plans one day again with the rest of the trip as context, then enriches its places
+ * Uses the same output format as generateItinerary, falling back to text
+ * @returns The new day, numbered and dated like the one it replaces
+ */
+export async function regenerateItineraryDay(
+  request: DayRegenerationRequest
+): Promise<ItineraryDay> {
+  const provider = getLLMProvider();
+  const { dayNumber } = request;
+  const date = request.date || new Date().toISOString().split("T")[0];
+  const region = request.region || "";
+
+  try {
+    let day: ItineraryDay | null = null;
+
+    if (OUTPUT_FORMAT === "json") {
+      const prompt = createDayRegenerationJsonPrompt(request);
+      console.log("prompt", prompt);
+      day = await completeValidJson(
+        provider,
+        createCompletionRequest(prompt, "json"),
+        (response) => {
+          const result = parseItineraryDayJson(response, dayNumber, date, region);
+          return result.success ? { success: true, value: result.day } : result;
+        }
+      );
+      if (!day) {
+        console.warn("⚠️ No valid JSON day, falling back to the text format");
+      }
+    }
+
+    if (!day) {
+      const prompt = createDayRegenerationPrompt(request);
+      console.log("prompt", prompt);
+      const response = await completeAndLog(
+        provider,
+        createCompletionRequest(prompt, "text")
+      );
+      const [parsedDay] = parseItineraryResponse(response, request.tripTitle, date, 1).days;
+      day = {
+        ...parsedDay,
+        dayNumber,
+        date,
+        region: parsedDay.region || region,
+      };
+    }
+
+    const enrichedDay = await enrichDayWithGoogleData(day);
+    console.log("regeneratedDay", enrichedDay);
+
+    return enrichedDay;
+  } catch (error) {
+    console.error(`Error regenerating day ${dayNumber} with ${provider.name}:`, error);
+    throw new Error("Failed to regenerate day");
+  }
+}
+
+/**
+ * Asks the model for places worth adding to a day, best fit first
+ * Always uses JSON mode, since the answer is just a list of names
+ * @returns Candidate names with the reason they were picked, empty if the model gave none
+ */
+export async function suggestPlaceCandidates(
+  params: Parameters<typeof createPlaceSuggestionsPrompt>[0]
+): Promise<{ name: string; reason: string }[]> {
+  const provider = getLLMProvider();
+  const prompt = createPlaceSuggestionsPrompt(params);
+  console.log("prompt", prompt);
+
+  const suggestions = await completeValidJson(
+    provider,
+    createCompletionRequest(prompt, "json"),
+    (response) => {
+      const result = parsePlaceSuggestionsJson(response);
+      return result.success ? { success: true, value: result.suggestions } : result;
+    }
+  );
+
+  return suggestions || [];
+}
+
+export interface ItineraryEditRequest {
+  editorData: EditorData;
+  instruction: string;
+  history: AssistantMessage[];
+}
+
+/**
+ * Adds Google Places details to the places an assistant plan adds or renames,
+ * searching in the region of the day each place ends up in
+ */
+async function enrichPlanPlaces(
+  editorData: EditorData,
+  operations: ItineraryOperation[]
+): Promise<void> {
+  const applied = applyItineraryOperations(editorData, operations);
+  if (!applied.success) return;
+
+  const blocks = applied.editorData.blocks;
+  const originalIds = new Set(editorData.blocks.map((block) => block.id));
+  const targets = operations.flatMap<{ data: Record<string, unknown>; blockId: string }>(
+    (operation, operationIndex) => {
+      if (operation.op === "insert" && operation.blockType === "place") {
+        const inserted = applied.insertedBlocks.find(
+          (item) => item.operationIndex === operationIndex
+        );
+        return inserted ? [{ data: operation.data, blockId: inserted.blockId }] : [];
+      }
+      if (
+        operation.op === "update" &&
+        typeof operation.data.name === "string" &&
+        operation.data.placeId === undefined &&
+        originalIds.has(operation.blockId)
+      ) {
+        return [{ data: operation.data, blockId: operation.blockId }];
+      }
+      return [];
+    }
+  );
+
+  await Promise.all(
+    targets.map(async ({ data: operationData, blockId }) => {
+      const index = blocks.findIndex((block) => block.id === blockId);
+      const block = blocks[index];
+      if (!block || block.type !== "place") return;
+
+      const data = block.data as Record<string, unknown>;
+      const day = blocks
+        .slice(0, index)
+        .reverse()
+        .find((item) => item.type === "day");
+      const hasCoordinates = typeof data.lat === "number" && typeof data.lng === "number";
+      const enriched = await enrichPlace(
         {
-          role: "user",
-          content: prompt,
+          name: String(data.name),
+          lat: hasCoordinates ? (data.lat as number) : 0,
+          lng: hasCoordinates ? (data.lng as number) : 0,
+          hasCoordinates,
         },
-      ],
-    };
+        String((day?.data as Record<string, unknown> | undefined)?.region || "")
+      );
+      if (!enriched.placeId) return;
+
+      // Written into the operation, so the client applies the same details
+      Object.assign(operationData, {
+        lat: enriched.lat,
+        lng: enriched.lng,
+        placeId: enriched.placeId,
+        address: enriched.address || "",
+        rating: enriched.rating || 0,
+        photoReferences: enriched.photoReferences || [],
+        thumbnailUrl: enriched.thumbnailUrl || "",
+        status: "found",
+      });
+    })
+  );
+}
+
+/**
+ * Turns a chat instruction into operations on the itinerary
+ * Always uses JSON mode; plans that don't apply cleanly to the current itinerary are
+ * sent back to the model to correct, like schema violations
+ * @returns The reply and validated operations, not yet applied
+ */
+export async function planItineraryEdits(
+  request: ItineraryEditRequest
+): Promise<AssistantPlan> {
+  const provider = getLLMProvider();
+  const { editorData, instruction } = request;
+  const prompt = createAssistantPrompt({
+    outline: createEditorOutline(editorData),
+    instruction,
+  });
+  console.log("prompt", prompt);
+
+  // Earlier turns go between the system message and the new instruction
+  const completionRequest = createCompletionRequest(prompt, "json");
+  completionRequest.messages.splice(1, 0, ...request.history);
+
+  const plan = await completeValidJson(provider, completionRequest, (response) => {
+    const result = parseAssistantResponseJson(response);
+    if (!result.success) return result;
+
+    const applied = applyItineraryOperations(editorData, result.response.operations);
+    return applied.success
+      ? { success: true, value: { ...result.response, changes: applied.changes } }
+      : applied;
+  });
+
+  if (!plan) {
+    throw new Error("No valid edit plan from the model");
+  }
 
-    if (TEMPERATURE !== undefined) {
-      completionParams.temperature = TEMPERATURE;
+  await enrichPlanPlaces(editorData, plan.operations);
+  return plan;
+}
+
+/**
+ * Generates an itinerary like generateItinerary, but streams the completion
+ * Each day is reported as soon as it's parsed and starts enriching while the model
+ * is still writing the rest of the trip. Always uses the text format, since its days
+ * can be parsed line by line as they arrive
+ */
+export async function streamItinerary(
+  request: ItineraryGenerationRequest,
+  onEvent: (event: ItineraryGenerationEvent) => void
+): Promise<GeneratedItinerary> {
+  const { destination, startDate } = request;
+  const { prompt, totalDays } = createPrompt(request);
+  const parser = createStreamingItineraryParser(destination, startDate, totalDays);
+  const enrichedDays: Promise<ItineraryDay>[] = [];
+  const provider = getLLMProvider();
+  let titleSent = false;
+
+  const startDays = (title: string, days: ItineraryDay[]) => {
+    if (!titleSent) {
+      onEvent({ type: "title", title });
+      titleSent = true;
     }
 
-    if (MAX_TOKENS !== undefined) {
-      completionParams.max_tokens = MAX_TOKENS;
+    for (const day of days) {
+      const dayIndex = enrichedDays.length;
+      onEvent({ type: "day", dayIndex, day });
+      enrichedDays.push(
+        enrichDayWithGoogleData(day, (placeIndex, place) =>
+          onEvent({ type: "place", dayIndex, placeIndex, place })
+        )
+      );
     }
+  };
 
-    const completion = await openai.chat.completions.create(completionParams);
+  console.log("prompt", prompt);
+  const startTime = Date.now();
+
+  try {
+    let usage: LLMTokenUsage | undefined;
+    for await (const chunk of provider.stream(createCompletionRequest(prompt))) {
+      if (chunk.content) {
+        const { title, days } = parser.push(chunk.content);
+        if (days.length > 0) {
+          startDays(title, days);
+        }
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
 
-    const response = completion.choices[0]?.message?.content;
+    const response = parser.getResponse();
     const duration = Date.now() - startTime;
 
     console.log("response", response);
     if (!response) {
-      throw new Error("No response from OpenAI");
+      throw new Error(`No response from ${provider.name}`);
     }
 
-    // Log successful OpenAI call
+    // Log successful LLM call
     apiLogger.logOpenAICall({
-      model: MODEL_NAME,
+      model: provider.model,
       prompt,
       response,
-      tokensUsed: completion.usage
-        ? {
-            promptTokens: completion.usage.prompt_tokens,
-            completionTokens: completion.usage.completion_tokens,
-            totalTokens: completion.usage.total_tokens,
-          }
-        : undefined,
+      tokensUsed: usage,
       duration,
       status: "success",
     });
 
-    // Parse the OpenAI response into structured data
-    const parsedItinerary = parseItineraryResponse(
-      response,
-      destination,
-      startDate,
-      totalDays
-    );
-    console.log("parsedItinerary", JSON.stringify(parsedItinerary, null, 2));
+    // The last day (and any the model skipped) only completes with the full response
+    const { itinerary, remainingDays } = parser.finish();
+    startDays(itinerary.title, remainingDays);
 
-    // Enrich places with Google Places API data
-    const enrichedItinerary = await enrichPlacesWithGoogleData(parsedItinerary);
+    const enrichedItinerary: GeneratedItinerary = {
+      ...itinerary,
+      days: await Promise.all(enrichedDays),
+    };
     console.log("enrichedItinerary", enrichedItinerary);
 
     return enrichedItinerary;
   } catch (error) {
     const duration = Date.now() - startTime;
 
-    // Log failed OpenAI call
+    // Days already being enriched still send events, so let them finish before the caller
+    // reports the error and closes the stream
+    await Promise.allSettled(enrichedDays);
+
+    // Log failed LLM call
     apiLogger.logOpenAICall({
-      model: MODEL_NAME,
+      model: provider.model,
       prompt,
       duration,
       status: "error",
       error: error instanceof Error ? error.message : String(error),
     });
 
-    console.error("Error generating itinerary with OpenAI:", error);
+    console.error(`Error streaming itinerary from ${provider.name}:`, error);
     throw new Error("Failed to generate itinerary");
   }
 }
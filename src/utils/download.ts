@@ -0,0 +1,21 @@
+/**
+ * Trigger a browser download of text content as a file
+ */
+export function downloadTextFile(
+  content: string,
+  mimeType: string,
+  filename: string
+): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}